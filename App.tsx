@@ -1,7 +1,7 @@
 
 
-import React, { useState, useEffect, useRef } from 'react';
-import { LayoutDashboard, Plus, LogOut, Building2, TrendingUp, List, DollarSign, Banknote, Moon, Sun, Globe, Loader2, PieChart } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { LayoutDashboard, Plus, LogOut, Building2, TrendingUp, List, DollarSign, Banknote, Moon, Sun, Globe, Loader2, PieChart, AlertTriangle, Download, Users, Settings, Receipt, Truck, Landmark, ArrowLeftRight } from 'lucide-react';
 import { LoginScreen } from './components/LoginScreen';
 import { Dashboard } from './components/Dashboard';
 import { ExpenseForm } from './components/ExpenseForm';
@@ -10,21 +10,50 @@ import { IncomeForm } from './components/IncomeForm';
 import { IncomeList } from './components/IncomeList';
 import { BankAccountList } from './components/BankAccountList';
 import { BankAccountForm } from './components/BankAccountForm';
+import { BankTransferForm } from './components/BankTransferForm';
 import { ReportView } from './components/ReportView';
-import { Expense, Income, BankAccount } from './types';
+import { RegistryView, RegistryTab } from './components/RegistryView';
+import { UnitForm } from './components/UnitForm';
+import { PersonForm } from './components/PersonForm';
+import { SupplierList } from './components/SupplierList';
+import { SupplierForm } from './components/SupplierForm';
+import { FiscalView, FiscalTab } from './components/FiscalView';
+import { CondoSettingsForm } from './components/CondoSettingsForm';
+import { QuotasView, QuotasTab } from './components/QuotasView';
+import { BankView, BankTab } from './components/BankView';
+import { DEFAULT_SETTINGS, normalizeSettings } from './services/settingsService';
+import { isInterestCharge } from './services/interestService';
+import { StatementBalance } from './services/camtService';
+import { MatchedSddReturn } from './services/sddService';
+import { getNetToPay } from './services/withholdingService';
+import { Expense, Income, BankAccount, CondoData, Unit, Person, MillesimiTable, Budget, Installment, CondoSettings, ReminderLetter, Supplier, F24Payment, BankTransaction, BankStatementMapping, BankReconciliation, SddMandate, BankTransfer } from './types';
 import { generateId } from './utils';
 import { LanguageProvider, useLanguage } from './i18n/LanguageContext';
 import { Language } from './i18n/translations';
 import { get, set } from 'idb-keyval';
+import { CURRENT_SCHEMA_VERSION, MigrationResult, RawCondoData, migrateCondoData } from './services/migrations';
 
 // Default data is now empty to prevent example data on restart
 const defaultExpenses: Expense[] = [];
 const defaultIncomes: Income[] = [];
 const defaultBankAccounts: BankAccount[] = [];
 
-const getStorageKey = (type: 'expenses' | 'incomes' | 'bankAccounts', name: string) => `condo_${type}_${name.replace(/\s/g, '_')}`;
+const getStorageKey = (type: keyof CondoData | 'schemaVersion' | 'settings', name: string) => `condo_${type}_${name.replace(/\s/g, '_')}`;
+
+// Reads a stored collection, falling back to the legacy LocalStorage copy if IndexedDB is empty
+const readStoredCollection = async (key: string): Promise<unknown> => {
+  const stored = await get(key);
+  if (stored !== undefined && stored !== null) return stored;
+  try {
+    const local = localStorage.getItem(key);
+    if (local) return JSON.parse(local);
+  } catch (e) {
+    console.error("LocalStorage migration error", key, e);
+  }
+  return undefined;
+};
 
-type View = 'dashboard' | 'add' | 'list' | 'addIncome' | 'listIncome' | 'listBankAccounts' | 'addBankAccount' | 'reports';
+type View = 'dashboard' | 'add' | 'list' | 'addIncome' | 'listIncome' | 'listBankAccounts' | 'addBankAccount' | 'addBankTransfer' | 'reports' | 'registry' | 'addUnit' | 'addPerson' | 'settings' | 'quotas' | 'suppliers' | 'addSupplier' | 'fiscal' | 'bank';
 
 interface NavButtonProps {
   active?: boolean;
@@ -67,6 +96,8 @@ const InnerApp: React.FC = () => {
   const [darkMode, setDarkMode] = useState(false);
   const [showLangMenu, setShowLangMenu] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [isDataReady, setIsDataReady] = useState(false);
+  const [migrationError, setMigrationError] = useState<{ message: string, raw: RawCondoData } | null>(null);
   const langMenuRef = useRef<HTMLDivElement>(null);
   
   // Expenses State
@@ -80,6 +111,30 @@ const InnerApp: React.FC = () => {
   // Bank Accounts State
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
   const [editingBankAccount, setEditingBankAccount] = useState<BankAccount | null>(null);
+  const [editingBankTransfer, setEditingBankTransfer] = useState<BankTransfer | null>(null);
+
+  // Registry (anagrafe) State
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [editingUnit, setEditingUnit] = useState<Unit | null>(null);
+  const [persons, setPersons] = useState<Person[]>([]);
+  const [editingPerson, setEditingPerson] = useState<Person | null>(null);
+  const [millesimiTables, setMillesimiTables] = useState<MillesimiTable[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [installments, setInstallments] = useState<Installment[]>([]);
+  const [reminders, setReminders] = useState<ReminderLetter[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [f24Payments, setF24Payments] = useState<F24Payment[]>([]);
+  const [bankTransactions, setBankTransactions] = useState<BankTransaction[]>([]);
+  const [bankReconciliations, setBankReconciliations] = useState<BankReconciliation[]>([]);
+  const [sddMandates, setSddMandates] = useState<SddMandate[]>([]);
+  const [bankTransfers, setBankTransfers] = useState<BankTransfer[]>([]);
+  const [settings, setSettings] = useState<CondoSettings>(DEFAULT_SETTINGS);
+  const [registryTab, setRegistryTab] = useState<RegistryTab>('units');
+  const [quotasTab, setQuotasTab] = useState<QuotasTab>('ledger');
+  const [fiscalTab, setFiscalTab] = useState<FiscalTab>('f24');
+  const [bankTab, setBankTab] = useState<BankTab>('transactions');
+  const [bankViewAccountId, setBankViewAccountId] = useState('');
 
   // Click outside listener for lang menu
   useEffect(() => {
@@ -141,61 +196,104 @@ const InnerApp: React.FC = () => {
   // Load data from IndexedDB when condoName changes
   useEffect(() => {
     const loadData = async () => {
+      setIsDataReady(false);
+      setMigrationError(null);
       if (!condoName) {
         setExpenses([]);
         setIncomes([]);
         setBankAccounts([]);
+        setUnits([]);
+        setPersons([]);
+        setMillesimiTables([]);
+        setBudgets([]);
+        setInstallments([]);
+        setReminders([]);
+        setSuppliers([]);
+        setF24Payments([]);
+        setBankTransactions([]);
+        setBankReconciliations([]);
+        setSddMandates([]);
+        setBankTransfers([]);
+        setSettings(DEFAULT_SETTINGS);
         return;
       }
 
       setIsLoading(true);
       try {
-        // Load Expenses
-        const expKey = getStorageKey('expenses', condoName);
-        let loadedExpenses = await get(expKey);
-        
-        // Migration from LocalStorage if IndexedDB is empty
-        if (!loadedExpenses) {
-          const local = localStorage.getItem(expKey);
-          if (local) {
-            try {
-              loadedExpenses = JSON.parse(local);
-              await set(expKey, loadedExpenses); // Save to IndexedDB
-            } catch (e) {
-              console.error("Migration error expenses", e);
-            }
-          }
+        const raw: RawCondoData = {
+          expenses: await readStoredCollection(getStorageKey('expenses', condoName)),
+          incomes: await readStoredCollection(getStorageKey('incomes', condoName)),
+          bankAccounts: await readStoredCollection(getStorageKey('bankAccounts', condoName)),
+          units: await readStoredCollection(getStorageKey('units', condoName)),
+          persons: await readStoredCollection(getStorageKey('persons', condoName)),
+          millesimiTables: await readStoredCollection(getStorageKey('millesimiTables', condoName)),
+          budgets: await readStoredCollection(getStorageKey('budgets', condoName)),
+          installments: await readStoredCollection(getStorageKey('installments', condoName)),
+          reminders: await readStoredCollection(getStorageKey('reminders', condoName)),
+          suppliers: await readStoredCollection(getStorageKey('suppliers', condoName)),
+          f24Payments: await readStoredCollection(getStorageKey('f24Payments', condoName)),
+          bankTransactions: await readStoredCollection(getStorageKey('bankTransactions', condoName)),
+          bankReconciliations: await readStoredCollection(getStorageKey('bankReconciliations', condoName)),
+          sddMandates: await readStoredCollection(getStorageKey('sddMandates', condoName)),
+          bankTransfers: await readStoredCollection(getStorageKey('bankTransfers', condoName)),
+        };
+
+        const versionKey = getStorageKey('schemaVersion', condoName);
+        const storedVersion = await get(versionKey);
+        const hasData = Object.values(raw).some(value => value !== undefined && value !== null);
+        // Un condominio senza dati salvati nasce direttamente all'ultima versione dello schema
+        const fromVersion = typeof storedVersion === 'number' ? storedVersion : (hasData ? 0 : CURRENT_SCHEMA_VERSION);
+
+        let result: MigrationResult;
+        try {
+          result = migrateCondoData(raw, fromVersion);
+        } catch (e) {
+          // Failure path: nothing is written, the stored data stays as it was
+          console.error("Migration error", e);
+          setMigrationError({ message: (e as Error).message, raw });
+          return;
         }
-        setExpenses(loadedExpenses || []);
-
-        // Load Incomes
-        const incKey = getStorageKey('incomes', condoName);
-        let loadedIncomes = await get(incKey);
-        if (!loadedIncomes) {
-          const local = localStorage.getItem(incKey);
-          if (local) {
-             try {
-               loadedIncomes = JSON.parse(local);
-               await set(incKey, loadedIncomes);
-             } catch (e) {}
-          }
+
+        if (result.applied.length > 0) {
+          // Keep an untouched copy of the pre-migration data before overwriting it
+          await set(`condo_premigration_v${fromVersion}_${condoName.replace(/\s/g, '_')}`, raw);
+          await set(getStorageKey('expenses', condoName), result.data.expenses);
+          await set(getStorageKey('incomes', condoName), result.data.incomes);
+          await set(getStorageKey('bankAccounts', condoName), result.data.bankAccounts);
+          await set(getStorageKey('units', condoName), result.data.units);
+          await set(getStorageKey('persons', condoName), result.data.persons);
+          await set(getStorageKey('millesimiTables', condoName), result.data.millesimiTables);
+          await set(getStorageKey('budgets', condoName), result.data.budgets);
+          await set(getStorageKey('installments', condoName), result.data.installments);
+          await set(getStorageKey('reminders', condoName), result.data.reminders);
+          await set(getStorageKey('suppliers', condoName), result.data.suppliers);
+          await set(getStorageKey('f24Payments', condoName), result.data.f24Payments);
+          await set(getStorageKey('bankTransactions', condoName), result.data.bankTransactions);
+          await set(getStorageKey('bankReconciliations', condoName), result.data.bankReconciliations);
+          await set(getStorageKey('sddMandates', condoName), result.data.sddMandates);
+          await set(getStorageKey('bankTransfers', condoName), result.data.bankTransfers);
         }
-        setIncomes(loadedIncomes || []);
-
-        // Load Bank Accounts
-        const bankKey = getStorageKey('bankAccounts', condoName);
-        let loadedAccounts = await get(bankKey);
-        if (!loadedAccounts) {
-           const local = localStorage.getItem(bankKey);
-           if (local) {
-              try {
-                loadedAccounts = JSON.parse(local);
-                await set(bankKey, loadedAccounts);
-              } catch (e) {}
-           }
+        if (storedVersion !== result.toVersion) {
+          await set(versionKey, result.toVersion);
         }
-        setBankAccounts(loadedAccounts || []);
 
+        setExpenses(result.data.expenses);
+        setIncomes(result.data.incomes);
+        setBankAccounts(result.data.bankAccounts);
+        setUnits(result.data.units);
+        setPersons(result.data.persons);
+        setMillesimiTables(result.data.millesimiTables);
+        setBudgets(result.data.budgets);
+        setInstallments(result.data.installments);
+        setReminders(result.data.reminders);
+        setSuppliers(result.data.suppliers);
+        setF24Payments(result.data.f24Payments);
+        setBankTransactions(result.data.bankTransactions);
+        setBankReconciliations(result.data.bankReconciliations);
+        setSddMandates(result.data.sddMandates);
+        setBankTransfers(result.data.bankTransfers);
+        setSettings(normalizeSettings(await get(getStorageKey('settings', condoName))));
+        setIsDataReady(true);
       } catch (e) {
         console.error("Error loading data", e);
       } finally {
@@ -206,24 +304,120 @@ const InnerApp: React.FC = () => {
     loadData();
   }, [condoName]);
 
-  // Save data to IndexedDB whenever it changes
+  // Save data to IndexedDB whenever it changes (only once loading succeeded, so a failed
+  // load or migration never overwrites what is stored)
   useEffect(() => {
-    if (condoName) {
+    if (condoName && isDataReady) {
       set(getStorageKey('expenses', condoName), expenses).catch(e => console.error("Error saving expenses", e));
     }
-  }, [expenses, condoName]);
+  }, [expenses, condoName, isDataReady]);
 
   useEffect(() => {
-    if (condoName) {
+    if (condoName && isDataReady) {
       set(getStorageKey('incomes', condoName), incomes).catch(e => console.error("Error saving incomes", e));
     }
-  }, [incomes, condoName]);
+  }, [incomes, condoName, isDataReady]);
 
   useEffect(() => {
-    if (condoName) {
+    if (condoName && isDataReady) {
       set(getStorageKey('bankAccounts', condoName), bankAccounts).catch(e => console.error("Error saving bank accounts", e));
     }
-  }, [bankAccounts, condoName]);
+  }, [bankAccounts, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('units', condoName), units).catch(e => console.error("Error saving units", e));
+    }
+  }, [units, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('persons', condoName), persons).catch(e => console.error("Error saving persons", e));
+    }
+  }, [persons, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('millesimiTables', condoName), millesimiTables).catch(e => console.error("Error saving millesimi tables", e));
+    }
+  }, [millesimiTables, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('budgets', condoName), budgets).catch(e => console.error("Error saving budgets", e));
+    }
+  }, [budgets, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('installments', condoName), installments).catch(e => console.error("Error saving installments", e));
+    }
+  }, [installments, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('reminders', condoName), reminders).catch(e => console.error("Error saving reminders", e));
+    }
+  }, [reminders, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('suppliers', condoName), suppliers).catch(e => console.error("Error saving suppliers", e));
+    }
+  }, [suppliers, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('f24Payments', condoName), f24Payments).catch(e => console.error("Error saving F24 payments", e));
+    }
+  }, [f24Payments, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('bankTransactions', condoName), bankTransactions).catch(e => console.error("Error saving bank transactions", e));
+    }
+  }, [bankTransactions, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('bankReconciliations', condoName), bankReconciliations).catch(e => console.error("Error saving bank reconciliations", e));
+    }
+  }, [bankReconciliations, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('sddMandates', condoName), sddMandates).catch(e => console.error("Error saving SDD mandates", e));
+    }
+  }, [sddMandates, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('bankTransfers', condoName), bankTransfers).catch(e => console.error("Error saving bank transfers", e));
+    }
+  }, [bankTransfers, condoName, isDataReady]);
+
+  useEffect(() => {
+    if (condoName && isDataReady) {
+      set(getStorageKey('settings', condoName), settings).catch(e => console.error("Error saving settings", e));
+    }
+  }, [settings, condoName, isDataReady]);
+
+  const condoData = useMemo<CondoData>(() => ({
+    expenses, incomes, bankAccounts, units, persons, millesimiTables, budgets, installments, reminders, suppliers, f24Payments, bankTransactions, bankReconciliations, sddMandates, bankTransfers
+  }), [expenses, incomes, bankAccounts, units, persons, millesimiTables, budgets, installments, reminders, suppliers, f24Payments, bankTransactions, bankReconciliations, sddMandates, bankTransfers]);
+
+  const handleDownloadRawData = () => {
+    if (!condoName || !migrationError) return;
+    const blob = new Blob([JSON.stringify(migrationError.raw, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dati_originali_${condoName.replace(/\s+/g, '_')}_${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
 
   const handleLogin = (name: string) => {
     setCondoName(name);
@@ -243,6 +437,8 @@ const InnerApp: React.FC = () => {
     setEditingExpense(null);
     setEditingIncome(null);
     setEditingBankAccount(null);
+    setEditingUnit(null);
+    setEditingPerson(null);
   };
 
   // Expense Handlers
@@ -255,15 +451,26 @@ const InnerApp: React.FC = () => {
     setCurrentView('add');
   };
   const handleUpdateExpense = (updated: Expense) => {
+    const previous = expenses.find(e => e.id === updated.id);
     setExpenses(prev => prev.map(e => e.id === updated.id ? updated : e).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    // Cambiati importo pagato, data o conto, gli abbinamenti con l'estratto conto vanno rifatti
+    if (previous && (
+      getNetToPay(previous) !== getNetToPay(updated) ||
+      (previous.paidDate || previous.date) !== (updated.paidDate || updated.date) ||
+      previous.bankAccountId !== updated.bankAccountId
+    )) {
+      releaseReconciliations(r => r.records.some(ref => ref.type === 'expense' && ref.id === updated.id));
+    }
     setEditingExpense(null);
     setCurrentView('list');
   };
   const handleDeleteExpense = (id: string) => {
     setExpenses(prev => prev.filter(e => e.id !== id));
+    releaseReconciliations(r => r.records.some(ref => ref.type === 'expense' && ref.id === id));
   };
   const handleClearAllExpenses = () => {
     setExpenses([]);
+    releaseReconciliations(r => r.records.some(ref => ref.type === 'expense'));
   };
   
   const handleStartDuplicateExpense = (expense: Expense) => {
@@ -289,15 +496,21 @@ const InnerApp: React.FC = () => {
     setCurrentView('addIncome');
   };
   const handleUpdateIncome = (updated: Income) => {
+    const previous = incomes.find(i => i.id === updated.id);
     setIncomes(prev => prev.map(i => i.id === updated.id ? updated : i).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    if (previous && (previous.amount !== updated.amount || previous.date !== updated.date || previous.bankAccountId !== updated.bankAccountId)) {
+      releaseReconciliations(r => r.records.some(ref => ref.type === 'income' && ref.id === updated.id));
+    }
     setEditingIncome(null);
     setCurrentView('listIncome');
   };
   const handleDeleteIncome = (id: string) => {
     setIncomes(prev => prev.filter(i => i.id !== id));
+    releaseReconciliations(r => r.records.some(ref => ref.type === 'income' && ref.id === id));
   };
   const handleClearAllIncomes = () => {
     setIncomes([]);
+    releaseReconciliations(r => r.records.some(ref => ref.type === 'income'));
   };
 
   // Bank Account Handlers
@@ -316,12 +529,261 @@ const InnerApp: React.FC = () => {
   };
   const handleDeleteBankAccount = (id: string) => {
     setBankAccounts(prev => prev.filter(a => a.id !== id));
+    setSuppliers(prev => prev.map(s => s.defaultBankAccountId === id ? { ...s, defaultBankAccountId: undefined } : s));
+    setBankTransactions(prev => prev.filter(t => t.bankAccountId !== id));
+    setBankReconciliations(prev => prev.filter(r => r.bankAccountId !== id));
+    setBankTransfers(prev => prev.filter(t => t.fromAccountId !== id && t.toAccountId !== id));
+  };
+
+  // Bank Transfer Handlers
+  const handleAddBankTransfer = (transfer: BankTransfer) => {
+    setBankTransfers(prev => [transfer, ...prev]);
+    setCurrentView('listBankAccounts');
+  };
+  const handleStartEditBankTransfer = (transfer: BankTransfer) => {
+    setEditingBankTransfer(transfer);
+    setCurrentView('addBankTransfer');
+  };
+  const handleUpdateBankTransfer = (updated: BankTransfer) => {
+    const previous = bankTransfers.find(t => t.id === updated.id);
+    setBankTransfers(prev => prev.map(t => t.id === updated.id ? updated : t));
+    // Cambiati importo, data o conti, gli abbinamenti con l'estratto conto vanno rifatti
+    if (previous && (
+      previous.amount !== updated.amount ||
+      previous.date !== updated.date ||
+      previous.fromAccountId !== updated.fromAccountId ||
+      previous.toAccountId !== updated.toAccountId
+    )) {
+      releaseReconciliations(r => r.records.some(ref => ref.type === 'transfer' && ref.id === updated.id));
+    }
+    setEditingBankTransfer(null);
+    setCurrentView('listBankAccounts');
+  };
+  const handleDeleteBankTransfer = (id: string) => {
+    setBankTransfers(prev => prev.filter(t => t.id !== id));
+    releaseReconciliations(r => r.records.some(ref => ref.type === 'transfer' && ref.id === id));
+  };
+
+  // Bank Transaction Handlers
+  const handleImportBankTransactions = (accountId: string, transactions: BankTransaction[], closingBalance?: StatementBalance) => {
+    setBankTransactions(prev => [...prev, ...transactions]);
+    // Il saldo comunicato dalla banca si aggiorna solo con estratti non più vecchi dell'ultimo importato
+    if (closingBalance) {
+      setBankAccounts(prev => prev.map(a =>
+        a.id === accountId && (!a.statementDate || a.statementDate <= closingBalance.date)
+          ? { ...a, statementBalance: closingBalance.amount, statementDate: closingBalance.date }
+          : a
+      ));
+    }
+  };
+  const handleDeleteBankTransaction = (id: string) => {
+    setBankTransactions(prev => prev.filter(t => t.id !== id));
+    releaseReconciliations(r => r.transactionIds.includes(id));
+  };
+  const handleSaveStatementMapping = (accountId: string, mapping: BankStatementMapping) => {
+    setBankAccounts(prev => prev.map(a => a.id === accountId ? { ...a, statementMapping: mapping } : a));
+  };
+
+  // Reconciliation Handlers
+  // Un abbinamento che perde uno dei suoi lati non è più valido: l'altro lato torna da abbinare
+  const releaseReconciliations = (isAffected: (r: BankReconciliation) => boolean) => {
+    setBankReconciliations(prev => prev.filter(r => !isAffected(r)));
+  };
+  const handleConfirmReconciliations = (confirmed: BankReconciliation[]) => {
+    setBankReconciliations(prev => [...prev, ...confirmed]);
+    // Le spese riscontrate in banca risultano pagate alla data dell'ultimo movimento abbinato
+    const paidDates = new Map<string, string>();
+    confirmed.forEach(r => {
+      const date = bankTransactions
+        .filter(t => r.transactionIds.includes(t.id))
+        .reduce((latest, t) => t.bookingDate > latest ? t.bookingDate : latest, '');
+      r.records.filter(ref => ref.type === 'expense').forEach(ref => paidDates.set(ref.id, date));
+    });
+    setExpenses(prev => prev.map(e => paidDates.has(e.id)
+      ? { ...e, status: 'paid', paidDate: e.paidDate || paidDates.get(e.id) || undefined }
+      : e));
+  };
+  const handleUndoReconciliation = (id: string) => {
+    releaseReconciliations(r => r.id === id);
+  };
+  // Spese pagate con una distinta di bonifici SEPA caricata in banca
+  const handleMarkExpensesPaid = (expenseIds: string[], paidDate: string, bankAccountId: string) => {
+    setExpenses(prev => prev.map(e => expenseIds.includes(e.id) ? { ...e, status: 'paid', paidDate, bankAccountId } : e));
+  };
+
+  // SDD Handlers
+  const handleSaveSddMandate = (mandate: SddMandate) => {
+    setSddMandates(prev => prev.some(m => m.id === mandate.id) ? prev.map(m => m.id === mandate.id ? mandate : m) : [...prev, mandate]);
+  };
+  const handleDeleteSddMandate = (id: string) => {
+    setSddMandates(prev => prev.filter(m => m.id !== id));
+  };
+  // Incassi attesi da una distinta di addebiti SDD caricata in banca
+  const handleAddSddIncomes = (added: Income[]) => {
+    setIncomes(prev => [...added, ...prev].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+  };
+  // Un addebito insoluto non è un incasso: eliminandolo la rata torna da pagare
+  const handleApplySddReturns = (returns: MatchedSddReturn[]) => {
+    const returnedIds = new Set(returns.map(r => r.income.id));
+    setIncomes(prev => prev.filter(i => !returnedIds.has(i.id)));
+    releaseReconciliations(r => r.records.some(ref => ref.type === 'income' && returnedIds.has(ref.id)));
+    setSddMandates(prev => prev.map(m => {
+      const latest = returns
+        .filter(r => r.income.sddMandateId === m.id)
+        .map(r => ({ date: r.sddReturn.date || r.income.date, reason: r.sddReturn.reason }))
+        .sort((a, b) => b.date.localeCompare(a.date))[0];
+      return latest ? { ...m, lastReturn: latest } : m;
+    }));
+  };
+
+  // Registry Handlers
+  const handleAddUnit = (unit: Unit) => {
+    setUnits(prev => [...prev, unit]);
+    setRegistryTab('units');
+    setCurrentView('registry');
+  };
+  const handleStartEditUnit = (unit: Unit) => {
+    setEditingUnit(unit);
+    setCurrentView('addUnit');
+  };
+  const handleUpdateUnit = (updated: Unit) => {
+    setUnits(prev => prev.map(u => u.id === updated.id ? updated : u));
+    setEditingUnit(null);
+    setRegistryTab('units');
+    setCurrentView('registry');
+  };
+  const handleDeleteUnit = (id: string) => {
+    setUnits(prev => prev.filter(u => u.id !== id));
+    // Toglie i millesimi dell'unità eliminata da tutte le tabelle
+    setMillesimiTables(prev => prev.map(t => {
+      const { [id]: _removed, ...values } = t.values;
+      return { ...t, values };
+    }));
+    setInstallments(prev => prev.filter(r => r.unitId !== id));
+    setReminders(prev => prev.filter(r => r.unitId !== id));
+    setSddMandates(prev => prev.filter(m => m.unitId !== id));
+  };
+  const handleAddPerson = (person: Person) => {
+    setPersons(prev => [...prev, person]);
+    setRegistryTab('persons');
+    setCurrentView('registry');
+  };
+  const handleStartEditPerson = (person: Person) => {
+    setEditingPerson(person);
+    setCurrentView('addPerson');
+  };
+  const handleUpdatePerson = (updated: Person) => {
+    setPersons(prev => prev.map(p => p.id === updated.id ? updated : p));
+    setEditingPerson(null);
+    setRegistryTab('persons');
+    setCurrentView('registry');
+  };
+  const handleDeletePerson = (id: string) => {
+    setPersons(prev => prev.filter(p => p.id !== id));
+    // Remove the person from every unit it was linked to
+    setUnits(prev => prev.map(u => ({
+      ...u,
+      owners: u.owners.filter(o => o.personId !== id),
+      tenants: u.tenants.filter(t => t.personId !== id),
+    })));
+    // I mandati SDD firmati dalla persona non hanno più un debitore in anagrafe
+    setSddMandates(prev => prev.filter(m => m.personId !== id));
+  };
+
+  // F24 Handlers: le ritenute delle spese collegate risultano versate alla data del modello
+  const handleAddF24 = (payment: F24Payment) => {
+    setF24Payments(prev => [...prev, payment]);
+    setExpenses(prev => prev.map(e => e.withholding && payment.expenseIds.includes(e.id)
+      ? { ...e, withholding: { ...e.withholding, paidDate: payment.date } }
+      : e));
+  };
+  const handleDeleteF24 = (id: string) => {
+    const payment = f24Payments.find(p => p.id === id);
+    setF24Payments(prev => prev.filter(p => p.id !== id));
+    releaseReconciliations(r => r.records.some(ref => ref.type === 'f24' && ref.id === id));
+    if (!payment) return;
+    setExpenses(prev => prev.map(e => e.withholding && payment.expenseIds.includes(e.id)
+      ? { ...e, withholding: { ...e.withholding, paidDate: undefined } }
+      : e));
+  };
+
+  // Supplier (fornitori) Handlers
+  const handleAddSupplier = (supplier: Supplier) => {
+    setSuppliers(prev => [...prev, supplier]);
+    setCurrentView('suppliers');
+  };
+  // Fornitore creato dal modulo spesa: resta sul modulo
+  const handleQuickAddSupplier = (supplier: Supplier) => {
+    setSuppliers(prev => [...prev, supplier]);
+  };
+  const handleStartEditSupplier = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setCurrentView('addSupplier');
+  };
+  const handleUpdateSupplier = (updated: Supplier) => {
+    setSuppliers(prev => prev.map(s => s.id === updated.id ? updated : s));
+    setEditingSupplier(null);
+    setCurrentView('suppliers');
+  };
+  const handleDeleteSupplier = (id: string) => {
+    setSuppliers(prev => prev.filter(s => s.id !== id));
+    // Le spese restano, senza collegamento al fornitore eliminato
+    setExpenses(prev => prev.map(e => e.supplierId === id ? { ...e, supplierId: undefined } : e));
+  };
+
+  // Budget Handler
+  const handleSaveBudget = (budget: Budget) => {
+    setBudgets(prev => [...prev.filter(b => b.id !== budget.id && b.year !== budget.year), budget]);
+  };
+
+  // Installment Handlers
+  const handleReplacePlan = (fiscalYear: number, plan: Installment[]) => {
+    // Gli interessi di mora già addebitati restano anche se il piano viene rigenerato
+    setInstallments(prev => [...prev.filter(r => r.fiscalYear !== fiscalYear || isInterestCharge(r)), ...plan]);
+  };
+  const handleAddInstallments = (added: Installment[]) => {
+    setInstallments(prev => [...prev, ...added]);
+  };
+  const handleDeleteInstallment = (id: string) => {
+    setInstallments(prev => prev.filter(r => r.id !== id));
+  };
+
+  // Reminder (sollecito) Handlers
+  const handleAddReminders = (letters: ReminderLetter[]) => {
+    setReminders(prev => [...prev, ...letters]);
+  };
+  const handleDeleteReminder = (id: string) => {
+    setReminders(prev => prev.filter(r => r.id !== id));
+  };
+
+  // Backup Restore Handler
+  const handleRestoreBackup = (data: CondoData, restoredSettings?: CondoSettings) => {
+    setExpenses([...data.expenses].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    setIncomes([...data.incomes].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    setBankAccounts(data.bankAccounts);
+    setUnits(data.units);
+    setPersons(data.persons);
+    setMillesimiTables(data.millesimiTables);
+    setBudgets(data.budgets);
+    setInstallments(data.installments);
+    setReminders(data.reminders);
+    setSuppliers(data.suppliers);
+    setF24Payments(data.f24Payments);
+    setBankTransactions(data.bankTransactions);
+    setBankReconciliations(data.bankReconciliations);
+    setSddMandates(data.sddMandates);
+    setBankTransfers(data.bankTransfers);
+    if (restoredSettings) setSettings(restoredSettings);
   };
 
   const handleNavClick = (view: View) => {
     if (view === 'add') setEditingExpense(null);
     if (view === 'addIncome') setEditingIncome(null);
     if (view === 'addBankAccount') setEditingBankAccount(null);
+    if (view === 'addBankTransfer') setEditingBankTransfer(null);
+    if (view === 'addUnit') setEditingUnit(null);
+    if (view === 'addPerson') setEditingPerson(null);
+    if (view === 'addSupplier') setEditingSupplier(null);
     setCurrentView(view);
   };
 
@@ -375,6 +837,30 @@ const InnerApp: React.FC = () => {
     );
   }
 
+  if (migrationError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 p-4">
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-md w-full p-6 border border-slate-200 dark:border-slate-700 text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30"><AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" /></div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white mt-3">{t('restore.migrationTitle')}</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-2">
+            {t('restore.migrationMessage').replace('{name}', condoName || '')}
+          </p>
+          <p className="text-xs text-red-600 dark:text-red-400 mt-3 font-mono break-words">{migrationError.message}</p>
+          <div className="mt-5 grid grid-cols-2 gap-3">
+            <button onClick={handleDownloadRawData} className="w-full inline-flex justify-center items-center gap-2 rounded-md px-4 py-2 bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700">
+              <Download size={16} />
+              {t('restore.migrationDownload')}
+            </button>
+            <button onClick={handleLogout} className="w-full inline-flex justify-center rounded-md border border-slate-300 dark:border-slate-600 px-4 py-2 bg-white dark:bg-slate-700 text-sm font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-600">
+              {t('nav.logout')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 dark:bg-slate-900 transition-colors duration-200">
       <header className="bg-white dark:bg-slate-800 shadow-sm sticky top-0 z-10 transition-colors duration-200">
@@ -416,6 +902,14 @@ const InnerApp: React.FC = () => {
               )}
             </div>
 
+            <button
+              onClick={() => handleNavClick('settings')}
+              className={`p-2 transition-colors ${currentView === 'settings' ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400 hover:text-indigo-600 dark:text-slate-400 dark:hover:text-indigo-400'}`}
+              title={t('nav.settings')}
+            >
+              <Settings className="w-5 h-5" />
+            </button>
+
             <button 
               onClick={toggleTheme} 
               className="p-2 text-slate-400 hover:text-indigo-600 dark:text-slate-400 dark:hover:text-indigo-400 transition-colors" 
@@ -437,6 +931,11 @@ const InnerApp: React.FC = () => {
             <NavButton active={currentView === 'list'} onClick={() => handleNavClick('list')} icon={<List size={20} />} label={t('nav.expenses')} />
             <NavButton active={currentView === 'listIncome'} onClick={() => handleNavClick('listIncome')} icon={<TrendingUp size={20} />} label={t('nav.incomes')} />
             <NavButton active={currentView === 'listBankAccounts'} onClick={() => handleNavClick('listBankAccounts')} icon={<Banknote size={20} />} label={t('nav.accounts')} />
+            <NavButton active={currentView === 'bank'} onClick={() => handleNavClick('bank')} icon={<ArrowLeftRight size={20} />} label={t('nav.bankTransactions')} />
+            <NavButton active={currentView === 'registry'} onClick={() => handleNavClick('registry')} icon={<Users size={20} />} label={t('nav.registry')} />
+            <NavButton active={currentView === 'suppliers'} onClick={() => handleNavClick('suppliers')} icon={<Truck size={20} />} label={t('nav.suppliers')} />
+            <NavButton active={currentView === 'fiscal'} onClick={() => handleNavClick('fiscal')} icon={<Landmark size={20} />} label={t('nav.fiscal')} />
+            <NavButton active={currentView === 'quotas'} onClick={() => handleNavClick('quotas')} icon={<Receipt size={20} />} label={t('nav.quotas')} />
             <NavButton active={currentView === 'reports'} onClick={() => handleNavClick('reports')} icon={<PieChart size={20} />} label={t('nav.reports')} />
           </div>
           <div className="flex gap-2 md:gap-3">
@@ -448,14 +947,24 @@ const InnerApp: React.FC = () => {
 
       <main className="flex-1 w-full max-w-5xl mx-auto p-4 sm:px-6 lg:px-8 py-8">
         <div className="animate-fade-in">
-          {currentView === 'dashboard' && <Dashboard expenses={expenses} incomes={incomes} bankAccounts={bankAccounts} condoName={condoName} />}
-          {currentView === 'list' && <ExpenseList expenses={expenses} onDelete={handleDeleteExpense} onEdit={handleStartEditExpense} condoName={condoName} bankAccounts={bankAccounts} onDuplicate={handleStartDuplicateExpense} onAdd={handleAddExpense} onClearAll={handleClearAllExpenses} />}
-          {currentView === 'add' && <ExpenseForm key={editingExpense ? editingExpense.id : 'new'} onAdd={handleAddExpense} onUpdate={handleUpdateExpense} existingExpenses={expenses} initialData={editingExpense || undefined} onCancel={() => { setEditingExpense(null); setCurrentView('list'); }} bankAccounts={bankAccounts} />}
+          {currentView === 'dashboard' && <Dashboard expenses={expenses} incomes={incomes} bankAccounts={bankAccounts} condoName={condoName} budgets={budgets} settings={settings} condoData={condoData} onRestoreBackup={handleRestoreBackup} onOpenF24={() => { setFiscalTab('f24'); handleNavClick('fiscal'); }} />}
+          {currentView === 'list' && <ExpenseList expenses={expenses} onDelete={handleDeleteExpense} onEdit={handleStartEditExpense} condoName={condoName} bankAccounts={bankAccounts} onDuplicate={handleStartDuplicateExpense} onAdd={handleAddExpense} onClearAll={handleClearAllExpenses} suppliers={suppliers} onAddSupplier={handleQuickAddSupplier} />}
+          {currentView === 'add' && <ExpenseForm key={editingExpense ? editingExpense.id : 'new'} onAdd={handleAddExpense} onUpdate={handleUpdateExpense} existingExpenses={expenses} initialData={editingExpense || undefined} onCancel={() => { setEditingExpense(null); setCurrentView('list'); }} bankAccounts={bankAccounts} suppliers={suppliers} onAddSupplier={handleQuickAddSupplier} />}
           {currentView === 'listIncome' && <IncomeList incomes={incomes} onDelete={handleDeleteIncome} onEdit={handleStartEditIncome} condoName={condoName} bankAccounts={bankAccounts} onAdd={handleAddIncome} onClearAll={handleClearAllIncomes} />}
-          {currentView === 'addIncome' && <IncomeForm key={editingIncome ? editingIncome.id : 'new'} onAdd={handleAddIncome} onUpdate={handleUpdateIncome} initialData={editingIncome || undefined} onCancel={() => { setEditingIncome(null); setCurrentView('listIncome'); }} />}
-          {currentView === 'listBankAccounts' && <BankAccountList bankAccounts={bankAccounts} onDelete={handleDeleteBankAccount} onEdit={handleStartEditBankAccount} expenses={expenses} incomes={incomes} />}
+          {currentView === 'addIncome' && <IncomeForm key={editingIncome ? editingIncome.id : 'new'} onAdd={handleAddIncome} onUpdate={handleUpdateIncome} initialData={editingIncome || undefined} units={units} onCancel={() => { setEditingIncome(null); setCurrentView('listIncome'); }} />}
+          {currentView === 'listBankAccounts' && <BankAccountList bankAccounts={bankAccounts} onDelete={handleDeleteBankAccount} onEdit={handleStartEditBankAccount} expenses={expenses} incomes={incomes} f24Payments={f24Payments} bankTransfers={bankTransfers} onNewTransfer={() => handleNavClick('addBankTransfer')} onEditTransfer={handleStartEditBankTransfer} onDeleteTransfer={handleDeleteBankTransfer} />}
           {currentView === 'addBankAccount' && <BankAccountForm key={editingBankAccount ? editingBankAccount.id : 'new'} onAdd={handleAddBankAccount} onUpdate={handleUpdateBankAccount} initialData={editingBankAccount || undefined} onCancel={() => { setEditingBankAccount(null); setCurrentView('listBankAccounts'); }} />}
-          {currentView === 'reports' && <ReportView expenses={expenses} incomes={incomes} condoName={condoName} />}
+          {currentView === 'addBankTransfer' && <BankTransferForm key={editingBankTransfer ? editingBankTransfer.id : 'new'} onAdd={handleAddBankTransfer} onUpdate={handleUpdateBankTransfer} initialData={editingBankTransfer || undefined} bankAccounts={bankAccounts} onCancel={() => { setEditingBankTransfer(null); setCurrentView('listBankAccounts'); }} />}
+          {currentView === 'reports' && <ReportView expenses={expenses} incomes={incomes} condoName={condoName} units={units} persons={persons} millesimiTables={millesimiTables} budgets={budgets} onSaveBudget={handleSaveBudget} settings={settings} />}
+          {currentView === 'registry' && <RegistryView tab={registryTab} onTabChange={setRegistryTab} units={units} persons={persons} onAddUnit={() => handleNavClick('addUnit')} onEditUnit={handleStartEditUnit} onDeleteUnit={handleDeleteUnit} onAddPerson={() => handleNavClick('addPerson')} onEditPerson={handleStartEditPerson} onDeletePerson={handleDeletePerson} millesimiTables={millesimiTables} condoName={condoName} onMillesimiChange={setMillesimiTables} />}
+          {currentView === 'bank' && <BankView tab={bankTab} onTabChange={setBankTab} accountId={bankViewAccountId} onAccountChange={setBankViewAccountId} bankAccounts={bankAccounts} bankTransactions={bankTransactions} bankReconciliations={bankReconciliations} bankTransfers={bankTransfers} expenses={expenses} incomes={incomes} f24Payments={f24Payments} suppliers={suppliers} settings={settings} condoName={condoName} onImportTransactions={handleImportBankTransactions} onDeleteTransaction={handleDeleteBankTransaction} onSaveMapping={handleSaveStatementMapping} onConfirmReconciliations={handleConfirmReconciliations} onUndoReconciliation={handleUndoReconciliation} onMarkExpensesPaid={handleMarkExpensesPaid} units={units} persons={persons} installments={installments} sddMandates={sddMandates} onSaveSddMandate={handleSaveSddMandate} onDeleteSddMandate={handleDeleteSddMandate} onAddSddIncomes={handleAddSddIncomes} onApplySddReturns={handleApplySddReturns} />}
+          {currentView === 'quotas' && <QuotasView tab={quotasTab} onTabChange={setQuotasTab} units={units} persons={persons} installments={installments} incomes={incomes} expenses={expenses} reminders={reminders} budgets={budgets} millesimiTables={millesimiTables} settings={settings} condoName={condoName} onReplacePlan={handleReplacePlan} onDeleteInstallment={handleDeleteInstallment} onAddInstallments={handleAddInstallments} onAddReminders={handleAddReminders} onDeleteReminder={handleDeleteReminder} />}
+          {currentView === 'addUnit' && <UnitForm key={editingUnit ? editingUnit.id : 'new'} onAdd={handleAddUnit} onUpdate={handleUpdateUnit} initialData={editingUnit || undefined} persons={persons} onCancel={() => { setEditingUnit(null); setCurrentView('registry'); }} />}
+          {currentView === 'settings' && <CondoSettingsForm key={condoName} initialData={settings} onSave={(s) => { setSettings(s); setCurrentView('dashboard'); }} onCancel={() => setCurrentView('dashboard')} />}
+          {currentView === 'addPerson' && <PersonForm key={editingPerson ? editingPerson.id : 'new'} onAdd={handleAddPerson} onUpdate={handleUpdatePerson} initialData={editingPerson || undefined} onCancel={() => { setEditingPerson(null); setCurrentView('registry'); }} />}
+          {currentView === 'fiscal' && <FiscalView tab={fiscalTab} onTabChange={setFiscalTab} f24Payments={f24Payments} expenses={expenses} suppliers={suppliers} bankAccounts={bankAccounts} settings={settings} condoName={condoName} onAddF24={handleAddF24} onDeleteF24={handleDeleteF24} onEditExpense={handleStartEditExpense} />}
+          {currentView === 'suppliers' && <SupplierList suppliers={suppliers} expenses={expenses} onDelete={handleDeleteSupplier} onEdit={handleStartEditSupplier} onAdd={() => handleNavClick('addSupplier')} />}
+          {currentView === 'addSupplier' && <SupplierForm key={editingSupplier ? editingSupplier.id : 'new'} onAdd={handleAddSupplier} onUpdate={handleUpdateSupplier} initialData={editingSupplier || undefined} bankAccounts={bankAccounts} onCancel={() => { setEditingSupplier(null); setCurrentView('suppliers'); }} />}
         </div>
       </main>
     </div>
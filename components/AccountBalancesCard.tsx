@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { Wallet } from 'lucide-react';
+import { BankAccount } from '../types';
+import { useLanguage } from '../i18n/LanguageContext';
+import { BalanceSources, computeAccountPeriodBalance } from '../services/bankBalanceService';
+
+interface AccountBalancesCardProps {
+  bankAccounts: BankAccount[];
+  sources: BalanceSources;
+  start: string;
+  end: string;
+  periodLabel: string;
+}
+
+// Situazione di cassa dell'esercizio: saldi di apertura e chiusura di ogni conto
+export const AccountBalancesCard: React.FC<AccountBalancesCardProps> = ({ bankAccounts, sources, start, end, periodLabel }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+
+  const rows = useMemo(
+    () => bankAccounts.map(account => ({ account, balance: computeAccountPeriodBalance(account, sources, start, end) })),
+    [bankAccounts, sources, start, end],
+  );
+
+  if (bankAccounts.length === 0) return null;
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+
+  const totals = rows.reduce((sum, { balance }) => balance ? {
+    opening: sum.opening + balance.opening,
+    inflows: sum.inflows + balance.inflows,
+    outflows: sum.outflows + balance.outflows,
+    transfers: sum.transfers + balance.transfers,
+    closing: sum.closing + balance.closing,
+  } : sum, { opening: 0, inflows: 0, outflows: 0, transfers: 0, closing: 0 });
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700">
+      <h2 className="text-lg font-bold text-slate-800 dark:text-white mb-4 flex items-center gap-2">
+        <Wallet className="w-5 h-5 text-indigo-500" />
+        {t('dashboard.cashTitle').replace('{year}', periodLabel)}
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-slate-500 dark:text-slate-400 text-xs uppercase tracking-wider border-b border-slate-200 dark:border-slate-700">
+            <tr>
+              <th className="py-2 pr-4 font-medium">{t('dashboard.cashAccount')}</th>
+              <th className="py-2 px-4 font-medium text-right">{t('dashboard.cashOpening')}</th>
+              <th className="py-2 px-4 font-medium text-right">{t('dashboard.cashInflows')}</th>
+              <th className="py-2 px-4 font-medium text-right">{t('dashboard.cashOutflows')}</th>
+              <th className="py-2 px-4 font-medium text-right">{t('dashboard.cashTransfers')}</th>
+              <th className="py-2 pl-4 font-medium text-right">{t('dashboard.cashClosing').replace('{date}', formatDate(end))}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {rows.map(({ account, balance }) => (
+              <tr key={account.id}>
+                <td className="py-3 pr-4 text-slate-800 dark:text-slate-200 font-medium">{account.name}</td>
+                {balance ? (
+                  <>
+                    <td className="py-3 px-4 text-right text-slate-600 dark:text-slate-300">
+                      {formatCurrency(balance.opening)}
+                      <p className={`text-xs ${balance.openingDate !== start ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'}`}>
+                        {t('dashboard.cashOpeningAt').replace('{date}', formatDate(balance.openingDate))}
+                      </p>
+                    </td>
+                    <td className="py-3 px-4 text-right text-green-600 dark:text-green-400">{formatCurrency(balance.inflows)}</td>
+                    <td className="py-3 px-4 text-right text-red-600 dark:text-red-400">{formatCurrency(-balance.outflows)}</td>
+                    <td className="py-3 px-4 text-right text-slate-600 dark:text-slate-300">{formatCurrency(balance.transfers)}</td>
+                    <td className="py-3 pl-4 text-right font-bold text-slate-800 dark:text-white">{formatCurrency(balance.closing)}</td>
+                  </>
+                ) : (
+                  <td colSpan={5} className="py-3 pl-4 text-right text-xs text-slate-400">
+                    {t('dashboard.cashNotOpen').replace('{date}', formatDate(account.initialBalanceDate || start))}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+          {rows.length > 1 && (
+            <tfoot className="border-t border-slate-200 dark:border-slate-700 font-medium">
+              <tr>
+                <td className="py-3 pr-4 text-slate-600 dark:text-slate-300">{t('dashboard.cashTotal')}</td>
+                <td className="py-3 px-4 text-right text-slate-800 dark:text-white">{formatCurrency(totals.opening)}</td>
+                <td className="py-3 px-4 text-right text-green-600 dark:text-green-400">{formatCurrency(totals.inflows)}</td>
+                <td className="py-3 px-4 text-right text-red-600 dark:text-red-400">{formatCurrency(-totals.outflows)}</td>
+                <td className="py-3 px-4 text-right text-slate-600 dark:text-slate-300">{formatCurrency(totals.transfers)}</td>
+                <td className="py-3 pl-4 text-right font-bold text-slate-800 dark:text-white">{formatCurrency(totals.closing)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
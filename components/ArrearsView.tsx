@@ -0,0 +1,290 @@
+import React, { useMemo } from 'react';
+import { CondoSettings, Income, Installment, Person, ReminderLetter, ReminderLevel, Unit } from '../types';
+import { AlertTriangle, CheckCircle, FileWarning, Mail, Percent, Trash2 } from 'lucide-react';
+import { Packer } from 'docx';
+import { downloadBlob, generateId } from '../utils';
+import { AGING_BUCKETS, computeArrears, sumBuckets } from '../services/arrearsService';
+import { computeUnitReceivable } from '../services/quotaService';
+import { computeUnitInterest, createInterestCharge, getInterestRates } from '../services/interestService';
+import { getOwnerNames } from '../services/ripartoService';
+import { createReminderDocument, REMINDER_DEADLINE_DAYS } from '../services/reminderLetterService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface ArrearsViewProps {
+  units: Unit[];
+  persons: Person[];
+  installments: Installment[];
+  incomes: Income[];
+  reminders: ReminderLetter[];
+  settings: CondoSettings;
+  condoName: string;
+  onAddInstallments: (installments: Installment[]) => void;
+  onAddReminders: (letters: ReminderLetter[]) => void;
+  onDeleteReminder: (id: string) => void;
+}
+
+const LEVEL_LABELS: Record<ReminderLevel, string> = {
+  first: 'arrears.levelFirst',
+  formal: 'arrears.levelFormal',
+};
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+export const ArrearsView: React.FC<ArrearsViewProps> = ({
+  units, persons, installments, incomes, reminders, settings, condoName, onAddInstallments, onAddReminders, onDeleteReminder,
+}) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (val: number) => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+  const rateLabel = t(settings.interestMode === 'custom' ? 'arrears.rateCustom' : 'arrears.rateLegal');
+
+  const rows = useMemo(
+    () => computeArrears(units, installments, incomes, reminders),
+    [units, installments, incomes, reminders]
+  );
+  const bucketTotals = useMemo(() => sumBuckets(rows), [rows]);
+  const totalOverdue = rows.reduce((sum, r) => sum + r.overdue, 0);
+
+  // Calcolati su tutte le unità: anche chi ha saldato in ritardo deve gli interessi del periodo di mora
+  const interestByUnit = useMemo(() => {
+    const rates = getInterestRates(settings);
+    return Object.fromEntries(units.map(u => [u.id, computeUnitInterest(u.id, installments, incomes, rates)]));
+  }, [units, installments, incomes, settings]);
+  const latePayers = units
+    .filter(u => !rows.some(r => r.unitId === u.id) && interestByUnit[u.id].toCharge > 0)
+    .sort((a, b) => a.code.localeCompare(b.code, locale, { numeric: true }));
+
+  const handlePostInterest = (unitId: string) => {
+    const unitInterest = interestByUnit[unitId];
+    const unit = units.find(u => u.id === unitId);
+    if (!unitInterest || !unit || unitInterest.toCharge <= 0) return;
+    if (!confirm(t('arrears.confirmInterest').replace('{code}', unit.code).replace('{amount}', formatCurrency(unitInterest.toCharge)).replace('{rate}', rateLabel))) return;
+    onAddInstallments([createInterestCharge(unitInterest, settings)]);
+  };
+
+  const sortedReminders = useMemo(() => [...reminders].sort((a, b) => b.date.localeCompare(a.date)), [reminders]);
+
+  const handleGenerate = async (unitId: string, level: ReminderLevel) => {
+    const unit = units.find(u => u.id === unitId);
+    const row = rows.find(r => r.unitId === unitId);
+    if (!unit || !row) return;
+
+    const today = new Date().toISOString().slice(0, 10);
+    const deadline = addDays(today, REMINDER_DEADLINE_DAYS[level]);
+    const recipients = unit.owners
+      .map(o => persons.find(p => p.id === o.personId))
+      .filter((p): p is Person => !!p);
+    const recipientLabel = recipients.length > 0 ? recipients.map(p => p.name).join(', ') : t('arrears.noOwner');
+    const message = t('arrears.confirmReminder')
+      .replace('{level}', t(LEVEL_LABELS[level]))
+      .replace('{code}', unit.code)
+      .replace('{recipients}', recipientLabel)
+      .replace('{amount}', formatCurrency(row.overdue))
+      .replace('{deadline}', formatDate(deadline));
+    if (!confirm(message)) {
+      return;
+    }
+
+    const items = computeUnitReceivable(unit.id, installments, incomes, today).installments.filter(s => s.overdue);
+    const letters: ReminderLetter[] = (recipients.length > 0 ? recipients : [undefined]).map(person => ({
+      id: generateId(),
+      unitId: unit.id,
+      personId: person?.id,
+      level,
+      date: today,
+      amount: row.overdue,
+      deadline,
+    }));
+
+    try {
+      for (const letter of letters) {
+        const recipient = recipients.find(p => p.id === letter.personId);
+        const doc = createReminderDocument({
+          condoName,
+          level,
+          unit,
+          recipient,
+          items,
+          amount: row.overdue,
+          date: today,
+          deadline,
+          previousReminder: row.lastReminder,
+        });
+        const blob = await Packer.toBlob(doc);
+        const who = (recipient?.name || unit.code).replace(/\W+/g, '_');
+        downloadBlob(blob, `${level === 'first' ? 'sollecito' : 'diffida'}_${who}_${today}.docx`);
+      }
+      onAddReminders(letters);
+    } catch (e) {
+      console.error("Error creating DOCX", e);
+      alert(t('arrears.docxError'));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm">
+          <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">{t('arrears.totalOverdue')}</p>
+          <p className="text-xl font-bold text-red-600 dark:text-red-400 mt-1">{formatCurrency(totalOverdue)}</p>
+          <p className="text-xs text-slate-500 dark:text-slate-400">{t('arrears.unitsInArrears').replace('{count}', String(rows.length))}</p>
+        </div>
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm">
+            <p className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase">{t('arrears.bucketDays').replace('{bucket}', bucket)}</p>
+            <p className="text-xl font-bold text-slate-800 dark:text-white mt-1">{formatCurrency(bucketTotals[bucket])}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('arrears.title')}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('arrears.subtitle').replace('{rate}', rateLabel)}</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('arrears.colUnit')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('arrears.colOverdue')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('arrears.colDays')}</th>
+                {AGING_BUCKETS.map(b => <th key={b} className="px-4 py-3 font-medium text-right">{b}</th>)}
+                <th className="px-6 py-3 font-medium text-right">{t('arrears.colInterest')}</th>
+                <th className="px-6 py-3 font-medium">{t('arrears.colLastReminder')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('arrears.colActions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {rows.length > 0 ? rows.map(r => {
+                const unit = units.find(u => u.id === r.unitId)!;
+                return (
+                  <tr key={r.unitId} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    <td className="px-6 py-3">
+                      <p className="font-medium text-slate-900 dark:text-white">{unit.code}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">{getOwnerNames(unit, persons) || '—'}</p>
+                    </td>
+                    <td className="px-6 py-3 text-right font-bold text-red-600 dark:text-red-400">{formatCurrency(r.overdue)}</td>
+                    <td className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">{r.daysOverdue}</td>
+                    {AGING_BUCKETS.map(b => (
+                      <td key={b} className="px-4 py-3 text-right text-slate-600 dark:text-slate-300">{r.buckets[b] ? formatCurrency(r.buckets[b]) : '—'}</td>
+                    ))}
+                    <td className="px-6 py-3 text-right">
+                      <p className="text-slate-700 dark:text-slate-300">{formatCurrency(interestByUnit[r.unitId]?.toCharge || 0)}</p>
+                      {(interestByUnit[r.unitId]?.charged || 0) > 0 && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{t('arrears.alreadyCharged').replace('{amount}', formatCurrency(interestByUnit[r.unitId].charged))}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-xs text-slate-500 dark:text-slate-400">
+                      {r.lastReminder ? t('arrears.reminderOf').replace('{level}', t(LEVEL_LABELS[r.lastReminder.level])).replace('{date}', formatDate(r.lastReminder.date)) : t('arrears.none')}
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="flex justify-center gap-2">
+                        <button onClick={() => handlePostInterest(r.unitId)} disabled={(interestByUnit[r.unitId]?.toCharge || 0) <= 0} className="p-2 rounded-lg text-slate-400 hover:text-amber-600 disabled:opacity-30 disabled:hover:text-slate-400 transition-colors" title={t('arrears.chargeInterest')}>
+                          <Percent size={16} />
+                        </button>
+                        <button onClick={() => handleGenerate(r.unitId, 'first')} className={`p-2 rounded-lg transition-colors ${r.suggestedLevel === 'first' ? 'text-indigo-600 bg-indigo-50 dark:bg-indigo-900/30 dark:text-indigo-300' : 'text-slate-400 hover:text-indigo-600'}`} title={t(LEVEL_LABELS.first)}>
+                          <Mail size={16} />
+                        </button>
+                        <button onClick={() => handleGenerate(r.unitId, 'formal')} className={`p-2 rounded-lg transition-colors ${r.suggestedLevel === 'formal' ? 'text-red-600 bg-red-50 dark:bg-red-900/30 dark:text-red-300' : 'text-slate-400 hover:text-red-600'}`} title={t(LEVEL_LABELS.formal)}>
+                          <FileWarning size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              }) : (
+                <tr>
+                  <td colSpan={10} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <CheckCircle className="w-8 h-8 text-green-400" />
+                      <p>{t('arrears.noArrears')}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {latePayers.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+          <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('arrears.latePayersTitle')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('arrears.latePayersDesc')}</p>
+          </div>
+          <div className="divide-y divide-slate-200 dark:divide-slate-700">
+            {latePayers.map(unit => (
+              <div key={unit.id} className="px-6 py-3 flex items-center justify-between gap-4 text-sm">
+                <div>
+                  <p className="font-medium text-slate-900 dark:text-white">{unit.code}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{getOwnerNames(unit, persons) || '—'}</p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-medium text-slate-800 dark:text-slate-200">{formatCurrency(interestByUnit[unit.id].toCharge)}</span>
+                  <button onClick={() => handlePostInterest(unit.id)} className="p-2 rounded-lg text-slate-400 hover:text-amber-600 transition-colors" title={t('arrears.chargeInterest')}>
+                    <Percent size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('arrears.registerTitle')}</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('arrears.colDate')}</th>
+                <th className="px-6 py-3 font-medium">{t('arrears.colRecipient')}</th>
+                <th className="px-6 py-3 font-medium">{t('arrears.colType')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('arrears.colAmount')}</th>
+                <th className="px-6 py-3 font-medium">{t('arrears.colDeadline')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('arrears.colActions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {sortedReminders.length > 0 ? sortedReminders.map(r => (
+                <tr key={r.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                  <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{formatDate(r.date)}</td>
+                  <td className="px-6 py-3">
+                    <p className="font-medium text-slate-900 dark:text-white">{persons.find(p => p.id === r.personId)?.name || '—'}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{t('arrears.unitCode').replace('{code}', units.find(u => u.id === r.unitId)?.code || '—')}</p>
+                  </td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1 w-fit ${r.level === 'formal' ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300'}`}>
+                      {r.level === 'formal' && <AlertTriangle size={12} />}
+                      {t(LEVEL_LABELS[r.level])}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(r.amount)}</td>
+                  <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{formatDate(r.deadline)}</td>
+                  <td className="px-6 py-3 text-center">
+                    <button onClick={() => { if (confirm(t('arrears.confirmDeleteReminder'))) onDeleteReminder(r.id); }} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title={t('common.delete')}>
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-slate-500 dark:text-slate-400">{t('arrears.noReminders')}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -14,6 +14,7 @@ interface BankAccountFormProps {
 export const BankAccountForm: React.FC<BankAccountFormProps> = ({ onAdd, onUpdate, onCancel, initialData }) => {
   const [name, setName] = useState(initialData?.name || '');
   const [initialBalance, setInitialBalance] = useState(initialData?.initialBalance?.toString() ?? '');
+  const [initialBalanceDate, setInitialBalanceDate] = useState(initialData?.initialBalanceDate || '');
   const [iban, setIban] = useState(initialData?.iban || '');
 
   const isEditing = !!initialData;
@@ -31,9 +32,11 @@ export const BankAccountForm: React.FC<BankAccountFormProps> = ({ onAdd, onUpdat
     }
 
     const accountData: BankAccount = {
+      ...initialData,
       id: isEditing ? initialData.id : generateId(),
       name,
       initialBalance: parsedBalance,
+      initialBalanceDate: initialBalanceDate || undefined,
       iban: iban.toUpperCase(),
     };
 
@@ -78,6 +81,16 @@ export const BankAccountForm: React.FC<BankAccountFormProps> = ({ onAdd, onUpdat
               />
             </div>
             <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Data Saldo Iniziale</label>
+              <input
+                type="date"
+                value={initialBalanceDate}
+                onChange={(e) => setInitialBalanceDate(e.target.value)}
+                className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Movimenti precedenti a questa data già compresi nel saldo iniziale.</p>
+            </div>
+            <div className="col-span-2">
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">IBAN (Opzionale)</label>
               <input
                 type="text"
@@ -1,7 +1,8 @@
 
 import React, { useState, useMemo } from 'react';
-import { BankAccount, Expense, Income } from '../types';
-import { Trash2, Pencil, AlertTriangle, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+import { BankAccount, BankTransfer, Expense, F24Payment, Income } from '../types';
+import { Trash2, Pencil, AlertTriangle, ArrowUp, ArrowDown, ArrowUpDown, ArrowRight, Plus } from 'lucide-react';
+import { computeAccountBalance, isBalanceKnownAt } from '../services/bankBalanceService';
 
 interface BankAccountListProps {
   bankAccounts: BankAccount[];
@@ -9,25 +10,39 @@ interface BankAccountListProps {
   onEdit: (account: BankAccount) => void;
   expenses: Expense[];
   incomes: Income[];
+  f24Payments: F24Payment[];
+  bankTransfers: BankTransfer[];
+  onNewTransfer: () => void;
+  onEditTransfer: (transfer: BankTransfer) => void;
+  onDeleteTransfer: (id: string) => void;
 }
 
-export const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts, onDelete, onEdit, expenses, incomes }) => {
+export const BankAccountList: React.FC<BankAccountListProps> = ({
+  bankAccounts, onDelete, onEdit, expenses, incomes, f24Payments, bankTransfers, onNewTransfer, onEditTransfer, onDeleteTransfer,
+}) => {
   const [accountToDelete, setAccountToDelete] = useState<string | null>(null);
+  const [transferToDelete, setTransferToDelete] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<'desc' | 'asc'>('desc');
+  const [asOf, setAsOf] = useState(''); // Vuota: saldo con tutti i movimenti registrati
 
+  // Senza saldo a una data anteriore al saldo iniziale il conto resta fuori
   const accountBalances = useMemo(() => {
     const balances = new Map<string, number>();
     bankAccounts.forEach(acc => {
-      const totalExpenses = expenses
-        .filter(e => e.bankAccountId === acc.id)
-        .reduce((sum, e) => sum + e.amount, 0);
-      const totalIncomes = incomes
-        .filter(i => i.bankAccountId === acc.id)
-        .reduce((sum, i) => sum + i.amount, 0);
-      balances.set(acc.id, acc.initialBalance + totalIncomes - totalExpenses);
+      if (asOf && !isBalanceKnownAt(acc, asOf)) return;
+      balances.set(acc.id, computeAccountBalance(acc, { expenses, incomes, f24Payments, bankTransfers }, asOf || undefined));
     });
     return balances;
-  }, [bankAccounts, expenses, incomes]);
+  }, [bankAccounts, expenses, incomes, f24Payments, bankTransfers, asOf]);
+
+  const totalBalance = [...accountBalances.values()].reduce((sum, b) => sum + b, 0);
+
+  const sortedTransfers = useMemo(
+    () => [...bankTransfers].sort((a, b) => b.date.localeCompare(a.date)),
+    [bankTransfers],
+  );
+
+  const accountName = (id: string) => bankAccounts.find(a => a.id === id)?.name || 'Conto eliminato';
 
   const sortedAccounts = useMemo(() => {
     return [...bankAccounts].sort((a, b) => {
@@ -51,6 +66,13 @@ export const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts,
       setAccountToDelete(null);
     }
   };
+
+  const executeDeleteTransfer = () => {
+    if (transferToDelete) {
+      onDeleteTransfer(transferToDelete);
+      setTransferToDelete(null);
+    }
+  };
   
   const formatCurrency = (val: number) => 
     new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(val);
@@ -58,9 +80,15 @@ export const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts,
   return (
     <>
       <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
-        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
-          <h2 className="text-lg font-bold text-slate-800 dark:text-white">Conti Correnti</h2>
-          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Gestisci i conti bancari del condominio.</p>
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">Conti Correnti</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Gestisci i conti bancari del condominio.</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            Saldo al
+            <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+          </label>
         </div>
 
         <div className="overflow-x-auto">
@@ -72,7 +100,7 @@ export const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts,
                 <th className="px-6 py-3 font-medium text-right">Saldo Iniziale</th>
                 <th className="px-6 py-3 font-medium text-right cursor-pointer group hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors" onClick={toggleSort}>
                   <div className="flex items-center justify-end gap-1">
-                    Saldo Attuale
+                    {asOf ? `Saldo al ${new Date(asOf).toLocaleDateString('it-IT')}` : 'Saldo Attuale'}
                     {sortOrder === 'desc' ? <ArrowDown size={14} /> : <ArrowUp size={14} />}
                   </div>
                 </th>
@@ -85,8 +113,20 @@ export const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts,
                   <tr key={account.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
                     <td className="px-6 py-4 text-slate-900 dark:text-white font-medium">{account.name}</td>
                     <td className="px-6 py-4 text-slate-500 dark:text-slate-400 font-mono">{account.iban}</td>
-                    <td className="px-6 py-4 text-right text-slate-600 dark:text-slate-300">{formatCurrency(account.initialBalance)}</td>
-                    <td className="px-6 py-4 text-right font-bold text-slate-800 dark:text-slate-200">{formatCurrency(accountBalances.get(account.id) || 0)}</td>
+                    <td className="px-6 py-4 text-right text-slate-600 dark:text-slate-300">
+                      <p>{formatCurrency(account.initialBalance)}</p>
+                      {account.initialBalanceDate && <p className="text-xs text-slate-500 dark:text-slate-400">al {new Date(account.initialBalanceDate).toLocaleDateString('it-IT')}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {accountBalances.has(account.id) ? (
+                        <p className="font-bold text-slate-800 dark:text-slate-200">{formatCurrency(accountBalances.get(account.id) || 0)}</p>
+                      ) : (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">Non disponibile: data precedente al saldo iniziale</p>
+                      )}
+                      {!asOf && account.statementBalance !== undefined && account.statementDate && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">Banca al {new Date(account.statementDate).toLocaleDateString('it-IT')}: {formatCurrency(account.statementBalance)}</p>
+                      )}
+                    </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center justify-center gap-2">
                         <button onClick={() => onEdit(account)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title="Modifica Conto"><Pencil size={18} /></button>
@@ -103,10 +143,86 @@ export const BankAccountList: React.FC<BankAccountListProps> = ({ bankAccounts,
                 </tr>
               )}
             </tbody>
+            {bankAccounts.length > 1 && (
+              <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-medium">
+                <tr>
+                  <td colSpan={3} className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">Totale conti</td>
+                  <td className="px-6 py-3 text-right font-bold text-slate-800 dark:text-white">{formatCurrency(totalBalance)}</td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            )}
           </table>
         </div>
       </div>
 
+      <div className="mt-6 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">Giroconti</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">Trasferimenti tra i conti del condominio: muovono i saldi ma non sono spese né incassi.</p>
+          </div>
+          <button onClick={onNewTransfer} disabled={bankAccounts.length < 2} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50" title={bankAccounts.length < 2 ? 'Servono almeno due conti' : undefined}>
+            <Plus size={16} /> Nuovo giroconto
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">Data</th>
+                <th className="px-6 py-3 font-medium">Conti</th>
+                <th className="px-6 py-3 font-medium">Descrizione</th>
+                <th className="px-6 py-3 font-medium text-right">Importo</th>
+                <th className="px-6 py-3 font-medium text-center">Azioni</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {sortedTransfers.length > 0 ? (
+                sortedTransfers.map((transfer) => (
+                  <tr key={transfer.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                    <td className="px-6 py-4 text-slate-600 dark:text-slate-300 whitespace-nowrap">{new Date(transfer.date).toLocaleDateString('it-IT')}</td>
+                    <td className="px-6 py-4 text-slate-800 dark:text-slate-200">
+                      <span className="flex items-center gap-2">{accountName(transfer.fromAccountId)} <ArrowRight size={14} className="text-slate-400" /> {accountName(transfer.toAccountId)}</span>
+                    </td>
+                    <td className="px-6 py-4 text-slate-500 dark:text-slate-400">{transfer.description || '-'}</td>
+                    <td className="px-6 py-4 text-right font-bold text-slate-800 dark:text-slate-200">{formatCurrency(transfer.amount)}</td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-center gap-2">
+                        <button onClick={() => onEditTransfer(transfer)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title="Modifica Giroconto"><Pencil size={18} /></button>
+                        <button onClick={() => setTransferToDelete(transfer.id)} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title="Elimina Giroconto"><Trash2 size={18} /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <p>Nessun giroconto registrato.</p>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {transferToDelete && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30"><AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">Elimina Giroconto</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Il giroconto verrà tolto dai saldi di entrambi i conti. L'operazione è irreversibile.</p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={executeDeleteTransfer} type="button" className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700">Elimina</button>
+              <button onClick={() => setTransferToDelete(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">Annulla</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {accountToDelete && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
           <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700">
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { X, ArrowRight, AlertTriangle } from 'lucide-react';
+import { BankStatementMapping, StatementDateFormat } from '../types';
+import { getColumnNames, getMissingColumns, parseCsv, parseStatementRows, StatementFile } from '../services/statementFileService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface BankStatementMappingWizardProps {
+  accountName: string;
+  file: StatementFile;
+  initialMapping: BankStatementMapping;
+  onCancel: () => void;
+  onConfirm: (file: StatementFile, mapping: BankStatementMapping) => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ';': 'statementMapping.delimiterSemicolon',
+  ',': 'statementMapping.delimiterComma',
+  '\t': 'statementMapping.delimiterTab',
+  '|': 'statementMapping.delimiterPipe',
+};
+
+const AMOUNT_MODES: { value: BankStatementMapping['amountMode']; label: string }[] = [
+  { value: 'signed', label: 'statementMapping.amountSigned' },
+  { value: 'split', label: 'statementMapping.amountSplit' },
+  { value: 'indicator', label: 'statementMapping.amountIndicator' },
+];
+
+const DATE_FORMAT_LABELS: Record<StatementDateFormat, string> = {
+  DMY: 'statementMapping.dateDmy',
+  MDY: 'statementMapping.dateMdy',
+  YMD: 'statementMapping.dateYmd',
+};
+
+const PREVIEW_ROWS = 8;
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1";
+
+export const BankStatementMappingWizard: React.FC<BankStatementMappingWizardProps> = ({
+  accountName, file: initialFile, initialMapping, onCancel, onConfirm,
+}) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+  const [file, setFile] = useState(initialFile);
+  const [mapping, setMapping] = useState(initialMapping);
+
+  const columns = useMemo(() => getColumnNames(file.rows, mapping.headerRow), [file, mapping.headerRow]);
+  const missingColumns = useMemo(() => getMissingColumns(file, mapping), [file, mapping]);
+  const result = useMemo(() => parseStatementRows(file, mapping), [file, mapping]);
+
+  const update = (changes: Partial<BankStatementMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+  const handleDelimiterChange = (delimiter: string) => {
+    if (file.text === undefined) return;
+    setFile({ ...file, rows: parseCsv(file.text, delimiter) });
+    update({ delimiter });
+  };
+
+  const toggleDescription = (column: string) => {
+    update({
+      descriptionColumns: mapping.descriptionColumns.includes(column)
+        ? mapping.descriptionColumns.filter(c => c !== column)
+        : [...mapping.descriptionColumns, column],
+    });
+  };
+
+  const columnSelect = (value: string | undefined, onChange: (value: string | undefined) => void, optional = false) => (
+    <select value={value || ''} onChange={(e) => onChange(e.target.value || undefined)} className={inputClass}>
+      {optional ? <option value="">{t('statementMapping.none')}</option> : !value && <option value="">{t('statementMapping.select')}</option>}
+      {columns.map(c => <option key={c} value={c}>{c}</option>)}
+    </select>
+  );
+
+  const rawRows = file.rows.slice(0, mapping.headerRow + 1 + PREVIEW_ROWS);
+  const canConfirm = missingColumns.length === 0 && result.transactions.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-5xl w-full p-6 border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 dark:border-slate-700 pb-3">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 dark:text-white">{t('statementMapping.title')}</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{file.fileName} · {accountName} · {t('statementMapping.remembered')}</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"><X size={20} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-5">
+          <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+            <table className="w-full text-xs">
+              <tbody>
+                {rawRows.map((row, i) => (
+                  <tr
+                    key={i}
+                    onClick={() => update({ headerRow: i })}
+                    className={`cursor-pointer border-b border-slate-100 dark:border-slate-700 ${i === mapping.headerRow ? 'bg-indigo-50 dark:bg-indigo-900/30 font-bold text-indigo-800 dark:text-indigo-300' : i < mapping.headerRow ? 'text-slate-400' : 'text-slate-700 dark:text-slate-300'}`}
+                  >
+                    <td className="px-2 py-1 text-slate-400 text-right w-8">{i + 1}</td>
+                    {row.map((cell, j) => <td key={j} className="px-2 py-1 whitespace-nowrap max-w-[12rem] truncate">{String(cell)}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 -mt-3">{t('statementMapping.headerHint')}</p>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {file.text !== undefined && (
+              <div>
+                <label className={labelClass}>{t('statementMapping.delimiter')}</label>
+                <select value={mapping.delimiter || ';'} onChange={(e) => handleDelimiterChange(e.target.value)} className={inputClass}>
+                  {Object.entries(DELIMITER_LABELS).map(([value, label]) => <option key={value} value={value}>{t(label)}</option>)}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className={labelClass}>{t('statementMapping.headerRow')}</label>
+              <input type="number" min={1} max={file.rows.length} value={mapping.headerRow + 1} onChange={(e) => update({ headerRow: Math.max(0, Math.min(file.rows.length - 1, Number(e.target.value) - 1)) })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('statementMapping.dateFormat')}</label>
+              <select value={mapping.dateFormat} onChange={(e) => update({ dateFormat: e.target.value as StatementDateFormat })} className={inputClass}>
+                {Object.entries(DATE_FORMAT_LABELS).map(([value, label]) => <option key={value} value={value}>{t(label)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('statementMapping.decimalSeparator')}</label>
+              <select value={mapping.decimalSeparator} onChange={(e) => update({ decimalSeparator: e.target.value as ',' | '.' })} className={inputClass}>
+                <option value=",">{t('statementMapping.decimalComma')}</option>
+                <option value=".">{t('statementMapping.decimalPoint')}</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>{t('statementMapping.bookingDate')}</label>
+              {columnSelect(mapping.dateColumn, v => update({ dateColumn: v || '' }))}
+            </div>
+            <div>
+              <label className={labelClass}>{t('statementMapping.valueDate')}</label>
+              {columnSelect(mapping.valueDateColumn, v => update({ valueDateColumn: v }), true)}
+            </div>
+            <div>
+              <label className={labelClass}>{t('statementMapping.counterparty')}</label>
+              {columnSelect(mapping.counterpartyColumn, v => update({ counterpartyColumn: v }), true)}
+            </div>
+            <div>
+              <label className={labelClass}>{t('statementMapping.amount')}</label>
+              <select value={mapping.amountMode} onChange={(e) => update({ amountMode: e.target.value as BankStatementMapping['amountMode'] })} className={inputClass}>
+                {AMOUNT_MODES.map(m => <option key={m.value} value={m.value}>{t(m.label)}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {mapping.amountMode === 'split' ? (
+              <>
+                <div>
+                  <label className={labelClass}>{t('statementMapping.debitColumn')}</label>
+                  {columnSelect(mapping.debitColumn, v => update({ debitColumn: v }))}
+                </div>
+                <div>
+                  <label className={labelClass}>{t('statementMapping.creditColumn')}</label>
+                  {columnSelect(mapping.creditColumn, v => update({ creditColumn: v }))}
+                </div>
+              </>
+            ) : (
+              <div>
+                <label className={labelClass}>{t('statementMapping.amountColumn')}</label>
+                {columnSelect(mapping.amountColumn, v => update({ amountColumn: v }))}
+              </div>
+            )}
+            {mapping.amountMode === 'indicator' && (
+              <>
+                <div>
+                  <label className={labelClass}>{t('statementMapping.signColumn')}</label>
+                  {columnSelect(mapping.signColumn, v => update({ signColumn: v }))}
+                </div>
+                <div>
+                  <label className={labelClass}>{t('statementMapping.debitMarker')}</label>
+                  <input type="text" value={mapping.debitMarker || ''} onChange={(e) => update({ debitMarker: e.target.value })} placeholder={t('statementMapping.debitMarkerPlaceholder')} className={inputClass} />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('statementMapping.description')}</label>
+            <div className="flex flex-wrap gap-2">
+              {columns.map(c => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => toggleDescription(c)}
+                  className={`px-3 py-1 rounded-full text-xs border ${mapping.descriptionColumns.includes(c) ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                >
+                  {c}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {missingColumns.length > 0 && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 rounded-lg text-xs text-red-700 dark:text-red-300 flex items-center gap-2">
+              <AlertTriangle size={14} /> {t('statementMapping.missingColumns').replace('{columns}', missingColumns.join(', '))}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">
+              {t('statementMapping.preview').replace('{count}', String(result.transactions.length))}
+              {result.skippedRows.length > 0 && <span className="font-normal text-amber-600 dark:text-amber-400">{t('statementMapping.skippedRows').replace('{count}', String(result.skippedRows.length))}</span>}
+            </h4>
+            <table className="w-full text-left text-sm">
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {result.transactions.slice(0, PREVIEW_ROWS).map((tx, i) => (
+                  <tr key={i}>
+                    <td className="py-1 pr-2 whitespace-nowrap text-slate-600 dark:text-slate-300">{new Date(tx.bookingDate).toLocaleDateString(locale)}</td>
+                    <td className="py-1 pr-2 text-slate-700 dark:text-slate-300">{[tx.counterparty, tx.remittanceInfo].filter(Boolean).join(' · ') || '-'}</td>
+                    <td className={`py-1 text-right font-medium whitespace-nowrap ${tx.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{formatCurrency(tx.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="mt-4 pt-3 border-t border-slate-100 dark:border-slate-700 flex justify-end gap-3">
+          <button onClick={onCancel} className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700">{t('common.cancel')}</button>
+          <button onClick={() => onConfirm(file, mapping)} disabled={!canConfirm} className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center gap-2 disabled:opacity-50">
+            {t('statementMapping.next')} <ArrowRight size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,345 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Trash2, AlertTriangle, X, Check, Search, Copy, FileSpreadsheet, Settings2 } from 'lucide-react';
+import { BankAccount, BankStatementMapping, BankTransaction } from '../types';
+import { getStatementDifference, parseCamt053, StatementBalance } from '../services/camtService';
+import {
+  createBankTransactions, findDuplicateTransactions, isSameIban, ParsedBankTransaction, sortTransactions,
+} from '../services/bankTransactionService';
+import { formatIban } from '../services/validationService';
+import { getMissingColumns, guessMapping, parseStatementRows, readStatementFile, StatementFile } from '../services/statementFileService';
+import { BankStatementMappingWizard } from './BankStatementMappingWizard';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface BankTransactionsViewProps {
+  account: BankAccount;
+  bankTransactions: BankTransaction[];
+  onImport: (accountId: string, transactions: BankTransaction[], closingBalance?: StatementBalance) => void;
+  onDelete: (id: string) => void;
+  onSaveMapping: (accountId: string, mapping: BankStatementMapping) => void;
+}
+
+// Movimenti letti da un file, in attesa di conferma
+interface ImportPreview {
+  fileName: string;
+  transactions: ParsedBankTransaction[];
+  duplicates: boolean[];
+  selected: boolean[];
+  closingBalance?: StatementBalance;
+  notes: string[];
+  statementFile?: StatementFile; // Presente per i CSV/Excel, per poter correggere il tracciato
+}
+
+interface MappingStep {
+  file: StatementFile;
+  mapping: BankStatementMapping;
+}
+
+export const BankTransactionsView: React.FC<BankTransactionsViewProps> = ({
+  account, bankTransactions, onImport, onDelete, onSaveMapping,
+}) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const statementInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mappingStep, setMappingStep] = useState<MappingStep | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [transactionToDelete, setTransactionToDelete] = useState<string | null>(null);
+
+  const accountTransactions = useMemo(
+    () => bankTransactions.filter(tx => tx.bankAccountId === account.id),
+    [bankTransactions, account],
+  );
+
+  const visibleTransactions = useMemo(() => {
+    const search = searchTerm.toLowerCase();
+    return sortTransactions(accountTransactions).filter(tx =>
+      !search ||
+      (tx.counterparty || '').toLowerCase().includes(search) ||
+      (tx.remittanceInfo || '').toLowerCase().includes(search)
+    );
+  }, [accountTransactions, searchTerm]);
+
+  const handleImportCamt = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const statements = parseCamt053(await file.text());
+      if (statements.length === 0) throw new Error(t('bankTransactions.noStatements'));
+
+      // Solo gli estratti del conto selezionato: un file può riguardare più conti della stessa banca
+      const matching = account.iban
+        ? statements.filter(s => isSameIban(s.iban, account.iban))
+        : statements.slice(0, 1);
+      if (matching.length === 0) {
+        const ibans = statements.map(s => s.iban ? formatIban(s.iban) : t('bankTransactions.ibanNotStated')).join(', ');
+        throw new Error(t('bankTransactions.ibanMismatch').replace('{ibans}', ibans).replace('{account}', account.name));
+      }
+
+      const notes: string[] = [];
+      if (!account.iban) notes.push(t('bankTransactions.noAccountIban').replace('{account}', account.name));
+      if (matching.length < statements.length) notes.push(t('bankTransactions.otherAccountsIgnored').replace('{count}', String(statements.length - matching.length)));
+      matching.forEach(s => {
+        if (s.currency !== 'EUR') notes.push(t('bankTransactions.statementCurrency').replace('{id}', s.id).replace('{currency}', s.currency));
+        const difference = getStatementDifference(s);
+        if (difference !== 0) notes.push(t('bankTransactions.statementUnbalanced').replace('{id}', s.id).replace('{amount}', formatCurrency(difference)));
+      });
+
+      const transactions = matching.flatMap(s => s.transactions);
+      const duplicates = findDuplicateTransactions(accountTransactions, transactions);
+      const closingBalance = matching
+        .map(s => s.closingBalance)
+        .filter((b): b is StatementBalance => !!b)
+        .sort((a, b) => b.date.localeCompare(a.date))[0];
+      setPreview({ fileName: file.name, transactions, duplicates, selected: duplicates.map(d => !d), closingBalance, notes });
+    } catch (error) {
+      console.error(error);
+      alert(t('bankTransactions.importError').replace('{error}', (error as Error).message));
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const showFilePreview = (file: StatementFile, mapping: BankStatementMapping, notes: string[] = []) => {
+    const { transactions, skippedRows } = parseStatementRows(file, mapping);
+    if (skippedRows.length > 0) {
+      const listed = skippedRows.slice(0, 10).join(', ');
+      notes.push(t('bankTransactions.skippedRows').replace('{rows}', `${listed}${skippedRows.length > 10 ? '…' : ''}`));
+    }
+    const duplicates = findDuplicateTransactions(accountTransactions, transactions);
+    setPreview({ fileName: file.fileName, transactions, duplicates, selected: duplicates.map(d => !d), notes, statementFile: file });
+  };
+
+  const handleImportStatementFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const saved = account.statementMapping;
+      const statementFile = await readStatementFile(file, saved?.delimiter);
+      if (statementFile.rows.length === 0) throw new Error(t('bankTransactions.emptyFile'));
+      // Con un tracciato già salvato e ancora valido si passa direttamente all'anteprima
+      if (saved && getMissingColumns(statementFile, saved).length === 0 && parseStatementRows(statementFile, saved).transactions.length > 0) {
+        showFilePreview(statementFile, saved, [t('bankTransactions.savedMappingApplied')]);
+      } else {
+        setMappingStep({ file: statementFile, mapping: saved || guessMapping(statementFile) });
+      }
+    } catch (error) {
+      console.error(error);
+      alert(t('bankTransactions.importError').replace('{error}', (error as Error).message));
+    } finally {
+      if (statementInputRef.current) statementInputRef.current.value = '';
+    }
+  };
+
+  const handleConfirmMapping = (file: StatementFile, mapping: BankStatementMapping) => {
+    onSaveMapping(account.id, mapping);
+    setMappingStep(null);
+    showFilePreview(file, mapping);
+  };
+
+  const handleEditMapping = () => {
+    if (!preview?.statementFile) return;
+    setMappingStep({ file: preview.statementFile, mapping: account.statementMapping || guessMapping(preview.statementFile) });
+    setPreview(null);
+  };
+
+  const toggleSelected = (index: number) => {
+    setPreview(prev => prev && { ...prev, selected: prev.selected.map((s, i) => i === index ? !s : s) });
+  };
+
+  const handleConfirmImport = () => {
+    if (!preview) return;
+    const chosen = preview.transactions.filter((_, i) => preview.selected[i]);
+    onImport(account.id, createBankTransactions(account, chosen), preview.closingBalance);
+    setPreview(null);
+  };
+
+  const executeDelete = () => {
+    if (transactionToDelete) {
+      onDelete(transactionToDelete);
+      setTransactionToDelete(null);
+    }
+  };
+
+  const total = accountTransactions.reduce((sum, tx) => sum + tx.amount, 0);
+  const selectedCount = preview ? preview.selected.filter(Boolean).length : 0;
+
+  return (
+    <>
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('bankTransactions.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {t('bankTransactions.importedCount').replace('{count}', String(accountTransactions.length))}
+              {account.statementBalance !== undefined && account.statementDate && (
+                <>{t('bankTransactions.bankBalance').replace('{date}', formatDate(account.statementDate))}<span className="font-medium">{formatCurrency(account.statementBalance)}</span></>
+              )}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="file" ref={fileInputRef} accept=".xml" onChange={handleImportCamt} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium">
+              <FileUp size={16} /> {t('bankTransactions.importCamt')}
+            </button>
+            <input type="file" ref={statementInputRef} accept=".csv,.txt,.xlsx,.xls" onChange={handleImportStatementFile} className="hidden" />
+            <button onClick={() => statementInputRef.current?.click()} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium">
+              <FileSpreadsheet size={16} /> {t('bankTransactions.importCsv')}
+            </button>
+          </div>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-200 dark:border-slate-700">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder={t('bankTransactions.searchPlaceholder')}
+              className="w-full pl-9 pr-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('bankTransactions.colDate')}</th>
+                <th className="px-6 py-3 font-medium">{t('bankTransactions.colCounterparty')}</th>
+                <th className="px-6 py-3 font-medium">{t('bankTransactions.colRemittance')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('bankTransactions.colAmount')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('bankTransactions.colActions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {visibleTransactions.length > 0 ? visibleTransactions.map(tx => (
+                <tr key={tx.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <p className="text-slate-800 dark:text-slate-200">{formatDate(tx.bookingDate)}</p>
+                    {tx.valueDate && tx.valueDate !== tx.bookingDate && <p className="text-xs text-slate-400">{t('bankTransactions.valueDate').replace('{date}', formatDate(tx.valueDate))}</p>}
+                  </td>
+                  <td className="px-6 py-4">
+                    <p className="text-slate-800 dark:text-slate-200">{tx.counterparty || '-'}</p>
+                    {tx.counterpartyIban && <p className="text-xs font-mono text-slate-400">{formatIban(tx.counterpartyIban)}</p>}
+                  </td>
+                  <td className="px-6 py-4 text-slate-600 dark:text-slate-300 max-w-xs">{tx.remittanceInfo || '-'}</td>
+                  <td className={`px-6 py-4 text-right font-bold whitespace-nowrap ${tx.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    {formatCurrency(tx.amount)}
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <button onClick={() => setTransactionToDelete(tx.id)} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title={t('bankTransactions.deleteTitle')}><Trash2 size={18} /></button>
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    {t('bankTransactions.empty')}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+            {accountTransactions.length > 0 && (
+              <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-medium">
+                <tr>
+                  <td colSpan={3} className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">{t('bankTransactions.total')}</td>
+                  <td className="px-6 py-3 text-right text-slate-800 dark:text-white">{formatCurrency(total)}</td>
+                  <td></td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-3xl w-full p-6 border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+            <div className="flex justify-between items-center mb-4 border-b border-slate-100 dark:border-slate-700 pb-3">
+              <div>
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white">{t('bankTransactions.importTitle')}</h3>
+                <p className="text-xs text-slate-500 dark:text-slate-400">{preview.fileName} · {account.name}</p>
+              </div>
+              <button onClick={() => setPreview(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300"><X size={20} /></button>
+            </div>
+
+            {(preview.notes.length > 0 || preview.duplicates.some(Boolean)) && (
+              <div className="mb-3 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-lg text-xs text-amber-800 dark:text-amber-300 space-y-1">
+                {preview.duplicates.some(Boolean) && (
+                  <p className="flex items-center gap-1"><Copy size={12} /> {t('bankTransactions.duplicatesNote').replace('{count}', String(preview.duplicates.filter(Boolean).length))}</p>
+                )}
+                {preview.notes.map(note => <p key={note} className="flex items-center gap-1"><AlertTriangle size={12} /> {note}</p>)}
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto">
+              <table className="w-full text-left text-sm">
+                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                  {preview.transactions.map((tx, i) => (
+                    <tr key={i} className={preview.duplicates[i] ? 'opacity-60' : ''}>
+                      <td className="py-2 pr-2 w-8">
+                        <input type="checkbox" checked={preview.selected[i]} onChange={() => toggleSelected(i)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                      </td>
+                      <td className="py-2 pr-2 whitespace-nowrap text-slate-600 dark:text-slate-300">{formatDate(tx.bookingDate)}</td>
+                      <td className="py-2 pr-2">
+                        <p className="text-slate-800 dark:text-slate-200">{tx.counterparty || '-'}</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{tx.remittanceInfo}</p>
+                        {preview.duplicates[i] && <p className="text-xs text-amber-600 dark:text-amber-400">{t('bankTransactions.alreadyPresent')}</p>}
+                      </td>
+                      <td className={`py-2 text-right font-medium whitespace-nowrap ${tx.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{formatCurrency(tx.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-4 pt-3 border-t border-slate-100 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {preview.statementFile && (
+                  <button onClick={handleEditMapping} className="text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1"><Settings2 size={12} /> {t('bankTransactions.editMapping')}</button>
+                )}
+                {preview.closingBalance && <>{t('bankTransactions.closingBalance').replace('{date}', formatDate(preview.closingBalance.date))}<span className="font-medium">{formatCurrency(preview.closingBalance.amount)}</span></>}
+              </p>
+              <div className="flex justify-end gap-3">
+                <button onClick={() => setPreview(null)} className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-700">{t('common.cancel')}</button>
+                <button onClick={handleConfirmImport} disabled={selectedCount === 0 && !preview.closingBalance} className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 flex items-center gap-2 disabled:opacity-50">
+                  <Check size={16} /> {t('bankTransactions.import').replace('{count}', String(selectedCount))}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {mappingStep && (
+        <BankStatementMappingWizard
+          accountName={account.name}
+          file={mappingStep.file}
+          initialMapping={mappingStep.mapping}
+          onCancel={() => setMappingStep(null)}
+          onConfirm={handleConfirmMapping}
+        />
+      )}
+
+      {transactionToDelete && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30"><AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">{t('bankTransactions.deleteModalTitle')}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">{t('bankTransactions.deleteMsg')}</p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={executeDelete} type="button" className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700">{t('common.delete')}</button>
+              <button onClick={() => setTransactionToDelete(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">{t('common.cancel')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { BankAccount, BankTransfer } from '../types';
+import { generateId } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface BankTransferFormProps {
+  onAdd: (transfer: BankTransfer) => void;
+  onUpdate?: (transfer: BankTransfer) => void;
+  onCancel: () => void;
+  initialData?: BankTransfer;
+  bankAccounts: BankAccount[];
+}
+
+const inputClass = "w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2";
+
+export const BankTransferForm: React.FC<BankTransferFormProps> = ({ onAdd, onUpdate, onCancel, initialData, bankAccounts }) => {
+  const { t } = useLanguage();
+  const [date, setDate] = useState(initialData?.date || new Date().toISOString().slice(0, 10));
+  const [amount, setAmount] = useState(initialData?.amount?.toString() ?? '');
+  const [fromAccountId, setFromAccountId] = useState(initialData?.fromAccountId || bankAccounts[0]?.id || '');
+  const [toAccountId, setToAccountId] = useState(initialData?.toAccountId || bankAccounts[1]?.id || '');
+  const [description, setDescription] = useState(initialData?.description || '');
+
+  const isEditing = !!initialData;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      alert(t('bankTransfer.invalidAmount'));
+      return;
+    }
+    if (!fromAccountId || !toAccountId) {
+      alert(t('bankTransfer.missingAccounts'));
+      return;
+    }
+    if (fromAccountId === toAccountId) {
+      alert(t('bankTransfer.sameAccount'));
+      return;
+    }
+
+    const transferData: BankTransfer = {
+      id: isEditing ? initialData.id : generateId(),
+      date,
+      amount: parsedAmount,
+      fromAccountId,
+      toAccountId,
+      description: description.trim() || undefined,
+    };
+
+    if (isEditing && onUpdate) {
+      onUpdate(transferData);
+    } else {
+      onAdd(transferData);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 max-w-2xl mx-auto overflow-hidden transition-colors duration-200">
+      <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-bold text-slate-800 dark:text-white">
+          {isEditing ? t('bankTransfer.formEdit') : t('bankTransfer.formNew')}
+        </h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('bankTransfer.subtitle')}</p>
+      </div>
+      <div className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className={labelClass}>{t('bankTransfer.from')}</label>
+              <select required value={fromAccountId} onChange={(e) => setFromAccountId(e.target.value)} className={inputClass}>
+                <option value="">{t('bankTransfer.select')}</option>
+                {bankAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('bankTransfer.to')}</label>
+              <select required value={toAccountId} onChange={(e) => setToAccountId(e.target.value)} className={inputClass}>
+                <option value="">{t('bankTransfer.select')}</option>
+                {bankAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('bankTransfer.amount')}</label>
+              <input type="number" required min="0.01" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} className={inputClass} placeholder="0.00" />
+            </div>
+            <div>
+              <label className={labelClass}>{t('bankTransfer.date')}</label>
+              <input type="date" required value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('bankTransfer.description')}</label>
+              <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} placeholder={t('bankTransfer.descriptionPlaceholder')} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-5 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium"
+            >
+              <Check size={18} />
+              {isEditing ? t('bankTransfer.update') : t('bankTransfer.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React from 'react';
+import { ArrowLeftRight, GitCompareArrows, Landmark, Repeat, Send } from 'lucide-react';
+import { BankAccount, BankReconciliation, BankStatementMapping, BankTransaction, BankTransfer, CondoSettings, Expense, F24Payment, Income, Installment, Person, SddMandate, Supplier, Unit } from '../types';
+import { StatementBalance } from '../services/camtService';
+import { MatchedSddReturn } from '../services/sddService';
+import { BankTransactionsView } from './BankTransactionsView';
+import { ReconciliationView } from './ReconciliationView';
+import { SepaPaymentsView } from './SepaPaymentsView';
+import { SddView } from './SddView';
+
+export type BankTab = 'transactions' | 'reconciliation' | 'payments' | 'directDebits';
+
+interface BankViewProps {
+  tab: BankTab;
+  onTabChange: (tab: BankTab) => void;
+  accountId: string;
+  onAccountChange: (id: string) => void;
+  bankAccounts: BankAccount[];
+  bankTransactions: BankTransaction[];
+  bankReconciliations: BankReconciliation[];
+  bankTransfers: BankTransfer[];
+  expenses: Expense[];
+  incomes: Income[];
+  f24Payments: F24Payment[];
+  suppliers: Supplier[];
+  settings: CondoSettings;
+  condoName: string;
+  onImportTransactions: (accountId: string, transactions: BankTransaction[], closingBalance?: StatementBalance) => void;
+  onDeleteTransaction: (id: string) => void;
+  onSaveMapping: (accountId: string, mapping: BankStatementMapping) => void;
+  onConfirmReconciliations: (reconciliations: BankReconciliation[]) => void;
+  onUndoReconciliation: (id: string) => void;
+  onMarkExpensesPaid: (expenseIds: string[], paidDate: string, bankAccountId: string) => void;
+  units: Unit[];
+  persons: Person[];
+  installments: Installment[];
+  sddMandates: SddMandate[];
+  onSaveSddMandate: (mandate: SddMandate) => void;
+  onDeleteSddMandate: (id: string) => void;
+  onAddSddIncomes: (incomes: Income[]) => void;
+  onApplySddReturns: (returns: MatchedSddReturn[]) => void;
+}
+
+const tabClass = (active: boolean) => `flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+  active
+    ? 'bg-white dark:bg-slate-600 text-indigo-600 dark:text-indigo-300 shadow-sm'
+    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+}`;
+
+export const BankView: React.FC<BankViewProps> = ({
+  tab, onTabChange, accountId, onAccountChange, bankAccounts, bankTransactions, bankReconciliations, bankTransfers, expenses, incomes, f24Payments, suppliers,
+  settings, condoName, onImportTransactions, onDeleteTransaction, onSaveMapping, onConfirmReconciliations, onUndoReconciliation, onMarkExpensesPaid,
+  units, persons, installments, sddMandates, onSaveSddMandate, onDeleteSddMandate, onAddSddIncomes, onApplySddReturns,
+}) => {
+  const account = bankAccounts.find(a => a.id === accountId) || bankAccounts[0];
+
+  if (!account) {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-12 text-center text-slate-500 dark:text-slate-400">
+        <Landmark className="w-8 h-8 mx-auto mb-2 text-slate-300 dark:text-slate-600" />
+        <p>Aggiungi un conto corrente per importare gli estratti conto.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg w-fit">
+          <button onClick={() => onTabChange('transactions')} className={tabClass(tab === 'transactions')}>
+            <ArrowLeftRight size={16} />
+            Movimenti
+          </button>
+          <button onClick={() => onTabChange('reconciliation')} className={tabClass(tab === 'reconciliation')}>
+            <GitCompareArrows size={16} />
+            Riconciliazione
+          </button>
+          <button onClick={() => onTabChange('payments')} className={tabClass(tab === 'payments')}>
+            <Send size={16} />
+            Bonifici SEPA
+          </button>
+          <button onClick={() => onTabChange('directDebits')} className={tabClass(tab === 'directDebits')}>
+            <Repeat size={16} />
+            Addebiti SDD
+          </button>
+        </div>
+        <select value={account.id} onChange={(e) => onAccountChange(e.target.value)} className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+          {bankAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+        </select>
+      </div>
+
+      {tab === 'transactions' && (
+        <BankTransactionsView
+          account={account}
+          bankTransactions={bankTransactions}
+          onImport={onImportTransactions}
+          onDelete={onDeleteTransaction}
+          onSaveMapping={onSaveMapping}
+        />
+      )}
+      {tab === 'reconciliation' && (
+        <ReconciliationView
+          key={account.id}
+          account={account}
+          bankAccounts={bankAccounts}
+          bankTransactions={bankTransactions}
+          bankTransfers={bankTransfers}
+          bankReconciliations={bankReconciliations}
+          expenses={expenses}
+          incomes={incomes}
+          f24Payments={f24Payments}
+          suppliers={suppliers}
+          onConfirm={onConfirmReconciliations}
+          onUndo={onUndoReconciliation}
+        />
+      )}
+      {tab === 'payments' && (
+        <SepaPaymentsView
+          key={account.id}
+          account={account}
+          expenses={expenses}
+          suppliers={suppliers}
+          settings={settings}
+          condoName={condoName}
+          onMarkPaid={onMarkExpensesPaid}
+        />
+      )}
+      {tab === 'directDebits' && (
+        <SddView
+          key={account.id}
+          account={account}
+          sddMandates={sddMandates}
+          units={units}
+          persons={persons}
+          installments={installments}
+          incomes={incomes}
+          settings={settings}
+          condoName={condoName}
+          onSaveMandate={onSaveSddMandate}
+          onDeleteMandate={onDeleteSddMandate}
+          onAddIncomes={onAddSddIncomes}
+          onApplyReturns={onApplySddReturns}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { Budget, ExpenseCategory } from '../types';
+import { generateId } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+import { DEFAULT_WARNING_THRESHOLD } from '../services/budgetService';
+
+interface BudgetEditorProps {
+  year: number;
+  periodLabel: string; // Etichetta dell'esercizio, es. "2025/2026"
+  formatPeriod: (year: number) => string;
+  initialData?: Budget;
+  previousBudget?: Budget; // Preventivo dell'esercizio precedente, per la copia delle voci
+  onSave: (budget: Budget) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const toInputValues = (items?: Record<string, number>) =>
+  Object.fromEntries(Object.entries(items || {}).map(([k, v]) => [k, String(v)])) as Record<string, string>;
+
+export const BudgetEditor: React.FC<BudgetEditorProps> = ({ year, periodLabel, formatPeriod, initialData, previousBudget, onSave, onCancel }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+
+  const [items, setItems] = useState<Record<string, string>>(toInputValues(initialData?.items));
+  const [threshold, setThreshold] = useState(String(initialData?.warningThreshold ?? DEFAULT_WARNING_THRESHOLD));
+  const [approvalDate, setApprovalDate] = useState(initialData?.approvalDate || '');
+  const [notes, setNotes] = useState(initialData?.notes || '');
+
+  const total = Object.keys(items).reduce((sum, c) => {
+    const n = parseFloat(items[c]);
+    return Number.isFinite(n) ? sum + n : sum;
+  }, 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedThreshold = parseFloat(threshold);
+    if (!Number.isFinite(parsedThreshold) || parsedThreshold <= 0) {
+      alert("La soglia di avviso non è valida.");
+      return;
+    }
+    const parsedItems: Record<string, number> = {};
+    for (const category of Object.keys(items)) {
+      if (!items[category].trim()) continue;
+      const n = parseFloat(items[category]);
+      if (!Number.isFinite(n) || n < 0) {
+        alert(`Importo non valido per la categoria ${category}.`);
+        return;
+      }
+      if (n > 0) parsedItems[category] = n;
+    }
+    if (Object.keys(parsedItems).length === 0) {
+      alert("Inserisci almeno una voce di preventivo.");
+      return;
+    }
+
+    onSave({
+      id: initialData ? initialData.id : generateId(),
+      year,
+      items: parsedItems,
+      warningThreshold: parsedThreshold,
+      approvalDate: approvalDate || undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+      <div className="p-4 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between gap-4">
+        <h3 className="font-bold text-slate-800 dark:text-white">{t('budget.title').replace('{year}', periodLabel)}</h3>
+        {previousBudget && !initialData && (
+          <button type="button" onClick={() => setItems(toInputValues(previousBudget.items))} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1">
+            <Copy size={14} />
+            {t('budget.copyPrevious').replace('{year}', formatPeriod(previousBudget.year))}
+          </button>
+        )}
+      </div>
+
+      <div className="divide-y divide-slate-100 dark:divide-slate-700">
+        {Object.values(ExpenseCategory).map(category => (
+          <div key={category} className="px-4 py-2 flex items-center justify-between gap-4">
+            <label className="text-sm text-slate-700 dark:text-slate-300">{category}</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={items[category] || ''}
+              onChange={(e) => setItems({ ...items, [category]: e.target.value })}
+              className={`${inputClass} w-40 text-right`}
+              placeholder="0.00"
+            />
+          </div>
+        ))}
+        <div className="px-4 py-3 flex items-center justify-between font-bold text-slate-800 dark:text-white bg-slate-50 dark:bg-slate-700/50">
+          <span>{t('budget.total')}</span>
+          <span>{new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(total)}</span>
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-4 border-t border-slate-200 dark:border-slate-700">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('budget.threshold')}</label>
+          <input type="number" min="1" step="1" value={threshold} onChange={(e) => setThreshold(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('budget.approvalDate')}</label>
+          <input type="date" value={approvalDate} onChange={(e) => setApprovalDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">{t('budget.notes')}</label>
+          <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="p-4 flex justify-end gap-3 border-t border-slate-100 dark:border-slate-700">
+        <button type="button" onClick={onCancel} className="px-5 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 font-medium">
+          {t('budget.cancel')}
+        </button>
+        <button type="submit" className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium">
+          <Check size={18} />
+          {t('budget.save')}
+        </button>
+      </div>
+    </form>
+  );
+};
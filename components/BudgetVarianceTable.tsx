@@ -0,0 +1,96 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { BudgetStatus, BudgetVariance } from '../services/budgetService';
+
+interface BudgetVarianceTableProps {
+  variance: BudgetVariance;
+  threshold: number;
+  // Versione ridotta per la Dashboard: solo categoria, barra di consumo e residuo
+  compact?: boolean;
+}
+
+const barColor: Record<BudgetStatus, string> = {
+  ok: 'bg-emerald-500',
+  warning: 'bg-amber-500',
+  over: 'bg-red-500',
+};
+
+export const BudgetVarianceTable: React.FC<BudgetVarianceTableProps> = ({ variance, threshold, compact }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+
+  const flagged = variance.rows.filter(r => r.status !== 'ok');
+
+  const statusLabel = (status: BudgetStatus) =>
+    status === 'over' ? t('budget.statusOver') : (status === 'warning' ? t('budget.statusWarning') : '');
+
+  const renderBar = (percent: number | null, status: BudgetStatus) => (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden min-w-[60px]">
+        <div className={`h-full ${barColor[status]}`} style={{ width: `${Math.min(percent ?? 100, 100)}%` }} />
+      </div>
+      <span className="text-xs font-medium text-slate-600 dark:text-slate-300 w-12 text-right">
+        {percent === null ? '—' : `${Math.round(percent)}%`}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {flagged.length > 0 && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-3 text-sm text-amber-800 dark:text-amber-300 flex items-start gap-2">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">
+              {t('budget.warning').replace('{count}', flagged.length.toString()).replace('{percent}', threshold.toString())}
+            </p>
+            <p className="text-xs mt-0.5">{flagged.map(r => `${r.category} (${statusLabel(r.status)})`).join(', ')}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+            <tr>
+              <th className="px-4 py-3 font-medium text-left">{t('budget.category')}</th>
+              {!compact && <th className="px-4 py-3 font-medium text-right">{t('budget.budgeted')}</th>}
+              {!compact && <th className="px-4 py-3 font-medium text-right">{t('budget.actual')}</th>}
+              <th className="px-4 py-3 font-medium text-right">{t('budget.remaining')}</th>
+              <th className="px-4 py-3 font-medium text-left w-48">{t('budget.consumed')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {variance.rows.map(row => (
+              <tr key={row.category} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                <td className="px-4 py-2.5 text-slate-700 dark:text-slate-300">
+                  {row.category}
+                  {row.budgeted === 0 && <span className="ml-2 text-xs text-red-500">{t('budget.notBudgeted')}</span>}
+                </td>
+                {!compact && <td className="px-4 py-2.5 text-right text-slate-600 dark:text-slate-300">{formatCurrency(row.budgeted)}</td>}
+                {!compact && <td className="px-4 py-2.5 text-right text-slate-800 dark:text-slate-200 font-medium">{formatCurrency(row.actual)}</td>}
+                <td className={`px-4 py-2.5 text-right font-medium ${row.remaining < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-200'}`}>
+                  {formatCurrency(row.remaining)}
+                </td>
+                <td className="px-4 py-2.5">{renderBar(row.percent, row.status)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-bold text-slate-800 dark:text-white">
+            <tr>
+              <td className="px-4 py-3">{t('budget.total')}</td>
+              {!compact && <td className="px-4 py-3 text-right">{formatCurrency(variance.budgeted)}</td>}
+              {!compact && <td className="px-4 py-3 text-right">{formatCurrency(variance.actual)}</td>}
+              <td className={`px-4 py-3 text-right ${variance.remaining < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>{formatCurrency(variance.remaining)}</td>
+              <td className="px-4 py-3">{renderBar(variance.percent, variance.status)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, FileSpreadsheet, FileCode, AlertTriangle, Download, BadgeCheck } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { CondoSettings, Expense, F24Payment, Supplier } from '../types';
+import { computeCertifications, ContractorCertification, createCertificationsCsv, createCertificationsXml } from '../services/certificationService';
+import { getTaxCodeLabel } from '../services/f24Service';
+import { getWithholdingPaymentDate } from '../services/withholdingService';
+import { downloadBlob } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface CertificationsViewProps {
+  expenses: Expense[];
+  suppliers: Supplier[];
+  f24Payments: F24Payment[];
+  settings: CondoSettings;
+  condoName: string;
+}
+
+// La CU è un documento fiscale: nel PDF importi e date restano in italiano
+const formatPdfCurrency = (value: number) =>
+  new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(value);
+
+const formatPdfDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+const renderCertificationPdf = (doc: jsPDF, condoName: string, condoFiscalCode: string, year: number, cert: ContractorCertification) => {
+  doc.setFontSize(22);
+  doc.setTextColor(79, 70, 229); // Indigo
+  doc.text(condoName, 14, 20);
+
+  doc.setFontSize(12);
+  doc.setTextColor(100);
+  doc.text(`Certificazione dei compensi e delle ritenute - Anno ${year}`, 14, 28);
+
+  doc.setFontSize(10);
+  doc.setTextColor(0);
+  doc.text('Sostituto d\'imposta', 14, 40);
+  doc.text(condoName, 14, 46);
+  doc.text(`Codice fiscale ${condoFiscalCode || 'NON IMPOSTATO'}`, 14, 52);
+
+  doc.text('Percipiente', 120, 40);
+  doc.text(cert.name, 120, 46);
+  doc.text(`Codice fiscale ${cert.fiscalCode || 'NON INDICATO'}`, 120, 52);
+  if (cert.address) {
+    doc.splitTextToSize(cert.address, 76).forEach((line: string, i: number) => doc.text(line, 120, 58 + i * 6));
+  }
+
+  (doc as any).autoTable({
+    startY: 70,
+    head: [['Data pagamento', 'Descrizione', 'Lordo', 'Imponibile', 'Ritenuta', 'Cod.', 'Versata con F24']],
+    body: cert.payments.map(p => [
+      formatPdfDate(p.date),
+      p.description,
+      formatPdfCurrency(p.gross),
+      formatPdfCurrency(p.taxable),
+      formatPdfCurrency(p.withheld),
+      p.taxCode,
+      p.f24Date ? formatPdfDate(p.f24Date) : 'Non versata',
+    ]),
+    foot: [['', 'Totali', formatPdfCurrency(cert.totalGross), formatPdfCurrency(cert.totalTaxable), formatPdfCurrency(cert.totalWithheld), '', '']],
+    theme: 'grid',
+    headStyles: { fillColor: [79, 70, 229] },
+    footStyles: { fillColor: [226, 232, 240], textColor: 20 },
+    styles: { fontSize: 8 },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+  });
+
+  (doc as any).autoTable({
+    startY: (doc as any).lastAutoTable.finalY + 8,
+    head: [['Dati da certificare', 'Importo']],
+    body: [
+      ['Ammontare lordo corrisposto', formatPdfCurrency(cert.totalGross)],
+      ['Imponibile', formatPdfCurrency(cert.totalTaxable)],
+      ['Ritenute a titolo d\'acconto operate', formatPdfCurrency(cert.totalWithheld)],
+      ['Ritenute versate', formatPdfCurrency(cert.totalPaid)],
+    ],
+    theme: 'grid',
+    headStyles: { fillColor: [79, 70, 229] },
+    styles: { fontSize: 9 },
+    columnStyles: { 1: { halign: 'right' } },
+    tableWidth: 110,
+  });
+
+  let finalY = (doc as any).lastAutoTable.finalY + 8;
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  cert.taxCodes.forEach(code => {
+    doc.text(`Codice tributo ${code}: ${getTaxCodeLabel(code)}`, 14, finalY);
+    finalY += 5;
+  });
+  if (cert.f24Payments.length > 0) {
+    doc.text(`Versamenti F24: ${cert.f24Payments.map(p => `${formatPdfDate(p.date)} (${formatPdfCurrency(p.amount)})`).join(', ')}`, 14, finalY);
+    finalY += 5;
+  }
+
+  doc.setTextColor(0);
+  doc.setFontSize(10);
+  doc.text(`Data ${new Date().toLocaleDateString('it-IT')}`, 14, finalY + 15);
+  doc.text('L\'Amministratore', 140, finalY + 15);
+  doc.line(140, finalY + 30, 196, finalY + 30);
+};
+
+export const CertificationsView: React.FC<CertificationsViewProps> = ({ expenses, suppliers, f24Payments, settings, condoName }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+  const condoFiscalCode = settings.fiscalCode || '';
+
+  const years = useMemo(() => {
+    const set = new Set<number>([new Date().getFullYear() - 1]);
+    expenses.filter(e => e.withholding).forEach(e => set.add(Number(getWithholdingPaymentDate(e).slice(0, 4))));
+    return [...set].sort((a, b) => b - a);
+  }, [expenses]);
+
+  // Le certificazioni si rilasciano a inizio anno per i compensi dell'anno precedente
+  const [year, setYear] = useState(new Date().getFullYear() - 1);
+
+  const certifications = useMemo(
+    () => computeCertifications(expenses, suppliers, f24Payments, year),
+    [expenses, suppliers, f24Payments, year],
+  );
+
+  const missingCodes = certifications.filter(c => !c.fiscalCode).length;
+  const unpaidWithholdings = certifications.filter(c => c.totalPaid < c.totalWithheld).length;
+
+  const fileSuffix = `${condoName.replace(/\s/g, '_')}_${year}`;
+
+  const exportPdf = (cert: ContractorCertification) => {
+    const doc = new jsPDF();
+    renderCertificationPdf(doc, condoName, condoFiscalCode, year, cert);
+    doc.save(`CU_${cert.name.replace(/[^a-zA-Z0-9]+/g, '_')}_${year}.pdf`);
+  };
+
+  const handleExportAll = () => {
+    if (!confirm(t('certifications.confirmExportAll').replace('{count}', String(certifications.length)))) return;
+    certifications.forEach(exportPdf);
+  };
+
+  const handleExportCsv = () => {
+    const csv = createCertificationsCsv(certifications, year, condoFiscalCode);
+    downloadBlob(new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8;' }), `CU_770_${fileSuffix}.csv`);
+  };
+
+  const handleExportXml = () => {
+    const xml = createCertificationsXml(certifications, year, condoName, condoFiscalCode);
+    downloadBlob(new Blob([xml], { type: 'application/xml;charset=utf-8;' }), `CU_770_${fileSuffix}.xml`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {(missingCodes > 0 || unpaidWithholdings > 0 || !condoFiscalCode) && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-xl text-sm text-amber-800 dark:text-amber-300 space-y-1">
+          {!condoFiscalCode && <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('certifications.noCondoFiscalCode')}</p>}
+          {missingCodes > 0 && <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('certifications.missingCodes').replace('{count}', String(missingCodes))}</p>}
+          {unpaidWithholdings > 0 && <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('certifications.unpaidWithholdings').replace('{count}', String(unpaidWithholdings))}</p>}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('certifications.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('certifications.subtitle')}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={year} onChange={(e) => setYear(Number(e.target.value))} className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <button onClick={handleExportAll} disabled={certifications.length === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <Download size={16} /> {t('certifications.exportAll')}
+            </button>
+            <button onClick={handleExportCsv} disabled={certifications.length === 0} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileSpreadsheet size={16} /> CSV
+            </button>
+            <button onClick={handleExportXml} disabled={certifications.length === 0} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileCode size={16} /> XML
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('certifications.colRecipient')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('certifications.colGross')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('certifications.colTaxable')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('certifications.colWithheld')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('certifications.colPaid')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('certifications.colCu')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {certifications.length > 0 ? certifications.map(cert => (
+                <tr key={cert.key} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-slate-900 dark:text-white">{cert.name}</p>
+                    <p className={`text-xs font-mono ${cert.fiscalCode ? 'text-slate-500 dark:text-slate-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {cert.fiscalCode || t('certifications.missingFiscalCode')}
+                    </p>
+                    <p className="text-xs text-slate-400">{t('certifications.paymentsAndCodes').replace('{count}', String(cert.payments.length)).replace('{codes}', cert.taxCodes.join(', '))}</p>
+                  </td>
+                  <td className="px-6 py-4 text-right text-slate-600 dark:text-slate-300">{formatCurrency(cert.totalGross)}</td>
+                  <td className="px-6 py-4 text-right text-slate-600 dark:text-slate-300">{formatCurrency(cert.totalTaxable)}</td>
+                  <td className="px-6 py-4 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(cert.totalWithheld)}</td>
+                  <td className={`px-6 py-4 text-right font-medium ${cert.totalPaid < cert.totalWithheld ? 'text-amber-600 dark:text-amber-400' : 'text-green-600 dark:text-green-400'}`}>
+                    {formatCurrency(cert.totalPaid)}
+                  </td>
+                  <td className="px-6 py-4 text-center">
+                    <button onClick={() => exportPdf(cert)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title={t('certifications.downloadPdf')}><FileText size={18} /></button>
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <BadgeCheck className="w-8 h-8 text-slate-300 dark:text-slate-600" />
+                      <p>{t('certifications.empty').replace('{year}', String(year))}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Check, CalendarRange, Percent, Plus, Trash2, Landmark } from 'lucide-react';
+import { CondoSettings, InterestMode } from '../types';
+import { formatFiscalYear, getCurrentFiscalYear, getFiscalYearRange } from '../services/fiscalYearService';
+import { LEGAL_INTEREST_RATES } from '../services/interestService';
+import { isValidCodiceFiscale, isValidCreditorId, normalizeCode } from '../services/validationService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface CondoSettingsFormProps {
+  initialData: CondoSettings;
+  onSave: (settings: CondoSettings) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2";
+
+export const CondoSettingsForm: React.FC<CondoSettingsFormProps> = ({ initialData, onSave, onCancel }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const [fiscalCode, setFiscalCode] = useState(initialData.fiscalCode || '');
+  const [sddCreditorId, setSddCreditorId] = useState(initialData.sddCreditorId || '');
+  const [startMonth, setStartMonth] = useState(parseInt(initialData.fiscalYearStart.slice(0, 2), 10));
+  const [startDay, setStartDay] = useState(parseInt(initialData.fiscalYearStart.slice(3, 5), 10));
+  const [interestMode, setInterestMode] = useState<InterestMode>(initialData.interestMode);
+  const [customRates, setCustomRates] = useState(initialData.customInterestRates.map(r => ({ from: r.from, rate: String(r.rate) })));
+
+  // Giorni del mese scelto in un anno non bisestile
+  const daysInMonth = new Date(Date.UTC(2001, startMonth, 0)).getUTCDate();
+  const fiscalYearStart = `${String(startMonth).padStart(2, '0')}-${String(Math.min(startDay, daysInMonth)).padStart(2, '0')}`;
+  const preview: CondoSettings = { ...initialData, fiscalYearStart, interestMode };
+  const currentFiscalYear = getCurrentFiscalYear(preview);
+  const currentRange = getFiscalYearRange(currentFiscalYear, preview);
+
+  const months = Array.from({ length: 12 }, (_, i) => {
+    const name = new Date(2001, i, 1).toLocaleDateString(locale, { month: 'long' });
+    return name.charAt(0).toUpperCase() + name.slice(1);
+  });
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString(locale);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleanFiscalCode = normalizeCode(fiscalCode);
+    if (cleanFiscalCode && !isValidCodiceFiscale(cleanFiscalCode)) {
+      alert(t('settings.invalidFiscalCode'));
+      return;
+    }
+    const cleanCreditorId = normalizeCode(sddCreditorId);
+    if (cleanCreditorId && !isValidCreditorId(cleanCreditorId)) {
+      alert(t('settings.invalidCreditorId'));
+      return;
+    }
+    const parsedRates = customRates.map(r => ({ from: r.from, rate: parseFloat(r.rate) }));
+    if (parsedRates.some(r => !r.from || !Number.isFinite(r.rate) || r.rate < 0)) {
+      alert(t('settings.invalidRates'));
+      return;
+    }
+    if (interestMode === 'custom' && parsedRates.length === 0) {
+      alert(t('settings.missingRates'));
+      return;
+    }
+    onSave({ ...preview, fiscalCode: cleanFiscalCode || undefined, sddCreditorId: cleanCreditorId || undefined, customInterestRates: parsedRates.sort((a, b) => a.from.localeCompare(b.from)) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 max-w-2xl mx-auto overflow-hidden transition-colors duration-200">
+      <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('settings.title')}</h2>
+      </div>
+      <div className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <h3 className="text-sm font-bold text-slate-800 dark:text-white flex items-center gap-2 mb-3">
+              <Landmark size={16} className="text-indigo-500" />
+              {t('settings.fiscalData')}
+            </h3>
+            <label className={labelClass}>{t('settings.fiscalCode')}</label>
+            <input type="text" value={fiscalCode} onChange={(e) => setFiscalCode(e.target.value.toUpperCase())} className={`${inputClass} font-mono`} placeholder={t('settings.fiscalCodePlaceholder')} />
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('settings.fiscalCodeHint')}</p>
+            <label className={`${labelClass} mt-4`}>{t('settings.creditorId')}</label>
+            <input type="text" value={sddCreditorId} onChange={(e) => setSddCreditorId(e.target.value.toUpperCase())} className={`${inputClass} font-mono`} placeholder={t('settings.creditorIdPlaceholder')} />
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('settings.creditorIdHint')}</p>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-bold text-slate-800 dark:text-white flex items-center gap-2 mb-3">
+              <CalendarRange size={16} className="text-indigo-500" />
+              {t('settings.fiscalYear')}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className={labelClass}>{t('settings.startMonth')}</label>
+                <select value={startMonth} onChange={(e) => setStartMonth(Number(e.target.value))} className={inputClass}>
+                  {months.map((name, i) => <option key={i} value={i + 1}>{name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>{t('settings.startDay')}</label>
+                <input type="number" min="1" max={daysInMonth} value={Math.min(startDay, daysInMonth)} onChange={(e) => setStartDay(Math.max(1, Number(e.target.value) || 1))} className={inputClass} />
+              </div>
+            </div>
+            <div className="mt-4 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800 p-4 rounded-xl text-indigo-700 dark:text-indigo-300 text-sm">
+              {t('settings.currentFiscalYear')} <strong>{formatFiscalYear(currentFiscalYear, preview)}</strong>{' '}
+              {t('settings.currentRange').replace('{start}', formatDate(currentRange.start)).replace('{end}', formatDate(currentRange.end))}{' '}
+              {t('settings.fiscalYearHint')}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-bold text-slate-800 dark:text-white flex items-center gap-2 mb-3">
+              <Percent size={16} className="text-indigo-500" />
+              {t('settings.interest')}
+            </h3>
+            <div>
+              <label className={labelClass}>{t('settings.interestMode')}</label>
+              <select value={interestMode} onChange={(e) => setInterestMode(e.target.value as InterestMode)} className={inputClass}>
+                <option value="legal">{t('settings.interestLegal')}</option>
+                <option value="custom">{t('settings.interestCustom')}</option>
+              </select>
+            </div>
+            {interestMode === 'legal' ? (
+              <div className="mt-4 grid grid-cols-3 sm:grid-cols-4 gap-2 text-xs text-slate-600 dark:text-slate-300">
+                {LEGAL_INTEREST_RATES.map(r => (
+                  <div key={r.from} className="px-3 py-2 bg-slate-50 dark:bg-slate-700/50 rounded-lg flex justify-between">
+                    <span>{t('settings.rateFrom').replace('{year}', r.from.slice(0, 4))}</span>
+                    <span className="font-bold">{r.rate}%</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="mt-4 space-y-2">
+                {customRates.map((r, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input type="date" value={r.from} onChange={(e) => setCustomRates(customRates.map((c, j) => j === i ? { ...c, from: e.target.value } : c))} className={inputClass} />
+                    <input type="number" step="0.01" min="0" placeholder={t('settings.ratePlaceholder')} value={r.rate} onChange={(e) => setCustomRates(customRates.map((c, j) => j === i ? { ...c, rate: e.target.value } : c))} className={`${inputClass} w-32`} />
+                    <button type="button" onClick={() => setCustomRates(customRates.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-600 p-2 rounded-lg" title={t('settings.removeRate')}>
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+                <button type="button" onClick={() => setCustomRates([...customRates, { from: '', rate: '' }])} className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1">
+                  <Plus size={14} />
+                  {t('settings.addRate')}
+                </button>
+                <p className="text-xs text-slate-500 dark:text-slate-400">{t('settings.ratesHint')}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-5 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium"
+            >
+              <Check size={18} />
+              {t('settings.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
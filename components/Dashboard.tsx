@@ -1,17 +1,30 @@
-import React, { useMemo, useState } from 'react';
-import { Expense, Income, BankAccount } from '../types';
+import React, { useMemo, useState, useRef } from 'react';
+import { Expense, Income, BankAccount, CondoData, Budget, CondoSettings } from '../types';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { TrendingUp, TrendingDown, AlertCircle, CalendarRange, ChevronDown, Download, Database, FileSpreadsheet, FileJson, FileText, CheckCircle2, Wallet, AlertTriangle, Clock } from 'lucide-react';
+import { TrendingUp, TrendingDown, AlertCircle, CalendarRange, ChevronDown, Download, Database, FileSpreadsheet, FileJson, FileText, CheckCircle2, Wallet, AlertTriangle, Clock, Upload, Target } from 'lucide-react';
 import { useLanguage } from '../i18n/LanguageContext';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import { utils, writeFile } from 'xlsx';
+import { BackupFile, createBackup, parseBackup } from '../services/backupService';
+import { RestoreBackupModal } from './RestoreBackupModal';
+import { BudgetVarianceTable } from './BudgetVarianceTable';
+import { WithholdingDeadlines } from './WithholdingDeadlines';
+import { AccountBalancesCard } from './AccountBalancesCard';
+import { computeBudgetVariance, getBudgetForYear } from '../services/budgetService';
+import { formatFiscalYear, getCurrentFiscalYear, getFiscalYear, getFiscalYearMonths, getFiscalYearRange, isCalendarFiscalYear } from '../services/fiscalYearService';
 
 interface DashboardProps {
   expenses: Expense[];
   incomes: Income[];
   bankAccounts: BankAccount[];
   condoName: string;
+  budgets: Budget[];
+  settings: CondoSettings;
+  // Tutti i dati del condominio, usati per backup e ripristino
+  condoData: CondoData;
+  onRestoreBackup: (data: CondoData, settings?: CondoSettings) => void;
+  onOpenF24: () => void;
 }
 
 // Mappatura colori specifici per categoria per il grafico
@@ -31,27 +44,44 @@ const CHART_COLORS: Record<string, string> = {
 
 const DEFAULT_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#64748b'];
 
-export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAccounts, condoName }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAccounts, condoName, budgets, settings, condoData, onRestoreBackup, onOpenF24 }) => {
   const { t, language } = useLanguage();
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
   
+  // Esercizi (identificati dall'anno di inizio) presenti nei dati
   const allYears = useMemo(() => {
-    const expenseYears = expenses.map(e => new Date(e.date).getFullYear());
-    const incomeYears = incomes.map(i => new Date(i.date).getFullYear());
+    const expenseYears = expenses.map(e => getFiscalYear(e.date, settings));
+    const incomeYears = incomes.map(i => getFiscalYear(i.date, settings));
     const years = new Set<number>([...expenseYears, ...incomeYears]);
-    const currentYear = new Date().getFullYear();
-    years.add(currentYear);
+    years.add(getCurrentFiscalYear(settings));
     return Array.from(years).sort((a, b) => b - a);
-  }, [expenses, incomes]);
+  }, [expenses, incomes, settings]);
 
   const [selectedYear, setSelectedYear] = useState<number>(allYears[0]);
 
+  // Ensure selectedYear is valid when the fiscal year definition changes
+  React.useEffect(() => {
+    if (!allYears.includes(selectedYear)) {
+      setSelectedYear(allYears[0]);
+    }
+  }, [allYears, selectedYear]);
+
+  const yearLabel = formatFiscalYear(selectedYear, settings);
+  const yearRange = getFiscalYearRange(selectedYear, settings);
+
   const yearlyExpenses = useMemo(() => {
-    return expenses.filter(e => new Date(e.date).getFullYear() === selectedYear);
-  }, [expenses, selectedYear]);
+    return expenses.filter(e => getFiscalYear(e.date, settings) === selectedYear);
+  }, [expenses, selectedYear, settings]);
   
   const yearlyIncomes = useMemo(() => {
-    return incomes.filter(i => new Date(i.date).getFullYear() === selectedYear);
-  }, [incomes, selectedYear]);
+    return incomes.filter(i => getFiscalYear(i.date, settings) === selectedYear);
+  }, [incomes, selectedYear, settings]);
+
+  const yearlyBudget = getBudgetForYear(budgets, selectedYear);
+  const budgetVariance = useMemo(() => {
+    return yearlyBudget ? computeBudgetVariance(yearlyBudget, yearlyExpenses) : null;
+  }, [yearlyBudget, yearlyExpenses]);
 
   // Totale Spese (Registrate - Da pagare + Pagate)
   const totalAmount = useMemo(() => {
@@ -97,41 +127,37 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
   }, [yearlyExpenses]);
 
   const monthlyData = useMemo(() => {
-    const expensesMap = new Map<number, number>();
-    const incomesMap = new Map<number, number>();
-    
-    // Initialize
-    for (let i = 0; i < 12; i++) {
-        expensesMap.set(i, 0);
-        incomesMap.set(i, 0);
-    }
+    // Mesi dell'esercizio in ordine cronologico, chiave YYYY-MM
+    const months = getFiscalYearMonths(selectedYear, settings);
+    const expensesMap = new Map<string, number>();
+    const incomesMap = new Map<string, number>();
 
     // Fill Expenses
     yearlyExpenses.forEach(e => {
-      const month = new Date(e.date).getMonth();
-      expensesMap.set(month, (expensesMap.get(month) || 0) + e.amount);
+      const key = e.date.slice(0, 7);
+      expensesMap.set(key, (expensesMap.get(key) || 0) + e.amount);
     });
 
     // Fill Incomes
     yearlyIncomes.forEach(i => {
-      const month = new Date(i.date).getMonth();
-      incomesMap.set(month, (incomesMap.get(month) || 0) + i.amount);
+      const key = i.date.slice(0, 7);
+      incomesMap.set(key, (incomesMap.get(key) || 0) + i.amount);
     });
 
-    return Array.from(expensesMap.keys())
-      .sort((a, b) => a - b)
-      .map((monthIndex) => {
-        const dateObj = new Date(selectedYear, monthIndex);
-        const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
-        const label = dateObj.toLocaleDateString(locale, { month: 'short' });
-        return {
-          name: label.charAt(0).toUpperCase() + label.slice(1),
-          monthIndex,
-          expense: expensesMap.get(monthIndex) || 0,
-          income: incomesMap.get(monthIndex) || 0
-        };
-      });
-  }, [yearlyExpenses, yearlyIncomes, selectedYear, language]);
+    const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+    return months.map(({ year, month }) => {
+      const key = `${year}-${String(month + 1).padStart(2, '0')}`;
+      const label = new Date(year, month).toLocaleDateString(locale, { month: 'short' });
+      const name = label.charAt(0).toUpperCase() + label.slice(1);
+      return {
+        // Se l'esercizio è a cavallo di due anni, il mese riporta anche l'anno
+        name: isCalendarFiscalYear(settings) ? name : `${name} ${String(year).slice(2)}`,
+        monthIndex: month,
+        expense: expensesMap.get(key) || 0,
+        income: incomesMap.get(key) || 0
+      };
+    });
+  }, [yearlyExpenses, yearlyIncomes, selectedYear, settings, language]);
 
   const formatCurrency = (val: number) => {
     const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
@@ -141,14 +167,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
   const paidPercentage = totalAmount > 0 ? Math.round((totalPaidAmount / totalAmount) * 100) : 0;
 
   const handleExportBackup = () => {
-    const backupData = {
-      condoName,
-      exportDate: new Date().toISOString(),
-      expenses,
-      incomes,
-      bankAccounts,
-      version: '1.0'
-    };
+    const backupData = createBackup(condoName, condoData, settings);
     
     const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -161,6 +180,26 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     URL.revokeObjectURL(url);
   };
 
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const file = e.target.files[0];
+    try {
+      const text = await file.text();
+      setPendingBackup(parseBackup(text));
+    } catch (error) {
+      console.error(error);
+      alert(t('restore.error').replace('{error}', (error as Error).message));
+    } finally {
+      if (restoreInputRef.current) restoreInputRef.current.value = '';
+    }
+  };
+
+  const handleConfirmRestore = (data: CondoData) => {
+    onRestoreBackup(data, pendingBackup?.settings);
+    setPendingBackup(null);
+    alert(t('restore.success'));
+  };
+
   const handleExportExcel = () => {
     // 1. Prepare Data for Worksheets
     
@@ -168,6 +207,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     const summaryData = [
         { Chiave: "Nome Condominio", Valore: condoName },
         { Chiave: "Data Esportazione", Valore: new Date().toLocaleDateString() },
+        { Chiave: "Esercizio", Valore: yearLabel },
         { Chiave: "Totale Spese", Valore: totalAmount },
         { Chiave: "Totale Spese Pagate", Valore: totalPaidAmount },
         { Chiave: "Totale Entrate", Valore: totalIncassato },
@@ -178,6 +218,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     const expensesData = expenses.map(e => ({
         ID: e.id,
         Data: e.date,
+        Esercizio: formatFiscalYear(getFiscalYear(e.date, settings), settings),
         Descrizione: e.description,
         Categoria: e.category,
         Importo: e.amount,
@@ -190,6 +231,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     const incomesData = incomes.map(i => ({
         ID: i.id,
         Data: i.date,
+        Esercizio: formatFiscalYear(getFiscalYear(i.date, settings), settings),
         Descrizione: i.description,
         Categoria: i.category,
         Importo: i.amount,
@@ -202,7 +244,18 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
         ID: a.id,
         Nome: a.name,
         IBAN: a.iban,
-        Saldo_Iniziale: a.initialBalance
+        Saldo_Iniziale: a.initialBalance,
+        Data_Saldo_Iniziale: a.initialBalanceDate || ''
+    }));
+
+    // Transfers Sheet: movimenti tra conti, esclusi dai totali di spese e incassi
+    const transfersData = condoData.bankTransfers.map(t => ({
+        ID: t.id,
+        Data: t.date,
+        Descrizione: t.description || '',
+        Importo: t.amount,
+        Dal_Conto: bankAccounts.find(b => b.id === t.fromAccountId)?.name || '',
+        Al_Conto: bankAccounts.find(b => b.id === t.toAccountId)?.name || ''
     }));
 
     // 2. Create Workbook
@@ -213,12 +266,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     const wsExpenses = utils.json_to_sheet(expensesData);
     const wsIncomes = utils.json_to_sheet(incomesData);
     const wsAccounts = utils.json_to_sheet(accountsData);
+    const wsTransfers = utils.json_to_sheet(transfersData);
 
     // 4. Append Worksheets to Workbook
     utils.book_append_sheet(wb, wsSummary, "Riepilogo");
     utils.book_append_sheet(wb, wsExpenses, "Spese");
     utils.book_append_sheet(wb, wsIncomes, "Incassi");
     utils.book_append_sheet(wb, wsAccounts, "Conti");
+    utils.book_append_sheet(wb, wsTransfers, "Giroconti");
 
     // 5. Download File
     writeFile(wb, `condominio_export_${new Date().toISOString().split('T')[0]}.xlsx`);
@@ -236,7 +291,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     
     doc.setFontSize(12);
     doc.setTextColor(100);
-    doc.text(`Report Completo - ${dateStr}`, 14, 28);
+    doc.text(`Report Esercizio ${yearLabel} - ${dateStr}`, 14, 28);
 
     let finalY = 35;
 
@@ -246,9 +301,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     doc.text(t('dashboard.overview'), 14, finalY);
     finalY += 10;
 
-    const totExp = expenses.reduce((a, b) => a + b.amount, 0);
-    const totPaid = expenses.filter(e => e.status === 'paid').reduce((a, b) => a + b.amount, 0);
-    const totInc = incomes.reduce((a, b) => a + b.amount, 0);
+    const totExp = yearlyExpenses.reduce((a, b) => a + b.amount, 0);
+    const totPaid = yearlyExpenses.filter(e => e.status === 'paid').reduce((a, b) => a + b.amount, 0);
+    const totInc = yearlyIncomes.reduce((a, b) => a + b.amount, 0);
     const balance = totInc - totExp; // Changed to match dashboard logic
 
     const summaryData = [
@@ -270,7 +325,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
     // --- EXPENSES SECTION ---
     doc.text(t('nav.expenses'), 14, finalY);
     
-    const expensesRows = expenses.map(e => [
+    const expensesRows = yearlyExpenses.map(e => [
         e.date,
         e.description,
         e.category,
@@ -297,7 +352,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
 
     doc.text(t('nav.incomes'), 14, finalY);
 
-    const incomesRows = incomes.map(i => [
+    const incomesRows = yearlyIncomes.map(i => [
         i.date,
         i.description,
         i.category,
@@ -312,7 +367,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
         headStyles: { fillColor: [16, 185, 129] }, // Green for incomes
     });
 
-    const fileName = `report_completo_${new Date().toISOString().split('T')[0]}.pdf`;
+    const fileName = `report_esercizio_${yearLabel.replace('/', '-')}_${new Date().toISOString().split('T')[0]}.pdf`;
     doc.save(fileName);
   };
 
@@ -329,7 +384,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
             className="pl-9 pr-8 py-2 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-green-500 outline-none appearance-none cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
           >
             {allYears.map(year => (
-              <option key={year} value={year}>{year}</option>
+              <option key={year} value={year}>{t('dashboard.fiscalYear')} {formatFiscalYear(year, settings)}</option>
             ))}
           </select>
           <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 dark:text-slate-500 w-4 h-4 pointer-events-none" />
@@ -417,7 +472,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
                      <div key={expense.id} className="bg-white dark:bg-slate-800 p-3 rounded-lg border border-orange-100 dark:border-slate-700 shadow-sm flex items-center justify-between">
                         <div>
                            <p className="font-medium text-slate-800 dark:text-white truncate max-w-[150px]">{expense.description}</p>
-                           <p className="text-xs text-slate-500 dark:text-slate-400">{expense.date}</p>
+                           <p className="text-xs text-slate-500 dark:text-slate-400">{expense.date} · {t('dashboard.fiscalYear')} {formatFiscalYear(getFiscalYear(expense.date, settings), settings)}</p>
                         </div>
                         <div className="text-right">
                            <p className="font-bold text-red-600 dark:text-red-400">{formatCurrency(expense.amount)}</p>
@@ -434,9 +489,26 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
         </div>
       )}
 
+      {/* CASH POSITION */}
+      <AccountBalancesCard bankAccounts={bankAccounts} sources={condoData} start={yearRange.start} end={yearRange.end} periodLabel={yearLabel} />
+
+      {/* F24 WITHHOLDING DEADLINES */}
+      <WithholdingDeadlines expenses={expenses} onOpenF24={onOpenF24} />
+
+      {/* BUDGET VS ACTUAL */}
+      {yearlyBudget && budgetVariance && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white mb-4 flex items-center gap-2">
+            <Target className="w-5 h-5 text-indigo-500" />
+            {t('budget.title').replace('{year}', yearLabel)}
+          </h2>
+          <BudgetVarianceTable variance={budgetVariance} threshold={yearlyBudget.warningThreshold} compact />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700">
-          <h2 className="text-lg font-bold text-slate-800 dark:text-white mb-4">{t('dashboard.breakdown')} {selectedYear}</h2>
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white mb-4">{t('dashboard.breakdown')} {yearLabel}</h2>
           <div className="h-64">
             {categoryData.length > 0 ? (
               <ResponsiveContainer width="100%" height="100%">
@@ -474,7 +546,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
         </div>
 
         <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700">
-          <h2 className="text-lg font-bold text-slate-800 dark:text-white mb-4">{t('dashboard.monthlyTrend')} {selectedYear}</h2>
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white mb-4">{t('dashboard.monthlyTrend')} {yearLabel}</h2>
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={monthlyData} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
@@ -517,7 +589,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
             </p>
           </div>
 
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
              {/* JSON Backup */}
              <button 
               onClick={handleExportBackup}
@@ -559,9 +631,40 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses, incomes, bankAcc
                 <span className="block text-xs text-red-600/70 dark:text-red-400/70">Report Stampabile</span>
               </div>
             </button>
+
+             {/* JSON Restore */}
+            <input
+              type="file"
+              ref={restoreInputRef}
+              className="hidden"
+              accept=".json,application/json"
+              onChange={handleRestoreFile}
+            />
+            <button 
+              onClick={() => restoreInputRef.current?.click()}
+              className="flex items-center justify-center gap-3 px-4 py-4 bg-orange-50 dark:bg-orange-900/20 text-orange-800 dark:text-orange-200 rounded-xl hover:bg-orange-100 dark:hover:bg-orange-900/30 transition-colors border border-orange-200 dark:border-orange-800 group"
+            >
+              <div className="p-2 bg-white dark:bg-slate-800 rounded-lg shadow-sm group-hover:scale-110 transition-transform">
+                 <Upload className="w-6 h-6 text-orange-500" />
+              </div>
+              <div className="text-left">
+                <span className="block font-medium text-sm">{t('dashboard.restoreBackup')}</span>
+                <span className="block text-xs text-orange-600/70 dark:text-orange-400/70">{t('dashboard.restoreDesc')}</span>
+              </div>
+            </button>
           </div>
         </div>
       </div>
+
+      {pendingBackup && (
+        <RestoreBackupModal
+          backup={pendingBackup}
+          current={condoData}
+          condoName={condoName}
+          onRestore={handleConfirmRestore}
+          onClose={() => setPendingBackup(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
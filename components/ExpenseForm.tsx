@@ -1,8 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Sparkles, Check, X, Loader2, Upload, Image as ImageIcon, Trash2, FileText, Plus, AlertTriangle, Download, Paperclip, Split } from 'lucide-react';
-import { Expense, ExpenseCategory, Attachment, BankAccount } from '../types';
+import { Sparkles, Check, X, Loader2, Upload, Image as ImageIcon, Trash2, FileText, Plus, AlertTriangle, Download, Paperclip, Split, Truck } from 'lucide-react';
+import { Expense, ExpenseCategory, Attachment, BankAccount, Supplier, WithholdingTaxCode } from '../types';
 import { parseExpenseWithGemini, FileInput, ParsedExpenseData } from '../services/geminiService';
 import { generateId } from '../utils';
+import { findSupplierMatch, getSupplierTaxId } from '../services/supplierService';
+import { isValidCodiceFiscale, isValidPartitaIva, normalizeCode } from '../services/validationService';
+import { WITHHOLDING_RATE, WITHHOLDING_TAX_CODES, createWithholding, suggestTaxCode } from '../services/withholdingService';
 
 interface ExpenseFormProps {
   onAdd: (expense: Expense) => void;
@@ -11,6 +14,8 @@ interface ExpenseFormProps {
   initialData?: Expense;
   existingExpenses?: Expense[];
   bankAccounts: BankAccount[];
+  suppliers: Supplier[];
+  onAddSupplier: (supplier: Supplier) => void;
 }
 
 interface FormAttachment {
@@ -22,7 +27,7 @@ interface FormAttachment {
   base64?: string;
 }
 
-export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCancel, initialData, existingExpenses = [], bankAccounts }) => {
+export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCancel, initialData, existingExpenses = [], bankAccounts, suppliers, onAddSupplier }) => {
   const [mode, setMode] = useState<'manual' | 'ai'>(initialData ? 'manual' : 'ai');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [aiInput, setAiInput] = useState('');
@@ -63,12 +68,64 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
 
   const [selectedBankAccountId, setSelectedBankAccountId] = useState<string>(initialData?.bankAccountId || '');
   const [status, setStatus] = useState<'paid' | 'unpaid'>(initialData?.status || 'unpaid');
+  const [supplierId, setSupplierId] = useState<string>(initialData?.supplierId || '');
+  const [supplierFiscalCode, setSupplierFiscalCode] = useState<string>(initialData?.supplierFiscalCode || '');
+  const [paidDate, setPaidDate] = useState<string>(initialData?.paidDate || '');
+  const [invoiceNumber, setInvoiceNumber] = useState<string>(initialData?.invoiceNumber || '');
+  const [dueDate, setDueDate] = useState<string>(initialData?.dueDate || '');
+  // Nota di credito: l'importo è negativo e riduce le spese
+  const [isCreditNote, setIsCreditNote] = useState<boolean>(!!initialData && initialData.amount < 0);
+  // Ritenuta d'acconto 4% (condominio sostituto d'imposta)
+  const [hasWithholding, setHasWithholding] = useState<boolean>(!!initialData?.withholding);
+  const [taxableAmount, setTaxableAmount] = useState<string>(initialData?.withholding?.taxableAmount.toString() || '');
+  const [taxCode, setTaxCode] = useState<WithholdingTaxCode>(initialData?.withholding?.taxCode || '1020');
+  // Fornitore letto dall'AI ma non ancora presente in anagrafe
+  const [proposedSupplier, setProposedSupplier] = useState<{ name: string; vatNumber?: string } | null>(null);
 
   const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
   const [pendingExpenseData, setPendingExpenseData] = useState<Expense | null>(null);
 
   const isEditing = !!initialData && !initialData.description.endsWith('(Copia)');
 
+  const handleSupplierChange = (id: string) => {
+    setSupplierId(id);
+    setProposedSupplier(null);
+    const supplier = suppliers.find(s => s.id === id);
+    setSupplierFiscalCode(supplier ? getSupplierTaxId(supplier) || '' : '');
+    if (!supplier || isEditing) return;
+    if (supplier.defaultCategory) setCategory(supplier.defaultCategory);
+    if (supplier.defaultBankAccountId) setSelectedBankAccountId(supplier.defaultBankAccountId);
+    if (supplier.withholdingTaxCode) {
+      setHasWithholding(true);
+      setTaxCode(supplier.withholdingTaxCode);
+    }
+  };
+
+  const parsedTaxable = parseFloat(taxableAmount);
+  const withholdingPreview = hasWithholding && parsedTaxable > 0 ? createWithholding(parsedTaxable, taxCode) : null;
+  const formatCurrency = (value: number) => new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(value);
+
+  // Codice fiscale da registrare sulla spesa: quello del fornitore in anagrafe o la P.IVA letta dal documento
+  const resolveSupplierFiscalCode = (matchedId?: string, vatNumber?: string): string | undefined => {
+    const matched = suppliers.find(s => s.id === matchedId);
+    if (matched) return getSupplierTaxId(matched);
+    const vat = vatNumber ? normalizeCode(vatNumber).replace(/^IT/, '') : '';
+    return isValidPartitaIva(vat) ? vat : undefined;
+  };
+
+  // Crea in anagrafe il fornitore proposto dall'AI e restituisce il suo id
+  const createProposedSupplier = (proposal: { name: string; vatNumber?: string }, category?: ExpenseCategory): string => {
+    const vatNumber = proposal.vatNumber ? normalizeCode(proposal.vatNumber).replace(/^IT/, '') : '';
+    const supplier: Supplier = {
+      id: generateId(),
+      name: proposal.name.trim(),
+      vatNumber: isValidPartitaIva(vatNumber) ? vatNumber : undefined,
+      defaultCategory: category,
+    };
+    onAddSupplier(supplier);
+    return supplier.id;
+  };
+
   const readFileAsAttachment = (file: File): Promise<FormAttachment> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -133,19 +190,26 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
         return;
       }
 
-      const result = await parseExpenseWithGemini(aiInput, filesPayload);
+      const result = await parseExpenseWithGemini(aiInput, filesPayload, suppliers.map(s => s.name));
+      const withSuppliers = result.expenses.map(exp => ({
+        ...exp,
+        supplierId: findSupplierMatch(suppliers, { name: exp.supplierName, vatNumber: exp.supplierVatNumber })?.id,
+      }));
       
-      if (result.expenses.length === 1) {
+      if (withSuppliers.length === 1) {
         // Single result: populate main form and switch to manual
-        const single = result.expenses[0];
+        const single = withSuppliers[0];
         setDescription(single.description);
         setAmount(single.amount.toString());
         setDate(single.date);
         setCategory(single.category);
+        setSupplierId(single.supplierId || '');
+        setSupplierFiscalCode(resolveSupplierFiscalCode(single.supplierId, single.supplierVatNumber) || '');
+        setProposedSupplier(!single.supplierId && single.supplierName ? { name: single.supplierName, vatNumber: single.supplierVatNumber } : null);
         setMode('manual');
-      } else if (result.expenses.length > 1) {
+      } else if (withSuppliers.length > 1) {
         // Multiple results: show list for review
-        setParsedExpenses(result.expenses);
+        setParsedExpenses(withSuppliers);
       } else {
         alert('Nessuna spesa identificata.');
       }
@@ -175,6 +239,8 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
         category: exp.category,
         bankAccountId: selectedBankAccountId || undefined,
         status: status,
+        supplierId: exp.supplierId,
+        supplierFiscalCode: resolveSupplierFiscalCode(exp.supplierId, exp.supplierVatNumber),
         attachments: finalAttachments // All attachments are linked to all split expenses
       };
       
@@ -202,6 +268,16 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
     e.preventDefault();
     const parsedAmount = parseFloat(amount);
 
+    const cleanSupplierFiscalCode = normalizeCode(supplierFiscalCode).replace(/^IT(?=\d{11}$)/, '');
+    if (cleanSupplierFiscalCode && !isValidCodiceFiscale(cleanSupplierFiscalCode)) {
+      alert("Il codice fiscale o la partita IVA del fornitore non è valido.");
+      return;
+    }
+    if (hasWithholding && !(parsedTaxable > 0 && parsedTaxable <= parsedAmount)) {
+      alert("Indica un imponibile della ritenuta maggiore di zero e non superiore all'importo della spesa.");
+      return;
+    }
+
     const finalAttachments: Attachment[] = attachments.map(att => ({
       id: att.id,
       name: att.name,
@@ -216,6 +292,17 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
       category,
       bankAccountId: selectedBankAccountId || undefined,
       status,
+      paidDate: status === 'paid' ? (paidDate || date) : undefined,
+      supplierId: supplierId || undefined,
+      supplierFiscalCode: cleanSupplierFiscalCode || undefined,
+      invoiceNumber: invoiceNumber.trim() || undefined,
+      dueDate: dueDate || undefined,
+      signatures: isEditing ? initialData?.signatures : undefined,
+      withholding: withholdingPreview ? {
+        ...withholdingPreview,
+        // Un versamento già registrato resta valido solo modificando la stessa spesa
+        paidDate: isEditing ? initialData?.withholding?.paidDate : undefined,
+      } : undefined,
       attachments: finalAttachments
     };
 
@@ -452,6 +539,30 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
                                className="w-full px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-sm text-slate-900 dark:text-white focus:ring-1 focus:ring-green-500 outline-none"
                              />
                            </div>
+                           <div className="sm:col-span-12 flex flex-wrap items-end gap-2">
+                             <div className="flex-1 min-w-[200px]">
+                               <label className="block text-xs text-slate-500 dark:text-slate-400 mb-1">Fornitore</label>
+                               <select
+                                 value={exp.supplierId || ''}
+                                 onChange={(e) => updateParsedItem(idx, 'supplierId', e.target.value || undefined)}
+                                 className="w-full px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-sm text-slate-900 dark:text-white focus:ring-1 focus:ring-green-500 outline-none"
+                               >
+                                 <option value="">Nessun fornitore</option>
+                                 {suppliers.map((s) => (
+                                   <option key={s.id} value={s.id}>{s.name}</option>
+                                 ))}
+                               </select>
+                             </div>
+                             {!exp.supplierId && exp.supplierName && (
+                               <button
+                                 type="button"
+                                 onClick={() => updateParsedItem(idx, 'supplierId', createProposedSupplier({ name: exp.supplierName!, vatNumber: exp.supplierVatNumber }, exp.category))}
+                                 className="px-3 py-1.5 text-xs font-medium text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 rounded hover:bg-indigo-100 dark:hover:bg-indigo-900/50 flex items-center gap-1"
+                               >
+                                 <Plus size={14} /> Aggiungi "{exp.supplierName}"
+                               </button>
+                             )}
+                           </div>
                         </div>
                       </div>
                     ))}
@@ -506,6 +617,51 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
           ) : (
             <form onSubmit={handleSubmit} className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Fornitore</label>
+                  <select
+                    value={supplierId}
+                    onChange={(e) => handleSupplierChange(e.target.value)}
+                    className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
+                  >
+                    <option value="">Nessun fornitore (Opzionale)</option>
+                    {suppliers.map((s) => (
+                      <option key={s.id} value={s.id}>{s.name}{s.vatNumber ? ` (P.IVA ${s.vatNumber})` : ''}</option>
+                    ))}
+                  </select>
+                  {proposedSupplier && (
+                    <div className="mt-2 flex flex-wrap items-center justify-between gap-2 p-3 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800 rounded-lg text-sm text-indigo-800 dark:text-indigo-300">
+                      <span className="flex items-center gap-2">
+                        <Truck size={16} />
+                        Fornitore rilevato non presente in anagrafe: <strong>{proposedSupplier.name}</strong>
+                        {proposedSupplier.vatNumber && <span className="font-mono text-xs">P.IVA {proposedSupplier.vatNumber}</span>}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setSupplierId(createProposedSupplier(proposedSupplier, category));
+                          setSupplierFiscalCode(resolveSupplierFiscalCode(undefined, proposedSupplier.vatNumber) || supplierFiscalCode);
+                          setProposedSupplier(null);
+                        }}
+                        className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-1 font-medium text-xs"
+                      >
+                        <Plus size={14} /> Aggiungi fornitore
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Codice Fiscale / P.IVA Fornitore</label>
+                  <input
+                    type="text"
+                    value={supplierFiscalCode}
+                    onChange={(e) => setSupplierFiscalCode(e.target.value.toUpperCase())}
+                    className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none font-mono"
+                    placeholder="Necessario per Certificazione Unica e 770 se la spesa ha la ritenuta"
+                  />
+                </div>
+
                 <div className="col-span-2">
                   <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Descrizione</label>
                   <input
@@ -524,12 +680,26 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
                     type="number"
                     required
                     step="0.01"
-                    min="0"
+                    min={isCreditNote ? undefined : "0"}
+                    max={isCreditNote ? "0" : undefined}
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
                     className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
                     placeholder="0.00"
                   />
+                  <label className="mt-2 flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isCreditNote}
+                      onChange={(e) => {
+                        setIsCreditNote(e.target.checked);
+                        const current = parseFloat(amount);
+                        if (Number.isFinite(current)) setAmount(String(e.target.checked ? -Math.abs(current) : Math.abs(current)));
+                      }}
+                      className="rounded text-green-600"
+                    />
+                    Nota di credito (importo negativo)
+                  </label>
                 </div>
 
                 <div>
@@ -543,6 +713,27 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Numero Fattura</label>
+                  <input
+                    type="text"
+                    value={invoiceNumber}
+                    onChange={(e) => setInvoiceNumber(e.target.value)}
+                    className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
+                    placeholder="Opzionale"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Scadenza</label>
+                  <input
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
+                  />
+                </div>
+
                 <div className="col-span-2 md:col-span-1">
                   <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Categoria</label>
                   <select
@@ -568,7 +759,19 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
                   </select>
                 </div>
 
-                <div className="col-span-2">
+                {status === 'paid' && (
+                  <div className="col-span-2 md:col-span-1">
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Data Pagamento</label>
+                    <input
+                      type="date"
+                      value={paidDate || date}
+                      onChange={(e) => setPaidDate(e.target.value)}
+                      className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
+                    />
+                  </div>
+                )}
+
+                <div className={status === 'paid' ? 'col-span-2 md:col-span-1' : 'col-span-2'}>
                   <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Conto Corrente</label>
                   <select
                     value={selectedBankAccountId}
@@ -582,6 +785,56 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({ onAdd, onUpdate, onCan
                   </select>
                 </div>
 
+                <div className="col-span-2 p-4 bg-slate-50 dark:bg-slate-900/40 border border-slate-200 dark:border-slate-700 rounded-lg space-y-4">
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={hasWithholding}
+                      onChange={(e) => {
+                        setHasWithholding(e.target.checked);
+                        if (e.target.checked && !initialData?.withholding) setTaxCode(suggestTaxCode(suppliers.find(s => s.id === supplierId)));
+                      }}
+                      className="rounded border-slate-300 text-green-600 focus:ring-green-500"
+                    />
+                    Soggetta a ritenuta d'acconto ({WITHHOLDING_RATE}%)
+                  </label>
+                  {hasWithholding && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1.5">Imponibile (€)</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={taxableAmount}
+                          onChange={(e) => setTaxableAmount(e.target.value)}
+                          className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
+                          placeholder="Importo della fattura al netto dell'IVA"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1.5">Codice Tributo F24</label>
+                        <select
+                          value={taxCode}
+                          onChange={(e) => setTaxCode(e.target.value as WithholdingTaxCode)}
+                          className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
+                        >
+                          {(Object.keys(WITHHOLDING_TAX_CODES) as WithholdingTaxCode[]).map(code => (
+                            <option key={code} value={code}>{code} - {WITHHOLDING_TAX_CODES[code]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="md:col-span-2 flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-600 dark:text-slate-300">
+                        <span>Ritenuta: <strong className="text-slate-900 dark:text-white">{formatCurrency(withholdingPreview?.amount || 0)}</strong></span>
+                        <span>Netto da pagare al fornitore: <strong className="text-slate-900 dark:text-white">{formatCurrency((parseFloat(amount) || 0) - (withholdingPreview?.amount || 0))}</strong></span>
+                        {isEditing && initialData?.withholding?.paidDate && (
+                          <span className="text-green-600 dark:text-green-400">Versata con F24 il {new Date(initialData.withholding.paidDate).toLocaleDateString('it-IT')}</span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 <div className="col-span-2">
                   <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Allegati</label>
                   {attachments.length > 0 && (
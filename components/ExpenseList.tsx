@@ -1,13 +1,21 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Expense, ExpenseCategory, BankAccount, Attachment } from '../types';
-import { Search, Filter, X, Calendar, ChevronDown, Trash2, AlertTriangle, SquarePen, Paperclip, FileDown, Download, Eye, FileText, FileCode, FileUp, Loader2, Check } from 'lucide-react';
+import { Expense, ExpenseCategory, BankAccount, Attachment, Supplier, DigitalSignature } from '../types';
+import { Search, Filter, X, Calendar, ChevronDown, Trash2, AlertTriangle, SquarePen, Paperclip, FileDown, Download, Eye, FileText, FileCode, FileUp, Loader2, Check, Plus, ShieldCheck, ShieldAlert } from 'lucide-react';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import { useLanguage } from '../i18n/LanguageContext';
 import { Document, Packer, Paragraph, Table, TableRow, TableCell, WidthType, BorderStyle } from 'docx';
 import { parseExpenseWithGemini, ParsedExpenseData } from '../services/geminiService';
 import { generateId } from '../utils';
+import { getNetToPay } from '../services/withholdingService';
+import { findSupplierMatch, getSupplierTaxId } from '../services/supplierService';
+import { isValidPartitaIva, normalizeCode } from '../services/validationService';
+import {
+  describeInvoice, FatturaPAInvoice, getInvoiceAmount, getInvoiceAttachments, getInvoiceDueDate, getInvoiceIban,
+  getInvoiceSupplierTaxId, getInvoiceWarnings, getInvoiceWithholding, isFatturaPA, parseFatturaPA, DOCUMENT_TYPES, PAYMENT_TERMS,
+} from '../services/fatturaPaService';
+import { decodeXmlBytes, unwrapP7m } from '../services/p7mService';
 import mammoth from 'mammoth';
 
 interface ExpenseListProps {
@@ -19,8 +27,27 @@ interface ExpenseListProps {
   onDuplicate: (expense: Expense) => void;
   onAdd: (expense: Expense) => void;
   onClearAll: () => void;
+  suppliers: Supplier[];
+  onAddSupplier: (supplier: Supplier) => void;
 }
 
+// Voce da confermare nella revisione dell'importazione; le fatture elettroniche portano i dati completi del documento
+type ImportCandidate = ParsedExpenseData & {
+  invoice?: FatturaPAInvoice;
+  sourceFile?: Attachment;
+  signatures?: DigitalSignature[];
+};
+
+const SIGNATURE_LABELS: Record<DigitalSignature['verification'], string> = {
+  valid: 'Firma verificata',
+  invalid: 'Firma NON valida',
+  unverified: 'Firma non verificata',
+};
+
+const describeSignature = (signature: DigitalSignature) =>
+  `${SIGNATURE_LABELS[signature.verification]}: ${signature.subject}` +
+  (signature.signingTime ? ` il ${new Date(signature.signingTime).toLocaleString('it-IT')}` : '');
+
 const categoryColors: Record<ExpenseCategory, string> = {
   [ExpenseCategory.MANUTENZIONE]: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
   [ExpenseCategory.UTENZE]: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
@@ -75,7 +102,7 @@ const AttachmentPreviewModal: React.FC<{ attachments: Attachment[], onClose: ()
 };
 
 
-export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, onEdit, condoName, bankAccounts, onDuplicate, onAdd, onClearAll }) => {
+export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, onEdit, condoName, bankAccounts, onDuplicate, onAdd, onClearAll, suppliers, onAddSupplier }) => {
   const { t, language } = useLanguage();
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
@@ -93,7 +120,7 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
   // Import State
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isImporting, setIsImporting] = useState(false);
-  const [importCandidates, setImportCandidates] = useState<ParsedExpenseData[]>([]);
+  const [importCandidates, setImportCandidates] = useState<ImportCandidate[]>([]);
   const [showImportReview, setShowImportReview] = useState(false);
 
   // Export Menu State
@@ -169,8 +196,23 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
     setImportCandidates([]);
 
     try {
-      if (file.name.endsWith('.xml')) {
-        const text = await file.text();
+      let text = file.name.toLowerCase().endsWith('.xml') ? await file.text() : '';
+      let signatures: DigitalSignature[] | undefined;
+      if (file.name.toLowerCase().endsWith('.p7m')) {
+        // Busta CAdES: il documento firmato è la fattura XML
+        const envelope = await unwrapP7m(await file.arrayBuffer());
+        text = decodeXmlBytes(envelope.content);
+        signatures = envelope.signatures;
+        if (!isFatturaPA(text)) throw new Error("Il documento firmato non è una fattura elettronica FatturaPA.");
+      }
+
+      if (text && isFatturaPA(text)) {
+        const invoices = parseFatturaPA(text);
+        const sourceFile = await readFileAsAttachment(file);
+        setImportCandidates(invoices.map(invoice => ({ ...toInvoiceCandidate(invoice, sourceFile), signatures })));
+        setShowImportReview(true);
+
+      } else if (file.name.toLowerCase().endsWith('.xml')) {
         const parser = new DOMParser();
         const xmlDoc = parser.parseFromString(text, "text/xml");
         const items = xmlDoc.getElementsByTagName("expense");
@@ -235,8 +277,63 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
     }
   };
 
+  const formatAmount = (value: number) => new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(value);
+
+  const readFileAsAttachment = (file: File): Promise<Attachment> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve({ id: generateId(), name: file.name, type: file.type || (file.name.toLowerCase().endsWith('.p7m') ? 'application/pkcs7-mime' : 'application/xml'), url: reader.result as string });
+    reader.onerror = () => reject(new Error(`Impossibile leggere il file ${file.name}.`));
+  });
+
+  const toInvoiceCandidate = (invoice: FatturaPAInvoice, sourceFile: Attachment): ImportCandidate => {
+    const supplier = findSupplierMatch(suppliers, {
+      name: invoice.supplier.name,
+      vatNumber: invoice.supplier.vatNumber || invoice.supplier.fiscalCode,
+    });
+    return {
+      description: describeInvoice(invoice),
+      amount: getInvoiceAmount(invoice),
+      category: supplier?.defaultCategory || ExpenseCategory.VARIE,
+      date: invoice.date,
+      supplierName: invoice.supplier.name,
+      supplierVatNumber: invoice.supplier.vatNumber,
+      supplierId: supplier?.id,
+      invoice,
+      sourceFile,
+    };
+  };
+
+  // Fattura già registrata: stesso numero e stesso fornitore (o, senza fornitore, stessa data)
+  const isAlreadyImported = (cand: ImportCandidate) => !!cand.invoice && expenses.some(e =>
+    e.invoiceNumber === cand.invoice!.number &&
+    (e.supplierFiscalCode
+      ? e.supplierFiscalCode === getInvoiceSupplierTaxId(cand.invoice!)
+      : e.date === cand.invoice!.date)
+  );
+
+  const handleCreateSupplier = (index: number) => {
+    const cand = importCandidates[index];
+    const vatNumber = cand.supplierVatNumber ? normalizeCode(cand.supplierVatNumber).replace(/^IT/, '') : '';
+    const withholding = cand.invoice ? getInvoiceWithholding(cand.invoice) : undefined;
+    const supplier: Supplier = {
+      id: generateId(),
+      name: (cand.supplierName || '').trim(),
+      vatNumber: isValidPartitaIva(vatNumber) ? vatNumber : undefined,
+      fiscalCode: cand.invoice?.supplier.fiscalCode,
+      address: cand.invoice?.supplier.address,
+      iban: cand.invoice ? getInvoiceIban(cand.invoice) : undefined,
+      defaultCategory: cand.category,
+      withholdingTaxCode: withholding?.taxCode,
+    };
+    onAddSupplier(supplier);
+    updateCandidate(index, 'supplierId', supplier.id);
+  };
+
   const handleSaveImportCandidates = () => {
     importCandidates.forEach(cand => {
+       const supplier = suppliers.find(s => s.id === cand.supplierId);
+       const invoice = cand.invoice;
        onAdd({
          id: generateId(),
          description: cand.description,
@@ -244,14 +341,20 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
          date: cand.date,
          category: cand.category,
          status: 'unpaid',
-         attachments: []
+         supplierId: supplier?.id,
+         supplierFiscalCode: invoice ? getInvoiceSupplierTaxId(invoice) : (supplier ? getSupplierTaxId(supplier) : undefined),
+         invoiceNumber: invoice?.number,
+         dueDate: invoice ? getInvoiceDueDate(invoice) : undefined,
+         withholding: invoice ? getInvoiceWithholding(invoice) : undefined,
+         signatures: cand.signatures,
+         attachments: invoice && cand.sourceFile ? [cand.sourceFile, ...getInvoiceAttachments(invoice)] : []
        });
     });
     setShowImportReview(false);
     setImportCandidates([]);
   };
 
-  const updateCandidate = (index: number, field: keyof ParsedExpenseData, value: any) => {
+  const updateCandidate = (index: number, field: keyof ImportCandidate, value: any) => {
     setImportCandidates(prev => prev.map((item, i) => i === index ? { ...item, [field]: value } : item));
   };
   
@@ -490,7 +593,7 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
                 type="file" 
                 ref={fileInputRef} 
                 className="hidden" 
-                accept=".xml,.pdf,.docx" 
+                accept=".xml,.p7m,.pdf,.docx" 
                 onChange={handleImportFile} 
               />
               <button
@@ -617,6 +720,13 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
                             <Paperclip size={14} className="text-indigo-500 dark:text-indigo-400 hover:text-indigo-700 dark:hover:text-indigo-300" />
                           </button>
                         )}
+                        {expense.signatures && expense.signatures.length > 0 && (
+                          <span title={expense.signatures.map(describeSignature).join('\n')}>
+                            {expense.signatures.some(sig => sig.verification === 'invalid')
+                              ? <ShieldAlert size={14} className="text-red-500 dark:text-red-400" />
+                              : <ShieldCheck size={14} className={expense.signatures.every(sig => sig.verification === 'valid') ? 'text-green-500 dark:text-green-400' : 'text-slate-400'} />}
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4">
@@ -630,6 +740,11 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
                     </td>
                     <td className="px-6 py-4 text-right font-bold text-slate-800 dark:text-slate-200">
                       {new Intl.NumberFormat(language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language), { style: 'currency', currency: 'EUR' }).format(expense.amount)}
+                      {expense.withholding && (
+                        <p className="text-[10px] font-normal text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                          {t('list.withholding')} {expense.withholding.amount.toFixed(2)} · {t('list.netToPay')} {getNetToPay(expense).toFixed(2)}
+                        </p>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center justify-center gap-1">
@@ -733,6 +848,66 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onDelete, on
                        <label className="text-[10px] text-slate-500 uppercase block">Data</label>
                        <input type="date" value={exp.date} onChange={(e) => updateCandidate(idx, 'date', e.target.value)} className="w-full bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm outline-none focus:border-indigo-500" />
                      </div>
+                     <div className="sm:col-span-12 flex flex-wrap items-end gap-2">
+                       <div className="flex-1 min-w-[200px]">
+                         <label className="text-[10px] text-slate-500 uppercase block">Fornitore</label>
+                         <select value={exp.supplierId || ''} onChange={(e) => updateCandidate(idx, 'supplierId', e.target.value || undefined)} className="w-full bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm outline-none focus:border-indigo-500">
+                           <option value="">Nessun fornitore</option>
+                           {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                         </select>
+                       </div>
+                       {!exp.supplierId && exp.supplierName && (
+                         <button onClick={() => handleCreateSupplier(idx)} className="px-3 py-1 text-xs font-medium text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 rounded hover:bg-indigo-100 dark:hover:bg-indigo-900/50 flex items-center gap-1">
+                           <Plus size={14} /> Aggiungi "{exp.supplierName}"
+                         </button>
+                       )}
+                     </div>
+                     {exp.invoice && (
+                       <div className="sm:col-span-12 text-xs text-slate-600 dark:text-slate-300 space-y-2">
+                         <p>
+                           <span className="font-medium">{DOCUMENT_TYPES[exp.invoice.documentType] || exp.invoice.documentType} n. {exp.invoice.number}</span>
+                           {' · '}{exp.invoice.supplier.name}
+                           {exp.invoice.supplier.vatNumber && <span className="font-mono"> · P.IVA {exp.invoice.supplier.vatNumber}</span>}
+                           {exp.invoice.supplier.fiscalCode && exp.invoice.supplier.fiscalCode !== exp.invoice.supplier.vatNumber && <span className="font-mono"> · C.F. {exp.invoice.supplier.fiscalCode}</span>}
+                         </p>
+                         {exp.invoice.lines.length > 0 && (
+                           <table className="w-full">
+                             <tbody>
+                               {exp.invoice.lines.map(line => (
+                                 <tr key={line.number} className="border-t border-slate-200 dark:border-slate-600">
+                                   <td className="py-1 pr-2">{line.description}</td>
+                                   <td className="py-1 pr-2 text-right whitespace-nowrap">{line.quantity !== undefined ? `${line.quantity} x ${formatAmount(line.unitPrice || 0)}` : ''}</td>
+                                   <td className="py-1 pr-2 text-right whitespace-nowrap">IVA {line.vatRate}%</td>
+                                   <td className="py-1 text-right whitespace-nowrap">{formatAmount(line.total)}</td>
+                                 </tr>
+                               ))}
+                             </tbody>
+                           </table>
+                         )}
+                         <p>
+                           Imponibile {formatAmount(exp.invoice.taxableAmount)} · IVA {formatAmount(exp.invoice.vatAmount)} · Totale {formatAmount(exp.invoice.total)}
+                           {getInvoiceWithholding(exp.invoice) && <> · Ritenuta {formatAmount(getInvoiceWithholding(exp.invoice)!.amount)} (cod. {getInvoiceWithholding(exp.invoice)!.taxCode})</>}
+                         </p>
+                         {exp.invoice.payments.length > 0 && (
+                           <p>
+                             {exp.invoice.paymentTerms ? `${PAYMENT_TERMS[exp.invoice.paymentTerms] || exp.invoice.paymentTerms}: ` : 'Pagamento: '}
+                             {exp.invoice.payments.map(p => `${formatAmount(p.amount)}${p.dueDate ? ` entro il ${new Date(p.dueDate).toLocaleDateString('it-IT')}` : ''}`).join(', ')}
+                             {getInvoiceIban(exp.invoice) && <span className="font-mono"> · IBAN {getInvoiceIban(exp.invoice)}</span>}
+                           </p>
+                         )}
+                         {exp.invoice.attachments.length > 0 && (
+                           <p className="flex items-center gap-1"><Paperclip size={12} /> {exp.invoice.attachments.map(a => a.name).join(', ')}</p>
+                         )}
+                         {exp.signatures?.map((signature, i) => (
+                           <p key={i} className={`flex items-center gap-1 ${signature.verification === 'invalid' ? 'text-red-600 dark:text-red-400' : signature.verification === 'valid' ? 'text-green-600 dark:text-green-400' : ''}`}>
+                             {signature.verification === 'invalid' ? <ShieldAlert size={12} /> : <ShieldCheck size={12} />} {describeSignature(signature)}
+                           </p>
+                         ))}
+                         {[...(isAlreadyImported(exp) ? ['Fattura già registrata tra le spese.'] : []), ...getInvoiceWarnings(exp.invoice)].map(warning => (
+                           <p key={warning} className="flex items-center gap-1 text-amber-600 dark:text-amber-400"><AlertTriangle size={12} /> {warning}</p>
+                         ))}
+                       </div>
+                     )}
                   </div>
                 ))}
              </div>
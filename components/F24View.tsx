@@ -0,0 +1,457 @@
+import React, { useMemo, useState } from 'react';
+import { Landmark, Plus, Trash2, FileText, FileSpreadsheet, Check, AlertTriangle } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { BankAccount, CondoSettings, Expense, F24Line, F24Payment } from '../types';
+import { downloadBlob, generateId } from '../utils';
+import { computeWithholdingDeadlines } from '../services/withholdingService';
+import {
+  buildWithholdingLines, computeMonthlySummary, createF24Csv, F24_SECTION, formatReferenceMonth,
+  getF24Total, getTaxCodeLabel, mergeF24Lines, summarizeByTaxCode,
+} from '../services/f24Service';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface F24ViewProps {
+  f24Payments: F24Payment[];
+  expenses: Expense[];
+  bankAccounts: BankAccount[];
+  settings: CondoSettings;
+  condoName: string;
+  onAdd: (payment: F24Payment) => void;
+  onDelete: (id: string) => void;
+}
+
+interface ManualLine {
+  taxCode: string;
+  referenceMonth: string;
+  referenceYear: string;
+  amount: string;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm";
+const labelClass = "block text-xs font-medium text-slate-700 dark:text-slate-300 mb-1.5";
+
+// Il PDF del modello F24 è un documento fiscale: importi e date restano in italiano
+const formatPdfCurrency = (value: number) =>
+  new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(value);
+
+const formatPdfDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+const formatPdfMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1).toLocaleDateString('it-IT', { month: 'long', year: 'numeric' });
+};
+
+const renderF24Pdf = (doc: jsPDF, condoName: string, fiscalCode: string, title: string, details: string[], lines: F24Line[]) => {
+  doc.setFontSize(22);
+  doc.setTextColor(79, 70, 229); // Indigo
+  doc.text(condoName, 14, 20);
+
+  doc.setFontSize(12);
+  doc.setTextColor(100);
+  doc.text(`${title} - ${new Date().toLocaleDateString('it-IT')}`, 14, 28);
+
+  doc.setFontSize(10);
+  doc.setTextColor(0);
+  doc.text(`Contribuente: ${condoName} - Codice fiscale ${fiscalCode || 'NON IMPOSTATO'}`, 14, 38);
+  details.forEach((line, i) => doc.text(line, 14, 44 + i * 6));
+
+  (doc as any).autoTable({
+    startY: 44 + details.length * 6 + 4,
+    head: [['Sezione', 'Codice tributo', 'Descrizione', 'Mese rif.', 'Anno rif.', 'Importo a debito']],
+    body: lines.map(l => [
+      F24_SECTION,
+      l.taxCode,
+      getTaxCodeLabel(l.taxCode),
+      formatReferenceMonth(l.referenceMonth),
+      l.referenceYear,
+      formatPdfCurrency(l.amount),
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [79, 70, 229] },
+    styles: { fontSize: 9 },
+    columnStyles: { 5: { halign: 'right' } },
+  });
+
+  const totals = summarizeByTaxCode(lines);
+  (doc as any).autoTable({
+    startY: (doc as any).lastAutoTable.finalY + 8,
+    head: [['Codice tributo', 'Totale']],
+    body: totals.map(t => [t.taxCode, formatPdfCurrency(t.total)]),
+    foot: [['Totale F24', formatPdfCurrency(totals.reduce((sum, t) => sum + t.total, 0))]],
+    theme: 'grid',
+    headStyles: { fillColor: [79, 70, 229] },
+    footStyles: { fillColor: [226, 232, 240], textColor: 20 },
+    styles: { fontSize: 9 },
+    columnStyles: { 1: { halign: 'right' } },
+    tableWidth: 90,
+  });
+};
+
+export const F24View: React.FC<F24ViewProps> = ({ f24Payments, expenses, bankAccounts, settings, condoName, onAdd, onDelete }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+  const formatMonth = (value: string) => {
+    const [year, m] = value.split('-').map(Number);
+    return new Date(year, m - 1).toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const fiscalCode = settings.fiscalCode || '';
+
+  const deadlines = useMemo(() => computeWithholdingDeadlines(expenses, today), [expenses, today]);
+
+  const [date, setDate] = useState(today);
+  const [bankAccountId, setBankAccountId] = useState(bankAccounts[0]?.id || '');
+  // Di default si versano le ritenute della scadenza più vicina
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => deadlines[0]?.expenses.map(e => e.id) || []);
+  const [manualLines, setManualLines] = useState<ManualLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [month, setMonth] = useState(today.slice(0, 7));
+  const [paymentToDelete, setPaymentToDelete] = useState<string | null>(null);
+
+  const selectedExpenses = expenses.filter(e => selectedIds.includes(e.id));
+  const parsedManualLines: F24Line[] = manualLines.map(l => ({
+    taxCode: l.taxCode.trim(),
+    referenceMonth: l.referenceMonth ? Number(l.referenceMonth) : undefined,
+    referenceYear: Number(l.referenceYear),
+    amount: Math.round((parseFloat(l.amount) || 0) * 100) / 100,
+  }));
+  const previewLines = mergeF24Lines([...buildWithholdingLines(selectedExpenses), ...parsedManualLines.filter(l => l.taxCode && l.amount > 0)]);
+  const previewTotal = previewLines.reduce((sum, l) => sum + l.amount, 0);
+
+  const summary = useMemo(() => computeMonthlySummary(f24Payments, month), [f24Payments, month]);
+
+  const sortedPayments = useMemo(() => [...f24Payments].sort((a, b) => b.date.localeCompare(a.date)), [f24Payments]);
+
+  const accountName = (id: string) => bankAccounts.find(a => a.id === id)?.name || t('f24.deletedAccount');
+
+  const toggleExpenses = (ids: string[], checked: boolean) => {
+    setSelectedIds(prev => checked ? [...new Set([...prev, ...ids])] : prev.filter(id => !ids.includes(id)));
+  };
+
+  const updateManualLine = (index: number, field: keyof ManualLine, value: string) => {
+    setManualLines(prev => prev.map((l, i) => i === index ? { ...l, [field]: value } : l));
+  };
+
+  const handleSave = () => {
+    if (!bankAccountId) {
+      alert(t('f24.missingAccount'));
+      return;
+    }
+    if (parsedManualLines.some(l => !/^[0-9A-Z]{4}$/.test(l.taxCode) || !(l.amount > 0) || !(l.referenceYear >= 2000)
+      || (l.referenceMonth !== undefined && !(l.referenceMonth >= 1 && l.referenceMonth <= 12)))) {
+      alert(t('f24.invalidManualLines'));
+      return;
+    }
+    if (previewLines.length === 0) {
+      alert(t('f24.nothingSelected'));
+      return;
+    }
+    onAdd({
+      id: generateId(),
+      date,
+      bankAccountId,
+      lines: previewLines,
+      expenseIds: selectedIds,
+      notes: notes.trim() || undefined,
+    });
+    setSelectedIds([]);
+    setManualLines([]);
+    setNotes('');
+  };
+
+  const exportPaymentPdf = (payment: F24Payment) => {
+    const doc = new jsPDF();
+    const iban = bankAccounts.find(a => a.id === payment.bankAccountId)?.iban || '';
+    renderF24Pdf(doc, condoName, fiscalCode, `Modello F24 versato il ${formatPdfDate(payment.date)}`, [
+      `Conto di addebito: ${accountName(payment.bankAccountId)}${iban ? ` (${iban})` : ''}`,
+      ...(payment.notes ? [`Note: ${payment.notes}`] : []),
+    ], payment.lines);
+    doc.save(`F24_${condoName.replace(/\s/g, '_')}_${payment.date}.pdf`);
+  };
+
+  const exportSummaryPdf = () => {
+    const doc = new jsPDF();
+    renderF24Pdf(doc, condoName, fiscalCode, `Riepilogo F24 di ${formatPdfMonth(month)}`, [
+      `Modelli versati nel mese: ${summary.payments.length}`,
+    ], summary.lines);
+    doc.save(`riepilogo_F24_${condoName.replace(/\s/g, '_')}_${month}.pdf`);
+  };
+
+  const exportCsv = (payments: F24Payment[], suffix: string) => {
+    if (!fiscalCode && !confirm(t('f24.confirmNoFiscalCode'))) return;
+    const csv = createF24Csv(payments, condoName, fiscalCode, bankAccounts);
+    downloadBlob(new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8;' }), `F24_${condoName.replace(/\s/g, '_')}_${suffix}.csv`);
+  };
+
+  const executeDelete = () => {
+    if (paymentToDelete) {
+      onDelete(paymentToDelete);
+      setPaymentToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {!fiscalCode && (
+        <div className="flex items-center gap-2 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-xl text-sm text-amber-800 dark:text-amber-300">
+          <AlertTriangle size={16} className="shrink-0" />
+          {t('f24.noFiscalCode')}
+        </div>
+      )}
+
+      {/* NUOVO F24 */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Landmark className="w-5 h-5 text-indigo-500" />
+            {t('f24.register')}
+          </h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('f24.registerDesc')}</p>
+        </div>
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t('f24.paymentDate')}</label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('f24.debitAccount')}</label>
+              <select value={bankAccountId} onChange={(e) => setBankAccountId(e.target.value)} className={inputClass}>
+                <option value="">{t('f24.select')}</option>
+                {bankAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name} ({acc.iban})</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-bold text-slate-800 dark:text-white mb-2">{t('f24.withholdingsDue')}</h3>
+            {deadlines.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">{t('f24.noWithholdings')}</p>
+            ) : (
+              <div className="space-y-3">
+                {deadlines.map(deadline => {
+                  const ids = deadline.expenses.map(e => e.id);
+                  const allSelected = ids.every(id => selectedIds.includes(id));
+                  return (
+                    <div key={`${deadline.dueDate}-${deadline.taxCode}`} className="border border-slate-200 dark:border-slate-700 rounded-lg">
+                      <label className="flex items-center justify-between gap-2 px-4 py-2 bg-slate-50 dark:bg-slate-900/40 cursor-pointer">
+                        <span className="flex items-center gap-2 text-sm font-medium text-slate-800 dark:text-white">
+                          <input type="checkbox" checked={allSelected} onChange={(e) => toggleExpenses(ids, e.target.checked)} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+                          {t('f24.deadlineGroup').replace('{code}', deadline.taxCode).replace('{month}', formatMonth(deadline.period))}
+                        </span>
+                        <span className={`text-xs ${deadline.overdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-500 dark:text-slate-400'}`}>
+                          {t('f24.deadlineDue').replace('{date}', formatDate(deadline.dueDate)).replace('{amount}', formatCurrency(deadline.total))}
+                        </span>
+                      </label>
+                      <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {deadline.expenses.map(e => (
+                          <li key={e.id} className="flex items-center justify-between gap-2 px-4 py-2 text-sm">
+                            <label className="flex items-center gap-2 text-slate-700 dark:text-slate-300 cursor-pointer">
+                              <input type="checkbox" checked={selectedIds.includes(e.id)} onChange={(ev) => toggleExpenses([e.id], ev.target.checked)} className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+                              {e.description}
+                              <span className="text-xs text-slate-400">{t('f24.paidOn').replace('{date}', formatDate(e.paidDate || e.date))}</span>
+                            </label>
+                            <span className="text-slate-800 dark:text-slate-200">{formatCurrency(e.withholding!.amount)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-bold text-slate-800 dark:text-white">{t('f24.otherTaxes')}</h3>
+              <button type="button" onClick={() => setManualLines(prev => [...prev, { taxCode: '', referenceMonth: '', referenceYear: today.slice(0, 4), amount: '' }])} className="text-xs font-medium text-indigo-600 dark:text-indigo-400 flex items-center gap-1 hover:underline">
+                <Plus size={14} /> {t('f24.addLine')}
+              </button>
+            </div>
+            {manualLines.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">{t('f24.noOtherTaxes')}</p>
+            ) : (
+              <div className="space-y-2">
+                {manualLines.map((line, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                    <div className="col-span-3">
+                      {index === 0 && <label className={labelClass}>{t('f24.taxCode')}</label>}
+                      <input type="text" maxLength={4} value={line.taxCode} onChange={(e) => updateManualLine(index, 'taxCode', e.target.value.toUpperCase())} className={`${inputClass} font-mono`} placeholder="1040" />
+                    </div>
+                    <div className="col-span-2">
+                      {index === 0 && <label className={labelClass}>{t('f24.refMonth')}</label>}
+                      <input type="number" min="1" max="12" value={line.referenceMonth} onChange={(e) => updateManualLine(index, 'referenceMonth', e.target.value)} className={inputClass} />
+                    </div>
+                    <div className="col-span-3">
+                      {index === 0 && <label className={labelClass}>{t('f24.refYear')}</label>}
+                      <input type="number" value={line.referenceYear} onChange={(e) => updateManualLine(index, 'referenceYear', e.target.value)} className={inputClass} />
+                    </div>
+                    <div className="col-span-3">
+                      {index === 0 && <label className={labelClass}>{t('f24.amountEur')}</label>}
+                      <input type="number" step="0.01" min="0" value={line.amount} onChange={(e) => updateManualLine(index, 'amount', e.target.value)} className={inputClass} />
+                    </div>
+                    <button type="button" onClick={() => setManualLines(prev => prev.filter((_, i) => i !== index))} className="col-span-1 p-2 text-slate-400 hover:text-red-600" title={t('f24.removeLine')}>
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('f24.notes')}</label>
+            <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClass} />
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-4 border-t border-slate-100 dark:border-slate-700">
+            <div className="text-sm text-slate-600 dark:text-slate-300">
+              {previewLines.map(l => (
+                <p key={`${l.taxCode}-${l.referenceYear}-${l.referenceMonth}`}>
+                  <span className="font-mono">{l.taxCode}</span> {formatReferenceMonth(l.referenceMonth)} {l.referenceYear}: {formatCurrency(l.amount)}
+                </p>
+              ))}
+              <p className="font-bold text-slate-800 dark:text-white mt-1">{t('f24.previewTotal').replace('{amount}', formatCurrency(previewTotal))}</p>
+            </div>
+            <button onClick={handleSave} className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium text-sm">
+              <Check size={16} /> {t('f24.register')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* RIEPILOGO MENSILE */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('f24.monthlyTitle')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('f24.monthlyDesc')}</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={`${inputClass} w-auto`} />
+            <button onClick={exportSummaryPdf} disabled={summary.lines.length === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileText size={16} /> PDF
+            </button>
+            <button onClick={() => exportCsv(summary.payments, month)} disabled={summary.payments.length === 0} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileSpreadsheet size={16} /> {t('f24.bankCsv')}
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('f24.taxCode')}</th>
+                <th className="px-6 py-3 font-medium">{t('f24.refMonth')}</th>
+                <th className="px-6 py-3 font-medium">{t('f24.refYear')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('f24.colAmount')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {summary.lines.length > 0 ? summary.lines.map(l => (
+                <tr key={`${l.taxCode}-${l.referenceYear}-${l.referenceMonth}`}>
+                  <td className="px-6 py-3">
+                    <span className="font-mono font-medium text-slate-800 dark:text-white">{l.taxCode}</span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400 ml-2">{getTaxCodeLabel(l.taxCode)}</span>
+                  </td>
+                  <td className="px-6 py-3 font-mono text-slate-600 dark:text-slate-300">{formatReferenceMonth(l.referenceMonth) || '—'}</td>
+                  <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{l.referenceYear}</td>
+                  <td className="px-6 py-3 text-right text-slate-800 dark:text-slate-200">{formatCurrency(l.amount)}</td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-slate-500 dark:text-slate-400">{t('f24.noPaymentsInMonth').replace('{month}', formatMonth(month))}</td>
+                </tr>
+              )}
+            </tbody>
+            {summary.totals.length > 0 && (
+              <tfoot className="bg-slate-50 dark:bg-slate-700/50 text-slate-800 dark:text-white">
+                {summary.totals.map(total => (
+                  <tr key={total.taxCode}>
+                    <td colSpan={3} className="px-6 py-2 text-right text-xs uppercase text-slate-500 dark:text-slate-400">{t('f24.codeTotal').replace('{code}', total.taxCode)}</td>
+                    <td className="px-6 py-2 text-right font-medium">{formatCurrency(total.total)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td colSpan={3} className="px-6 py-2 text-right font-bold">{t('f24.monthTotal')}</td>
+                  <td className="px-6 py-2 text-right font-bold">{formatCurrency(summary.total)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {/* MODELLI REGISTRATI */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('f24.registeredTitle')}</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('f24.colDate')}</th>
+                <th className="px-6 py-3 font-medium">{t('f24.colAccount')}</th>
+                <th className="px-6 py-3 font-medium">{t('f24.colTaxes')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('f24.colTotal')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('f24.colActions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {sortedPayments.length > 0 ? sortedPayments.map(p => (
+                <tr key={p.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                  <td className="px-6 py-4 text-slate-600 dark:text-slate-300 whitespace-nowrap">{formatDate(p.date)}</td>
+                  <td className="px-6 py-4 text-slate-600 dark:text-slate-300">{accountName(p.bankAccountId)}</td>
+                  <td className="px-6 py-4 text-xs text-slate-600 dark:text-slate-300">
+                    {summarizeByTaxCode(p.lines).map(total => total.taxCode).join(', ')}
+                    {p.expenseIds.length > 0 && <span className="text-slate-400"> · {t('f24.expensesCount').replace('{count}', String(p.expenseIds.length))}</span>}
+                  </td>
+                  <td className="px-6 py-4 text-right font-bold text-slate-800 dark:text-slate-200">{formatCurrency(getF24Total(p))}</td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center justify-center gap-1">
+                      <button onClick={() => exportPaymentPdf(p)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title={t('f24.downloadPdf')}><FileText size={18} /></button>
+                      <button onClick={() => exportCsv([p], p.date)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title={t('f24.exportCsv')}><FileSpreadsheet size={18} /></button>
+                      <button onClick={() => setPaymentToDelete(p.id)} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title={t('f24.deleteTitle')}><Trash2 size={18} /></button>
+                    </div>
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <Landmark className="w-8 h-8 text-slate-300 dark:text-slate-600" />
+                      <p>{t('f24.noPayments')}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {paymentToDelete && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30"><AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">{t('f24.deleteTitle')}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">{t('f24.deleteMsg')}</p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={executeDelete} type="button" className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700">{t('common.delete')}</button>
+              <button onClick={() => setPaymentToDelete(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">{t('common.cancel')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { BankAccount, CondoSettings, Expense, F24Payment, Supplier } from '../types';
+import { BadgeCheck, ClipboardList, Landmark } from 'lucide-react';
+import { F24View } from './F24View';
+import { CertificationsView } from './CertificationsView';
+import { QuadroAcView } from './QuadroAcView';
+
+export type FiscalTab = 'f24' | 'certifications' | 'quadroAc';
+
+interface FiscalViewProps {
+  tab: FiscalTab;
+  onTabChange: (tab: FiscalTab) => void;
+  f24Payments: F24Payment[];
+  expenses: Expense[];
+  suppliers: Supplier[];
+  bankAccounts: BankAccount[];
+  settings: CondoSettings;
+  condoName: string;
+  onAddF24: (payment: F24Payment) => void;
+  onDeleteF24: (id: string) => void;
+  onEditExpense: (expense: Expense) => void;
+}
+
+const tabClass = (active: boolean) => `flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+  active
+    ? 'bg-white dark:bg-slate-600 text-indigo-600 dark:text-indigo-300 shadow-sm'
+    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+}`;
+
+export const FiscalView: React.FC<FiscalViewProps> = ({
+  tab, onTabChange, f24Payments, expenses, suppliers, bankAccounts, settings, condoName, onAddF24, onDeleteF24, onEditExpense,
+}) => {
+  return (
+    <div className="space-y-6">
+      <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg w-fit">
+        <button onClick={() => onTabChange('f24')} className={tabClass(tab === 'f24')}>
+          <Landmark size={16} />
+          F24
+        </button>
+        <button onClick={() => onTabChange('certifications')} className={tabClass(tab === 'certifications')}>
+          <BadgeCheck size={16} />
+          CU e 770
+        </button>
+        <button onClick={() => onTabChange('quadroAc')} className={tabClass(tab === 'quadroAc')}>
+          <ClipboardList size={16} />
+          Quadro AC
+        </button>
+      </div>
+
+      {tab === 'f24' && (
+        <F24View
+          f24Payments={f24Payments}
+          expenses={expenses}
+          bankAccounts={bankAccounts}
+          settings={settings}
+          condoName={condoName}
+          onAdd={onAddF24}
+          onDelete={onDeleteF24}
+        />
+      )}
+      {tab === 'certifications' && (
+        <CertificationsView
+          expenses={expenses}
+          suppliers={suppliers}
+          f24Payments={f24Payments}
+          settings={settings}
+          condoName={condoName}
+        />
+      )}
+      {tab === 'quadroAc' && (
+        <QuadroAcView
+          expenses={expenses}
+          suppliers={suppliers}
+          settings={settings}
+          condoName={condoName}
+          onEditExpense={onEditExpense}
+        />
+      )}
+    </div>
+  );
+};
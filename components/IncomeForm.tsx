@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { Check } from 'lucide-react';
-import { Income, IncomeCategory } from '../types';
+import { Income, IncomeCategory, Unit } from '../types';
 import { generateId } from '../utils';
 
 interface IncomeFormProps {
@@ -9,9 +9,10 @@ interface IncomeFormProps {
   onUpdate?: (income: Income) => void;
   onCancel: () => void;
   initialData?: Income;
+  units: Unit[];
 }
 
-export const IncomeForm: React.FC<IncomeFormProps> = ({ onAdd, onUpdate, onCancel, initialData }) => {
+export const IncomeForm: React.FC<IncomeFormProps> = ({ onAdd, onUpdate, onCancel, initialData, units }) => {
   const [mode, setMode] = useState<'single' | 'monthly'>(initialData ? 'single' : 'single');
 
   // State for Single Income
@@ -28,6 +29,7 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({ onAdd, onUpdate, onCance
   const [category, setCategory] = useState<IncomeCategory>(
     (initialData?.category as IncomeCategory) || IncomeCategory.QUOTE
   );
+  const [unitId, setUnitId] = useState(initialData?.unitId || '');
   
   // State for Monthly Summary
   const [monthYear, setMonthYear] = useState('');
@@ -55,6 +57,7 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({ onAdd, onUpdate, onCance
         amount: parsedAmount,
         date,
         category,
+        unitId: category === IncomeCategory.QUOTE && unitId ? unitId : undefined,
       };
 
       if (isEditing && onUpdate) {
@@ -167,6 +170,23 @@ export const IncomeForm: React.FC<IncomeFormProps> = ({ onAdd, onUpdate, onCance
                   ))}
                 </select>
               </div>
+
+              {category === IncomeCategory.QUOTE && units.length > 0 && (
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">Unità Immobiliare</label>
+                  <select
+                    value={unitId}
+                    onChange={(e) => setUnitId(e.target.value)}
+                    className="w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
+                  >
+                    <option value="">— Non assegnata —</option>
+                    {[...units].sort((a, b) => a.code.localeCompare(b.code, 'it', { numeric: true })).map(u => (
+                      <option key={u.id} value={u.id}>{u.code} ({u.type})</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Necessaria per imputare il versamento nel riparto consuntivo.</p>
+                </div>
+              )}
             </div>
           ) : (
             // Monthly Summary Form
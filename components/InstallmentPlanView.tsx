@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { Budget, CondoSettings, Installment, MillesimiTable, Unit } from '../types';
+import { AlertTriangle, CalendarClock, Trash2, Wand2 } from 'lucide-react';
+import { formatFiscalYear, getFiscalYearRange } from '../services/fiscalYearService';
+import { generateInstallmentPlan, splitBudgetByUnit } from '../services/quotaService';
+import { isInterestCharge } from '../services/interestService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface InstallmentPlanViewProps {
+  units: Unit[];
+  installments: Installment[];
+  budgets: Budget[];
+  millesimiTables: MillesimiTable[];
+  settings: CondoSettings;
+  onReplacePlan: (fiscalYear: number, installments: Installment[]) => void;
+  onDeleteInstallment: (id: string) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
+export const InstallmentPlanView: React.FC<InstallmentPlanViewProps> = ({
+  units, installments, budgets, millesimiTables, settings, onReplacePlan, onDeleteInstallment,
+}) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (val: number) => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+
+  const sortedBudgets = useMemo(() => [...budgets].sort((a, b) => b.year - a.year), [budgets]);
+  const [budgetId, setBudgetId] = useState(sortedBudgets[0]?.id || '');
+  const budget = budgets.find(b => b.id === budgetId);
+
+  const [count, setCount] = useState('4');
+  const [intervalMonths, setIntervalMonths] = useState('3');
+  const [firstDueDate, setFirstDueDate] = useState(budget ? getFiscalYearRange(budget.year, settings).start : '');
+
+  const handleBudgetChange = (id: string) => {
+    setBudgetId(id);
+    const selected = budgets.find(b => b.id === id);
+    if (selected) setFirstDueDate(getFiscalYearRange(selected.year, settings).start);
+  };
+
+  const split = useMemo(() => (budget ? splitBudgetByUnit(budget, millesimiTables) : null), [budget, millesimiTables]);
+
+  const unitCode = (id: string) => units.find(u => u.id === id)?.code || '—';
+
+  const planInstallments = useMemo(
+    () => (budget
+      ? installments.filter(r => r.fiscalYear === budget.year && !isInterestCharge(r)).sort((a, b) => a.dueDate.localeCompare(b.dueDate) || unitCode(a.unitId).localeCompare(unitCode(b.unitId), locale, { numeric: true }))
+      : []),
+    [installments, budget, units, locale]
+  );
+
+  const handleGenerate = () => {
+    if (!budget) return;
+    const parsedCount = parseInt(count, 10);
+    const parsedInterval = parseInt(intervalMonths, 10);
+    if (!firstDueDate) {
+      alert(t('quotas.missingFirstDue'));
+      return;
+    }
+    if (!budget.approvalDate && !confirm(t('quotas.confirmNoApproval'))) {
+      return;
+    }
+    if (planInstallments.length > 0 && !confirm(t('quotas.confirmReplace').replace('{count}', String(planInstallments.length)).replace('{year}', formatFiscalYear(budget.year, settings)))) {
+      return;
+    }
+    try {
+      const plan = generateInstallmentPlan({
+        budget,
+        units,
+        tables: millesimiTables,
+        count: parsedCount,
+        firstDueDate,
+        intervalMonths: parsedInterval,
+        periodLabel: formatFiscalYear(budget.year, settings),
+      });
+      if (plan.length === 0) {
+        alert(t('quotas.nothingGenerated'));
+        return;
+      }
+      onReplacePlan(budget.year, plan);
+    } catch (e) {
+      alert((e as Error).message);
+    }
+  };
+
+  if (budgets.length === 0) {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+        <CalendarClock className="w-8 h-8 text-slate-300 dark:text-slate-600 mx-auto mb-2" />
+        <p>{t('quotas.noBudgets')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('quotas.planTitle')}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('quotas.planDesc')}</p>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className={labelClass}>{t('quotas.budget')}</label>
+            <select value={budgetId} onChange={(e) => handleBudgetChange(e.target.value)} className={inputClass}>
+              {sortedBudgets.map(b => <option key={b.id} value={b.id}>{t('quotas.fiscalYear').replace('{year}', formatFiscalYear(b.year, settings))}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{t('quotas.count')}</label>
+            <input type="number" min="1" max="24" value={count} onChange={(e) => setCount(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('quotas.firstDue')}</label>
+            <input type="date" value={firstDueDate} onChange={(e) => setFirstDueDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('quotas.interval')}</label>
+            <select value={intervalMonths} onChange={(e) => setIntervalMonths(e.target.value)} className={inputClass}>
+              <option value="1">{t('quotas.monthly')}</option>
+              <option value="2">{t('quotas.bimonthly')}</option>
+              <option value="3">{t('quotas.quarterly')}</option>
+              <option value="4">{t('quotas.fourMonthly')}</option>
+              <option value="6">{t('quotas.semiannual')}</option>
+              <option value="12">{t('quotas.annual')}</option>
+            </select>
+          </div>
+        </div>
+
+        {split && split.unallocatedCategories.length > 0 && (
+          <div className="mx-6 mb-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-3 text-sm text-amber-800 dark:text-amber-300 flex items-center gap-2">
+            <AlertTriangle size={16} />
+            {t('quotas.unallocated').replace('{categories}', split.unallocatedCategories.join(', '))}
+          </div>
+        )}
+
+        <div className="px-6 pb-6 flex justify-end">
+          <button onClick={handleGenerate} disabled={!budget || units.length === 0} className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium disabled:opacity-50">
+            <Wand2 size={18} />
+            {t('quotas.generate')}
+          </button>
+        </div>
+      </div>
+
+      {budget && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+          <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('quotas.installmentsTitle').replace('{year}', formatFiscalYear(budget.year, settings))}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {t('quotas.installmentsSummary')
+                .replace('{count}', String(planInstallments.length))
+                .replace('{amount}', formatCurrency(planInstallments.reduce((sum, r) => sum + r.amount, 0)))}
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+                <tr>
+                  <th className="px-6 py-3 font-medium">{t('quotas.colDue')}</th>
+                  <th className="px-6 py-3 font-medium">{t('quotas.colUnit')}</th>
+                  <th className="px-6 py-3 font-medium">{t('quotas.colDescription')}</th>
+                  <th className="px-6 py-3 font-medium text-right">{t('quotas.colAmount')}</th>
+                  <th className="px-6 py-3 font-medium text-center">{t('quotas.colActions')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {planInstallments.length > 0 ? planInstallments.map(r => (
+                  <tr key={r.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{new Date(r.dueDate).toLocaleDateString(locale)}</td>
+                    <td className="px-6 py-3 font-medium text-slate-900 dark:text-white">{unitCode(r.unitId)}</td>
+                    <td className="px-6 py-3 text-slate-600 dark:text-slate-300">{r.description}</td>
+                    <td className="px-6 py-3 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(r.amount)}</td>
+                    <td className="px-6 py-3 text-center">
+                      <button onClick={() => { if (confirm(t('quotas.confirmDelete'))) onDeleteInstallment(r.id); }} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title={t('quotas.deleteTitle')}>
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-slate-500 dark:text-slate-400">{t('quotas.noInstallments')}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
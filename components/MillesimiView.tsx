@@ -0,0 +1,297 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { MillesimiTable, Unit, ExpenseCategory } from '../types';
+import { Plus, Upload, FileSpreadsheet, Check, Trash2, Table, Star } from 'lucide-react';
+import { generateId } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+import {
+  MILLESIMI_TOTAL, getTableTotal, isTableBalanced, assignCategory,
+  parseMillesimiSheet, exportMillesimiSheet,
+} from '../services/millesimiService';
+
+interface MillesimiViewProps {
+  tables: MillesimiTable[];
+  units: Unit[];
+  condoName: string;
+  onChange: (tables: MillesimiTable[]) => void;
+}
+
+interface Draft {
+  id: string | null; // null = nuova tabella
+  name: string;
+  description: string;
+  isDefault: boolean;
+  values: Record<string, string>; // unitId -> valore digitato
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+
+const toDraft = (table?: MillesimiTable): Draft => ({
+  id: table ? table.id : null,
+  name: table?.name || '',
+  description: table?.description || '',
+  isDefault: !!table?.isDefault,
+  values: table ? Object.fromEntries(Object.entries(table.values).map(([k, v]) => [k, String(v)])) : {},
+});
+
+const parseDraftValue = (value: string) => parseFloat(value.replace(',', '.'));
+
+export const MillesimiView: React.FC<MillesimiViewProps> = ({ tables, units, condoName, onChange }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const [draft, setDraft] = useState<Draft | null>(tables.length > 0 ? toDraft(tables[0]) : null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sortedUnits = useMemo(
+    () => [...units].sort((a, b) => a.code.localeCompare(b.code, locale, { numeric: true })),
+    [units, locale]
+  );
+
+  const draftTotal = useMemo(() => {
+    if (!draft) return 0;
+    return Object.keys(draft.values).reduce((sum, unitId) => {
+      const n = parseDraftValue(draft.values[unitId]);
+      return Number.isFinite(n) ? sum + n : sum;
+    }, 0);
+  }, [draft]);
+  const draftBalanced = Math.abs(draftTotal - MILLESIMI_TOTAL) < 0.001;
+
+  const formatMillesimi = (value: number) =>
+    value.toLocaleString(locale, { minimumFractionDigits: 0, maximumFractionDigits: 3 });
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      alert(t('millesimi.nameRequired'));
+      return;
+    }
+    const values: Record<string, number> = {};
+    for (const unitId of Object.keys(draft.values)) {
+      const raw = draft.values[unitId];
+      if (!raw.trim()) continue;
+      const n = parseDraftValue(raw);
+      if (!Number.isFinite(n) || n < 0) {
+        const code = units.find(u => u.id === unitId)?.code || unitId;
+        alert(t('millesimi.invalidValue').replace('{code}', code));
+        return;
+      }
+      values[unitId] = n;
+    }
+    if (!draftBalanced) {
+      alert(t('millesimi.mustBalance').replace('{total}', String(MILLESIMI_TOTAL)).replace('{current}', formatMillesimi(draftTotal)));
+      return;
+    }
+
+    const id = draft.id || generateId();
+    const existing = tables.find(t => t.id === id);
+    const table: MillesimiTable = {
+      id,
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      values,
+      categories: existing ? existing.categories : [],
+      isDefault: draft.isDefault || undefined,
+    };
+    // Una sola tabella predefinita
+    const next = tables.map(t => {
+      if (t.id === id) return table;
+      return table.isDefault && t.isDefault ? { ...t, isDefault: undefined } : t;
+    });
+    onChange(existing ? next : [...next, table]);
+    setDraft(toDraft(table));
+  };
+
+  const handleDelete = () => {
+    if (!draft?.id) return;
+    if (!confirm(t('millesimi.confirmDelete').replace('{name}', draft.name))) return;
+    const remaining = tables.filter(t => t.id !== draft.id);
+    onChange(remaining);
+    setDraft(remaining.length > 0 ? toDraft(remaining[0]) : null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { tables: imported, unknownCodes } = parseMillesimiSheet(await file.arrayBuffer(), units);
+      let next = [...tables];
+      imported.forEach(imp => {
+        const existing = next.find(t => t.name.trim().toLowerCase() === imp.name.toLowerCase());
+        if (existing) {
+          next = next.map(t => (t.id === existing.id ? { ...t, values: imp.values } : t));
+        } else {
+          next.push({ id: generateId(), name: imp.name, values: imp.values, categories: [], isDefault: next.length === 0 || undefined });
+        }
+      });
+      onChange(next);
+      setDraft(toDraft(next.find(t => t.name.trim().toLowerCase() === imported[0].name.toLowerCase())));
+
+      const unbalanced = next.filter(t => imported.some(i => i.name.toLowerCase() === t.name.trim().toLowerCase()) && !isTableBalanced(t));
+      const messages = [t('millesimi.imported').replace('{count}', String(imported.length))];
+      if (unknownCodes.length > 0) messages.push(t('millesimi.unknownUnits').replace('{codes}', unknownCodes.join(', ')));
+      if (unbalanced.length > 0) messages.push(t('millesimi.unbalanced').replace('{total}', String(MILLESIMI_TOTAL)).replace('{names}', unbalanced.map(u => u.name).join(', ')));
+      alert(messages.join('\n'));
+    } catch (err) {
+      alert(t('millesimi.importError').replace('{error}', (err as Error).message));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('millesimi.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('millesimi.subtitle').replace('{total}', String(MILLESIMI_TOTAL))}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => fileInputRef.current?.click()} disabled={units.length === 0} className="px-3 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <Upload size={16} />
+              {t('millesimi.import')}
+            </button>
+            <input type="file" ref={fileInputRef} onChange={handleImport} accept=".xlsx,.xls,.csv" className="hidden" />
+            <button onClick={() => exportMillesimiSheet(tables, units, condoName)} disabled={units.length === 0} className="px-3 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50" title={t('millesimi.exportHint')}>
+              <FileSpreadsheet size={16} />
+              {t('millesimi.export')}
+            </button>
+            <button onClick={() => setDraft(toDraft())} disabled={units.length === 0} className="px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium shadow-sm disabled:opacity-50">
+              <Plus size={16} />
+              {t('millesimi.newTable')}
+            </button>
+          </div>
+        </div>
+
+        {units.length === 0 ? (
+          <div className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+            <Table className="w-8 h-8 text-slate-300 dark:text-slate-600 mx-auto mb-2" />
+            <p>{t('millesimi.noUnits')}</p>
+          </div>
+        ) : (
+          <div className="p-6 flex flex-wrap gap-2">
+            {tables.map(table => {
+              const balanced = isTableBalanced(table);
+              return (
+                <button
+                  key={table.id}
+                  onClick={() => setDraft(toDraft(table))}
+                  className={`px-3 py-2 rounded-lg border text-sm text-left transition-colors ${
+                    draft?.id === table.id
+                      ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30'
+                      : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'
+                  }`}
+                >
+                  <span className="flex items-center gap-1 font-medium text-slate-800 dark:text-white">
+                    {table.isDefault && <Star size={12} className="text-amber-500" />}
+                    {table.name}
+                  </span>
+                  <span className={`text-xs ${balanced ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {formatMillesimi(getTableTotal(table))} / {MILLESIMI_TOTAL}
+                  </span>
+                </button>
+              );
+            })}
+            {tables.length === 0 && <p className="text-sm text-slate-500 dark:text-slate-400">{t('millesimi.noTables')}</p>}
+          </div>
+        )}
+      </div>
+
+      {draft && units.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+          <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('millesimi.name')}</label>
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder={t('millesimi.namePlaceholder')} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t('millesimi.description')}</label>
+              <input type="text" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} className={inputClass} />
+            </div>
+            <label className="col-span-full flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={draft.isDefault} onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })} className="rounded text-indigo-600" />
+              {t('millesimi.isDefault')}
+            </label>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+                <tr>
+                  <th className="px-6 py-3 font-medium">{t('millesimi.unit')}</th>
+                  <th className="px-6 py-3 font-medium">{t('millesimi.type')}</th>
+                  <th className="px-6 py-3 font-medium text-right w-48">{t('millesimi.value')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {sortedUnits.map(unit => (
+                  <tr key={unit.id}>
+                    <td className="px-6 py-2 font-medium text-slate-900 dark:text-white">{unit.code}</td>
+                    <td className="px-6 py-2 text-slate-500 dark:text-slate-400">{unit.type}</td>
+                    <td className="px-6 py-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={draft.values[unit.id] || ''}
+                        onChange={(e) => setDraft({ ...draft, values: { ...draft.values, [unit.id]: e.target.value } })}
+                        className={`${inputClass} text-right font-mono`}
+                        placeholder="0"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-bold">
+                <tr>
+                  <td className="px-6 py-3 text-slate-800 dark:text-white" colSpan={2}>{t('millesimi.total')}</td>
+                  <td className={`px-6 py-3 text-right font-mono ${draftBalanced ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {formatMillesimi(draftTotal)} / {MILLESIMI_TOTAL}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <div className="p-6 flex justify-between gap-3 border-t border-slate-100 dark:border-slate-700">
+            {draft.id ? (
+              <button onClick={handleDelete} className="px-4 py-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg flex items-center gap-2 text-sm font-medium">
+                <Trash2 size={16} />
+                {t('common.delete')}
+              </button>
+            ) : <span />}
+            <button onClick={handleSave} className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium">
+              <Check size={18} />
+              {t('millesimi.save')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tables.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+          <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('millesimi.byCategory')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('millesimi.byCategoryDesc')}</p>
+          </div>
+          <div className="divide-y divide-slate-200 dark:divide-slate-700">
+            {Object.values(ExpenseCategory).map(category => {
+              const assigned = tables.find(t => t.categories.includes(category));
+              const fallback = tables.find(t => t.isDefault);
+              return (
+                <div key={category} className="px-6 py-3 flex items-center justify-between gap-4">
+                  <span className="text-sm text-slate-700 dark:text-slate-300">{category}</span>
+                  <select
+                    value={assigned?.id || ''}
+                    onChange={(e) => onChange(assignCategory(tables, category, e.target.value || null))}
+                    className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500 w-64"
+                  >
+                    <option value="">{fallback ? t('millesimi.defaultOption').replace('{name}', fallback.name) : t('millesimi.noneOption')}</option>
+                    {tables.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { Person } from '../types';
+import { generateId } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface PersonFormProps {
+  onAdd: (person: Person) => void;
+  onUpdate?: (person: Person) => void;
+  onCancel: () => void;
+  initialData?: Person;
+}
+
+const inputClass = "w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2";
+
+export const PersonForm: React.FC<PersonFormProps> = ({ onAdd, onUpdate, onCancel, initialData }) => {
+  const { t } = useLanguage();
+  const [name, setName] = useState(initialData?.name || '');
+  const [fiscalCode, setFiscalCode] = useState(initialData?.fiscalCode || '');
+  const [address, setAddress] = useState(initialData?.address || '');
+  const [email, setEmail] = useState(initialData?.email || '');
+  const [pec, setPec] = useState(initialData?.pec || '');
+  const [phone, setPhone] = useState(initialData?.phone || '');
+  const [notes, setNotes] = useState(initialData?.notes || '');
+
+  const isEditing = !!initialData;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      alert(t('registry.personNameRequired'));
+      return;
+    }
+    const cleanFiscalCode = fiscalCode.replace(/\s/g, '').toUpperCase();
+    if (cleanFiscalCode && cleanFiscalCode.length !== 16 && cleanFiscalCode.length !== 11) {
+      alert(t('registry.personInvalidFiscalCode'));
+      return;
+    }
+
+    const personData: Person = {
+      id: isEditing ? initialData.id : generateId(),
+      name: name.trim(),
+      fiscalCode: cleanFiscalCode || undefined,
+      address: address.trim() || undefined,
+      email: email.trim() || undefined,
+      pec: pec.trim() || undefined,
+      phone: phone.trim() || undefined,
+      notes: notes.trim() || undefined,
+    };
+
+    if (isEditing && onUpdate) {
+      onUpdate(personData);
+    } else {
+      onAdd(personData);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 max-w-2xl mx-auto overflow-hidden transition-colors duration-200">
+      <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-bold text-slate-800 dark:text-white">
+          {isEditing ? t('registry.personFormEdit') : t('registry.personFormNew')}
+        </h2>
+      </div>
+      <div className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="col-span-2">
+              <label className={labelClass}>{t('registry.personName')}</label>
+              <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder={t('registry.personNamePlaceholder')} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('registry.fiscalCode')}</label>
+              <input type="text" value={fiscalCode} onChange={(e) => setFiscalCode(e.target.value.toUpperCase())} className={`${inputClass} uppercase font-mono`} placeholder="RSSMRA80A01H501U" />
+            </div>
+            <div>
+              <label className={labelClass}>{t('registry.phone')}</label>
+              <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('registry.address')}</label>
+              <input type="text" value={address} onChange={(e) => setAddress(e.target.value)} className={inputClass} placeholder={t('registry.addressPlaceholder')} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('registry.email')}</label>
+              <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('registry.pec')}</label>
+              <input type="email" value={pec} onChange={(e) => setPec(e.target.value)} className={inputClass} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('registry.notes')}</label>
+              <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={`${inputClass} min-h-[80px] resize-none`} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-5 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium"
+            >
+              <Check size={18} />
+              {isEditing ? t('registry.personUpdate') : t('registry.personSave')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
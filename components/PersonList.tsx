@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import { Unit, Person } from '../types';
+import { Trash2, Pencil, AlertTriangle, Search, Users, Mail, Phone } from 'lucide-react';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface PersonListProps {
+  persons: Person[];
+  units: Unit[];
+  onDelete: (id: string) => void;
+  onEdit: (person: Person) => void;
+}
+
+export const PersonList: React.FC<PersonListProps> = ({ persons, units, onDelete, onEdit }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const [personToDelete, setPersonToDelete] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Ruoli di ciascuna persona ricavati dalle unità (proprietario / inquilino)
+  const rolesByPerson = useMemo(() => {
+    const map = new Map<string, string[]>();
+    units.forEach(u => {
+      u.owners.forEach(o => map.set(o.personId, [...(map.get(o.personId) || []), t('registry.roleOwner').replace('{code}', u.code)]));
+      u.tenants.forEach(tenant => map.set(tenant.personId, [...(map.get(tenant.personId) || []), t('registry.roleTenant').replace('{code}', u.code)]));
+    });
+    return map;
+  }, [units, t]);
+
+  const filteredPersons = useMemo(() => {
+    const searchLower = searchTerm.toLowerCase();
+    return persons
+      .filter(p =>
+        p.name.toLowerCase().includes(searchLower) ||
+        (p.fiscalCode || '').toLowerCase().includes(searchLower) ||
+        (p.email || '').toLowerCase().includes(searchLower)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name, locale));
+  }, [persons, searchTerm, locale]);
+
+  const executeDelete = () => {
+    if (personToDelete) {
+      onDelete(personToDelete);
+      setPersonToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('registry.personsTitle')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('registry.personsSubtitle')}</p>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 dark:text-slate-500 w-4 h-4" />
+            <input
+              type="text"
+              placeholder={t('registry.search')}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9 pr-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-full sm:w-48"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('registry.colName')}</th>
+                <th className="px-6 py-3 font-medium">{t('registry.fiscalCode')}</th>
+                <th className="px-6 py-3 font-medium">{t('registry.colContacts')}</th>
+                <th className="px-6 py-3 font-medium">{t('registry.colUnits')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('registry.actions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {filteredPersons.length > 0 ? (
+                filteredPersons.map(person => (
+                  <tr key={person.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="text-slate-900 dark:text-white font-medium">{person.name}</p>
+                      {person.address && <p className="text-xs text-slate-500 dark:text-slate-400">{person.address}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-slate-500 dark:text-slate-400 font-mono">{person.fiscalCode || '—'}</td>
+                    <td className="px-6 py-4 text-slate-600 dark:text-slate-300 text-xs space-y-0.5">
+                      {person.email && <p className="flex items-center gap-1"><Mail size={12} /> {person.email}</p>}
+                      {person.pec && <p className="flex items-center gap-1"><Mail size={12} className="text-indigo-500" /> {person.pec}</p>}
+                      {person.phone && <p className="flex items-center gap-1"><Phone size={12} /> {person.phone}</p>}
+                      {!person.email && !person.pec && !person.phone && '—'}
+                    </td>
+                    <td className="px-6 py-4 text-slate-600 dark:text-slate-300 text-xs">
+                      {(rolesByPerson.get(person.id) || []).join(', ') || '—'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-center gap-2">
+                        <button onClick={() => onEdit(person)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title={t('registry.editPerson')}><Pencil size={18} /></button>
+                        <button onClick={() => setPersonToDelete(person.id)} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title={t('registry.deletePerson')}><Trash2 size={18} /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <Users className="w-8 h-8 text-slate-300 dark:text-slate-600" />
+                      <p>{t('registry.noPersons')}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {personToDelete && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30"><AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">{t('registry.deletePerson')}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">{t('registry.deletePersonMsg')}</p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={executeDelete} type="button" className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700">{t('common.delete')}</button>
+              <button onClick={() => setPersonToDelete(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">{t('common.cancel')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
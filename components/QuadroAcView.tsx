@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, AlertTriangle, Edit2, ClipboardList } from 'lucide-react';
+import { utils, writeFile } from 'xlsx';
+import { CondoSettings, Expense, Supplier } from '../types';
+import {
+  AcExclusionReason, computeQuadroAc, createQuadroAcCsv, QUADRO_AC_FIELDS, QUADRO_AC_THRESHOLD, toQuadroAcFields,
+} from '../services/quadroAcService';
+import { downloadBlob } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface QuadroAcViewProps {
+  expenses: Expense[];
+  suppliers: Supplier[];
+  settings: CondoSettings;
+  condoName: string;
+  onEditExpense: (expense: Expense) => void;
+}
+
+const EXCLUSION_LABELS: Record<AcExclusionReason, string> = {
+  utility: 'quadroAc.excludedUtility',
+  withholding: 'quadroAc.excludedWithholding',
+};
+
+export const QuadroAcView: React.FC<QuadroAcViewProps> = ({ expenses, suppliers, settings, condoName, onEditExpense }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+  const condoFiscalCode = settings.fiscalCode || '';
+
+  const years = useMemo(() => {
+    const set = new Set<number>([new Date().getFullYear() - 1]);
+    expenses.forEach(e => set.add(Number(e.date.slice(0, 4))));
+    return [...set].sort((a, b) => b - a);
+  }, [expenses]);
+
+  // La comunicazione si presenta con il 730/Redditi dell'anno successivo agli acquisti
+  const [year, setYear] = useState(new Date().getFullYear() - 1);
+
+  const report = useMemo(() => computeQuadroAc(expenses, suppliers, year), [expenses, suppliers, year]);
+
+  const fileSuffix = `${condoName.replace(/\s/g, '_')}_${year}`;
+
+  const handleExportCsv = () => {
+    const csv = createQuadroAcCsv(report, condoName, condoFiscalCode);
+    downloadBlob(new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8;' }), `Quadro_AC_${fileSuffix}.csv`);
+  };
+
+  const handleExportExcel = () => {
+    const wb = utils.book_new();
+    const condoSheet = utils.aoa_to_sheet([
+      ['Anno', year],
+      ['Codice fiscale del condominio', condoFiscalCode],
+      ['Denominazione', condoName],
+    ]);
+    const suppliersSheet = utils.aoa_to_sheet([QUADRO_AC_FIELDS, ...report.rows.map(toQuadroAcFields)]);
+    const missingSheet = utils.aoa_to_sheet([
+      ['Data', 'Descrizione', 'Categoria', 'Importo'],
+      ...report.missingCode.map(e => [e.date, e.description, e.category, e.amount]),
+    ]);
+    utils.book_append_sheet(wb, condoSheet, "Condominio");
+    utils.book_append_sheet(wb, suppliersSheet, "Fornitori");
+    utils.book_append_sheet(wb, missingSheet, "Da completare");
+    writeFile(wb, `Quadro_AC_${fileSuffix}.xlsx`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {(report.missingCode.length > 0 || !condoFiscalCode) && (
+        <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-xl text-sm text-amber-800 dark:text-amber-300 space-y-1">
+          {!condoFiscalCode && <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('quadroAc.noCondoFiscalCode')}</p>}
+          {report.missingCode.length > 0 && <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('quadroAc.missingCodes').replace('{count}', String(report.missingCode.length))}</p>}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('quadroAc.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {t('quadroAc.subtitle').replace('{amount}', formatCurrency(QUADRO_AC_THRESHOLD))}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={year} onChange={(e) => setYear(Number(e.target.value))} className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <button onClick={handleExportExcel} disabled={report.rows.length === 0} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileSpreadsheet size={16} /> Excel
+            </button>
+            <button onClick={handleExportCsv} disabled={report.rows.length === 0} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileSpreadsheet size={16} /> CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('quadroAc.colSupplier')}</th>
+                <th className="px-6 py-3 font-medium">{t('quadroAc.colTaxId')}</th>
+                <th className="px-6 py-3 font-medium">{t('quadroAc.colAddress')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('quadroAc.colPurchases')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {report.rows.length > 0 ? report.rows.map(row => (
+                <tr key={row.key} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-slate-900 dark:text-white">{row.name}</p>
+                    <p className="text-xs text-slate-400">{t('quadroAc.expensesCount').replace('{count}', String(row.expenseIds.length))}</p>
+                  </td>
+                  <td className="px-6 py-4 font-mono text-xs text-slate-600 dark:text-slate-300">{row.fiscalCode}</td>
+                  <td className={`px-6 py-4 text-xs ${row.address ? 'text-slate-600 dark:text-slate-300' : 'text-amber-600 dark:text-amber-400'}`}>
+                    {row.address || t('quadroAc.missingAddress')}
+                  </td>
+                  <td className="px-6 py-4 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(row.total)}</td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={4} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <ClipboardList className="w-8 h-8 text-slate-300 dark:text-slate-600" />
+                      <p>{t('quadroAc.empty').replace('{year}', String(year))}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {report.missingCode.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+          <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="font-bold text-slate-800 dark:text-white">{t('quadroAc.toCompleteTitle')}</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('quadroAc.toCompleteDesc')}</p>
+          </div>
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {report.missingCode.map(e => (
+                <tr key={e.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                  <td className="px-6 py-3 text-slate-500 dark:text-slate-400 whitespace-nowrap">{formatDate(e.date)}</td>
+                  <td className="px-6 py-3 text-slate-800 dark:text-slate-200">{e.description}</td>
+                  <td className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">{formatCurrency(e.amount)}</td>
+                  <td className="px-6 py-3 text-center w-16">
+                    <button onClick={() => onEditExpense(e)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title={t('quadroAc.editExpense')}><Edit2 size={16} /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(report.belowThreshold.length > 0 || report.excluded.length > 0) && (
+        <div className="text-sm text-slate-500 dark:text-slate-400 space-y-1">
+          {report.belowThreshold.length > 0 && (
+            <p>{t('quadroAc.belowThreshold').replace('{list}', report.belowThreshold.map(r => `${r.name} (${formatCurrency(r.total)})`).join(', '))}</p>
+          )}
+          {(Object.keys(EXCLUSION_LABELS) as AcExclusionReason[]).map(reason => {
+            const items = report.excluded.filter(x => x.reason === reason);
+            if (items.length === 0) return null;
+            return (
+              <p key={reason}>
+                {t('quadroAc.excluded')
+                  .replace('{reason}', t(EXCLUSION_LABELS[reason]))
+                  .replace('{count}', String(items.length))
+                  .replace('{amount}', formatCurrency(items.reduce((sum, x) => sum + x.expense.amount, 0)))}
+              </p>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Budget, CondoSettings, Expense, Income, Installment, MillesimiTable, Person, ReminderLetter, Unit } from '../types';
+import { AlertTriangle, CalendarClock, FileText, Wallet } from 'lucide-react';
+import { ReceivablesLedger } from './ReceivablesLedger';
+import { InstallmentPlanView } from './InstallmentPlanView';
+import { StatementsView } from './StatementsView';
+import { ArrearsView } from './ArrearsView';
+
+export type QuotasTab = 'ledger' | 'plan' | 'statements' | 'arrears';
+
+interface QuotasViewProps {
+  tab: QuotasTab;
+  onTabChange: (tab: QuotasTab) => void;
+  units: Unit[];
+  persons: Person[];
+  installments: Installment[];
+  incomes: Income[];
+  expenses: Expense[];
+  reminders: ReminderLetter[];
+  budgets: Budget[];
+  millesimiTables: MillesimiTable[];
+  settings: CondoSettings;
+  condoName: string;
+  onReplacePlan: (fiscalYear: number, installments: Installment[]) => void;
+  onDeleteInstallment: (id: string) => void;
+  onAddInstallments: (installments: Installment[]) => void;
+  onAddReminders: (letters: ReminderLetter[]) => void;
+  onDeleteReminder: (id: string) => void;
+}
+
+const tabClass = (active: boolean) => `flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+  active
+    ? 'bg-white dark:bg-slate-600 text-indigo-600 dark:text-indigo-300 shadow-sm'
+    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+}`;
+
+export const QuotasView: React.FC<QuotasViewProps> = ({
+  tab, onTabChange, units, persons, installments, incomes, expenses, reminders, budgets, millesimiTables, settings, condoName,
+  onReplacePlan, onDeleteInstallment, onAddInstallments, onAddReminders, onDeleteReminder,
+}) => {
+  return (
+    <div className="space-y-6">
+      <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg w-fit">
+        <button onClick={() => onTabChange('ledger')} className={tabClass(tab === 'ledger')}>
+          <Wallet size={16} />
+          Situazione Quote
+        </button>
+        <button onClick={() => onTabChange('plan')} className={tabClass(tab === 'plan')}>
+          <CalendarClock size={16} />
+          Piano Rate
+        </button>
+        <button onClick={() => onTabChange('statements')} className={tabClass(tab === 'statements')}>
+          <FileText size={16} />
+          Estratti Conto
+        </button>
+        <button onClick={() => onTabChange('arrears')} className={tabClass(tab === 'arrears')}>
+          <AlertTriangle size={16} />
+          Morosità
+        </button>
+      </div>
+
+      {tab === 'ledger' && <ReceivablesLedger units={units} persons={persons} installments={installments} incomes={incomes} />}
+      {tab === 'plan' && (
+        <InstallmentPlanView
+          units={units}
+          installments={installments}
+          budgets={budgets}
+          millesimiTables={millesimiTables}
+          settings={settings}
+          onReplacePlan={onReplacePlan}
+          onDeleteInstallment={onDeleteInstallment}
+        />
+      )}
+      {tab === 'statements' && (
+        <StatementsView
+          units={units}
+          persons={persons}
+          installments={installments}
+          incomes={incomes}
+          expenses={expenses}
+          millesimiTables={millesimiTables}
+          settings={settings}
+          condoName={condoName}
+        />
+      )}
+      {tab === 'arrears' && (
+        <ArrearsView
+          units={units}
+          persons={persons}
+          installments={installments}
+          incomes={incomes}
+          reminders={reminders}
+          settings={settings}
+          condoName={condoName}
+          onAddInstallments={onAddInstallments}
+          onAddReminders={onAddReminders}
+          onDeleteReminder={onDeleteReminder}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { Income, Installment, Person, Unit } from '../types';
+import { ChevronDown, ChevronRight, Search, Wallet } from 'lucide-react';
+import { computeReceivables, InstallmentState } from '../services/quotaService';
+import { getOwnerNames } from '../services/ripartoService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface ReceivablesLedgerProps {
+  units: Unit[];
+  persons: Person[];
+  installments: Installment[];
+  incomes: Income[];
+}
+
+export const STATE_BADGES: Record<InstallmentState, { label: string; className: string }> = {
+  paid: { label: 'quotas.statePaid', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  partial: { label: 'quotas.statePartial', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  outstanding: { label: 'quotas.stateOutstanding', className: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300' },
+};
+
+export const ReceivablesLedger: React.FC<ReceivablesLedgerProps> = ({ units, persons, installments, incomes }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (val: number) => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const receivables = useMemo(
+    () => computeReceivables(units, installments, incomes),
+    [units, installments, incomes]
+  );
+
+  const rows = useMemo(() => {
+    const searchLower = searchTerm.toLowerCase();
+    return receivables
+      .map(r => {
+        const unit = units.find(u => u.id === r.unitId)!;
+        return { ...r, unit, owners: getOwnerNames(unit, persons) };
+      })
+      .filter(r => r.unit.code.toLowerCase().includes(searchLower) || r.owners.toLowerCase().includes(searchLower));
+  }, [receivables, units, persons, searchTerm]);
+
+  const totals = rows.reduce(
+    (acc, r) => ({ due: acc.due + r.due, paid: acc.paid + r.paid, remaining: acc.remaining + r.remaining, overdue: acc.overdue + r.overdue }),
+    { due: 0, paid: 0, remaining: 0, overdue: 0 }
+  );
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+      <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('quotas.ledgerTitle')}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('quotas.ledgerDesc')}</p>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 dark:text-slate-500 w-4 h-4" />
+          <input
+            type="text"
+            placeholder={t('quotas.searchPlaceholder')}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-9 pr-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-full sm:w-56"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+            <tr>
+              <th className="px-6 py-3 font-medium">{t('quotas.colUnitOwners')}</th>
+              <th className="px-6 py-3 font-medium text-right">{t('quotas.colOwed')}</th>
+              <th className="px-6 py-3 font-medium text-right">{t('quotas.colPaid')}</th>
+              <th className="px-6 py-3 font-medium text-right">{t('quotas.colRemaining')}</th>
+              <th className="px-6 py-3 font-medium text-right">{t('quotas.colOverdue')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {rows.length > 0 ? rows.map(r => (
+              <React.Fragment key={r.unitId}>
+                <tr onClick={() => setExpanded(expanded === r.unitId ? null : r.unitId)} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer">
+                  <td className="px-6 py-3">
+                    <div className="flex items-center gap-2">
+                      {expanded === r.unitId ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+                      <div>
+                        <p className="font-medium text-slate-900 dark:text-white">{r.unit.code}</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{r.owners || '—'}</p>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">{formatCurrency(r.due)}</td>
+                  <td className="px-6 py-3 text-right text-green-600 dark:text-green-400">
+                    {formatCurrency(r.paid)}
+                    {r.credit > 0 && <span className="block text-xs">{t('quotas.credit').replace('{amount}', formatCurrency(r.credit))}</span>}
+                  </td>
+                  <td className="px-6 py-3 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(r.remaining)}</td>
+                  <td className={`px-6 py-3 text-right font-bold ${r.overdue > 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-400'}`}>{formatCurrency(r.overdue)}</td>
+                </tr>
+                {expanded === r.unitId && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-3 bg-slate-50/50 dark:bg-slate-900/20">
+                      {r.installments.length > 0 ? (
+                        <table className="w-full text-xs">
+                          <tbody>
+                            {r.installments.map(s => (
+                              <tr key={s.installment.id} className="border-b border-slate-100 dark:border-slate-700/50 last:border-0">
+                                <td className="py-2 pl-8 text-slate-500 dark:text-slate-400">{new Date(s.installment.dueDate).toLocaleDateString(locale)}</td>
+                                <td className="py-2 text-slate-700 dark:text-slate-300">{s.installment.description}</td>
+                                <td className="py-2 text-right text-slate-700 dark:text-slate-300">{formatCurrency(s.installment.amount)}</td>
+                                <td className="py-2 text-right text-slate-500 dark:text-slate-400">{t('quotas.paidAmount').replace('{amount}', formatCurrency(s.paid))}</td>
+                                <td className="py-2 text-right">
+                                  <span className={`px-2 py-0.5 rounded-full font-medium ${s.overdue ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : STATE_BADGES[s.state].className}`}>
+                                    {s.overdue ? t('quotas.stateOverdue') : t(STATE_BADGES[s.state].label)}
+                                  </span>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <p className="pl-8 text-xs text-slate-500 dark:text-slate-400">{t('quotas.noUnitInstallments')}</p>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            )) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                  <div className="flex flex-col items-center justify-center gap-2">
+                    <Wallet className="w-8 h-8 text-slate-300 dark:text-slate-600" />
+                    <p>{t('quotas.noUnits')}</p>
+                  </div>
+                </td>
+              </tr>
+            )}
+          </tbody>
+          {rows.length > 0 && (
+            <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-bold text-slate-800 dark:text-white">
+              <tr>
+                <td className="px-6 py-3">{t('quotas.total')}</td>
+                <td className="px-6 py-3 text-right">{formatCurrency(totals.due)}</td>
+                <td className="px-6 py-3 text-right">{formatCurrency(totals.paid)}</td>
+                <td className="px-6 py-3 text-right">{formatCurrency(totals.remaining)}</td>
+                <td className="px-6 py-3 text-right text-red-600 dark:text-red-400">{formatCurrency(totals.overdue)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
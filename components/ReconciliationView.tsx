@@ -0,0 +1,283 @@
+import React, { useMemo, useState } from 'react';
+import { Check, CheckCheck, X, Link2, Undo2, Sparkles, ChevronDown, ChevronUp } from 'lucide-react';
+import { BankAccount, BankReconciliation, BankTransaction, BankTransfer, Expense, F24Payment, Income, ReconciledRecordType, Supplier } from '../types';
+import {
+  BookEntry, computeReconciliationSummary, getBookEntries, getReconciledKeys, isBalancedMatch, MatchSuggestion, recordKey, suggestMatches,
+} from '../services/reconciliationService';
+import { sortTransactions } from '../services/bankTransactionService';
+import { generateId } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface ReconciliationViewProps {
+  account: BankAccount;
+  bankAccounts: BankAccount[];
+  bankTransactions: BankTransaction[];
+  bankTransfers: BankTransfer[];
+  bankReconciliations: BankReconciliation[];
+  expenses: Expense[];
+  incomes: Income[];
+  f24Payments: F24Payment[];
+  suppliers: Supplier[];
+  onConfirm: (reconciliations: BankReconciliation[]) => void;
+  onUndo: (id: string) => void;
+}
+
+const RECORD_LABELS: Record<ReconciledRecordType, string> = {
+  expense: 'reconciliation.recordExpense',
+  income: 'reconciliation.recordIncome',
+  f24: 'reconciliation.recordF24',
+  transfer: 'reconciliation.recordTransfer',
+};
+
+// Formattazione nella lingua dell'interfaccia, condivisa dalle righe e dalla vista
+const useFormatters = () => {
+  const { language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  return {
+    formatCurrency: (value: number) => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value),
+    formatDate: (date: string) => new Date(date).toLocaleDateString(locale),
+  };
+};
+
+const amountClass = (value: number) => value < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400';
+
+const suggestionKey = (s: MatchSuggestion) => [...s.transactionIds, ...s.records.map(recordKey)].join('|');
+
+const TransactionLine: React.FC<{ transaction: BankTransaction }> = ({ transaction: t }) => {
+  const { formatCurrency, formatDate } = useFormatters();
+  return (
+    <div className="flex justify-between gap-3 text-sm">
+      <div className="min-w-0">
+        <p className="text-slate-800 dark:text-slate-200 truncate">{t.counterparty || t.remittanceInfo || '-'}</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{formatDate(t.bookingDate)}{t.counterparty && t.remittanceInfo ? ` · ${t.remittanceInfo}` : ''}</p>
+      </div>
+      <span className={`font-medium whitespace-nowrap ${amountClass(t.amount)}`}>{formatCurrency(t.amount)}</span>
+    </div>
+  );
+};
+
+const EntryLine: React.FC<{ entry: BookEntry }> = ({ entry: e }) => {
+  const { t } = useLanguage();
+  const { formatCurrency, formatDate } = useFormatters();
+  return (
+    <div className="flex justify-between gap-3 text-sm">
+      <div className="min-w-0">
+        <p className="text-slate-800 dark:text-slate-200 truncate">
+          <span className="text-xs px-1.5 py-0.5 mr-1 rounded bg-slate-100 dark:bg-slate-700 text-slate-500 dark:text-slate-300">{t(RECORD_LABELS[e.ref.type])}</span>
+          {e.description}
+        </p>
+        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{formatDate(e.date)}{e.counterparty ? ` · ${e.counterparty}` : ''}{e.reference ? ` · ${t('reconciliation.invoiceRef').replace('{number}', e.reference)}` : ''}</p>
+      </div>
+      <span className={`font-medium whitespace-nowrap ${amountClass(e.amount)}`}>{formatCurrency(e.amount)}</span>
+    </div>
+  );
+};
+
+export const ReconciliationView: React.FC<ReconciliationViewProps> = ({
+  account, bankAccounts, bankTransactions, bankTransfers, bankReconciliations, expenses, incomes, f24Payments, suppliers, onConfirm, onUndo,
+}) => {
+  const { t } = useLanguage();
+  const { formatCurrency, formatDate } = useFormatters();
+  const [asOf, setAsOf] = useState('');
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [selectedTransactions, setSelectedTransactions] = useState<Set<string>>(new Set());
+  const [selectedEntries, setSelectedEntries] = useState<Set<string>>(new Set());
+  const [showConfirmed, setShowConfirmed] = useState(false);
+
+  const transactions = useMemo(
+    () => sortTransactions(bankTransactions.filter(t => t.bankAccountId === account.id)),
+    [bankTransactions, account.id],
+  );
+  const entries = useMemo(
+    () => getBookEntries(account, { expenses, incomes, f24Payments, bankTransfers, suppliers, bankAccounts }),
+    [account, expenses, incomes, f24Payments, bankTransfers, suppliers, bankAccounts],
+  );
+  const reconciled = useMemo(() => getReconciledKeys(bankReconciliations, account.id), [bankReconciliations, account.id]);
+
+  const openTransactions = useMemo(
+    () => transactions.filter(t => !reconciled.transactions.has(t.id) && (!asOf || t.bookingDate <= asOf)),
+    [transactions, reconciled, asOf],
+  );
+  const openEntries = useMemo(
+    () => entries.filter(e => !reconciled.records.has(recordKey(e.ref)) && (!asOf || e.date <= asOf)),
+    [entries, reconciled, asOf],
+  );
+
+  const transactionsById = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
+  const entriesByKey = useMemo(() => new Map(entries.map(e => [recordKey(e.ref), e])), [entries]);
+
+  const suggestions = useMemo(
+    () => suggestMatches(openTransactions, openEntries).filter(s => !dismissed.has(suggestionKey(s))),
+    [openTransactions, openEntries, dismissed],
+  );
+
+  const summary = computeReconciliationSummary(account, entries, transactions, bankReconciliations, asOf || undefined);
+
+  const accountReconciliations = bankReconciliations
+    .filter(r => r.bankAccountId === account.id)
+    .sort((a, b) => b.confirmedAt.localeCompare(a.confirmedAt));
+
+  const chosenTransactions = openTransactions.filter(t => selectedTransactions.has(t.id));
+  const chosenEntries = openEntries.filter(e => selectedEntries.has(recordKey(e.ref)));
+  const selectionDifference = chosenTransactions.reduce((sum, t) => sum + t.amount, 0) - chosenEntries.reduce((sum, e) => sum + e.amount, 0);
+
+  const toReconciliation = (transactionIds: string[], records: BankReconciliation['records']): BankReconciliation => ({
+    id: generateId(),
+    bankAccountId: account.id,
+    transactionIds,
+    records,
+    confirmedAt: new Date().toISOString(),
+  });
+
+  const confirmSuggestions = (list: MatchSuggestion[]) => {
+    onConfirm(list.map(s => toReconciliation(s.transactionIds, s.records)));
+  };
+
+  const handleManualMatch = () => {
+    if (!isBalancedMatch(chosenTransactions, chosenEntries)) return;
+    onConfirm([toReconciliation(chosenTransactions.map(t => t.id), chosenEntries.map(e => e.ref))]);
+    setSelectedTransactions(new Set());
+    setSelectedEntries(new Set());
+  };
+
+  const toggle = (set: Set<string>, key: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set);
+    if (next.has(key)) next.delete(key); else next.add(key);
+    update(next);
+  };
+
+  const cardClass = "bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700";
+
+  return (
+    <div className="space-y-6">
+      <div className={`${cardClass} p-6`}>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('reconciliation.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('reconciliation.subtitle')}</p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            {t('reconciliation.asOf')}
+            <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+          </label>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('reconciliation.bookBalance')}</p>
+            <p className="text-lg font-bold text-slate-800 dark:text-white">{formatCurrency(summary.bookBalance)}</p>
+          </div>
+          <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('reconciliation.reconciledBalance')}</p>
+            <p className="text-lg font-bold text-slate-800 dark:text-white">{formatCurrency(summary.reconciledBalance)}</p>
+          </div>
+          <div className={`p-4 rounded-lg ${summary.difference === 0 ? 'bg-green-50 dark:bg-green-900/20' : 'bg-amber-50 dark:bg-amber-900/20'}`}>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('reconciliation.difference')}</p>
+            <p className={`text-lg font-bold ${summary.difference === 0 ? 'text-green-700 dark:text-green-400' : 'text-amber-700 dark:text-amber-400'}`}>{formatCurrency(summary.difference)}</p>
+          </div>
+          <div className="p-4 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('reconciliation.unmatchedBank')}</p>
+            <p className="text-lg font-bold text-slate-800 dark:text-white">{formatCurrency(summary.unmatchedBank)}</p>
+            {account.statementBalance !== undefined && account.statementDate && (
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('reconciliation.statementBalance').replace('{date}', formatDate(account.statementDate)).replace('{amount}', formatCurrency(account.statementBalance))}</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className={cardClass}>
+          <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between gap-4">
+            <h3 className="font-semibold text-slate-800 dark:text-white flex items-center gap-2"><Sparkles size={18} className="text-indigo-500" /> {t('reconciliation.suggestions').replace('{count}', String(suggestions.length))}</h3>
+            <button onClick={() => confirmSuggestions(suggestions)} className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium">
+              <CheckCheck size={16} /> {t('reconciliation.confirmAll')}
+            </button>
+          </div>
+          <div className="divide-y divide-slate-200 dark:divide-slate-700">
+            {suggestions.map(s => (
+              <div key={suggestionKey(s)} className="p-4 grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-center">
+                <div className="space-y-1">
+                  {s.transactionIds.map(id => transactionsById.get(id)).filter((t): t is BankTransaction => !!t).map(t => <TransactionLine key={t.id} transaction={t} />)}
+                </div>
+                <div className="space-y-1">
+                  {s.records.map(ref => entriesByKey.get(recordKey(ref))).filter((e): e is BookEntry => !!e).map(e => <EntryLine key={recordKey(e.ref)} entry={e} />)}
+                </div>
+                <div className="flex items-center gap-2 justify-end">
+                  <span className="text-xs text-slate-400" title={t('reconciliation.score')}>{Math.round(s.score * 100)}%</span>
+                  <button onClick={() => confirmSuggestions([s])} className="p-2 rounded-lg text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20" title={t('reconciliation.confirm')}><Check size={18} /></button>
+                  <button onClick={() => setDismissed(prev => new Set(prev).add(suggestionKey(s)))} className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20" title={t('reconciliation.dismiss')}><X size={18} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className={cardClass}>
+        <div className="p-4 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <h3 className="font-semibold text-slate-800 dark:text-white">{t('reconciliation.toMatch')}</h3>
+          <div className="flex items-center gap-3 text-sm">
+            {(chosenTransactions.length > 0 || chosenEntries.length > 0) && (
+              <span className={Math.abs(selectionDifference) < 0.005 ? 'text-green-600 dark:text-green-400' : 'text-slate-500 dark:text-slate-400'}>
+                {t('reconciliation.selectionDifference').replace('{amount}', formatCurrency(selectionDifference))}
+              </span>
+            )}
+            <button onClick={handleManualMatch} disabled={!isBalancedMatch(chosenTransactions, chosenEntries)} className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium disabled:opacity-50">
+              <Link2 size={16} /> {t('reconciliation.matchSelected')}
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 md:divide-x divide-slate-200 dark:divide-slate-700">
+          <div>
+            <p className="px-4 pt-3 text-xs font-medium uppercase tracking-wider text-slate-500 dark:text-slate-400">{t('reconciliation.bankTransactions').replace('{count}', String(openTransactions.length))}</p>
+            <div className="p-2 max-h-[28rem] overflow-y-auto">
+              {openTransactions.length > 0 ? openTransactions.map(t => (
+                <label key={t.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer">
+                  <input type="checkbox" checked={selectedTransactions.has(t.id)} onChange={() => toggle(selectedTransactions, t.id, setSelectedTransactions)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                  <div className="flex-1 min-w-0"><TransactionLine transaction={t} /></div>
+                </label>
+              )) : <p className="p-6 text-center text-sm text-slate-500 dark:text-slate-400">{t('reconciliation.allTransactionsMatched')}</p>}
+            </div>
+          </div>
+          <div>
+            <p className="px-4 pt-3 text-xs font-medium uppercase tracking-wider text-slate-500 dark:text-slate-400">{t('reconciliation.records').replace('{count}', String(openEntries.length))}</p>
+            <div className="p-2 max-h-[28rem] overflow-y-auto">
+              {openEntries.length > 0 ? openEntries.map(e => {
+                const key = recordKey(e.ref);
+                return (
+                  <label key={key} className="flex items-center gap-3 p-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700/50 cursor-pointer">
+                    <input type="checkbox" checked={selectedEntries.has(key)} onChange={() => toggle(selectedEntries, key, setSelectedEntries)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                    <div className="flex-1 min-w-0"><EntryLine entry={e} /></div>
+                  </label>
+                );
+              }) : <p className="p-6 text-center text-sm text-slate-500 dark:text-slate-400">{t('reconciliation.allRecordsMatched')}</p>}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {accountReconciliations.length > 0 && (
+        <div className={cardClass}>
+          <button onClick={() => setShowConfirmed(v => !v)} className="w-full p-4 flex items-center justify-between text-left">
+            <h3 className="font-semibold text-slate-800 dark:text-white">{t('reconciliation.confirmed').replace('{count}', String(accountReconciliations.length))}</h3>
+            {showConfirmed ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+          </button>
+          {showConfirmed && (
+            <div className="divide-y divide-slate-200 dark:divide-slate-700 border-t border-slate-200 dark:border-slate-700">
+              {accountReconciliations.map(r => (
+                <div key={r.id} className="p-4 grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-center">
+                  <div className="space-y-1">
+                    {r.transactionIds.map(id => transactionsById.get(id)).filter((t): t is BankTransaction => !!t).map(t => <TransactionLine key={t.id} transaction={t} />)}
+                  </div>
+                  <div className="space-y-1">
+                    {r.records.map(ref => entriesByKey.get(recordKey(ref))).filter((e): e is BookEntry => !!e).map(e => <EntryLine key={recordKey(e.ref)} entry={e} />)}
+                  </div>
+                  <button onClick={() => onUndo(r.id)} className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 justify-self-end" title={t('reconciliation.undo')}><Undo2 size={18} /></button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Unit, Person, MillesimiTable } from '../types';
+import { Home, Users, Plus, Table } from 'lucide-react';
+import { UnitList } from './UnitList';
+import { PersonList } from './PersonList';
+import { MillesimiView } from './MillesimiView';
+import { useLanguage } from '../i18n/LanguageContext';
+
+export type RegistryTab = 'units' | 'persons' | 'millesimi';
+
+interface RegistryViewProps {
+  tab: RegistryTab;
+  onTabChange: (tab: RegistryTab) => void;
+  units: Unit[];
+  persons: Person[];
+  millesimiTables: MillesimiTable[];
+  condoName: string;
+  onAddUnit: () => void;
+  onEditUnit: (unit: Unit) => void;
+  onDeleteUnit: (id: string) => void;
+  onAddPerson: () => void;
+  onEditPerson: (person: Person) => void;
+  onDeletePerson: (id: string) => void;
+  onMillesimiChange: (tables: MillesimiTable[]) => void;
+}
+
+const tabClass = (active: boolean) => `flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+  active
+    ? 'bg-white dark:bg-slate-600 text-indigo-600 dark:text-indigo-300 shadow-sm'
+    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+}`;
+
+export const RegistryView: React.FC<RegistryViewProps> = ({
+  tab, onTabChange, units, persons, millesimiTables, condoName,
+  onAddUnit, onEditUnit, onDeleteUnit,
+  onAddPerson, onEditPerson, onDeletePerson,
+  onMillesimiChange,
+}) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg w-fit">
+          <button onClick={() => onTabChange('units')} className={tabClass(tab === 'units')}>
+            <Home size={16} />
+            {t('registry.tabUnits').replace('{count}', String(units.length))}
+          </button>
+          <button onClick={() => onTabChange('persons')} className={tabClass(tab === 'persons')}>
+            <Users size={16} />
+            {t('registry.tabPersons').replace('{count}', String(persons.length))}
+          </button>
+          <button onClick={() => onTabChange('millesimi')} className={tabClass(tab === 'millesimi')}>
+            <Table size={16} />
+            {t('registry.tabMillesimi').replace('{count}', String(millesimiTables.length))}
+          </button>
+        </div>
+
+        {tab === 'units' && (
+          <button onClick={onAddUnit} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium shadow-sm">
+            <Plus size={18} />
+            {t('registry.newUnit')}
+          </button>
+        )}
+        {tab === 'persons' && (
+          <button onClick={onAddPerson} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium shadow-sm">
+            <Plus size={18} />
+            {t('registry.newPerson')}
+          </button>
+        )}
+      </div>
+
+      {tab === 'units' && <UnitList units={units} persons={persons} onEdit={onEditUnit} onDelete={onDeleteUnit} />}
+      {tab === 'persons' && <PersonList persons={persons} units={units} onEdit={onEditPerson} onDelete={onDeletePerson} />}
+      {tab === 'millesimi' && <MillesimiView tables={millesimiTables} units={units} condoName={condoName} onChange={onMillesimiChange} />}
+    </div>
+  );
+};
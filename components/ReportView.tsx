@@ -1,16 +1,27 @@
 
 import React, { useMemo, useState } from 'react';
-import { Expense, Income } from '../types';
-import { CalendarRange, Layers, Calendar, ChevronDown, PieChart, TrendingUp, TrendingDown } from 'lucide-react';
+import { Expense, Income, Unit, Person, MillesimiTable, Budget, CondoSettings } from '../types';
+import { CalendarRange, Layers, Calendar, ChevronDown, PieChart, TrendingUp, TrendingDown, Scale, Target, Pencil, Plus } from 'lucide-react';
 import { useLanguage } from '../i18n/LanguageContext';
+import { RipartoReport } from './RipartoReport';
+import { BudgetEditor } from './BudgetEditor';
+import { BudgetVarianceTable } from './BudgetVarianceTable';
+import { computeBudgetVariance, getBudgetForYear } from '../services/budgetService';
+import { formatFiscalYear, getCurrentFiscalYear, getFiscalYear, isCalendarFiscalYear } from '../services/fiscalYearService';
 
 interface ReportViewProps {
   expenses: Expense[];
   incomes: Income[];
   condoName: string;
+  units: Unit[];
+  persons: Person[];
+  millesimiTables: MillesimiTable[];
+  budgets: Budget[];
+  onSaveBudget: (budget: Budget) => void;
+  settings: CondoSettings;
 }
 
-type GroupMode = 'month' | 'category';
+type GroupMode = 'month' | 'category' | 'riparto' | 'budget';
 type DataType = 'expenses' | 'incomes';
 
 interface GroupedData {
@@ -24,21 +35,23 @@ interface GroupedData {
   }[];
 }
 
-export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condoName }) => {
+export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condoName, units, persons, millesimiTables, budgets, onSaveBudget, settings }) => {
   const { t, language } = useLanguage();
   
   const [dataType, setDataType] = useState<DataType>('expenses');
   const [groupMode, setGroupMode] = useState<GroupMode>('month');
+  const [isEditingBudget, setIsEditingBudget] = useState(false);
 
-  const activeData = dataType === 'expenses' ? expenses : incomes;
+  // Riparto e preventivo partono sempre dalle spese dell'anno
+  const activeData = dataType === 'expenses' || groupMode === 'riparto' || groupMode === 'budget' ? expenses : incomes;
 
   const allYears = useMemo(() => {
     const years = new Set<number>();
-    activeData.forEach(item => years.add(new Date(item.date).getFullYear()));
-    const currentYear = new Date().getFullYear();
-    years.add(currentYear);
+    activeData.forEach(item => years.add(getFiscalYear(item.date, settings)));
+    years.add(getCurrentFiscalYear(settings));
+    budgets.forEach(b => years.add(b.year));
     return Array.from(years).sort((a, b) => b - a);
-  }, [activeData]);
+  }, [activeData, budgets, settings]);
 
   const [selectedYear, setSelectedYear] = useState<number>(allYears[0]);
 
@@ -49,20 +62,39 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
     }
   }, [allYears, selectedYear]);
 
+  const yearLabel = formatFiscalYear(selectedYear, settings);
+
   const filteredData = useMemo(() => {
-    return activeData.filter(e => new Date(e.date).getFullYear() === selectedYear);
-  }, [activeData, selectedYear]);
+    return activeData.filter(e => getFiscalYear(e.date, settings) === selectedYear);
+  }, [activeData, selectedYear, settings]);
+
+  const yearIncomes = useMemo(() => {
+    return incomes.filter(i => getFiscalYear(i.date, settings) === selectedYear);
+  }, [incomes, selectedYear, settings]);
+
+  const budget = getBudgetForYear(budgets, selectedYear);
+  const budgetVariance = useMemo(() => {
+    return budget ? computeBudgetVariance(budget, filteredData as Expense[]) : null;
+  }, [budget, filteredData]);
 
   const groupedData = useMemo<GroupedData[]>(() => {
     const data: GroupedData[] = [];
     const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
 
+    // Months are keyed as YYYY-MM: a fiscal year may span two calendar years
+    const monthLabel = (monthKey: string) => {
+      const [year, month] = monthKey.split('-').map(Number);
+      const monthName = new Date(year, month - 1).toLocaleDateString(locale, { month: 'long' });
+      const label = monthName.charAt(0).toUpperCase() + monthName.slice(1);
+      return isCalendarFiscalYear(settings) ? label : `${label} ${year}`;
+    };
+
     if (groupMode === 'month') {
       // Initialize all months
-      const monthsMap = new Map<number, { total: number, subs: Map<string, number>, subCounts: Map<string, number> }>();
+      const monthsMap = new Map<string, { total: number, subs: Map<string, number>, subCounts: Map<string, number> }>();
       
       filteredData.forEach(e => {
-        const month = new Date(e.date).getMonth();
+        const month = e.date.slice(0, 7);
         const cat = e.category;
         
         if (!monthsMap.has(month)) {
@@ -75,13 +107,11 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
         monthData.subCounts.set(cat, (monthData.subCounts.get(cat) || 0) + 1);
       });
 
-      // Sort by month index Ascending (Jan -> Dec)
-      const sortedMonths = Array.from(monthsMap.keys()).sort((a, b) => a - b);
+      // Sort chronologically
+      const sortedMonths = Array.from(monthsMap.keys()).sort();
       
-      sortedMonths.forEach(monthIdx => {
-        const d = monthsMap.get(monthIdx)!;
-        const date = new Date(selectedYear, monthIdx);
-        const monthName = date.toLocaleDateString(locale, { month: 'long' });
+      sortedMonths.forEach(monthKey => {
+        const d = monthsMap.get(monthKey)!;
         
         const items = Array.from(d.subs.entries()).map(([cat, amount]) => ({
           label: cat,
@@ -90,8 +120,8 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
         })).sort((a, b) => b.amount - a.amount);
 
         data.push({
-          key: monthIdx.toString(),
-          label: monthName.charAt(0).toUpperCase() + monthName.slice(1),
+          key: monthKey,
+          label: monthLabel(monthKey),
           total: d.total,
           items
         });
@@ -99,11 +129,11 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
 
     } else {
       // Group by Category
-      const catMap = new Map<string, { total: number, subs: Map<number, number>, subCounts: Map<number, number> }>();
+      const catMap = new Map<string, { total: number, subs: Map<string, number>, subCounts: Map<string, number> }>();
 
       filteredData.forEach(e => {
         const cat = e.category;
-        const month = new Date(e.date).getMonth();
+        const month = e.date.slice(0, 7);
 
         if (!catMap.has(cat)) {
           catMap.set(cat, { total: 0, subs: new Map(), subCounts: new Map() });
@@ -120,16 +150,14 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
       sortedCats.forEach(cat => {
         const d = catMap.get(cat)!;
         
-        const items = Array.from(d.subs.entries()).map(([monthIdx, amount]) => {
-          const date = new Date(selectedYear, monthIdx);
-          const monthName = date.toLocaleDateString(locale, { month: 'long' });
+        const items = Array.from(d.subs.entries()).map(([monthKey, amount]) => {
           return {
-            label: monthName.charAt(0).toUpperCase() + monthName.slice(1),
+            label: monthLabel(monthKey),
             amount,
-            count: d.subCounts.get(monthIdx) || 0,
-            monthIdx // Used for sorting
+            count: d.subCounts.get(monthKey) || 0,
+            monthKey // Used for sorting
           };
-        }).sort((a, b) => a.monthIdx - b.monthIdx); // Chronological order inside category
+        }).sort((a, b) => a.monthKey.localeCompare(b.monthKey)); // Chronological order inside category
 
         data.push({
           key: cat,
@@ -141,7 +169,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
     }
 
     return data;
-  }, [filteredData, groupMode, language, selectedYear]);
+  }, [filteredData, groupMode, language, settings]);
 
   const formatCurrency = (val: number) => {
     const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
@@ -169,7 +197,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
                   className="pl-9 pr-8 py-2 bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none appearance-none cursor-pointer"
                 >
                   {allYears.map(year => (
-                    <option key={year} value={year}>{year}</option>
+                    <option key={year} value={year}>{formatFiscalYear(year, settings)}</option>
                   ))}
                 </select>
                 <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 dark:text-slate-500 w-4 h-4 pointer-events-none" />
@@ -179,7 +207,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
 
         <div className="flex flex-col sm:flex-row gap-4 mt-6">
           {/* Expenses / Incomes Toggle */}
-          <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg w-fit">
+          {groupMode !== 'riparto' && groupMode !== 'budget' && <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg w-fit">
             <button
                 onClick={() => setDataType('expenses')}
                 className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
@@ -202,7 +230,7 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
                 <TrendingUp size={16} />
                 {t('reports.typeIncomes')}
             </button>
-          </div>
+          </div>}
 
           {/* Grouping Toggle */}
           <div className="flex p-1 bg-slate-100 dark:bg-slate-700/50 rounded-lg w-fit">
@@ -228,12 +256,82 @@ export const ReportView: React.FC<ReportViewProps> = ({ expenses, incomes, condo
                 <Layers size={16} />
                 {t('reports.groupByCategory')}
             </button>
+            <button
+                onClick={() => setGroupMode('riparto')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                groupMode === 'riparto' 
+                    ? 'bg-white dark:bg-slate-600 text-indigo-600 dark:text-indigo-300 shadow-sm' 
+                    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                }`}
+            >
+                <Scale size={16} />
+                {t('reports.groupByRiparto')}
+            </button>
+            <button
+                onClick={() => setGroupMode('budget')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                groupMode === 'budget' 
+                    ? 'bg-white dark:bg-slate-600 text-indigo-600 dark:text-indigo-300 shadow-sm' 
+                    : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                }`}
+            >
+                <Target size={16} />
+                {t('reports.groupByBudget')}
+            </button>
           </div>
         </div>
       </div>
 
       <div className="p-6 bg-slate-50/50 dark:bg-slate-900/20 min-h-[300px]">
-        {groupedData.length > 0 ? (
+        {groupMode === 'budget' ? (
+          isEditingBudget ? (
+            <BudgetEditor
+              key={`${selectedYear}-${budget?.id || 'new'}`}
+              year={selectedYear}
+              periodLabel={yearLabel}
+              formatPeriod={(year) => formatFiscalYear(year, settings)}
+              initialData={budget}
+              previousBudget={getBudgetForYear(budgets, selectedYear - 1)}
+              onSave={(b) => { onSaveBudget(b); setIsEditingBudget(false); }}
+              onCancel={() => setIsEditingBudget(false)}
+            />
+          ) : budget && budgetVariance ? (
+            <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm p-4 space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="font-bold text-slate-800 dark:text-white">{t('budget.title').replace('{year}', yearLabel)}</h3>
+                  {budget.approvalDate && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{t('budget.approvalDate')}: {new Date(budget.approvalDate).toLocaleDateString(language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language))}</p>
+                  )}
+                </div>
+                <button onClick={() => setIsEditingBudget(true)} className="px-3 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium">
+                  <Pencil size={16} />
+                  {t('budget.edit')}
+                </button>
+              </div>
+              <BudgetVarianceTable variance={budgetVariance} threshold={budget.warningThreshold} />
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full py-12 text-slate-400 dark:text-slate-500 gap-4">
+              <Target className="w-12 h-12 opacity-20" />
+              <p>{t('budget.noBudget').replace('{year}', yearLabel)}</p>
+              <button onClick={() => setIsEditingBudget(true)} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium shadow-sm">
+                <Plus size={18} />
+                {t('budget.create')}
+              </button>
+            </div>
+          )
+        ) : groupMode === 'riparto' ? (
+          <RipartoReport
+            expenses={filteredData as Expense[]}
+            incomes={yearIncomes}
+            units={units}
+            persons={persons}
+            millesimiTables={millesimiTables}
+            periodLabel={yearLabel}
+            condoName={condoName}
+          />
+        ) : groupedData.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {groupedData.map((group) => (
               <div key={group.key} className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden flex flex-col">
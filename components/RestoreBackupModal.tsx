@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { X, Check, AlertTriangle, Upload } from 'lucide-react';
+import { CondoData } from '../types';
+import { BackupFile, RestoreMode, applyRestore, previewRestore } from '../services/backupService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface RestoreBackupModalProps {
+  backup: BackupFile;
+  current: CondoData;
+  condoName: string;
+  onRestore: (data: CondoData) => void;
+  onClose: () => void;
+}
+
+export const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ backup, current, condoName, onRestore, onClose }) => {
+  const { t, language } = useLanguage();
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const preview = useMemo(() => previewRestore(current, backup, condoName), [current, backup, condoName]);
+
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+
+  const rows: { key: keyof CondoData, label: string }[] = [
+    { key: 'expenses', label: t('nav.expenses') },
+    { key: 'incomes', label: t('nav.incomes') },
+    { key: 'bankAccounts', label: t('nav.accounts') },
+    { key: 'units', label: t('restore.units') },
+    { key: 'persons', label: t('restore.persons') },
+    { key: 'millesimiTables', label: t('restore.millesimiTables') },
+    { key: 'budgets', label: t('restore.budgets') },
+    { key: 'installments', label: t('restore.installments') },
+    { key: 'reminders', label: t('restore.reminders') },
+    { key: 'suppliers', label: t('restore.suppliers') },
+    { key: 'f24Payments', label: t('restore.f24Payments') },
+    { key: 'bankTransactions', label: t('restore.bankTransactions') },
+    { key: 'bankReconciliations', label: t('restore.bankReconciliations') },
+    { key: 'sddMandates', label: t('restore.sddMandates') },
+    { key: 'bankTransfers', label: t('restore.bankTransfers') },
+  ];
+
+  const handleConfirm = () => {
+    onRestore(applyRestore(current, backup, mode));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-2xl w-full p-6 border border-slate-200 dark:border-slate-700 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center mb-4 border-b border-slate-100 dark:border-slate-700 pb-3">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Upload className="w-5 h-5 text-orange-500" />
+            {t('restore.title')}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          <div className="text-sm text-slate-600 dark:text-slate-300 space-y-1">
+            <p><span className="font-medium">{t('restore.condo')}:</span> {backup.condoName}</p>
+            {backup.exportDate && (
+              <p><span className="font-medium">{t('restore.exportDate')}:</span> {new Date(backup.exportDate).toLocaleString(locale)}</p>
+            )}
+            <p><span className="font-medium">{t('restore.version')}:</span> {backup.version}</p>
+          </div>
+
+          {!preview.sameCondo && (
+            <div className="flex items-start gap-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 p-3 rounded-lg text-sm text-yellow-800 dark:text-yellow-300">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{t('restore.otherCondo').replace('{name}', backup.condoName).replace('{current}', condoName)}</span>
+            </div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium"></th>
+                <th className="px-3 py-2 text-right font-medium">{t('restore.current')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('restore.incoming')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('restore.added')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('restore.conflicts')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {rows.map(row => {
+                const c = preview.collections[row.key];
+                return (
+                  <tr key={row.key}>
+                    <td className="px-3 py-2 font-medium text-slate-700 dark:text-slate-200">{row.label}</td>
+                    <td className="px-3 py-2 text-right text-slate-600 dark:text-slate-300">{c.current}</td>
+                    <td className="px-3 py-2 text-right text-slate-600 dark:text-slate-300">{c.incoming}</td>
+                    <td className="px-3 py-2 text-right text-green-600 dark:text-green-400">{c.added}</td>
+                    <td className={`px-3 py-2 text-right ${c.conflicts > 0 ? 'text-orange-600 dark:text-orange-400 font-bold' : 'text-slate-600 dark:text-slate-300'}`}>{c.conflicts}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className={`p-3 rounded-xl border cursor-pointer transition-colors ${mode === 'merge' ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/20 dark:border-indigo-600' : 'border-slate-200 dark:border-slate-600'}`}>
+              <div className="flex items-center gap-2">
+                <input type="radio" name="restoreMode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                <span className="font-medium text-sm text-slate-800 dark:text-white">{t('restore.merge')}</span>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('restore.mergeDesc')}</p>
+            </label>
+            <label className={`p-3 rounded-xl border cursor-pointer transition-colors ${mode === 'replace' ? 'border-red-400 bg-red-50 dark:bg-red-900/20 dark:border-red-600' : 'border-slate-200 dark:border-slate-600'}`}>
+              <div className="flex items-center gap-2">
+                <input type="radio" name="restoreMode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                <span className="font-medium text-sm text-slate-800 dark:text-white">{t('restore.replace')}</span>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{t('restore.replaceDesc')}</p>
+            </label>
+          </div>
+        </div>
+
+        <div className="mt-4 pt-3 border-t border-slate-100 dark:border-slate-700 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleConfirm}
+            className={`px-4 py-2 text-white rounded-lg text-sm font-medium flex items-center gap-2 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            <Check size={16} />
+            {t('restore.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
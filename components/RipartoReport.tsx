@@ -0,0 +1,219 @@
+import React, { useMemo } from 'react';
+import { Expense, Income, MillesimiTable, Person, Unit } from '../types';
+import { AlertTriangle, FileSpreadsheet, FileText, Scale } from 'lucide-react';
+import { useLanguage } from '../i18n/LanguageContext';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { utils, writeFile } from 'xlsx';
+import { computeRiparto } from '../services/ripartoService';
+import { getTableForCategory, isTableBalanced } from '../services/millesimiService';
+
+interface RipartoReportProps {
+  // Spese e incassi già filtrati sul periodo selezionato
+  expenses: Expense[];
+  incomes: Income[];
+  units: Unit[];
+  persons: Person[];
+  millesimiTables: MillesimiTable[];
+  periodLabel: string;
+  condoName: string;
+}
+
+export const RipartoReport: React.FC<RipartoReportProps> = ({
+  expenses, incomes, units, persons, millesimiTables, periodLabel, condoName,
+}) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+
+  const riparto = useMemo(
+    () => computeRiparto(expenses, incomes, units, persons, millesimiTables),
+    [expenses, incomes, units, persons, millesimiTables]
+  );
+
+  const unbalancedTables = millesimiTables.filter(
+    table => riparto.tables.some(s => s.tableId === table.id) && !isTableBalanced(table)
+  );
+  const unassignedAmount = riparto.unassignedIncomes.reduce((sum, i) => sum + i.amount, 0);
+  const title = t('riparto.title').replace('{year}', periodLabel);
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+
+  const balanceLabel = (balance: number) =>
+    balance > 0 ? t('riparto.credit') : (balance < 0 ? t('riparto.debit') : '—');
+
+  const handleExportExcel = () => {
+    const header = [
+      t('riparto.unit'), t('riparto.owners'),
+      ...riparto.tables.map(s => s.name),
+      t('riparto.share'), t('riparto.paid'), t('riparto.balance'), '',
+    ];
+    const rows = riparto.rows.map(r => [
+      r.code, r.owners,
+      ...riparto.tables.map(s => r.byTable[s.tableId] || 0),
+      r.share, r.paid, r.balance, balanceLabel(r.balance),
+    ]);
+    const totals = [
+      t('riparto.total'), '',
+      ...riparto.tables.map(s => s.amount),
+      riparto.totalAllocated, riparto.totalPaid, Math.round((riparto.totalPaid - riparto.totalAllocated) * 100) / 100, '',
+    ];
+
+    const wb = utils.book_new();
+    utils.book_append_sheet(wb, utils.aoa_to_sheet([[condoName], [title], [], header, ...rows, totals]), "Riparto");
+    utils.book_append_sheet(wb, utils.json_to_sheet(expenses.map(e => ({
+      Data: e.date,
+      Descrizione: e.description,
+      Categoria: e.category,
+      Tabella: getTableForCategory(millesimiTables, e.category)?.name || '—',
+      Importo: e.amount,
+    }))), "Spese");
+    writeFile(wb, `riparto_${periodLabel.replace(/\W+/g, '_')}_${condoName.replace(/\s+/g, '_')}.xlsx`);
+  };
+
+  const handleExportPDF = () => {
+    const doc = new jsPDF({ orientation: riparto.tables.length > 2 ? 'landscape' : 'portrait' });
+
+    doc.setFontSize(22);
+    doc.setTextColor(79, 70, 229); // Indigo
+    doc.text(condoName, 14, 20);
+
+    doc.setFontSize(12);
+    doc.setTextColor(100);
+    doc.text(`${title} - ${new Date().toLocaleDateString(locale)}`, 14, 28);
+
+    (doc as any).autoTable({
+      startY: 35,
+      head: [[t('riparto.byTable'), t('riparto.total')]],
+      body: [
+        ...riparto.tables.map(s => [s.name, formatCurrency(s.amount)]),
+        [t('riparto.totalExpenses'), formatCurrency(riparto.totalExpenses)],
+      ],
+      theme: 'striped',
+      headStyles: { fillColor: [100, 116, 139] },
+    });
+
+    (doc as any).autoTable({
+      startY: (doc as any).lastAutoTable.finalY + 10,
+      head: [[
+        t('riparto.unit'), t('riparto.owners'),
+        ...riparto.tables.map(s => s.name),
+        t('riparto.share'), t('riparto.paid'), t('riparto.balance'),
+      ]],
+      body: riparto.rows.map(r => [
+        r.code, r.owners,
+        ...riparto.tables.map(s => formatCurrency(r.byTable[s.tableId] || 0)),
+        formatCurrency(r.share), formatCurrency(r.paid),
+        `${formatCurrency(r.balance)} ${r.balance !== 0 ? `(${balanceLabel(r.balance)})` : ''}`,
+      ]),
+      foot: [[
+        t('riparto.total'), '',
+        ...riparto.tables.map(s => formatCurrency(s.amount)),
+        formatCurrency(riparto.totalAllocated), formatCurrency(riparto.totalPaid),
+        formatCurrency(riparto.totalPaid - riparto.totalAllocated),
+      ]],
+      theme: 'grid',
+      headStyles: { fillColor: [79, 70, 229] },
+      footStyles: { fillColor: [226, 232, 240], textColor: 20 },
+      styles: { fontSize: 8 },
+    });
+
+    doc.save(`riparto_${periodLabel.replace(/\W+/g, '_')}.pdf`);
+  };
+
+  if (units.length === 0 || millesimiTables.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full py-12 text-slate-400 dark:text-slate-500">
+        <Scale className="w-12 h-12 mb-3 opacity-20" />
+        <p>{units.length === 0 ? t('riparto.noUnits') : t('riparto.noTables')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-3">
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('riparto.totalExpenses')}</p>
+            <p className="font-bold text-slate-800 dark:text-white">{formatCurrency(riparto.totalExpenses)}</p>
+          </div>
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('riparto.allocated')}</p>
+            <p className="font-bold text-slate-800 dark:text-white">{formatCurrency(riparto.totalAllocated)}</p>
+          </div>
+          <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 px-4 py-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t('riparto.paid')}</p>
+            <p className="font-bold text-green-600 dark:text-green-400">{formatCurrency(riparto.totalPaid)}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={handleExportPDF} className="px-3 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium">
+            <FileText size={16} className="text-red-500" />
+            {t('riparto.exportPdf')}
+          </button>
+          <button onClick={handleExportExcel} className="px-3 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium">
+            <FileSpreadsheet size={16} className="text-green-600" />
+            {t('riparto.exportExcel')}
+          </button>
+        </div>
+      </div>
+
+      {(riparto.unallocated.length > 0 || riparto.unassignedIncomes.length > 0 || unbalancedTables.length > 0) && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 text-sm text-amber-800 dark:text-amber-300 space-y-1">
+          {riparto.unallocated.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('riparto.unallocated')}: {riparto.unallocated.length} ({formatCurrency(riparto.unallocated.reduce((sum, e) => sum + e.amount, 0))})</p>
+          )}
+          {riparto.unassignedIncomes.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('riparto.unassignedIncomes')}: {riparto.unassignedIncomes.length} ({formatCurrency(unassignedAmount)})</p>
+          )}
+          {unbalancedTables.length > 0 && (
+            <p className="flex items-center gap-2"><AlertTriangle size={16} /> {t('riparto.unbalanced')}: {unbalancedTables.map(m => m.name).join(', ')}</p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+            <tr>
+              <th className="px-4 py-3 font-medium text-left">{t('riparto.unit')}</th>
+              {riparto.tables.map(s => <th key={s.tableId} className="px-4 py-3 font-medium text-right">{s.name}</th>)}
+              <th className="px-4 py-3 font-medium text-right">{t('riparto.share')}</th>
+              <th className="px-4 py-3 font-medium text-right">{t('riparto.paid')}</th>
+              <th className="px-4 py-3 font-medium text-right">{t('riparto.balance')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {riparto.rows.map(r => (
+              <tr key={r.unitId} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                <td className="px-4 py-3">
+                  <p className="font-medium text-slate-900 dark:text-white">{r.code}</p>
+                  {r.owners && <p className="text-xs text-slate-500 dark:text-slate-400">{r.owners}</p>}
+                </td>
+                {riparto.tables.map(s => (
+                  <td key={s.tableId} className="px-4 py-3 text-right text-slate-600 dark:text-slate-300">{formatCurrency(r.byTable[s.tableId] || 0)}</td>
+                ))}
+                <td className="px-4 py-3 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(r.share)}</td>
+                <td className="px-4 py-3 text-right text-green-600 dark:text-green-400">{formatCurrency(r.paid)}</td>
+                <td className={`px-4 py-3 text-right font-bold ${r.balance > 0 ? 'text-green-600 dark:text-green-400' : (r.balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-500')}`}>
+                  {formatCurrency(r.balance)}
+                  {r.balance !== 0 && <span className="block text-xs font-normal">{balanceLabel(r.balance)}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-bold text-slate-800 dark:text-white">
+            <tr>
+              <td className="px-4 py-3">{t('riparto.total')}</td>
+              {riparto.tables.map(s => <td key={s.tableId} className="px-4 py-3 text-right">{formatCurrency(s.amount)}</td>)}
+              <td className="px-4 py-3 text-right">{formatCurrency(riparto.totalAllocated)}</td>
+              <td className="px-4 py-3 text-right">{formatCurrency(riparto.totalPaid)}</td>
+              <td className="px-4 py-3 text-right">{formatCurrency(riparto.totalPaid - riparto.totalAllocated)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+};
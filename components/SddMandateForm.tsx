@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { Person, SddMandate, SddScheme, Unit } from '../types';
+import { generateId } from '../utils';
+import { isValidIban, normalizeCode } from '../services/validationService';
+import { isValidMandateReference } from '../services/sddService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface SddMandateFormProps {
+  onSave: (mandate: SddMandate) => void;
+  onCancel: () => void;
+  initialData?: SddMandate;
+  mandates: SddMandate[];
+  units: Unit[];
+  persons: Person[];
+}
+
+const inputClass = "w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2";
+
+export const SddMandateForm: React.FC<SddMandateFormProps> = ({ onSave, onCancel, initialData, mandates, units, persons }) => {
+  const { t } = useLanguage();
+  const [reference, setReference] = useState(initialData?.reference || '');
+  const [unitId, setUnitId] = useState(initialData?.unitId || '');
+  const [personId, setPersonId] = useState(initialData?.personId || '');
+  const [debtorName, setDebtorName] = useState(initialData?.debtorName || '');
+  const [iban, setIban] = useState(initialData?.iban || '');
+  const [signatureDate, setSignatureDate] = useState(initialData?.signatureDate || new Date().toISOString().slice(0, 10));
+  const [scheme, setScheme] = useState<SddScheme>(initialData?.scheme || 'CORE');
+  const [revokedDate, setRevokedDate] = useState(initialData?.revokedDate || '');
+
+  const isEditing = !!initialData;
+  const unit = units.find(u => u.id === unitId);
+  // Proprietari e inquilini dell'unità; se non ce ne sono, tutta l'anagrafe
+  const unitPersonIds = unit ? [...unit.owners.map(o => o.personId), ...unit.tenants.map(tenant => tenant.personId)] : [];
+  const personOptions = unitPersonIds.length > 0 ? persons.filter(p => unitPersonIds.includes(p.id)) : persons;
+
+  const handlePersonChange = (id: string) => {
+    setPersonId(id);
+    const person = persons.find(p => p.id === id);
+    if (person && !debtorName.trim()) setDebtorName(person.name);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleanReference = reference.trim();
+    if (!isValidMandateReference(cleanReference)) {
+      alert(t('sdd.invalidReference'));
+      return;
+    }
+    if (mandates.some(m => m.id !== initialData?.id && m.reference.toUpperCase() === cleanReference.toUpperCase())) {
+      alert(t('sdd.duplicateReference'));
+      return;
+    }
+    if (!unitId || !personId) {
+      alert(t('sdd.missingParties'));
+      return;
+    }
+    if (!debtorName.trim()) {
+      alert(t('sdd.missingDebtor'));
+      return;
+    }
+    const cleanIban = normalizeCode(iban);
+    if (!isValidIban(cleanIban)) {
+      alert(t('sdd.invalidIban'));
+      return;
+    }
+    if (revokedDate && revokedDate < signatureDate) {
+      alert(t('sdd.revokedBeforeSignature'));
+      return;
+    }
+
+    onSave({
+      ...initialData,
+      id: isEditing ? initialData.id : generateId(),
+      reference: cleanReference,
+      unitId,
+      personId,
+      debtorName: debtorName.trim(),
+      iban: cleanIban,
+      signatureDate,
+      scheme,
+      revokedDate: revokedDate || undefined,
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 max-w-2xl mx-auto overflow-hidden transition-colors duration-200">
+      <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-bold text-slate-800 dark:text-white">
+          {isEditing ? t('sdd.formEdit') : t('sdd.formNew')}
+        </h2>
+      </div>
+      <div className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className={labelClass}>{t('sdd.reference')}</label>
+              <input type="text" required maxLength={35} value={reference} onChange={(e) => setReference(e.target.value)} className={`${inputClass} font-mono`} placeholder={t('sdd.referencePlaceholder')} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('sdd.scheme')}</label>
+              <select value={scheme} onChange={(e) => setScheme(e.target.value as SddScheme)} className={inputClass}>
+                <option value="CORE">{t('sdd.schemeCore')}</option>
+                <option value="B2B">{t('sdd.schemeB2b')}</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('sdd.unit')}</label>
+              <select required value={unitId} onChange={(e) => setUnitId(e.target.value)} className={inputClass}>
+                <option value="">{t('sdd.select')}</option>
+                {units.map(u => <option key={u.id} value={u.id}>{u.code}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('sdd.signer')}</label>
+              <select required value={personId} onChange={(e) => handlePersonChange(e.target.value)} className={inputClass}>
+                <option value="">{t('sdd.select')}</option>
+                {personOptions.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('sdd.debtorName')}</label>
+              <input type="text" required value={debtorName} onChange={(e) => setDebtorName(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('sdd.iban')}</label>
+              <input type="text" required value={iban} onChange={(e) => setIban(e.target.value.toUpperCase())} className={`${inputClass} uppercase`} placeholder="IT..." />
+            </div>
+            <div>
+              <label className={labelClass}>{t('sdd.signatureDate')}</label>
+              <input type="date" required value={signatureDate} onChange={(e) => setSignatureDate(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('sdd.revokedDate')}</label>
+              <input type="date" value={revokedDate} onChange={(e) => setRevokedDate(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-5 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium"
+            >
+              <Check size={18} />
+              {isEditing ? t('sdd.update') : t('sdd.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,366 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileDown, FileUp, AlertTriangle, CheckCircle, Plus, Pencil, Trash2, Ban, Undo2, X, Check } from 'lucide-react';
+import { BankAccount, CondoSettings, Income, Installment, Person, SddMandate, Unit } from '../types';
+import {
+  computeSddCollection, createPain008, createSddIncomes, checkCreditor, describeReturnReason, isMandateActive, isMandateExpired,
+  matchSddReturns, MatchedSddReturn, parseSddReturns, SddCollectionLine, SddReturn,
+} from '../services/sddService';
+import { formatIban } from '../services/validationService';
+import { SddMandateForm } from './SddMandateForm';
+import { downloadBlob } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface SddViewProps {
+  account: BankAccount;
+  sddMandates: SddMandate[];
+  units: Unit[];
+  persons: Person[];
+  installments: Installment[];
+  incomes: Income[];
+  settings: CondoSettings;
+  condoName: string;
+  onSaveMandate: (mandate: SddMandate) => void;
+  onDeleteMandate: (id: string) => void;
+  onAddIncomes: (incomes: Income[]) => void;
+  onApplyReturns: (returns: MatchedSddReturn[]) => void;
+}
+
+// Distinta scaricata, in attesa della conferma del caricamento in banca
+interface GeneratedBatch {
+  lines: SddCollectionLine[];
+  collectionDate: string;
+  total: number;
+  fileName: string;
+}
+
+// Insoluti letti da un file, in attesa di conferma
+interface ReturnsPreview {
+  fileName: string;
+  matched: MatchedSddReturn[];
+  unmatched: SddReturn[];
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const SddView: React.FC<SddViewProps> = ({
+  account, sddMandates, units, persons, installments, incomes, settings, condoName, onSaveMandate, onDeleteMandate, onAddIncomes, onApplyReturns,
+}) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+
+  const returnsInputRef = useRef<HTMLInputElement>(null);
+  const [collectionDate, setCollectionDate] = useState(today());
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [generated, setGenerated] = useState<GeneratedBatch | null>(null);
+  const [returnsPreview, setReturnsPreview] = useState<ReturnsPreview | null>(null);
+  const [editing, setEditing] = useState<SddMandate | 'new' | null>(null);
+
+  const lines = useMemo(
+    () => computeSddCollection(sddMandates, units, installments, incomes, collectionDate),
+    [sddMandates, units, installments, incomes, collectionDate],
+  );
+
+  const creditor = { name: condoName, iban: account.iban || '', creditorId: settings.sddCreditorId || '' };
+  const creditorErrors = checkCreditor(creditor);
+  const chosen = lines.filter(l => l.errors.length === 0 && !excluded.has(l.mandate.id));
+  const total = chosen.reduce((sum, l) => sum + l.amount, 0);
+  const unitCode = (id: string) => units.find(u => u.id === id)?.code || '-';
+
+  const sortedMandates = [...sddMandates].sort((a, b) => unitCode(a.unitId).localeCompare(unitCode(b.unitId), locale, { numeric: true }));
+
+  const toggle = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleGenerate = () => {
+    try {
+      const xml = createPain008(creditor, collectionDate, chosen);
+      const fileName = `Addebiti_SDD_${collectionDate}.xml`;
+      downloadBlob(new Blob([xml], { type: 'application/xml;charset=utf-8;' }), fileName);
+      setGenerated({ lines: chosen, collectionDate, total, fileName });
+    } catch (error) {
+      console.error(error);
+      alert(t('sdd.generateError').replace('{error}', (error as Error).message));
+    }
+  };
+
+  const handleConfirmUpload = () => {
+    if (!generated) return;
+    onAddIncomes(createSddIncomes(generated.lines, account, generated.collectionDate));
+    setExcluded(new Set());
+    setGenerated(null);
+  };
+
+  const handleImportReturns = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const returns = parseSddReturns(await file.text());
+      if (returns.length === 0) throw new Error(t('sdd.noReturns'));
+      setReturnsPreview({ fileName: file.name, ...matchSddReturns(returns, incomes) });
+    } catch (error) {
+      console.error(error);
+      alert(t('sdd.importError').replace('{error}', (error as Error).message));
+    } finally {
+      if (returnsInputRef.current) returnsInputRef.current.value = '';
+    }
+  };
+
+  const handleConfirmReturns = () => {
+    if (!returnsPreview) return;
+    onApplyReturns(returnsPreview.matched);
+    setReturnsPreview(null);
+  };
+
+  const handleSaveMandate = (mandate: SddMandate) => {
+    onSaveMandate(mandate);
+    setEditing(null);
+  };
+
+  const handleDeleteMandate = (mandate: SddMandate) => {
+    if (incomes.some(i => i.sddMandateId === mandate.id)) {
+      alert(t('sdd.mandateInUse'));
+      return;
+    }
+    if (confirm(t('sdd.confirmDeleteMandate').replace('{reference}', mandate.reference))) onDeleteMandate(mandate.id);
+  };
+
+  const handleRevoke = (mandate: SddMandate) => {
+    onSaveMandate(mandate.revokedDate ? { ...mandate, revokedDate: undefined } : { ...mandate, revokedDate: today() });
+  };
+
+  const mandateStatus = (mandate: SddMandate) => {
+    if (mandate.revokedDate && mandate.revokedDate <= today()) return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">{t('sdd.statusRevoked').replace('{date}', formatDate(mandate.revokedDate))}</span>;
+    if (isMandateExpired(mandate, incomes, today())) return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">{t('sdd.statusExpired')}</span>;
+    if (!isMandateActive(mandate, today())) return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">{t('sdd.statusFrom').replace('{date}', formatDate(mandate.signatureDate))}</span>;
+    return <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">{t('sdd.statusActive')}</span>;
+  };
+
+  if (editing) {
+    return (
+      <SddMandateForm
+        initialData={editing === 'new' ? undefined : editing}
+        mandates={sddMandates}
+        units={units}
+        persons={persons}
+        onSave={handleSaveMandate}
+        onCancel={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <>
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('sdd.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {t('sdd.subtitle').replace('{account}', account.name)}
+              {account.iban && <span className="font-mono"> ({formatIban(account.iban)})</span>}.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="file" accept=".xml" ref={returnsInputRef} onChange={handleImportReturns} className="hidden" />
+            <button onClick={() => returnsInputRef.current?.click()} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium">
+              <FileUp size={16} /> {t('sdd.importReturns')}
+            </button>
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              {t('sdd.collectionDate')}
+              <input type="date" value={collectionDate} min={today()} onChange={(e) => setCollectionDate(e.target.value)} className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+            </label>
+            <button onClick={handleGenerate} disabled={chosen.length === 0 || creditorErrors.length > 0 || !collectionDate} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileDown size={16} /> {t('sdd.generate').replace('{count}', String(chosen.length))}
+            </button>
+          </div>
+        </div>
+
+        {creditorErrors.length > 0 && (
+          <div className="mx-6 mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300 flex items-center gap-2">
+            <AlertTriangle size={16} /> {creditorErrors.join(' ')}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 w-8"></th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colUnit')}</th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colDebtor')}</th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colRemittance')}</th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colSequence')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('sdd.colAmount')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {lines.length > 0 ? lines.map(l => {
+                const blocked = l.errors.length > 0;
+                return (
+                  <tr key={l.mandate.id} className={blocked ? 'opacity-70' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}>
+                    <td className="px-6 py-4 align-top">
+                      <input type="checkbox" checked={!blocked && !excluded.has(l.mandate.id)} onChange={() => toggle(l.mandate.id)} disabled={blocked} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                    </td>
+                    <td className="px-6 py-4 align-top font-medium text-slate-800 dark:text-slate-200">{l.unit.code}</td>
+                    <td className="px-6 py-4 align-top">
+                      <p className="text-slate-800 dark:text-slate-200">{l.mandate.debtorName}</p>
+                      <p className="text-xs font-mono text-slate-400">{formatIban(l.mandate.iban)}</p>
+                    </td>
+                    <td className="px-6 py-4 align-top">
+                      <p className="text-slate-600 dark:text-slate-300">{l.remittance}</p>
+                      {l.mandate.lastReturn && (
+                        <p className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1"><AlertTriangle size={12} /> {t('sdd.lastReturn').replace('{date}', formatDate(l.mandate.lastReturn.date)).replace('{reason}', describeReturnReason(l.mandate.lastReturn.reason))}</p>
+                      )}
+                      {l.errors.map(error => (
+                        <p key={error} className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> {error}</p>
+                      ))}
+                    </td>
+                    <td className="px-6 py-4 align-top text-slate-600 dark:text-slate-300 font-mono text-xs">{l.mandate.scheme} {l.sequence}</td>
+                    <td className="px-6 py-4 align-top text-right font-bold text-slate-800 dark:text-white whitespace-nowrap">{formatCurrency(l.amount)}</td>
+                  </tr>
+                );
+              }) : (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">{t('sdd.noLines')}</td>
+                </tr>
+              )}
+            </tbody>
+            {chosen.length > 0 && (
+              <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-medium">
+                <tr>
+                  <td colSpan={5} className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">{t('sdd.batchTotal').replace('{count}', String(chosen.length))}</td>
+                  <td className="px-6 py-3 text-right text-slate-800 dark:text-white">{formatCurrency(total)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-6 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between gap-4">
+          <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('sdd.mandates')}</h2>
+          <button onClick={() => setEditing('new')} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium">
+            <Plus size={16} /> {t('sdd.newMandate')}
+          </button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('sdd.colReference')}</th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colUnit')}</th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colHolder')}</th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colSignature')}</th>
+                <th className="px-6 py-3 font-medium">{t('sdd.colStatus')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('sdd.colActions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {sortedMandates.length > 0 ? sortedMandates.map(m => (
+                <tr key={m.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                  <td className="px-6 py-4 font-mono text-xs text-slate-700 dark:text-slate-300">{m.reference} <span className="text-slate-400">({m.scheme})</span></td>
+                  <td className="px-6 py-4 text-slate-800 dark:text-slate-200">{unitCode(m.unitId)}</td>
+                  <td className="px-6 py-4">
+                    <p className="text-slate-800 dark:text-slate-200">{m.debtorName}</p>
+                    <p className="text-xs font-mono text-slate-400">{formatIban(m.iban)}</p>
+                  </td>
+                  <td className="px-6 py-4 text-slate-600 dark:text-slate-300 whitespace-nowrap">{formatDate(m.signatureDate)}</td>
+                  <td className="px-6 py-4">{mandateStatus(m)}</td>
+                  <td className="px-6 py-4 text-right whitespace-nowrap">
+                    <button onClick={() => setEditing(m)} className="p-2 text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400" title={t('sdd.edit')}><Pencil size={16} /></button>
+                    <button onClick={() => handleRevoke(m)} className="p-2 text-slate-400 hover:text-amber-600 dark:hover:text-amber-400" title={t(m.revokedDate ? 'sdd.unrevoke' : 'sdd.revoke')}>
+                      {m.revokedDate ? <Undo2 size={16} /> : <Ban size={16} />}
+                    </button>
+                    <button onClick={() => handleDeleteMandate(m)} className="p-2 text-slate-400 hover:text-red-600 dark:hover:text-red-400" title={t('common.delete')}><Trash2 size={16} /></button>
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">{t('sdd.noMandates')}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {generated && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-md w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-indigo-100 dark:bg-indigo-900/30"><FileDown className="h-6 w-6 text-indigo-600 dark:text-indigo-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">{t('sdd.generatedTitle')}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                {t('sdd.generatedDesc')
+                  .replace('{file}', generated.fileName)
+                  .replace('{count}', String(generated.lines.length))
+                  .replace('{amount}', formatCurrency(generated.total))
+                  .replace('{date}', formatDate(generated.collectionDate))}
+              </p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={handleConfirmUpload} type="button" className="w-full inline-flex justify-center items-center gap-2 rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700"><CheckCircle size={18} /> {t('sdd.uploaded')}</button>
+              <button onClick={() => setGenerated(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">{t('sdd.notYet')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {returnsPreview && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col border border-slate-200 dark:border-slate-700">
+            <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white">{t('sdd.returnsTitle')}</h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                  {t('sdd.returnsDesc').replace('{file}', returnsPreview.fileName)}
+                </p>
+              </div>
+              <button onClick={() => setReturnsPreview(null)} className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"><X size={20} /></button>
+            </div>
+            <div className="overflow-y-auto p-6 space-y-2">
+              {returnsPreview.matched.map(({ income, sddReturn }) => (
+                <div key={income.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 text-sm">
+                  <div>
+                    <p className="text-slate-800 dark:text-slate-200">{income.description}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {t('sdd.returnLine').replace('{date}', formatDate(income.date)).replace('{reason}', describeReturnReason(sddReturn.reason))}
+                    </p>
+                  </div>
+                  <span className="font-bold text-red-600 dark:text-red-400 whitespace-nowrap">{formatCurrency(income.amount)}</span>
+                </div>
+              ))}
+              {returnsPreview.matched.length === 0 && (
+                <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-6">{t('sdd.noMatchedReturns')}</p>
+              )}
+              {returnsPreview.unmatched.length > 0 && (
+                <div className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-lg text-sm text-amber-700 dark:text-amber-300 flex items-start gap-2">
+                  <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                  <span>
+                    {t('sdd.unmatchedReturns')
+                      .replace('{count}', String(returnsPreview.unmatched.length))
+                      .replace('{ids}', returnsPreview.unmatched.map(r => r.endToEndId).join(', '))}
+                  </span>
+                </div>
+              )}
+            </div>
+            <div className="p-6 border-t border-slate-200 dark:border-slate-700 flex justify-end gap-3">
+              <button onClick={() => setReturnsPreview(null)} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 text-sm font-medium">{t('common.cancel')}</button>
+              <button onClick={handleConfirmReturns} disabled={returnsPreview.matched.length === 0} className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+                <Check size={16} /> {t('sdd.applyReturns').replace('{count}', String(returnsPreview.matched.length))}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { FileDown, AlertTriangle, Info, CheckCircle, Send } from 'lucide-react';
+import { BankAccount, CondoSettings, Expense, Supplier } from '../types';
+import { checkCreditTransfer, checkDebtor, createPain001, CreditTransferCheck } from '../services/sepaService';
+import { formatIban } from '../services/validationService';
+import { downloadBlob } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface SepaPaymentsViewProps {
+  account: BankAccount;
+  expenses: Expense[];
+  suppliers: Supplier[];
+  settings: CondoSettings;
+  condoName: string;
+  onMarkPaid: (expenseIds: string[], paidDate: string, bankAccountId: string) => void;
+}
+
+// Distinta scaricata, in attesa della conferma del caricamento in banca
+interface GeneratedBatch {
+  expenseIds: string[];
+  executionDate: string;
+  total: number;
+  fileName: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export const SepaPaymentsView: React.FC<SepaPaymentsViewProps> = ({ account, expenses, suppliers, settings, condoName, onMarkPaid }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [executionDate, setExecutionDate] = useState(today());
+  const [generated, setGenerated] = useState<GeneratedBatch | null>(null);
+
+  const checks = useMemo(() => {
+    const suppliersById = new Map<string, Supplier>(suppliers.map(s => [s.id, s]));
+    return expenses
+      .filter(e => e.status === 'unpaid')
+      .map(e => checkCreditTransfer(e, e.supplierId ? suppliersById.get(e.supplierId) : undefined))
+      .sort((a, b) => (a.expense.dueDate || a.expense.date).localeCompare(b.expense.dueDate || b.expense.date));
+  }, [expenses, suppliers]);
+
+  const debtor = { name: condoName, iban: account.iban, fiscalCode: settings.fiscalCode };
+  const debtorErrors = checkDebtor(debtor);
+  const chosen = checks.filter(c => selected.has(c.expense.id));
+  const total = chosen.reduce((sum, c) => sum + c.amount, 0);
+  const payable = checks.filter(c => c.errors.length === 0);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(chosen.length === payable.length ? new Set() : new Set(payable.map(c => c.expense.id)));
+  };
+
+  const handleGenerate = () => {
+    try {
+      const xml = createPain001(debtor, executionDate, chosen);
+      const fileName = `Bonifici_SEPA_${executionDate}.xml`;
+      downloadBlob(new Blob([xml], { type: 'application/xml;charset=utf-8;' }), fileName);
+      setGenerated({ expenseIds: chosen.map(c => c.expense.id), executionDate, total, fileName });
+    } catch (error) {
+      console.error(error);
+      alert(t('sepa.generateError').replace('{error}', (error as Error).message));
+    }
+  };
+
+  const handleConfirmUpload = () => {
+    if (!generated) return;
+    onMarkPaid(generated.expenseIds, generated.executionDate, account.id);
+    setSelected(new Set());
+    setGenerated(null);
+  };
+
+  const renderIssues = (check: CreditTransferCheck) => (
+    <>
+      {check.errors.map(error => (
+        <p key={error} className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> {error}</p>
+      ))}
+      {check.warnings.map(warning => (
+        <p key={warning} className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1"><Info size={12} /> {warning}</p>
+      ))}
+    </>
+  );
+
+  return (
+    <>
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('sepa.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+              {t('sepa.subtitle').replace('{account}', account.name)}
+              {account.iban && <span className="font-mono"> ({formatIban(account.iban)})</span>}.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              {t('sepa.executionDate')}
+              <input type="date" value={executionDate} min={today()} onChange={(e) => setExecutionDate(e.target.value)} className="px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none" />
+            </label>
+            <button onClick={handleGenerate} disabled={chosen.length === 0 || debtorErrors.length > 0 || !executionDate} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileDown size={16} /> {t('sepa.generate').replace('{count}', String(chosen.length))}
+            </button>
+          </div>
+        </div>
+
+        {debtorErrors.length > 0 && (
+          <div className="mx-6 mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300 flex items-center gap-2">
+            <AlertTriangle size={16} /> {debtorErrors.join(' ')}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 w-8">
+                  <input type="checkbox" checked={payable.length > 0 && chosen.length === payable.length} onChange={toggleAll} disabled={payable.length === 0} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                </th>
+                <th className="px-6 py-3 font-medium">{t('sepa.colDue')}</th>
+                <th className="px-6 py-3 font-medium">{t('sepa.colCreditor')}</th>
+                <th className="px-6 py-3 font-medium">{t('sepa.colRemittance')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('sepa.colAmount')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {checks.length > 0 ? checks.map(c => {
+                const blocked = c.errors.length > 0;
+                const due = c.expense.dueDate || c.expense.date;
+                return (
+                  <tr key={c.expense.id} className={blocked ? 'opacity-70' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}>
+                    <td className="px-6 py-4 align-top">
+                      <input type="checkbox" checked={selected.has(c.expense.id)} onChange={() => toggle(c.expense.id)} disabled={blocked} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                    </td>
+                    <td className={`px-6 py-4 align-top whitespace-nowrap ${due < today() ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-600 dark:text-slate-300'}`}>{formatDate(due)}</td>
+                    <td className="px-6 py-4 align-top">
+                      <p className="text-slate-800 dark:text-slate-200">{c.creditorName || '-'}</p>
+                      {c.creditorIban && <p className="text-xs font-mono text-slate-400">{formatIban(c.creditorIban)}</p>}
+                    </td>
+                    <td className="px-6 py-4 align-top">
+                      <p className="text-slate-600 dark:text-slate-300">{c.remittance}</p>
+                      {renderIssues(c)}
+                    </td>
+                    <td className="px-6 py-4 align-top text-right font-bold text-slate-800 dark:text-white whitespace-nowrap">
+                      {formatCurrency(c.amount)}
+                      {c.expense.withholding && <p className="text-xs font-normal text-slate-400">{t('sepa.netOfWithholding')}</p>}
+                    </td>
+                  </tr>
+                );
+              }) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">{t('sepa.noExpenses')}</td>
+                </tr>
+              )}
+            </tbody>
+            {chosen.length > 0 && (
+              <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-medium">
+                <tr>
+                  <td colSpan={4} className="px-6 py-3 text-right text-slate-600 dark:text-slate-300">{t('sepa.batchTotal').replace('{count}', String(chosen.length))}</td>
+                  <td className="px-6 py-3 text-right text-slate-800 dark:text-white">{formatCurrency(total)}</td>
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+      </div>
+
+      {generated && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-md w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-indigo-100 dark:bg-indigo-900/30"><Send className="h-6 w-6 text-indigo-600 dark:text-indigo-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">{t('sepa.generatedTitle')}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                {t('sepa.generatedDesc')
+                  .replace('{file}', generated.fileName)
+                  .replace('{count}', String(generated.expenseIds.length))
+                  .replace('{amount}', formatCurrency(generated.total))
+                  .replace('{date}', formatDate(generated.executionDate))}
+              </p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={handleConfirmUpload} type="button" className="w-full inline-flex justify-center items-center gap-2 rounded-md border border-transparent shadow-sm px-4 py-2 bg-green-600 text-base font-medium text-white hover:bg-green-700"><CheckCircle size={18} /> {t('sepa.uploaded')}</button>
+              <button onClick={() => setGenerated(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">{t('sepa.notYet')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { CondoSettings, Expense, Income, Installment, MillesimiTable, Person, Unit } from '../types';
+import { FileText, Files } from 'lucide-react';
+import jsPDF from 'jspdf';
+import 'jspdf-autotable';
+import { getCurrentFiscalYear, getFiscalYearRange } from '../services/fiscalYearService';
+import { getInterestModeLabel, getInterestRates } from '../services/interestService';
+import { computeUnitStatement, groupUnitsByOwner, OwnerStatementGroup, StatementSources, UnitStatement } from '../services/statementService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface StatementsViewProps {
+  units: Unit[];
+  persons: Person[];
+  installments: Installment[];
+  incomes: Income[];
+  expenses: Expense[];
+  millesimiTables: MillesimiTable[];
+  settings: CondoSettings;
+  condoName: string;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+
+// L'estratto conto in PDF si consegna ai condomini: resta in italiano come gli altri documenti
+const formatPdfCurrency = (val: number) => new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(val);
+const formatPdfDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+const pdfBalanceLabel = (balance: number) =>
+  balance > 0 ? `${formatPdfCurrency(balance)} a debito` : (balance < 0 ? `${formatPdfCurrency(-balance)} a credito` : formatPdfCurrency(0));
+
+const groupFileName = (group: OwnerStatementGroup, from: string, to: string) =>
+  `estratto_conto_${(group.person?.name || group.units[0].code).replace(/\W+/g, '_')}_${from}_${to}.pdf`;
+
+// Scrive su un documento PDF l'estratto conto di un gruppo di unità, una pagina per unità
+const renderStatementPdf = (doc: jsPDF, condoName: string, interestLabel: string, group: OwnerStatementGroup, statements: UnitStatement[]) => {
+  statements.forEach((s, index) => {
+    if (index > 0) doc.addPage();
+
+    doc.setFontSize(22);
+    doc.setTextColor(79, 70, 229); // Indigo
+    doc.text(condoName, 14, 20);
+
+    doc.setFontSize(12);
+    doc.setTextColor(100);
+    doc.text(`Estratto Conto dal ${formatPdfDate(s.from)} al ${formatPdfDate(s.to)} - ${new Date().toLocaleDateString('it-IT')}`, 14, 28);
+
+    doc.setFontSize(11);
+    doc.setTextColor(0);
+    let y = 40;
+    if (group.person) {
+      doc.text(`Spett.le ${group.person.name}`, 120, y);
+      if (group.person.address) {
+        doc.splitTextToSize(group.person.address, 76).forEach((line: string) => {
+          y += 6;
+          doc.text(line, 120, y);
+        });
+      }
+    }
+    doc.setFontSize(13);
+    doc.text(`Unità ${s.code}`, 14, 40);
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(s.owners ? `Proprietari: ${s.owners}` : 'Nessun proprietario registrato', 14, 46);
+
+    (doc as any).autoTable({
+      startY: Math.max(y, 46) + 8,
+      head: [['Data', 'Descrizione', 'Addebiti', 'Versamenti', 'Saldo']],
+      body: [
+        [formatPdfDate(s.from), 'Saldo iniziale', '', '', formatPdfCurrency(s.openingBalance)],
+        ...s.entries.map(e => [
+          formatPdfDate(e.date),
+          e.description,
+          e.debit ? formatPdfCurrency(e.debit) : '',
+          e.credit ? formatPdfCurrency(e.credit) : '',
+          formatPdfCurrency(e.balance),
+        ]),
+      ],
+      foot: [['', 'Totali e saldo finale', formatPdfCurrency(s.totalDebit), formatPdfCurrency(s.totalCredit), formatPdfCurrency(s.closingBalance)]],
+      theme: 'grid',
+      headStyles: { fillColor: [79, 70, 229] },
+      footStyles: { fillColor: [226, 232, 240], textColor: 20 },
+      styles: { fontSize: 9 },
+      columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } },
+    });
+
+    let finalY = (doc as any).lastAutoTable.finalY + 8;
+    doc.setFontSize(11);
+    doc.setTextColor(s.closingBalance > 0 ? 220 : 0, s.closingBalance > 0 ? 38 : 0, s.closingBalance > 0 ? 38 : 0);
+    doc.text(`Saldo al ${formatPdfDate(s.to)}: ${pdfBalanceLabel(s.closingBalance)}`, 14, finalY);
+    if (s.interestToCharge > 0) {
+      finalY += 6;
+      doc.setFontSize(10);
+      doc.setTextColor(100);
+      doc.text(`Interessi di mora maturati e non ancora addebitati (${interestLabel}): ${formatPdfCurrency(s.interestToCharge)}`, 14, finalY);
+    }
+
+    if (s.expenseShares.length > 0) {
+      if (finalY > 240) {
+        doc.addPage();
+        finalY = 10;
+      }
+      doc.setFontSize(12);
+      doc.setTextColor(0);
+      doc.text('Spese del periodo di competenza dell\'unità', 14, finalY + 12);
+      (doc as any).autoTable({
+        startY: finalY + 16,
+        head: [['Categoria', 'Tabella millesimale', 'Quota']],
+        body: s.expenseShares.map(e => [e.category, e.tableName, formatPdfCurrency(e.amount)]),
+        foot: [['Totale', '', formatPdfCurrency(s.totalExpenseShare)]],
+        theme: 'striped',
+        headStyles: { fillColor: [100, 116, 139] },
+        footStyles: { fillColor: [226, 232, 240], textColor: 20 },
+        styles: { fontSize: 9 },
+        columnStyles: { 2: { halign: 'right' } },
+      });
+    }
+  });
+};
+
+export const StatementsView: React.FC<StatementsViewProps> = ({
+  units, persons, installments, incomes, expenses, millesimiTables, settings, condoName,
+}) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const currentRange = getFiscalYearRange(getCurrentFiscalYear(settings), settings);
+  const [from, setFrom] = useState(currentRange.start);
+  const [to, setTo] = useState(currentRange.end);
+
+  const groups = useMemo(() => groupUnitsByOwner(units, persons), [units, persons]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selectedGroup = groups[Math.min(selectedIndex, groups.length - 1)];
+
+  const sources: StatementSources = { installments, incomes, expenses, persons, tables: millesimiTables, interestRates: getInterestRates(settings) };
+  const isPeriodValid = !!from && !!to && from <= to;
+
+  const statements = useMemo(
+    () => (selectedGroup && isPeriodValid ? selectedGroup.units.map(u => computeUnitStatement(u, sources, from, to)) : []),
+    [selectedGroup, installments, incomes, expenses, persons, millesimiTables, settings, from, to]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+
+  const balanceLabel = (balance: number) =>
+    balance > 0
+      ? t('quotas.balanceDebit').replace('{amount}', formatCurrency(balance))
+      : (balance < 0 ? t('quotas.balanceCredit').replace('{amount}', formatCurrency(-balance)) : formatCurrency(0));
+
+  const groupLabel = (group: OwnerStatementGroup) =>
+    `${group.person ? group.person.name : t('quotas.statementNoOwnerGroup')} (${group.units.map(u => u.code).join(', ')})`;
+
+  const exportGroup = (group: OwnerStatementGroup) => {
+    const doc = new jsPDF();
+    renderStatementPdf(doc, condoName, getInterestModeLabel(settings), group, group.units.map(u => computeUnitStatement(u, sources, from, to)));
+    doc.save(groupFileName(group, from, to));
+  };
+
+  const handleExportAll = () => {
+    if (!confirm(t('quotas.statementConfirmExportAll').replace('{count}', String(groups.length)))) return;
+    groups.forEach(exportGroup);
+  };
+
+  if (units.length === 0) {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+        <FileText className="w-8 h-8 text-slate-300 dark:text-slate-600 mx-auto mb-2" />
+        <p>{t('quotas.statementNoUnits')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('quotas.statementTitle')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('quotas.statementDesc')}</p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => selectedGroup && exportGroup(selectedGroup)} disabled={!isPeriodValid} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <FileText size={16} />
+              {t('quotas.statementExportPdf')}
+            </button>
+            <button onClick={handleExportAll} disabled={!isPeriodValid} className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-sm font-medium disabled:opacity-50">
+              <Files size={16} />
+              {t('quotas.statementExportAll')}
+            </button>
+          </div>
+        </div>
+        <div className="p-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>{t('quotas.statementOwner')}</label>
+            <select value={Math.min(selectedIndex, groups.length - 1)} onChange={(e) => setSelectedIndex(Number(e.target.value))} className={inputClass}>
+              {groups.map((g, i) => <option key={g.person?.id || g.units[0].id} value={i}>{groupLabel(g)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{t('quotas.statementFrom')}</label>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('quotas.statementTo')}</label>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+        {!isPeriodValid && <p className="px-6 pb-4 text-sm text-red-600 dark:text-red-400">{t('quotas.statementInvalidPeriod')}</p>}
+      </div>
+
+      {statements.map(s => (
+        <div key={s.unitId} className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+          <div className="p-4 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-slate-800 dark:text-white">{t('quotas.statementUnit').replace('{code}', s.code)}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{s.owners || t('quotas.statementNoOwner')}</p>
+            </div>
+            <span className={`text-sm font-bold ${s.closingBalance > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {balanceLabel(s.closingBalance)}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+                <tr>
+                  <th className="px-6 py-3 font-medium">{t('quotas.colDate')}</th>
+                  <th className="px-6 py-3 font-medium">{t('quotas.colDescription')}</th>
+                  <th className="px-6 py-3 font-medium text-right">{t('quotas.colDebit')}</th>
+                  <th className="px-6 py-3 font-medium text-right">{t('quotas.colCredit')}</th>
+                  <th className="px-6 py-3 font-medium text-right">{t('quotas.colBalance')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                <tr className="bg-slate-50/50 dark:bg-slate-900/20">
+                  <td className="px-6 py-2 text-slate-500 dark:text-slate-400">{formatDate(s.from)}</td>
+                  <td className="px-6 py-2 font-medium text-slate-700 dark:text-slate-300">{t('quotas.openingBalance')}</td>
+                  <td className="px-6 py-2"></td>
+                  <td className="px-6 py-2"></td>
+                  <td className="px-6 py-2 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(s.openingBalance)}</td>
+                </tr>
+                {s.entries.map((e, i) => (
+                  <tr key={i} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                    <td className="px-6 py-2 text-slate-500 dark:text-slate-400">{formatDate(e.date)}</td>
+                    <td className="px-6 py-2 text-slate-700 dark:text-slate-300">{e.description}</td>
+                    <td className="px-6 py-2 text-right text-red-600 dark:text-red-400">{e.debit ? formatCurrency(e.debit) : ''}</td>
+                    <td className="px-6 py-2 text-right text-green-600 dark:text-green-400">{e.credit ? formatCurrency(e.credit) : ''}</td>
+                    <td className="px-6 py-2 text-right font-medium text-slate-800 dark:text-slate-200">{formatCurrency(e.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 dark:bg-slate-700/50 font-bold text-slate-800 dark:text-white">
+                <tr>
+                  <td className="px-6 py-3" colSpan={2}>{t('quotas.closingBalance')}</td>
+                  <td className="px-6 py-3 text-right">{formatCurrency(s.totalDebit)}</td>
+                  <td className="px-6 py-3 text-right">{formatCurrency(s.totalCredit)}</td>
+                  <td className="px-6 py-3 text-right">{formatCurrency(s.closingBalance)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+          {s.interestToCharge > 0 && (
+            <p className="px-4 py-3 border-t border-slate-200 dark:border-slate-700 text-sm text-amber-700 dark:text-amber-300">
+              {t('quotas.interestToCharge').replace('{rate}', t(settings.interestMode === 'custom' ? 'arrears.rateCustom' : 'arrears.rateLegal'))} <strong>{formatCurrency(s.interestToCharge)}</strong>
+            </p>
+          )}
+          {s.expenseShares.length > 0 && (
+            <div className="p-4 border-t border-slate-200 dark:border-slate-700">
+              <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase mb-2">{t('quotas.expenseSharesTitle')}</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 text-sm">
+                {s.expenseShares.map(e => (
+                  <div key={e.category} className="flex justify-between gap-2 text-slate-600 dark:text-slate-300">
+                    <span>{e.category} <span className="text-xs text-slate-400">({e.tableName})</span></span>
+                    <span className="font-medium">{formatCurrency(e.amount)}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm font-bold text-slate-800 dark:text-white mt-2 text-right">{t('quotas.total')} {formatCurrency(s.totalExpenseShare)}</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
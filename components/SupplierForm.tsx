@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Check } from 'lucide-react';
+import { BankAccount, ExpenseCategory, Supplier, WithholdingTaxCode } from '../types';
+import { generateId } from '../utils';
+import { WITHHOLDING_RATE, WITHHOLDING_TAX_CODES } from '../services/withholdingService';
+import { isValidCodiceFiscale, isValidIban, isValidPartitaIva, normalizeCode } from '../services/validationService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface SupplierFormProps {
+  onAdd: (supplier: Supplier) => void;
+  onUpdate?: (supplier: Supplier) => void;
+  onCancel: () => void;
+  initialData?: Supplier;
+  bankAccounts: BankAccount[];
+}
+
+const inputClass = "w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2";
+
+export const SupplierForm: React.FC<SupplierFormProps> = ({ onAdd, onUpdate, onCancel, initialData, bankAccounts }) => {
+  const { t } = useLanguage();
+  const [name, setName] = useState(initialData?.name || '');
+  const [vatNumber, setVatNumber] = useState(initialData?.vatNumber || '');
+  const [fiscalCode, setFiscalCode] = useState(initialData?.fiscalCode || '');
+  const [iban, setIban] = useState(initialData?.iban || '');
+  const [address, setAddress] = useState(initialData?.address || '');
+  const [email, setEmail] = useState(initialData?.email || '');
+  const [pec, setPec] = useState(initialData?.pec || '');
+  const [phone, setPhone] = useState(initialData?.phone || '');
+  const [defaultCategory, setDefaultCategory] = useState<ExpenseCategory | ''>(initialData?.defaultCategory || '');
+  const [defaultBankAccountId, setDefaultBankAccountId] = useState(initialData?.defaultBankAccountId || '');
+  const [withholdingTaxCode, setWithholdingTaxCode] = useState<WithholdingTaxCode | ''>(initialData?.withholdingTaxCode || '');
+  const [notes, setNotes] = useState(initialData?.notes || '');
+
+  const isEditing = !!initialData;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      alert(t('suppliers.nameRequired'));
+      return;
+    }
+    const cleanVat = normalizeCode(vatNumber).replace(/^IT/, '');
+    if (cleanVat && !isValidPartitaIva(cleanVat)) {
+      alert(t('suppliers.invalidVat'));
+      return;
+    }
+    const cleanFiscalCode = normalizeCode(fiscalCode);
+    if (cleanFiscalCode && !isValidCodiceFiscale(cleanFiscalCode)) {
+      alert(t('suppliers.invalidFiscalCode'));
+      return;
+    }
+    const cleanIban = normalizeCode(iban);
+    if (cleanIban && !isValidIban(cleanIban)) {
+      alert(t('suppliers.invalidIban'));
+      return;
+    }
+
+    const supplierData: Supplier = {
+      id: isEditing ? initialData.id : generateId(),
+      name: name.trim(),
+      vatNumber: cleanVat || undefined,
+      fiscalCode: cleanFiscalCode || undefined,
+      iban: cleanIban || undefined,
+      address: address.trim() || undefined,
+      email: email.trim() || undefined,
+      pec: pec.trim() || undefined,
+      phone: phone.trim() || undefined,
+      defaultCategory: defaultCategory || undefined,
+      defaultBankAccountId: defaultBankAccountId || undefined,
+      withholdingTaxCode: withholdingTaxCode || undefined,
+      notes: notes.trim() || undefined,
+    };
+
+    if (isEditing && onUpdate) {
+      onUpdate(supplierData);
+    } else {
+      onAdd(supplierData);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 max-w-2xl mx-auto overflow-hidden transition-colors duration-200">
+      <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-bold text-slate-800 dark:text-white">
+          {isEditing ? t('suppliers.formEdit') : t('suppliers.formNew')}
+        </h2>
+      </div>
+      <div className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="col-span-2">
+              <label className={labelClass}>{t('suppliers.name')}</label>
+              <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder={t('suppliers.namePlaceholder')} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('suppliers.vatNumber')}</label>
+              <input type="text" value={vatNumber} onChange={(e) => setVatNumber(e.target.value.toUpperCase())} className={`${inputClass} font-mono`} placeholder="01234567890" />
+            </div>
+            <div>
+              <label className={labelClass}>{t('suppliers.fiscalCode')}</label>
+              <input type="text" value={fiscalCode} onChange={(e) => setFiscalCode(e.target.value.toUpperCase())} className={`${inputClass} uppercase font-mono`} placeholder={t('suppliers.fiscalCodePlaceholder')} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('suppliers.iban')}</label>
+              <input type="text" value={iban} onChange={(e) => setIban(e.target.value.toUpperCase())} className={`${inputClass} uppercase font-mono`} placeholder="IT00X0000000000000000000000" />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('suppliers.address')}</label>
+              <input type="text" value={address} onChange={(e) => setAddress(e.target.value)} className={inputClass} placeholder={t('suppliers.addressPlaceholder')} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('suppliers.email')}</label>
+              <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('suppliers.pec')}</label>
+              <input type="email" value={pec} onChange={(e) => setPec(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('suppliers.phone')}</label>
+              <input type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('suppliers.defaultCategory')}</label>
+              <select value={defaultCategory} onChange={(e) => setDefaultCategory(e.target.value as ExpenseCategory | '')} className={inputClass}>
+                <option value="">{t('suppliers.noCategory')}</option>
+                {Object.values(ExpenseCategory).map((cat) => (
+                  <option key={cat} value={cat}>{cat}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('suppliers.withholding').replace('{rate}', String(WITHHOLDING_RATE))}</label>
+              <select value={withholdingTaxCode} onChange={(e) => setWithholdingTaxCode(e.target.value as WithholdingTaxCode | '')} className={inputClass}>
+                <option value="">{t('suppliers.noWithholding')}</option>
+                {(Object.keys(WITHHOLDING_TAX_CODES) as WithholdingTaxCode[]).map(code => (
+                  <option key={code} value={code}>{code} - {WITHHOLDING_TAX_CODES[code]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('suppliers.defaultAccount')}</label>
+              <select value={defaultBankAccountId} onChange={(e) => setDefaultBankAccountId(e.target.value)} className={inputClass}>
+                <option value="">{t('suppliers.noAccount')}</option>
+                {bankAccounts.map((acc) => (
+                  <option key={acc.id} value={acc.id}>{acc.name} ({acc.iban})</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>{t('suppliers.notes')}</label>
+              <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={`${inputClass} min-h-[80px] resize-none`} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-5 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium"
+            >
+              <Check size={18} />
+              {isEditing ? t('suppliers.update') : t('suppliers.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState, useMemo } from 'react';
+import { Expense, Supplier } from '../types';
+import { Trash2, Pencil, AlertTriangle, Search, Truck, Plus, Mail, Phone } from 'lucide-react';
+import { computeSupplierSpend } from '../services/supplierService';
+import { formatIban } from '../services/validationService';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface SupplierListProps {
+  suppliers: Supplier[];
+  expenses: Expense[];
+  onDelete: (id: string) => void;
+  onEdit: (supplier: Supplier) => void;
+  onAdd: () => void;
+}
+
+export const SupplierList: React.FC<SupplierListProps> = ({ suppliers, expenses, onDelete, onEdit, onAdd }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const [supplierToDelete, setSupplierToDelete] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const spendBySupplier = useMemo(() => computeSupplierSpend(suppliers, expenses), [suppliers, expenses]);
+
+  const filteredSuppliers = useMemo(() => {
+    const searchLower = searchTerm.toLowerCase();
+    return suppliers
+      .filter(s =>
+        s.name.toLowerCase().includes(searchLower) ||
+        (s.vatNumber || '').toLowerCase().includes(searchLower) ||
+        (s.fiscalCode || '').toLowerCase().includes(searchLower) ||
+        (s.email || '').toLowerCase().includes(searchLower)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name, locale));
+  }, [suppliers, searchTerm, locale]);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(value);
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+
+  const executeDelete = () => {
+    if (supplierToDelete) {
+      onDelete(supplierToDelete);
+      setSupplierToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('suppliers.title')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('suppliers.subtitle')}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 dark:text-slate-500 w-4 h-4" />
+              <input
+                type="text"
+                placeholder={t('suppliers.search')}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9 pr-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-full sm:w-48"
+              />
+            </div>
+            <button onClick={onAdd} className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 text-sm font-medium whitespace-nowrap">
+              <Plus size={16} /> {t('suppliers.new')}
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('suppliers.name')}</th>
+                <th className="px-6 py-3 font-medium">{t('suppliers.colTaxId')}</th>
+                <th className="px-6 py-3 font-medium">{t('suppliers.iban')}</th>
+                <th className="px-6 py-3 font-medium">{t('suppliers.colContacts')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('suppliers.colSpent')}</th>
+                <th className="px-6 py-3 font-medium text-right">{t('suppliers.colUnpaid')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('suppliers.colActions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {filteredSuppliers.length > 0 ? (
+                filteredSuppliers.map(supplier => {
+                  const spend = spendBySupplier[supplier.id];
+                  return (
+                    <tr key={supplier.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                      <td className="px-6 py-4">
+                        <p className="text-slate-900 dark:text-white font-medium">{supplier.name}</p>
+                        {supplier.defaultCategory && <p className="text-xs text-slate-500 dark:text-slate-400">{supplier.defaultCategory}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-slate-500 dark:text-slate-400 font-mono text-xs space-y-0.5">
+                        <p>{supplier.vatNumber || '—'}</p>
+                        {supplier.fiscalCode && supplier.fiscalCode !== supplier.vatNumber && <p>{supplier.fiscalCode}</p>}
+                      </td>
+                      <td className="px-6 py-4 text-slate-500 dark:text-slate-400 font-mono text-xs whitespace-nowrap">{supplier.iban ? formatIban(supplier.iban) : '—'}</td>
+                      <td className="px-6 py-4 text-slate-600 dark:text-slate-300 text-xs space-y-0.5">
+                        {supplier.email && <p className="flex items-center gap-1"><Mail size={12} /> {supplier.email}</p>}
+                        {supplier.pec && <p className="flex items-center gap-1"><Mail size={12} className="text-indigo-500" /> {supplier.pec}</p>}
+                        {supplier.phone && <p className="flex items-center gap-1"><Phone size={12} /> {supplier.phone}</p>}
+                        {!supplier.email && !supplier.pec && !supplier.phone && '—'}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <p className="font-medium text-slate-900 dark:text-white">{formatCurrency(spend?.total || 0)}</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {t('suppliers.expenseCount').replace('{count}', String(spend?.count || 0))}
+                          {spend?.lastDate ? ` · ${t('suppliers.lastExpense').replace('{date}', formatDate(spend.lastDate))}` : ''}
+                        </p>
+                      </td>
+                      <td className={`px-6 py-4 text-right font-medium ${spend && spend.unpaid > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'}`}>
+                        {formatCurrency(spend?.unpaid || 0)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center justify-center gap-2">
+                          <button onClick={() => onEdit(supplier)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title={t('suppliers.edit')}><Pencil size={18} /></button>
+                          <button onClick={() => setSupplierToDelete(supplier.id)} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title={t('suppliers.delete')}><Trash2 size={18} /></button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <Truck className="w-8 h-8 text-slate-300 dark:text-slate-600" />
+                      <p>{t('suppliers.noSuppliers')}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {supplierToDelete && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30"><AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">{t('suppliers.delete')}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">{t('suppliers.deleteMsg')}</p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={executeDelete} type="button" className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700">{t('common.delete')}</button>
+              <button onClick={() => setSupplierToDelete(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">{t('common.cancel')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { Check, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { Unit, UnitType, UnitOwner, UnitTenant, OwnershipRight, Person } from '../types';
+import { generateId } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface UnitFormProps {
+  onAdd: (unit: Unit) => void;
+  onUpdate?: (unit: Unit) => void;
+  onCancel: () => void;
+  initialData?: Unit;
+  persons: Person[];
+}
+
+export const OWNERSHIP_RIGHT_LABELS: Record<OwnershipRight, string> = {
+  proprieta: 'registry.rightProprieta',
+  nuda_proprieta: 'registry.rightNudaProprieta',
+  usufrutto: 'registry.rightUsufrutto',
+};
+
+const inputClass = "w-full px-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none";
+const smallInputClass = "w-full px-3 py-1.5 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded text-sm text-slate-900 dark:text-white focus:ring-1 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2";
+const smallLabelClass = "block text-xs text-slate-500 dark:text-slate-400 mb-1";
+
+export const UnitForm: React.FC<UnitFormProps> = ({ onAdd, onUpdate, onCancel, initialData, persons }) => {
+  const { t } = useLanguage();
+  const [code, setCode] = useState(initialData?.code || '');
+  const [type, setType] = useState<UnitType>(initialData?.type || UnitType.APPARTAMENTO);
+  const [staircase, setStaircase] = useState(initialData?.staircase || '');
+  const [floor, setFloor] = useState(initialData?.floor || '');
+  const [notes, setNotes] = useState(initialData?.notes || '');
+
+  // Dati catastali
+  const [sezione, setSezione] = useState(initialData?.cadastral.sezione || '');
+  const [foglio, setFoglio] = useState(initialData?.cadastral.foglio || '');
+  const [particella, setParticella] = useState(initialData?.cadastral.particella || '');
+  const [subalterno, setSubalterno] = useState(initialData?.cadastral.subalterno || '');
+  const [categoria, setCategoria] = useState(initialData?.cadastral.categoria || '');
+  const [classe, setClasse] = useState(initialData?.cadastral.classe || '');
+  const [rendita, setRendita] = useState(initialData?.cadastral.rendita?.toString() ?? '');
+
+  const [owners, setOwners] = useState<UnitOwner[]>(initialData?.owners || []);
+  const [tenants, setTenants] = useState<UnitTenant[]>(initialData?.tenants || []);
+
+  const isEditing = !!initialData;
+
+  const updateOwner = (index: number, field: keyof UnitOwner, value: any) => {
+    setOwners(prev => prev.map((o, i) => i === index ? { ...o, [field]: value } : o));
+  };
+
+  const updateTenant = (index: number, field: keyof UnitTenant, value: any) => {
+    setTenants(prev => prev.map((tenant, i) => i === index ? { ...tenant, [field]: value } : tenant));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      alert(t('registry.unitCodeRequired'));
+      return;
+    }
+    if (owners.some(o => !o.personId) || tenants.some(tenant => !tenant.personId)) {
+      alert(t('registry.unitMissingPerson'));
+      return;
+    }
+    if (owners.some(o => isNaN(o.share) || o.share <= 0 || o.share > 100)) {
+      alert(t('registry.unitInvalidShare'));
+      return;
+    }
+    // Piena proprietà e nuda proprietà insieme devono coprire l'intera unità
+    const propertyShare = owners
+      .filter(o => o.right !== 'usufrutto')
+      .reduce((sum, o) => sum + o.share, 0);
+    if (propertyShare > 0 && Math.abs(propertyShare - 100) > 0.001) {
+      alert(t('registry.unitShareTotal').replace('{total}', String(propertyShare)));
+      return;
+    }
+    const parsedRendita = rendita ? parseFloat(rendita) : undefined;
+    if (parsedRendita !== undefined && isNaN(parsedRendita)) {
+      alert(t('registry.unitInvalidRendita'));
+      return;
+    }
+
+    const unitData: Unit = {
+      id: isEditing ? initialData.id : generateId(),
+      code: code.trim(),
+      type,
+      staircase: staircase.trim() || undefined,
+      floor: floor.trim() || undefined,
+      cadastral: {
+        sezione: sezione.trim() || undefined,
+        foglio: foglio.trim(),
+        particella: particella.trim(),
+        subalterno: subalterno.trim(),
+        categoria: categoria.trim().toUpperCase() || undefined,
+        classe: classe.trim() || undefined,
+        rendita: parsedRendita,
+      },
+      owners,
+      tenants: tenants.map(tenant => ({ ...tenant, startDate: tenant.startDate || undefined, endDate: tenant.endDate || undefined })),
+      notes: notes.trim() || undefined,
+    };
+
+    if (isEditing && onUpdate) {
+      onUpdate(unitData);
+    } else {
+      onAdd(unitData);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 max-w-3xl mx-auto overflow-hidden transition-colors duration-200">
+      <div className="p-6 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+        <h2 className="text-lg font-bold text-slate-800 dark:text-white">
+          {isEditing ? t('registry.unitFormEdit') : t('registry.unitFormNew')}
+        </h2>
+      </div>
+      <div className="p-6">
+        <form onSubmit={handleSubmit} className="space-y-8">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="md:col-span-2">
+              <label className={labelClass}>{t('registry.unitCode')}</label>
+              <input type="text" required value={code} onChange={(e) => setCode(e.target.value)} className={inputClass} placeholder={t('registry.unitCodePlaceholder')} />
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>{t('registry.unitType')}</label>
+              <select value={type} onChange={(e) => setType(e.target.value as UnitType)} className={inputClass}>
+                {Object.values(UnitType).map(unitType => <option key={unitType} value={unitType}>{unitType}</option>)}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>{t('registry.staircase')}</label>
+              <input type="text" value={staircase} onChange={(e) => setStaircase(e.target.value)} className={inputClass} placeholder={t('registry.staircasePlaceholder')} />
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>{t('registry.floor')}</label>
+              <input type="text" value={floor} onChange={(e) => setFloor(e.target.value)} className={inputClass} placeholder={t('registry.floorPlaceholder')} />
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-bold text-slate-800 dark:text-white uppercase tracking-wider mb-3">{t('registry.cadastralData')}</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className={smallLabelClass}>{t('registry.sezione')}</label>
+                <input type="text" value={sezione} onChange={(e) => setSezione(e.target.value)} className={smallInputClass} />
+              </div>
+              <div>
+                <label className={smallLabelClass}>{t('registry.foglio')}</label>
+                <input type="text" value={foglio} onChange={(e) => setFoglio(e.target.value)} className={smallInputClass} />
+              </div>
+              <div>
+                <label className={smallLabelClass}>{t('registry.particella')}</label>
+                <input type="text" value={particella} onChange={(e) => setParticella(e.target.value)} className={smallInputClass} />
+              </div>
+              <div>
+                <label className={smallLabelClass}>{t('registry.subalterno')}</label>
+                <input type="text" value={subalterno} onChange={(e) => setSubalterno(e.target.value)} className={smallInputClass} />
+              </div>
+              <div>
+                <label className={smallLabelClass}>{t('registry.categoria')}</label>
+                <input type="text" value={categoria} onChange={(e) => setCategoria(e.target.value.toUpperCase())} className={smallInputClass} placeholder="A/2" />
+              </div>
+              <div>
+                <label className={smallLabelClass}>{t('registry.classe')}</label>
+                <input type="text" value={classe} onChange={(e) => setClasse(e.target.value)} className={smallInputClass} />
+              </div>
+              <div className="col-span-2">
+                <label className={smallLabelClass}>{t('registry.rendita')}</label>
+                <input type="number" step="0.01" min="0" value={rendita} onChange={(e) => setRendita(e.target.value)} className={smallInputClass} />
+              </div>
+            </div>
+          </div>
+
+          {persons.length === 0 && (
+            <div className="flex items-start gap-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 p-3 rounded-lg text-sm text-yellow-800 dark:text-yellow-300">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{t('registry.noPersonsWarning')}</span>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-slate-800 dark:text-white uppercase tracking-wider">{t('registry.ownersTitle')}</h3>
+              <button
+                type="button"
+                disabled={persons.length === 0}
+                onClick={() => setOwners(prev => [...prev, { personId: '', right: 'proprieta', share: prev.length === 0 ? 100 : 0 }])}
+                className="flex items-center gap-1 text-sm text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                <Plus size={16} /> {t('registry.add')}
+              </button>
+            </div>
+            <div className="space-y-2">
+              {owners.map((owner, idx) => (
+                <div key={idx} className="grid grid-cols-12 gap-2 items-end bg-slate-50 dark:bg-slate-700/50 p-3 rounded-lg border border-slate-200 dark:border-slate-600">
+                  <div className="col-span-12 sm:col-span-5">
+                    <label className={smallLabelClass}>{t('registry.person')}</label>
+                    <select value={owner.personId} onChange={(e) => updateOwner(idx, 'personId', e.target.value)} className={smallInputClass}>
+                      <option value="">{t('registry.select')}</option>
+                      {persons.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-6 sm:col-span-4">
+                    <label className={smallLabelClass}>{t('registry.right')}</label>
+                    <select value={owner.right} onChange={(e) => updateOwner(idx, 'right', e.target.value as OwnershipRight)} className={smallInputClass}>
+                      {Object.entries(OWNERSHIP_RIGHT_LABELS).map(([value, label]) => <option key={value} value={value}>{t(label)}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-4 sm:col-span-2">
+                    <label className={smallLabelClass}>{t('registry.share')}</label>
+                    <input type="number" step="0.01" min="0" max="100" value={owner.share} onChange={(e) => updateOwner(idx, 'share', parseFloat(e.target.value))} className={smallInputClass} />
+                  </div>
+                  <div className="col-span-2 sm:col-span-1 flex justify-end">
+                    <button type="button" onClick={() => setOwners(prev => prev.filter((_, i) => i !== idx))} className="p-1.5 text-slate-400 hover:text-red-500" title={t('registry.remove')}>
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {owners.length === 0 && <p className="text-sm text-slate-400 dark:text-slate-500">{t('registry.noOwners')}</p>}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-bold text-slate-800 dark:text-white uppercase tracking-wider">{t('registry.tenantsTitle')}</h3>
+              <button
+                type="button"
+                disabled={persons.length === 0}
+                onClick={() => setTenants(prev => [...prev, { personId: '' }])}
+                className="flex items-center gap-1 text-sm text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                <Plus size={16} /> {t('registry.add')}
+              </button>
+            </div>
+            <div className="space-y-2">
+              {tenants.map((tenant, idx) => (
+                <div key={idx} className="grid grid-cols-12 gap-2 items-end bg-slate-50 dark:bg-slate-700/50 p-3 rounded-lg border border-slate-200 dark:border-slate-600">
+                  <div className="col-span-12 sm:col-span-5">
+                    <label className={smallLabelClass}>{t('registry.person')}</label>
+                    <select value={tenant.personId} onChange={(e) => updateTenant(idx, 'personId', e.target.value)} className={smallInputClass}>
+                      <option value="">{t('registry.select')}</option>
+                      {persons.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="col-span-5 sm:col-span-3">
+                    <label className={smallLabelClass}>{t('registry.tenantFrom')}</label>
+                    <input type="date" value={tenant.startDate || ''} onChange={(e) => updateTenant(idx, 'startDate', e.target.value)} className={smallInputClass} />
+                  </div>
+                  <div className="col-span-5 sm:col-span-3">
+                    <label className={smallLabelClass}>{t('registry.tenantTo')}</label>
+                    <input type="date" value={tenant.endDate || ''} onChange={(e) => updateTenant(idx, 'endDate', e.target.value)} className={smallInputClass} />
+                  </div>
+                  <div className="col-span-2 sm:col-span-1 flex justify-end">
+                    <button type="button" onClick={() => setTenants(prev => prev.filter((_, i) => i !== idx))} className="p-1.5 text-slate-400 hover:text-red-500" title={t('registry.remove')}>
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {tenants.length === 0 && <p className="text-sm text-slate-400 dark:text-slate-500">{t('registry.noTenants')}</p>}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('registry.notes')}</label>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={`${inputClass} min-h-[80px] resize-none`} />
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-5 py-2.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-700 font-medium"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              className="px-5 py-2.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 flex items-center gap-2 font-medium"
+            >
+              <Check size={18} />
+              {isEditing ? t('registry.unitUpdate') : t('registry.unitSave')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import { Unit, Person } from '../types';
+import { Trash2, Pencil, AlertTriangle, Search, Home } from 'lucide-react';
+import { OWNERSHIP_RIGHT_LABELS } from './UnitForm';
+import { useLanguage } from '../i18n/LanguageContext';
+
+interface UnitListProps {
+  units: Unit[];
+  persons: Person[];
+  onDelete: (id: string) => void;
+  onEdit: (unit: Unit) => void;
+}
+
+export const formatCadastral = (unit: Unit) => {
+  const c = unit.cadastral;
+  const parts = [
+    c.sezione ? `Sez. ${c.sezione}` : '',
+    c.foglio ? `Fg. ${c.foglio}` : '',
+    c.particella ? `Part. ${c.particella}` : '',
+    c.subalterno ? `Sub. ${c.subalterno}` : '',
+  ].filter(Boolean);
+  return parts.join(' ');
+};
+
+export const UnitList: React.FC<UnitListProps> = ({ units, persons, onDelete, onEdit }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const [unitToDelete, setUnitToDelete] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const personName = (id: string) => persons.find(p => p.id === id)?.name || '—';
+
+  const filteredUnits = useMemo(() => {
+    const searchLower = searchTerm.toLowerCase();
+    return units
+      .filter(u => {
+        const names = [...u.owners, ...u.tenants].map(o => personName(o.personId)).join(' ');
+        return u.code.toLowerCase().includes(searchLower) ||
+          u.type.toLowerCase().includes(searchLower) ||
+          names.toLowerCase().includes(searchLower);
+      })
+      .sort((a, b) => a.code.localeCompare(b.code, locale, { numeric: true }));
+  }, [units, persons, searchTerm, locale]);
+
+  const executeDelete = () => {
+    if (unitToDelete) {
+      onDelete(unitToDelete);
+      setUnitToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden transition-colors duration-200">
+        <div className="p-6 border-b border-slate-200 dark:border-slate-700 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800 dark:text-white">{t('registry.unitsTitle')}</h2>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('registry.unitsSubtitle')}</p>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 dark:text-slate-500 w-4 h-4" />
+            <input
+              type="text"
+              placeholder={t('registry.search')}
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9 pr-4 py-2 border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-full sm:w-48"
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+              <tr>
+                <th className="px-6 py-3 font-medium">{t('registry.colUnit')}</th>
+                <th className="px-6 py-3 font-medium">{t('registry.colCadastral')}</th>
+                <th className="px-6 py-3 font-medium">{t('registry.colOwners')}</th>
+                <th className="px-6 py-3 font-medium">{t('registry.colTenants')}</th>
+                <th className="px-6 py-3 font-medium text-center">{t('registry.actions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {filteredUnits.length > 0 ? (
+                filteredUnits.map(unit => (
+                  <tr key={unit.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                    <td className="px-6 py-4">
+                      <p className="text-slate-900 dark:text-white font-medium">{unit.code}</p>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">
+                        {unit.type}
+                        {unit.staircase && ` · ${t('registry.staircaseShort').replace('{value}', unit.staircase)}`}
+                        {unit.floor && ` · ${t('registry.floorShort').replace('{value}', unit.floor)}`}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-slate-600 dark:text-slate-300">
+                      <p className="font-mono text-xs">{formatCadastral(unit) || '—'}</p>
+                      {unit.cadastral.categoria && <p className="text-xs text-slate-400 dark:text-slate-500">Cat. {unit.cadastral.categoria}</p>}
+                    </td>
+                    <td className="px-6 py-4 text-slate-600 dark:text-slate-300">
+                      {unit.owners.length > 0 ? unit.owners.map((o, idx) => (
+                        <p key={idx}>
+                          {personName(o.personId)}
+                          <span className="text-xs text-slate-400 dark:text-slate-500 ml-1">
+                            ({o.right !== 'proprieta' ? `${t(OWNERSHIP_RIGHT_LABELS[o.right])} ` : ''}{o.share}%)
+                          </span>
+                        </p>
+                      )) : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-slate-600 dark:text-slate-300">
+                      {unit.tenants.length > 0 ? unit.tenants.map((tenant, idx) => <p key={idx}>{personName(tenant.personId)}</p>) : '—'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center justify-center gap-2">
+                        <button onClick={() => onEdit(unit)} className="text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 p-2 rounded-lg" title={t('registry.editUnit')}><Pencil size={18} /></button>
+                        <button onClick={() => setUnitToDelete(unit.id)} className="text-slate-400 hover:text-red-600 dark:hover:text-red-400 p-2 rounded-lg" title={t('registry.deleteUnit')}><Trash2 size={18} /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={5} className="px-6 py-12 text-center text-slate-500 dark:text-slate-400">
+                    <div className="flex flex-col items-center justify-center gap-2">
+                      <Home className="w-8 h-8 text-slate-300 dark:text-slate-600" />
+                      <p>{t('registry.noUnits')}</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {unitToDelete && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 backdrop-blur-sm animate-fade-in">
+          <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl max-w-sm w-full p-6 border border-slate-200 dark:border-slate-700">
+            <div className="text-center">
+              <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-red-100 dark:bg-red-900/30"><AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" /></div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white mt-3">{t('registry.deleteUnit')}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">{t('registry.deleteUnitMsg')}</p>
+            </div>
+            <div className="mt-5 sm:mt-6 sm:grid sm:grid-cols-2 sm:gap-3 sm:grid-flow-row-dense">
+              <button onClick={executeDelete} type="button" className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-red-600 text-base font-medium text-white hover:bg-red-700">{t('common.delete')}</button>
+              <button onClick={() => setUnitToDelete(null)} type="button" className="mt-3 w-full inline-flex justify-center rounded-md border border-gray-300 dark:border-slate-600 shadow-sm px-4 py-2 bg-white dark:bg-slate-700 text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-600 sm:mt-0">{t('common.cancel')}</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
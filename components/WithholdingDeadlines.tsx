@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { Landmark, Clock, FileText } from 'lucide-react';
+import { Expense } from '../types';
+import { daysBetween } from '../utils';
+import { useLanguage } from '../i18n/LanguageContext';
+import { computeWithholdingDeadlines, WithholdingDeadline, WITHHOLDING_TAX_CODES } from '../services/withholdingService';
+
+interface WithholdingDeadlinesProps {
+  expenses: Expense[];
+  onOpenF24: () => void;
+}
+
+export const WithholdingDeadlines: React.FC<WithholdingDeadlinesProps> = ({ expenses, onOpenF24 }) => {
+  const { t, language } = useLanguage();
+  const locale = language === 'en' ? 'en-US' : (language === 'it' ? 'it-IT' : language);
+  const today = new Date().toISOString().split('T')[0];
+
+  const deadlines = useMemo(() => computeWithholdingDeadlines(expenses, today), [expenses, today]);
+
+  if (deadlines.length === 0) return null;
+
+  const formatCurrency = (val: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: 'EUR' }).format(val);
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(locale);
+  const formatPeriod = (period: string) => {
+    const [year, month] = period.split('-').map(Number);
+    return new Date(year, month - 1).toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+  };
+
+  const dueLabel = (deadline: WithholdingDeadline) => {
+    const days = daysBetween(today, deadline.dueDate);
+    if (days < 0) return t('withholding.overdue');
+    if (days === 0) return t('withholding.dueToday');
+    return t('withholding.dueIn').replace('{days}', days.toString());
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700">
+      <h2 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+        <Landmark className="w-5 h-5 text-indigo-500" />
+        {t('withholding.title')}
+      </h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-4">{t('withholding.subtitle')}</p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-700 text-slate-500 dark:text-slate-300 uppercase tracking-wider text-xs">
+            <tr>
+              <th className="px-4 py-2 font-medium">{t('withholding.dueDate')}</th>
+              <th className="px-4 py-2 font-medium">{t('withholding.taxCode')}</th>
+              <th className="px-4 py-2 font-medium">{t('withholding.period')}</th>
+              <th className="px-4 py-2 font-medium text-right">{t('list.colAmount')}</th>
+              <th className="px-4 py-2 font-medium text-center">{t('list.colActions')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {deadlines.map(deadline => (
+              <tr key={`${deadline.dueDate}-${deadline.taxCode}`} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <p className="font-medium text-slate-800 dark:text-white">{formatDate(deadline.dueDate)}</p>
+                  <p className={`text-xs flex items-center gap-1 ${deadline.overdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-slate-500 dark:text-slate-400'}`}>
+                    <Clock size={10} /> {dueLabel(deadline)}
+                  </p>
+                </td>
+                <td className="px-4 py-3">
+                  <p className="font-mono font-medium text-slate-800 dark:text-white">{deadline.taxCode}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{WITHHOLDING_TAX_CODES[deadline.taxCode]}</p>
+                </td>
+                <td className="px-4 py-3 text-slate-600 dark:text-slate-300">
+                  <p className="capitalize">{formatPeriod(deadline.period)}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{t('withholding.expenses').replace('{count}', deadline.expenses.length.toString())}</p>
+                </td>
+                <td className={`px-4 py-3 text-right font-bold ${deadline.overdue ? 'text-red-600 dark:text-red-400' : 'text-slate-800 dark:text-slate-200'}`}>
+                  {formatCurrency(deadline.total)}
+                </td>
+                <td className="px-4 py-3 text-center">
+                  <button
+                    onClick={onOpenF24}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-green-700 dark:text-green-300 bg-green-50 dark:bg-green-900/30 rounded-lg hover:bg-green-100 dark:hover:bg-green-900/50"
+                  >
+                    <FileText size={14} /> {t('withholding.prepareF24')}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
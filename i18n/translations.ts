@@ -23,7 +23,13 @@ export const translations = {
       newIncome: 'Nuovo Incasso',
       logout: 'Cambia Condominio',
       themeLight: 'Modalità Chiara',
-      themeDark: 'Modalità Scura'
+      themeDark: 'Modalità Scura',
+      registry: 'Anagrafe',
+      settings: 'Impostazioni condominio',
+      quotas: 'Quote',
+      suppliers: 'Fornitori',
+      fiscal: 'Fisco',
+      bankTransactions: 'Movimenti'
     },
     dashboard: {
       overview: 'Panoramica Esercizio',
@@ -45,7 +51,20 @@ export const translations = {
       paidPercentage: '{percent}% del totale',
       overdueTitle: 'Attenzione: Spese Scadute',
       overdueSubtitle: 'Ci sono {count} spese non pagate con data scaduta.',
-      daysOverdue: '{days} gg scaduta'
+      daysOverdue: '{days} gg scaduta',
+      restoreBackup: 'Ripristina Backup',
+      restoreDesc: 'Da file JSON',
+      fiscalYear: 'Esercizio',
+      cashTitle: 'Situazione di cassa {year}',
+      cashAccount: 'Conto',
+      cashOpening: 'Saldo di apertura',
+      cashInflows: 'Entrate',
+      cashOutflows: 'Uscite',
+      cashTransfers: 'Giroconti',
+      cashClosing: 'Saldo al {date}',
+      cashOpeningAt: 'al {date}',
+      cashNotOpen: 'Saldo iniziale al {date}, dopo la chiusura dell\'esercizio',
+      cashTotal: 'Totale'
     },
     list: {
       historyExpenses: 'Storico Spese',
@@ -80,7 +99,9 @@ export const translations = {
       colCurrBalance: 'Saldo Attuale',
       noData: 'Nessun dato trovato.',
       deleteAll: 'Elimina Tutto',
-      confirmDeleteAllMsg: 'Sei sicuro di voler eliminare TUTTI i dati in questa lista? Questa azione è irreversibile e cancellerà definitivamente tutti i record.'
+      confirmDeleteAllMsg: 'Sei sicuro di voler eliminare TUTTI i dati in questa lista? Questa azione è irreversibile e cancellerà definitivamente tutti i record.',
+      withholding: 'Rit.',
+      netToPay: 'netto'
     },
     reports: {
       title: 'Report e Statistiche',
@@ -92,7 +113,688 @@ export const translations = {
       total: 'Totale',
       empty: 'Nessun dato trovato per i criteri selezionati',
       month: 'Mese',
-      category: 'Categoria'
+      category: 'Categoria',
+      groupByRiparto: 'Riparto Consuntivo',
+      groupByBudget: 'Preventivo'
+    },
+    restore: {
+      title: 'Ripristino Backup',
+      condo: 'Condominio',
+      exportDate: 'Data backup',
+      version: 'Versione',
+      otherCondo: 'Il backup appartiene a "{name}", non a "{current}". I dati verranno comunque importati nel condominio corrente.',
+      current: 'Attuali',
+      incoming: 'Nel backup',
+      added: 'Nuovi',
+      conflicts: 'Conflitti (ID)',
+      merge: 'Unisci',
+      mergeDesc: 'Aggiunge i record mancanti e aggiorna quelli con lo stesso ID con la versione del backup.',
+      replace: 'Sostituisci',
+      replaceDesc: 'Cancella i dati attuali del condominio e li sostituisce con quelli del backup.',
+      confirm: 'Ripristina',
+      error: 'Impossibile leggere il backup: {error}',
+      success: 'Ripristino completato.',
+      units: 'Unità immobiliari',
+      persons: 'Persone',
+      millesimiTables: 'Tabelle millesimali',
+      budgets: 'Preventivi',
+      installments: 'Rate',
+      reminders: 'Solleciti',
+      suppliers: 'Fornitori',
+      f24Payments: 'Modelli F24',
+      bankTransactions: 'Movimenti bancari',
+      bankReconciliations: 'Riconciliazioni bancarie',
+      sddMandates: 'Mandati SDD',
+      bankTransfers: 'Giroconti',
+      migrationTitle: 'Aggiornamento dati non riuscito',
+      migrationMessage: 'I dati salvati per "{name}" non sono stati modificati. Scarica una copia dei dati originali prima di contattare l\'assistenza.',
+      migrationDownload: 'Dati originali'
+    },
+    riparto: {
+      title: 'Riparto Consuntivo {year}',
+      unit: 'Unità',
+      owners: 'Proprietari',
+      share: 'Quota a carico',
+      paid: 'Versato',
+      balance: 'Saldo',
+      credit: 'Credito',
+      debit: 'Debito',
+      total: 'Totale',
+      totalExpenses: 'Spese dell\'esercizio',
+      allocated: 'Totale ripartito',
+      byTable: 'Spese per tabella',
+      noTables: 'Nessuna tabella millesimale definita: configurale in Anagrafe > Millesimi.',
+      noUnits: 'Nessuna unità immobiliare in anagrafe.',
+      unallocated: 'Spese senza tabella di riparto (né assegnata né predefinita)',
+      unassignedIncomes: 'Quote incassate non collegate a un\'unità',
+      unbalanced: 'Tabelle che non sommano a 1000 millesimi',
+      exportPdf: 'Esporta PDF',
+      exportExcel: 'Esporta Excel'
+    },
+    budget: {
+      title: 'Preventivo {year}',
+      category: 'Categoria',
+      budgeted: 'Preventivo',
+      actual: 'Consuntivo',
+      remaining: 'Residuo',
+      consumed: 'Consumato',
+      total: 'Totale',
+      threshold: 'Soglia di avviso (%)',
+      warning: '{count} categorie oltre la soglia del {percent}%',
+      statusOver: 'Sforato',
+      statusWarning: 'Vicino al limite',
+      notBudgeted: 'Non preventivata',
+      noBudget: 'Nessun preventivo inserito per il {year}.',
+      create: 'Crea preventivo',
+      edit: 'Modifica preventivo',
+      save: 'Salva preventivo',
+      cancel: 'Annulla',
+      approvalDate: 'Data approvazione assemblea',
+      notes: 'Note',
+      copyPrevious: 'Copia dal {year}'
+    },
+    withholding: {
+      title: 'Scadenze F24 ritenute d\'acconto',
+      subtitle: 'Ritenute operate sui pagamenti ai fornitori e non ancora versate.',
+      dueDate: 'Scadenza',
+      taxCode: 'Codice tributo',
+      period: 'Pagamenti di',
+      expenses: '{count} spese',
+      overdue: 'Scaduta',
+      dueToday: 'Scade oggi',
+      dueIn: 'Tra {days} giorni',
+      prepareF24: 'Prepara F24'
+    },
+    millesimi: {
+      title: 'Tabelle Millesimali',
+      subtitle: 'Ogni tabella deve sommare a {total} millesimi.',
+      import: 'Importa da Excel',
+      export: 'Esporta Excel',
+      exportHint: 'Esporta le tabelle (o un modello vuoto da compilare)',
+      newTable: 'Nuova Tabella',
+      noUnits: 'Inserisci prima le unità immobiliari in anagrafe.',
+      noTables: 'Nessuna tabella definita.',
+      name: 'Nome Tabella',
+      namePlaceholder: 'Es. Proprietà generale, Scala A, Ascensore',
+      description: 'Descrizione',
+      isDefault: 'Tabella predefinita (usata per le categorie senza tabella assegnata)',
+      unit: 'Unità',
+      type: 'Tipo',
+      value: 'Millesimi',
+      total: 'Totale',
+      save: 'Salva Tabella',
+      byCategory: 'Ripartizione per Categoria',
+      byCategoryDesc: 'Tabella con cui ripartire ciascuna categoria di spesa.',
+      defaultOption: 'Predefinita ({name})',
+      noneOption: '— Nessuna —',
+      nameRequired: 'Il nome della tabella è obbligatorio.',
+      invalidValue: 'Valore non valido per l\'unità {code}.',
+      mustBalance: 'La tabella deve sommare a {total} millesimi (totale attuale: {current}).',
+      confirmDelete: 'Eliminare la tabella "{name}"? Le categorie associate torneranno alla tabella predefinita.',
+      imported: 'Importate {count} tabelle.',
+      unknownUnits: 'Unità non trovate in anagrafe (ignorate): {codes}.',
+      unbalanced: 'Attenzione, non sommano a {total}: {names}.',
+      importError: 'Impossibile importare il file: {error}'
+    },
+    reconciliation: {
+      recordExpense: 'Spesa',
+      recordIncome: 'Incasso',
+      recordF24: 'F24',
+      recordTransfer: 'Giroconto',
+      invoiceRef: 'Fatt. {number}',
+      title: 'Riconciliazione bancaria',
+      subtitle: 'Abbina i movimenti dell\'estratto conto alle spese e agli incassi registrati sul conto.',
+      asOf: 'Fino al',
+      bookBalance: 'Saldo contabile',
+      reconciledBalance: 'Saldo riconciliato',
+      difference: 'Differenza (registrazioni da riscontrare)',
+      unmatchedBank: 'Movimenti banca non abbinati',
+      statementBalance: 'Saldo banca al {date}: {amount}',
+      suggestions: 'Abbinamenti proposti ({count})',
+      confirmAll: 'Conferma tutti',
+      score: 'Affidabilità dell\'abbinamento',
+      confirm: 'Conferma',
+      dismiss: 'Scarta',
+      toMatch: 'Da abbinare',
+      selectionDifference: 'Differenza selezione: {amount}',
+      matchSelected: 'Abbina selezionati',
+      bankTransactions: 'Movimenti banca ({count})',
+      allTransactionsMatched: 'Tutti i movimenti importati sono abbinati.',
+      records: 'Registrazioni ({count})',
+      allRecordsMatched: 'Tutte le registrazioni del conto sono riscontrate.',
+      confirmed: 'Abbinamenti confermati ({count})',
+      undo: 'Annulla abbinamento'
+    },
+    arrears: {
+      levelFirst: 'Primo sollecito',
+      levelFormal: 'Diffida e messa in mora',
+      rateLegal: 'tasso legale',
+      rateCustom: 'tasso del regolamento',
+      totalOverdue: 'Totale scaduto',
+      unitsInArrears: '{count} unità morose',
+      bucketDays: '{bucket} giorni',
+      title: 'Morosità',
+      subtitle: 'Rate scadute e non saldate, suddivise per anzianità. Interessi di mora calcolati al {rate}.',
+      colUnit: 'Unità / Proprietari',
+      colOverdue: 'Scaduto',
+      colDays: 'Giorni',
+      colInterest: 'Interessi',
+      colLastReminder: 'Ultimo sollecito',
+      colActions: 'Azioni',
+      alreadyCharged: 'già addebitati {amount}',
+      reminderOf: '{level} del {date}',
+      none: 'Nessuno',
+      chargeInterest: 'Addebita interessi di mora',
+      noArrears: 'Nessuna rata scaduta da incassare.',
+      latePayersTitle: 'Interessi su Pagamenti Tardivi',
+      latePayersDesc: 'Unità in regola che hanno versato rate dopo la scadenza.',
+      registerTitle: 'Registro Solleciti',
+      colDate: 'Data',
+      colRecipient: 'Destinatario',
+      colType: 'Tipo',
+      colAmount: 'Importo',
+      colDeadline: 'Termine',
+      unitCode: 'Unità {code}',
+      noReminders: 'Nessun sollecito inviato.',
+      confirmInterest: 'Addebitare all\'unità {code} interessi di mora per {amount} ({rate})?',
+      noOwner: 'nessun proprietario registrato',
+      confirmReminder: '{level} per l\'unità {code} ({recipients}), importo {amount}, termine {deadline}. Generare e registrare la lettera?',
+      docxError: 'Errore durante la creazione del file Word.',
+      confirmDeleteReminder: 'Eliminare questo sollecito dal registro?'
+    },
+    sdd: {
+      title: 'Addebito quote SDD',
+      subtitle: 'Distinta pain.008 con le rate scadute alla data di addebito, accreditate su {account}',
+      importReturns: 'Importa insoluti',
+      collectionDate: 'Data addebito',
+      generate: 'Genera distinta ({count})',
+      colUnit: 'Unità',
+      colDebtor: 'Debitore',
+      colRemittance: 'Causale',
+      colSequence: 'Sequenza',
+      colAmount: 'Importo',
+      lastReturn: 'Insoluto del {date}: {reason}',
+      noLines: 'Nessuna rata da addebitare alla data indicata.',
+      batchTotal: 'Totale distinta ({count} addebiti)',
+      mandates: 'Mandati',
+      newMandate: 'Nuovo mandato',
+      colReference: 'Identificativo',
+      colHolder: 'Intestatario',
+      colSignature: 'Firma',
+      colStatus: 'Stato',
+      colActions: 'Azioni',
+      edit: 'Modifica',
+      revoke: 'Revoca',
+      unrevoke: 'Annulla revoca',
+      noMandates: 'Nessun mandato registrato.',
+      statusRevoked: 'Revocato il {date}',
+      statusExpired: 'Scaduto',
+      statusFrom: 'Dal {date}',
+      statusActive: 'Attivo',
+      generatedTitle: 'Distinta generata',
+      generatedDesc: '{file}: {count} addebiti per {amount}. Dopo averla caricata nell\'home banking, conferma per registrare gli incassi attesi al {date}.',
+      uploaded: 'Caricata',
+      notYet: 'Non ancora',
+      returnsTitle: 'Insoluti SDD',
+      returnsDesc: '{file}: gli incassi respinti verranno eliminati e le rate torneranno da pagare.',
+      returnLine: 'Addebito del {date} · {reason}',
+      noMatchedReturns: 'Nessun insoluto corrisponde agli addebiti registrati.',
+      unmatchedReturns: '{count} insoluti non corrispondono ad addebiti registrati (già stornati o di altre distinte): {ids}.',
+      applyReturns: 'Registra {count} insoluti',
+      generateError: 'Impossibile generare la distinta: {error}',
+      noReturns: 'Il file non contiene addebiti SDD respinti o stornati.',
+      importError: 'Errore durante l\'importazione: {error}',
+      mandateInUse: 'Il mandato è già stato utilizzato per degli addebiti: revocalo invece di eliminarlo.',
+      confirmDeleteMandate: 'Eliminare il mandato {reference}?',
+      formNew: 'Nuovo Mandato SDD',
+      formEdit: 'Modifica Mandato SDD',
+      reference: 'Identificativo mandato',
+      referencePlaceholder: 'Es. COND-A3-001',
+      scheme: 'Schema',
+      schemeCore: 'CORE (consumatori)',
+      schemeB2b: 'B2B (imprese)',
+      unit: 'Unità',
+      signer: 'Condòmino firmatario',
+      select: 'Seleziona...',
+      debtorName: 'Intestatario del conto',
+      iban: 'IBAN da addebitare',
+      signatureDate: 'Data firma',
+      revokedDate: 'Data revoca (opzionale)',
+      save: 'Salva Mandato',
+      update: 'Aggiorna Mandato',
+      invalidReference: 'L\'identificativo del mandato è obbligatorio: massimo 35 caratteri tra lettere senza accenti, cifre e / - ? : ( ) . , \' + (senza spazi).',
+      duplicateReference: 'Esiste già un mandato con questo identificativo.',
+      missingParties: 'Seleziona l\'unità e il condòmino che ha firmato il mandato.',
+      missingDebtor: 'L\'intestatario del conto è obbligatorio.',
+      invalidIban: 'L\'IBAN non è valido: controlla lunghezza e cifre di controllo.',
+      revokedBeforeSignature: 'La data di revoca non può precedere la data di firma.'
+    },
+    sepa: {
+      title: 'Bonifici SEPA',
+      subtitle: 'Distinta pain.001 da caricare nell\'home banking, con addebito su {account}',
+      executionDate: 'Data esecuzione',
+      generate: 'Genera distinta ({count})',
+      generateError: 'Impossibile generare la distinta: {error}',
+      colDue: 'Scadenza',
+      colCreditor: 'Beneficiario',
+      colRemittance: 'Causale',
+      colAmount: 'Importo',
+      netOfWithholding: 'netto ritenuta',
+      noExpenses: 'Nessuna spesa da pagare.',
+      batchTotal: 'Totale distinta ({count} bonifici)',
+      generatedTitle: 'Distinta generata',
+      generatedDesc: '{file}: {count} bonifici per {amount}. Dopo averla caricata nell\'home banking, conferma per segnare le spese come pagate il {date}.',
+      uploaded: 'Caricata',
+      notYet: 'Non ancora'
+    },
+    f24: {
+      missingAccount: 'Seleziona il conto di addebito dell\'F24.',
+      invalidManualLines: 'Completa le righe aggiuntive con codice tributo di 4 caratteri, anno, eventuale mese (1-12) e importo.',
+      nothingSelected: 'Seleziona almeno una ritenuta o aggiungi una riga tributo.',
+      confirmNoFiscalCode: 'Il codice fiscale del condominio non è impostato: l\'esportazione non sarà accettata dalla banca. Continuare?',
+      noFiscalCode: 'Imposta il codice fiscale del condominio nelle impostazioni: è il contribuente di ogni modello F24.',
+      register: 'Registra F24',
+      registerDesc: 'Le ritenute selezionate risulteranno versate e l\'importo verrà addebitato sul conto scelto.',
+      paymentDate: 'Data di versamento',
+      debitAccount: 'Conto di addebito',
+      select: 'Seleziona...',
+      withholdingsDue: 'Ritenute da versare',
+      noWithholdings: 'Nessuna ritenuta operata in attesa di versamento.',
+      deadlineGroup: 'Codice {code} · pagamenti di {month}',
+      deadlineDue: 'Scadenza {date} · {amount}',
+      paidOn: 'pagata il {date}',
+      otherTaxes: 'Altri tributi',
+      addLine: 'Aggiungi riga',
+      noOtherTaxes: 'Nessun altro tributo nel modello.',
+      taxCode: 'Codice tributo',
+      refMonth: 'Mese rif.',
+      refYear: 'Anno rif.',
+      amountEur: 'Importo (€)',
+      removeLine: 'Rimuovi riga',
+      notes: 'Note',
+      previewTotal: 'Totale F24: {amount}',
+      monthlyTitle: 'Riepilogo mensile',
+      monthlyDesc: 'Tributi versati nel mese, con i totali per codice tributo.',
+      bankCsv: 'CSV banca',
+      colAmount: 'Importo',
+      noPaymentsInMonth: 'Nessun F24 versato in {month}.',
+      codeTotal: 'Totale codice {code}',
+      monthTotal: 'Totale del mese',
+      registeredTitle: 'Modelli F24 registrati',
+      colDate: 'Data',
+      colAccount: 'Conto',
+      colTaxes: 'Tributi',
+      colTotal: 'Totale',
+      colActions: 'Azioni',
+      expensesCount: '{count} spese',
+      downloadPdf: 'Scarica PDF',
+      exportCsv: 'Esporta CSV per la banca',
+      deleteTitle: 'Elimina F24',
+      noPayments: 'Nessun F24 registrato.',
+      deleteMsg: 'Sei sicuro? Le ritenute collegate torneranno da versare e l\'addebito sarà tolto dal saldo del conto.',
+      deletedAccount: 'Conto eliminato'
+    },
+    certifications: {
+      confirmExportAll: 'Verranno scaricati {count} PDF, uno per percipiente. Continuare?',
+      noCondoFiscalCode: 'Codice fiscale del condominio non impostato nelle impostazioni.',
+      missingCodes: '{count} percipienti senza codice fiscale o P.IVA: completali sulle spese o in anagrafe fornitori.',
+      unpaidWithholdings: '{count} percipienti con ritenute non ancora versate con F24.',
+      title: 'Certificazione Unica e 770',
+      subtitle: 'Compensi pagati nell\'anno ai fornitori con ritenuta d\'acconto.',
+      exportAll: 'Tutte le CU',
+      colRecipient: 'Percipiente',
+      colGross: 'Lordo',
+      colTaxable: 'Imponibile',
+      colWithheld: 'Ritenute',
+      colPaid: 'Versate',
+      colCu: 'CU',
+      missingFiscalCode: 'Codice fiscale mancante',
+      paymentsAndCodes: '{count} pagamenti · codici {codes}',
+      downloadPdf: 'Scarica CU in PDF',
+      empty: 'Nessun compenso con ritenuta pagato nel {year}.'
+    },
+    quadroAc: {
+      noCondoFiscalCode: 'Codice fiscale del condominio non impostato nelle impostazioni.',
+      missingCodes: '{count} spese senza codice fiscale o P.IVA del fornitore: non possono essere comunicate.',
+      title: 'Quadro AC - Comunicazione fornitori',
+      subtitle: 'Acquisti di beni e servizi dell\'anno per fornitore, oltre {amount} annui.',
+      colSupplier: 'Fornitore',
+      colTaxId: 'Codice fiscale / P.IVA',
+      colAddress: 'Domicilio fiscale',
+      colPurchases: 'Acquisti',
+      expensesCount: '{count} spese',
+      missingAddress: 'Indirizzo mancante in anagrafe fornitori',
+      empty: 'Nessun fornitore da comunicare per il {year}.',
+      toCompleteTitle: 'Spese da completare',
+      toCompleteDesc: 'Indica il codice fiscale o la P.IVA del fornitore sulla spesa o collegala a un fornitore in anagrafe.',
+      editExpense: 'Modifica spesa',
+      belowThreshold: 'Sotto soglia, non comunicati: {list}.',
+      excluded: 'Esclusi - {reason}: {count} spese per {amount}.',
+      excludedUtility: 'Fornitura di acqua, energia elettrica o gas',
+      excludedWithholding: 'Compenso con ritenuta d\'acconto, già comunicato con il 770'
+    },
+    bankTransactions: {
+      noStatements: 'L\'estratto conto non contiene alcun conto.',
+      ibanNotStated: 'non indicato',
+      ibanMismatch: 'L\'IBAN dell\'estratto conto ({ibans}) non corrisponde a quello del conto "{account}".',
+      noAccountIban: 'Il conto "{account}" non ha un IBAN: impossibile verificare che l\'estratto sia suo.',
+      otherAccountsIgnored: '{count} estratti di altri conti ignorati.',
+      statementCurrency: 'Estratto {id} in {currency}.',
+      statementUnbalanced: 'Estratto {id}: i movimenti non quadrano con i saldi iniziale e finale (differenza {amount}).',
+      importError: 'Errore durante l\'importazione: {error}',
+      skippedRows: 'Righe senza data o importo ignorate: {rows}.',
+      emptyFile: 'Il file è vuoto.',
+      savedMappingApplied: 'Applicato il tracciato salvato per questo conto.',
+      title: 'Movimenti bancari',
+      importedCount: '{count} movimenti importati',
+      bankBalance: ' · saldo banca al {date}: ',
+      importCamt: 'Importa CAMT.053',
+      importCsv: 'Importa CSV/Excel',
+      searchPlaceholder: 'Cerca per controparte o causale...',
+      colDate: 'Data',
+      colCounterparty: 'Controparte',
+      colRemittance: 'Causale',
+      colAmount: 'Importo',
+      colActions: 'Azioni',
+      valueDate: 'valuta {date}',
+      deleteTitle: 'Elimina movimento',
+      empty: 'Nessun movimento. Importa un estratto conto della banca.',
+      total: 'Totale movimenti',
+      importTitle: 'Importa estratto conto',
+      duplicatesNote: '{count} movimenti già importati da un estratto precedente: esclusi salvo diversa scelta.',
+      alreadyPresent: 'Già presente',
+      editMapping: 'Modifica tracciato',
+      closingBalance: 'Saldo finale dell\'estratto al {date}: ',
+      import: 'Importa ({count})',
+      deleteModalTitle: 'Elimina Movimento',
+      deleteMsg: 'Il movimento sarà rimosso. Reimportando l\'estratto conto verrà proposto di nuovo.'
+    },
+    statementMapping: {
+      delimiterSemicolon: 'Punto e virgola (;)',
+      delimiterComma: 'Virgola (,)',
+      delimiterTab: 'Tabulazione',
+      delimiterPipe: 'Barra verticale (|)',
+      amountSigned: 'Importo con segno',
+      amountSplit: 'Colonne Dare / Avere',
+      amountIndicator: 'Importo + colonna segno',
+      dateDmy: 'GG/MM/AAAA',
+      dateMdy: 'MM/GG/AAAA',
+      dateYmd: 'AAAA-MM-GG',
+      none: '- Nessuna -',
+      select: 'Seleziona...',
+      title: 'Tracciato dell\'estratto conto',
+      remembered: 'il tracciato sarà ricordato per le prossime importazioni',
+      headerHint: 'Clicca la riga che contiene i nomi delle colonne: quelle sopra sono ignorate.',
+      delimiter: 'Separatore',
+      headerRow: 'Riga intestazione',
+      dateFormat: 'Formato data',
+      decimalSeparator: 'Separatore decimale',
+      decimalComma: 'Virgola (1.234,56)',
+      decimalPoint: 'Punto (1,234.56)',
+      bookingDate: 'Data contabile *',
+      valueDate: 'Data valuta',
+      counterparty: 'Controparte',
+      amount: 'Importo',
+      debitColumn: 'Colonna Dare (uscite) *',
+      creditColumn: 'Colonna Avere (entrate) *',
+      amountColumn: 'Colonna importo *',
+      signColumn: 'Colonna segno *',
+      debitMarker: 'Valore che indica un addebito',
+      debitMarkerPlaceholder: 'es. D',
+      description: 'Descrizione (le colonne scelte sono unite nell\'ordine di selezione)',
+      missingColumns: 'Colonne non presenti nel file: {columns}. Selezionale di nuovo.',
+      preview: 'Anteprima: {count} movimenti',
+      skippedRows: ' · {count} righe senza data o importo ignorate',
+      next: 'Avanti'
+    },
+    bankTransfer: {
+      invalidAmount: 'L\'importo del giroconto deve essere maggiore di zero.',
+      missingAccounts: 'Seleziona il conto di addebito e quello di accredito.',
+      sameAccount: 'Il conto di addebito e quello di accredito devono essere diversi.',
+      formEdit: 'Modifica Giroconto',
+      formNew: 'Nuovo Giroconto',
+      subtitle: 'Trasferimento tra due conti del condominio: non è né una spesa né un incasso.',
+      from: 'Dal conto',
+      to: 'Al conto',
+      select: 'Seleziona...',
+      amount: 'Importo (€)',
+      date: 'Data',
+      description: 'Descrizione (Opzionale)',
+      descriptionPlaceholder: 'Es. Accantonamento fondo lavori',
+      update: 'Aggiorna Giroconto',
+      save: 'Salva Giroconto'
+    },
+    quotas: {
+      missingFirstDue: 'Indica la scadenza della prima rata.',
+      confirmNoApproval: 'Il preventivo non ha una data di approvazione assembleare. Generare comunque le rate?',
+      confirmReplace: 'Esistono già {count} rate per l\'esercizio {year}. Sostituirle con il nuovo piano?',
+      nothingGenerated: 'Nessuna rata generata: verifica le tabelle millesimali.',
+      noBudgets: 'Nessun preventivo inserito: crealo in Report > Preventivo per generare le rate.',
+      planTitle: 'Genera Piano Rate',
+      planDesc: 'La quota annua di ogni unità è calcolata ripartendo le voci del preventivo con le tabelle millesimali.',
+      budget: 'Preventivo',
+      fiscalYear: 'Esercizio {year}',
+      count: 'Numero rate',
+      firstDue: 'Prima scadenza',
+      interval: 'Cadenza',
+      monthly: 'Mensile',
+      bimonthly: 'Bimestrale',
+      quarterly: 'Trimestrale',
+      fourMonthly: 'Quadrimestrale',
+      semiannual: 'Semestrale',
+      annual: 'Annuale',
+      unallocated: 'Voci escluse perché senza tabella millesimale: {categories}',
+      generate: 'Genera Rate',
+      installmentsTitle: 'Rate Esercizio {year}',
+      installmentsSummary: '{count} rate, totale {amount}',
+      colDue: 'Scadenza',
+      colUnit: 'Unità',
+      colDescription: 'Descrizione',
+      colAmount: 'Importo',
+      colActions: 'Azioni',
+      confirmDelete: 'Eliminare questa rata?',
+      deleteTitle: 'Elimina Rata',
+      noInstallments: 'Nessuna rata generata per questo esercizio.',
+      ledgerTitle: 'Situazione Quote',
+      ledgerDesc: 'I versamenti di ogni unità saldano le rate a partire dalla scadenza più vecchia.',
+      searchPlaceholder: 'Unità o proprietario...',
+      colUnitOwners: 'Unità / Proprietari',
+      colOwed: 'Dovuto',
+      colPaid: 'Versato',
+      colRemaining: 'Residuo',
+      colOverdue: 'Di cui scaduto',
+      credit: 'credito {amount}',
+      paidAmount: 'versato {amount}',
+      statePaid: 'Pagata',
+      statePartial: 'Parziale',
+      stateOutstanding: 'Da pagare',
+      stateOverdue: 'Scaduta',
+      noUnitInstallments: 'Nessuna rata emessa per questa unità.',
+      noUnits: 'Nessuna unità trovata.',
+      total: 'Totale',
+      statementTitle: 'Estratto Conto Condomino',
+      statementDesc: 'Rate addebitate e versamenti ricevuti nel periodo, con saldo progressivo.',
+      statementExportPdf: 'Esporta PDF',
+      statementExportAll: 'Tutti i Condomini',
+      statementConfirmExportAll: 'Verranno scaricati {count} PDF, uno per proprietario. Continuare?',
+      statementNoUnits: 'Nessuna unità in anagrafe: aggiungile per produrre gli estratti conto.',
+      statementOwner: 'Condomino',
+      statementFrom: 'Dal',
+      statementTo: 'Al',
+      statementInvalidPeriod: 'Il periodo indicato non è valido.',
+      statementUnit: 'Unità {code}',
+      statementNoOwner: 'Nessun proprietario registrato',
+      statementNoOwnerGroup: 'Senza proprietario',
+      colDate: 'Data',
+      colDebit: 'Addebiti',
+      colCredit: 'Versamenti',
+      colBalance: 'Saldo',
+      openingBalance: 'Saldo iniziale',
+      closingBalance: 'Saldo finale',
+      balanceDebit: '{amount} a debito',
+      balanceCredit: '{amount} a credito',
+      interestToCharge: 'Interessi di mora maturati e non ancora addebitati ({rate}):',
+      expenseSharesTitle: 'Spese del periodo di competenza'
+    },
+    registry: {
+      tabUnits: 'Unità ({count})',
+      tabPersons: 'Persone ({count})',
+      tabMillesimi: 'Millesimi ({count})',
+      newUnit: 'Nuova Unità',
+      newPerson: 'Nuova Persona',
+      search: 'Cerca...',
+      actions: 'Azioni',
+      notes: 'Note',
+      select: 'Seleziona...',
+      add: 'Aggiungi',
+      remove: 'Rimuovi',
+      personNameRequired: 'Il nome è obbligatorio.',
+      personInvalidFiscalCode: 'Il codice fiscale deve avere 16 caratteri (persona fisica) o 11 cifre (società).',
+      personFormEdit: 'Modifica Persona',
+      personFormNew: 'Nuova Persona',
+      personName: 'Nome e Cognome / Ragione Sociale',
+      personNamePlaceholder: 'Es. Mario Rossi',
+      fiscalCode: 'Codice Fiscale',
+      phone: 'Telefono',
+      address: 'Residenza / Domicilio',
+      addressPlaceholder: 'Via, numero civico, CAP, Comune (Provincia)',
+      email: 'Email',
+      pec: 'PEC',
+      personUpdate: 'Aggiorna Persona',
+      personSave: 'Salva Persona',
+      personsTitle: 'Persone',
+      personsSubtitle: 'Proprietari, titolari di diritti reali e inquilini.',
+      colName: 'Nome',
+      colContacts: 'Contatti',
+      colUnits: 'Unità',
+      roleOwner: '{code} (prop.)',
+      roleTenant: '{code} (inq.)',
+      editPerson: 'Modifica Persona',
+      deletePerson: 'Elimina Persona',
+      noPersons: 'Nessuna persona trovata.',
+      deletePersonMsg: 'Sei sicuro? La persona verrà rimossa anche dalle unità in cui compare come proprietario o inquilino e i mandati SDD che ha firmato verranno eliminati.',
+      rightProprieta: 'Proprietà',
+      rightNudaProprieta: 'Nuda proprietà',
+      rightUsufrutto: 'Usufrutto',
+      unitCodeRequired: 'L\'identificativo dell\'unità è obbligatorio.',
+      unitMissingPerson: 'Seleziona una persona per ogni proprietario e inquilino.',
+      unitInvalidShare: 'Le quote di possesso devono essere comprese tra 0 e 100.',
+      unitShareTotal: 'Le quote di proprietà sommano a {total}%, devono essere pari a 100%.',
+      unitInvalidRendita: 'La rendita catastale non è valida.',
+      unitFormEdit: 'Modifica Unità Immobiliare',
+      unitFormNew: 'Nuova Unità Immobiliare',
+      unitCode: 'Identificativo',
+      unitCodePlaceholder: 'Es. A3, Negozio 1, Box 4',
+      unitType: 'Tipologia',
+      staircase: 'Scala',
+      staircasePlaceholder: 'Es. A',
+      floor: 'Piano',
+      floorPlaceholder: 'Es. 2, T, S1',
+      cadastralData: 'Dati Catastali',
+      sezione: 'Sezione',
+      foglio: 'Foglio',
+      particella: 'Particella',
+      subalterno: 'Subalterno',
+      categoria: 'Categoria',
+      classe: 'Classe',
+      rendita: 'Rendita (€)',
+      noPersonsWarning: 'Nessuna persona in anagrafe. Aggiungi prima proprietari e inquilini dalla sezione Persone.',
+      ownersTitle: 'Proprietari e Titolari di Diritti Reali',
+      person: 'Persona',
+      right: 'Diritto',
+      share: 'Quota %',
+      noOwners: 'Nessun proprietario indicato.',
+      tenantsTitle: 'Inquilini e Comodatari',
+      tenantFrom: 'Dal',
+      tenantTo: 'Al',
+      noTenants: 'Nessun inquilino.',
+      unitUpdate: 'Aggiorna Unità',
+      unitSave: 'Salva Unità',
+      unitsTitle: 'Unità Immobiliari',
+      unitsSubtitle: 'Appartamenti, negozi, box e cantine del condominio con i relativi titolari.',
+      colUnit: 'Unità',
+      colCadastral: 'Dati Catastali',
+      colOwners: 'Proprietari',
+      colTenants: 'Inquilini',
+      staircaseShort: 'Scala {value}',
+      floorShort: 'Piano {value}',
+      editUnit: 'Modifica Unità',
+      deleteUnit: 'Elimina Unità',
+      noUnits: 'Nessuna unità immobiliare trovata.',
+      deleteUnitMsg: 'Sei sicuro? L\'unità verrà rimossa dall\'anagrafe. L\'operazione è irreversibile.'
+    },
+    settings: {
+      invalidFiscalCode: 'Il codice fiscale del condominio non è valido.',
+      invalidCreditorId: 'L\'identificativo creditore SEPA non è valido.',
+      invalidRates: 'Completa la tabella dei tassi con date e percentuali valide.',
+      missingRates: 'Inserisci almeno un tasso del regolamento.',
+      title: 'Impostazioni Condominio',
+      fiscalData: 'Dati fiscali',
+      fiscalCode: 'Codice fiscale del condominio',
+      fiscalCodePlaceholder: 'Es. 91234567890',
+      fiscalCodeHint: 'Riportato come contribuente sui modelli F24 e sulle certificazioni dei fornitori.',
+      creditorId: 'Identificativo creditore SEPA',
+      creditorIdPlaceholder: 'Es. IT66ZZZA1B2C3D4E5F6G7H8',
+      creditorIdHint: 'Rilasciato dalla banca per incassare le quote con addebito diretto SDD.',
+      fiscalYear: 'Esercizio',
+      startMonth: 'Mese di inizio',
+      startDay: 'Giorno di inizio',
+      currentFiscalYear: 'Esercizio corrente:',
+      currentRange: '(dal {start} al {end}).',
+      fiscalYearHint: 'Dashboard, report, preventivi ed esportazioni sono calcolati sull\'esercizio.',
+      interest: 'Interessi di mora',
+      interestMode: 'Tasso applicato',
+      interestLegal: 'Tasso legale',
+      interestCustom: 'Tasso previsto dal regolamento',
+      rateFrom: 'dal {year}',
+      ratePlaceholder: '% annuo',
+      removeRate: 'Rimuovi',
+      addRate: 'Aggiungi tasso',
+      ratesHint: 'Ogni tasso si applica dalla data indicata fino alla variazione successiva.',
+      save: 'Salva Impostazioni'
+    },
+    suppliers: {
+      nameRequired: 'La ragione sociale è obbligatoria.',
+      invalidVat: 'La partita IVA non è valida: deve avere 11 cifre con carattere di controllo corretto.',
+      invalidFiscalCode: 'Il codice fiscale non è valido.',
+      invalidIban: 'L\'IBAN non è valido: controlla lunghezza e cifre di controllo.',
+      formEdit: 'Modifica Fornitore',
+      formNew: 'Nuovo Fornitore',
+      name: 'Ragione Sociale',
+      namePlaceholder: 'Es. Idraulica Bianchi S.r.l.',
+      vatNumber: 'Partita IVA',
+      fiscalCode: 'Codice Fiscale',
+      fiscalCodePlaceholder: 'Se diverso dalla partita IVA',
+      iban: 'IBAN',
+      address: 'Sede',
+      addressPlaceholder: 'Via, numero civico, CAP, Comune (Provincia)',
+      email: 'Email',
+      pec: 'PEC',
+      phone: 'Telefono',
+      defaultCategory: 'Categoria predefinita',
+      noCategory: 'Nessuna',
+      withholding: 'Ritenuta d\'acconto ({rate}%)',
+      noWithholding: 'Non soggetto a ritenuta',
+      defaultAccount: 'Conto di pagamento predefinito',
+      noAccount: 'Nessuno',
+      notes: 'Note',
+      update: 'Aggiorna Fornitore',
+      save: 'Salva Fornitore',
+      title: 'Fornitori',
+      subtitle: 'Anagrafe dei fornitori con il totale delle spese registrate.',
+      search: 'Cerca...',
+      new: 'Nuovo Fornitore',
+      colTaxId: 'P.IVA / C.F.',
+      colContacts: 'Contatti',
+      colSpent: 'Speso',
+      colUnpaid: 'Da pagare',
+      colActions: 'Azioni',
+      expenseCount: '{count} spese',
+      lastExpense: 'ultima {date}',
+      edit: 'Modifica Fornitore',
+      delete: 'Elimina Fornitore',
+      noSuppliers: 'Nessun fornitore trovato.',
+      deleteMsg: 'Sei sicuro? Le spese collegate resteranno registrate ma senza fornitore.'
     },
     common: {
       delete: 'Elimina',
@@ -123,7 +825,13 @@ export const translations = {
       newIncome: 'New Income',
       logout: 'Switch Condo',
       themeLight: 'Light Mode',
-      themeDark: 'Dark Mode'
+      themeDark: 'Dark Mode',
+      registry: 'Registry',
+      settings: 'Condominium settings',
+      quotas: 'Quotas',
+      suppliers: 'Suppliers',
+      fiscal: 'Tax',
+      bankTransactions: 'Transactions'
     },
     dashboard: {
       overview: 'Overview',
@@ -145,7 +853,20 @@ export const translations = {
       paidPercentage: '{percent}% of total',
       overdueTitle: 'Warning: Overdue Expenses',
       overdueSubtitle: 'There are {count} unpaid expenses past their date.',
-      daysOverdue: '{days} days overdue'
+      daysOverdue: '{days} days overdue',
+      restoreBackup: 'Restore Backup',
+      restoreDesc: 'From JSON file',
+      fiscalYear: 'Fiscal year',
+      cashTitle: 'Cash position {year}',
+      cashAccount: 'Account',
+      cashOpening: 'Opening balance',
+      cashInflows: 'Inflows',
+      cashOutflows: 'Outflows',
+      cashTransfers: 'Transfers',
+      cashClosing: 'Balance at {date}',
+      cashOpeningAt: 'at {date}',
+      cashNotOpen: 'Opening balance at {date}, after the end of the fiscal year',
+      cashTotal: 'Total'
     },
     list: {
       historyExpenses: 'Expenses History',
@@ -180,7 +901,9 @@ export const translations = {
       colCurrBalance: 'Curr Balance',
       noData: 'No data found.',
       deleteAll: 'Delete All',
-      confirmDeleteAllMsg: 'Are you sure you want to delete ALL data in this list? This action is irreversible and will permanently remove all records.'
+      confirmDeleteAllMsg: 'Are you sure you want to delete ALL data in this list? This action is irreversible and will permanently remove all records.',
+      withholding: 'WHT',
+      netToPay: 'net'
     },
     reports: {
       title: 'Reports & Stats',
@@ -192,7 +915,688 @@ export const translations = {
       total: 'Total',
       empty: 'No data found for selected criteria',
       month: 'Month',
-      category: 'Category'
+      category: 'Category',
+      groupByRiparto: 'Year-end Allocation',
+      groupByBudget: 'Budget'
+    },
+    restore: {
+      title: 'Restore Backup',
+      condo: 'Condominium',
+      exportDate: 'Backup date',
+      version: 'Version',
+      otherCondo: 'The backup belongs to "{name}", not "{current}". Data will still be imported into the current condominium.',
+      current: 'Current',
+      incoming: 'In backup',
+      added: 'New',
+      conflicts: 'Conflicts (ID)',
+      merge: 'Merge',
+      mergeDesc: 'Adds missing records and updates those with the same ID with the backup version.',
+      replace: 'Replace',
+      replaceDesc: 'Deletes the current condominium data and replaces it with the backup.',
+      confirm: 'Restore',
+      error: 'Unable to read the backup: {error}',
+      success: 'Restore completed.',
+      units: 'Units',
+      persons: 'People',
+      millesimiTables: 'Thousandths tables',
+      budgets: 'Budgets',
+      installments: 'Installments',
+      reminders: 'Reminders',
+      suppliers: 'Suppliers',
+      f24Payments: 'F24 payments',
+      bankTransactions: 'Bank transactions',
+      bankReconciliations: 'Bank reconciliations',
+      sddMandates: 'SDD mandates',
+      bankTransfers: 'Account transfers',
+      migrationTitle: 'Data update failed',
+      migrationMessage: 'The data saved for "{name}" has not been changed. Download a copy of the original data before contacting support.',
+      migrationDownload: 'Original data'
+    },
+    riparto: {
+      title: 'Year-end Allocation {year}',
+      unit: 'Unit',
+      owners: 'Owners',
+      share: 'Share due',
+      paid: 'Paid',
+      balance: 'Balance',
+      credit: 'Credit',
+      debit: 'Debit',
+      total: 'Total',
+      totalExpenses: 'Expenses of the year',
+      allocated: 'Total allocated',
+      byTable: 'Expenses by table',
+      noTables: 'No thousandths tables defined: set them up in Registry > Millesimi.',
+      noUnits: 'No units in the registry.',
+      unallocated: 'Expenses without an allocation table (neither assigned nor default)',
+      unassignedIncomes: 'Collected quotas not linked to a unit',
+      unbalanced: 'Tables not summing to 1000 thousandths',
+      exportPdf: 'Export PDF',
+      exportExcel: 'Export Excel'
+    },
+    budget: {
+      title: 'Budget {year}',
+      category: 'Category',
+      budgeted: 'Budgeted',
+      actual: 'Actual',
+      remaining: 'Remaining',
+      consumed: 'Consumed',
+      total: 'Total',
+      threshold: 'Warning threshold (%)',
+      warning: '{count} categories above the {percent}% threshold',
+      statusOver: 'Over budget',
+      statusWarning: 'Near limit',
+      notBudgeted: 'Not budgeted',
+      noBudget: 'No budget entered for {year}.',
+      create: 'Create budget',
+      edit: 'Edit budget',
+      save: 'Save budget',
+      cancel: 'Cancel',
+      approvalDate: 'Assembly approval date',
+      notes: 'Notes',
+      copyPrevious: 'Copy from {year}'
+    },
+    withholding: {
+      title: 'Withholding tax F24 deadlines',
+      subtitle: 'Tax withheld on supplier payments and not yet paid to the treasury.',
+      dueDate: 'Due date',
+      taxCode: 'Tax code',
+      period: 'Payments of',
+      expenses: '{count} expenses',
+      overdue: 'Overdue',
+      dueToday: 'Due today',
+      dueIn: 'In {days} days',
+      prepareF24: 'Prepare F24'
+    },
+    millesimi: {
+      title: 'Ownership Tables',
+      subtitle: 'Each table must add up to {total} thousandths.',
+      import: 'Import from Excel',
+      export: 'Export Excel',
+      exportHint: 'Export the tables (or an empty template to fill in)',
+      newTable: 'New Table',
+      noUnits: 'Add the units to the registry first.',
+      noTables: 'No tables defined.',
+      name: 'Table Name',
+      namePlaceholder: 'E.g. General ownership, Staircase A, Lift',
+      description: 'Description',
+      isDefault: 'Default table (used for categories without an assigned table)',
+      unit: 'Unit',
+      type: 'Type',
+      value: 'Thousandths',
+      total: 'Total',
+      save: 'Save Table',
+      byCategory: 'Allocation by Category',
+      byCategoryDesc: 'Table used to allocate each expense category.',
+      defaultOption: 'Default ({name})',
+      noneOption: '— None —',
+      nameRequired: 'The table name is required.',
+      invalidValue: 'Invalid value for unit {code}.',
+      mustBalance: 'The table must add up to {total} thousandths (current total: {current}).',
+      confirmDelete: 'Delete the table "{name}"? Its categories will go back to the default table.',
+      imported: 'Imported {count} tables.',
+      unknownUnits: 'Units not found in the registry (skipped): {codes}.',
+      unbalanced: 'Warning, these do not add up to {total}: {names}.',
+      importError: 'Unable to import the file: {error}'
+    },
+    reconciliation: {
+      recordExpense: 'Expense',
+      recordIncome: 'Income',
+      recordF24: 'F24',
+      recordTransfer: 'Transfer',
+      invoiceRef: 'Inv. {number}',
+      title: 'Bank reconciliation',
+      subtitle: 'Match the statement transactions with the expenses and incomes recorded on the account.',
+      asOf: 'Up to',
+      bookBalance: 'Book balance',
+      reconciledBalance: 'Reconciled balance',
+      difference: 'Difference (records to be matched)',
+      unmatchedBank: 'Unmatched bank transactions',
+      statementBalance: 'Bank balance at {date}: {amount}',
+      suggestions: 'Suggested matches ({count})',
+      confirmAll: 'Confirm all',
+      score: 'Match confidence',
+      confirm: 'Confirm',
+      dismiss: 'Dismiss',
+      toMatch: 'To be matched',
+      selectionDifference: 'Selection difference: {amount}',
+      matchSelected: 'Match selected',
+      bankTransactions: 'Bank transactions ({count})',
+      allTransactionsMatched: 'All imported transactions are matched.',
+      records: 'Records ({count})',
+      allRecordsMatched: 'All records on the account are matched.',
+      confirmed: 'Confirmed matches ({count})',
+      undo: 'Undo match'
+    },
+    arrears: {
+      levelFirst: 'First reminder',
+      levelFormal: 'Formal notice of default',
+      rateLegal: 'legal rate',
+      rateCustom: 'bylaws rate',
+      totalOverdue: 'Total overdue',
+      unitsInArrears: '{count} units in arrears',
+      bucketDays: '{bucket} days',
+      title: 'Arrears',
+      subtitle: 'Overdue unpaid installments, grouped by age. Late interest calculated at the {rate}.',
+      colUnit: 'Unit / Owners',
+      colOverdue: 'Overdue',
+      colDays: 'Days',
+      colInterest: 'Interest',
+      colLastReminder: 'Last reminder',
+      colActions: 'Actions',
+      alreadyCharged: 'already charged {amount}',
+      reminderOf: '{level} of {date}',
+      none: 'None',
+      chargeInterest: 'Charge late interest',
+      noArrears: 'No overdue installments to collect.',
+      latePayersTitle: 'Interest on Late Payments',
+      latePayersDesc: 'Units in good standing that paid installments after the due date.',
+      registerTitle: 'Reminder Register',
+      colDate: 'Date',
+      colRecipient: 'Recipient',
+      colType: 'Type',
+      colAmount: 'Amount',
+      colDeadline: 'Deadline',
+      unitCode: 'Unit {code}',
+      noReminders: 'No reminders sent.',
+      confirmInterest: 'Charge unit {code} late interest of {amount} ({rate})?',
+      noOwner: 'no registered owner',
+      confirmReminder: '{level} for unit {code} ({recipients}), amount {amount}, deadline {deadline}. Generate and record the letter?',
+      docxError: 'Error while creating the Word file.',
+      confirmDeleteReminder: 'Remove this reminder from the register?'
+    },
+    sdd: {
+      title: 'SDD quota collection',
+      subtitle: 'pain.008 batch with the installments due by the collection date, credited to {account}',
+      importReturns: 'Import returns',
+      collectionDate: 'Collection date',
+      generate: 'Generate batch ({count})',
+      colUnit: 'Unit',
+      colDebtor: 'Debtor',
+      colRemittance: 'Remittance',
+      colSequence: 'Sequence',
+      colAmount: 'Amount',
+      lastReturn: 'Returned on {date}: {reason}',
+      noLines: 'No installments to collect by the selected date.',
+      batchTotal: 'Batch total ({count} debits)',
+      mandates: 'Mandates',
+      newMandate: 'New mandate',
+      colReference: 'Reference',
+      colHolder: 'Account holder',
+      colSignature: 'Signed',
+      colStatus: 'Status',
+      colActions: 'Actions',
+      edit: 'Edit',
+      revoke: 'Revoke',
+      unrevoke: 'Undo revocation',
+      noMandates: 'No mandates recorded.',
+      statusRevoked: 'Revoked on {date}',
+      statusExpired: 'Expired',
+      statusFrom: 'From {date}',
+      statusActive: 'Active',
+      generatedTitle: 'Batch generated',
+      generatedDesc: '{file}: {count} debits for {amount}. Once uploaded to online banking, confirm to record the expected incomes on {date}.',
+      uploaded: 'Uploaded',
+      notYet: 'Not yet',
+      returnsTitle: 'SDD returns',
+      returnsDesc: '{file}: the returned incomes will be deleted and the installments will be due again.',
+      returnLine: 'Debit of {date} · {reason}',
+      noMatchedReturns: 'No return matches the recorded debits.',
+      unmatchedReturns: '{count} returns do not match recorded debits (already reversed or from other batches): {ids}.',
+      applyReturns: 'Record {count} returns',
+      generateError: 'Unable to generate the batch: {error}',
+      noReturns: 'The file contains no rejected or returned SDD debits.',
+      importError: 'Error during import: {error}',
+      mandateInUse: 'The mandate has already been used for debits: revoke it instead of deleting it.',
+      confirmDeleteMandate: 'Delete mandate {reference}?',
+      formNew: 'New SDD Mandate',
+      formEdit: 'Edit SDD Mandate',
+      reference: 'Mandate reference',
+      referencePlaceholder: 'E.g. COND-A3-001',
+      scheme: 'Scheme',
+      schemeCore: 'CORE (consumers)',
+      schemeB2b: 'B2B (businesses)',
+      unit: 'Unit',
+      signer: 'Signing owner',
+      select: 'Select...',
+      debtorName: 'Account holder',
+      iban: 'IBAN to debit',
+      signatureDate: 'Signature date',
+      revokedDate: 'Revocation date (optional)',
+      save: 'Save Mandate',
+      update: 'Update Mandate',
+      invalidReference: 'The mandate reference is required: up to 35 characters among unaccented letters, digits and / - ? : ( ) . , \' + (no spaces).',
+      duplicateReference: 'A mandate with this reference already exists.',
+      missingParties: 'Select the unit and the owner who signed the mandate.',
+      missingDebtor: 'The account holder is required.',
+      invalidIban: 'The IBAN is not valid: check its length and check digits.',
+      revokedBeforeSignature: 'The revocation date cannot precede the signature date.'
+    },
+    sepa: {
+      title: 'SEPA Credit Transfers',
+      subtitle: 'pain.001 batch to upload to online banking, debited from {account}',
+      executionDate: 'Execution date',
+      generate: 'Generate batch ({count})',
+      generateError: 'Unable to generate the batch: {error}',
+      colDue: 'Due',
+      colCreditor: 'Beneficiary',
+      colRemittance: 'Remittance info',
+      colAmount: 'Amount',
+      netOfWithholding: 'net of withholding',
+      noExpenses: 'No expenses to pay.',
+      batchTotal: 'Batch total ({count} transfers)',
+      generatedTitle: 'Batch generated',
+      generatedDesc: '{file}: {count} transfers for {amount}. After uploading it to online banking, confirm to mark the expenses as paid on {date}.',
+      uploaded: 'Uploaded',
+      notYet: 'Not yet'
+    },
+    f24: {
+      missingAccount: 'Select the account the F24 is debited to.',
+      invalidManualLines: 'Complete the additional lines with a 4-character tax code, year, optional month (1-12) and amount.',
+      nothingSelected: 'Select at least one withholding or add a tax line.',
+      confirmNoFiscalCode: 'The condominium\'s tax code is not set: the bank will not accept the export. Continue?',
+      noFiscalCode: 'Set the condominium\'s tax code in the settings: it is the taxpayer of every F24 form.',
+      register: 'Record F24',
+      registerDesc: 'The selected withholdings will be marked as paid and the amount will be debited to the chosen account.',
+      paymentDate: 'Payment date',
+      debitAccount: 'Debit account',
+      select: 'Select...',
+      withholdingsDue: 'Withholdings to pay',
+      noWithholdings: 'No withholdings awaiting payment.',
+      deadlineGroup: 'Code {code} · payments of {month}',
+      deadlineDue: 'Due {date} · {amount}',
+      paidOn: 'paid on {date}',
+      otherTaxes: 'Other taxes',
+      addLine: 'Add line',
+      noOtherTaxes: 'No other taxes in the form.',
+      taxCode: 'Tax code',
+      refMonth: 'Ref. month',
+      refYear: 'Ref. year',
+      amountEur: 'Amount (€)',
+      removeLine: 'Remove line',
+      notes: 'Notes',
+      previewTotal: 'F24 total: {amount}',
+      monthlyTitle: 'Monthly summary',
+      monthlyDesc: 'Taxes paid in the month, with totals by tax code.',
+      bankCsv: 'Bank CSV',
+      colAmount: 'Amount',
+      noPaymentsInMonth: 'No F24 paid in {month}.',
+      codeTotal: 'Total for code {code}',
+      monthTotal: 'Month total',
+      registeredTitle: 'Recorded F24 forms',
+      colDate: 'Date',
+      colAccount: 'Account',
+      colTaxes: 'Taxes',
+      colTotal: 'Total',
+      colActions: 'Actions',
+      expensesCount: '{count} expenses',
+      downloadPdf: 'Download PDF',
+      exportCsv: 'Export CSV for the bank',
+      deleteTitle: 'Delete F24',
+      noPayments: 'No F24 recorded.',
+      deleteMsg: 'Are you sure? The linked withholdings will be due again and the debit will be removed from the account balance.',
+      deletedAccount: 'Deleted account'
+    },
+    certifications: {
+      confirmExportAll: '{count} PDFs will be downloaded, one per recipient. Continue?',
+      noCondoFiscalCode: 'The condominium\'s tax code is not set in the settings.',
+      missingCodes: '{count} recipients without tax code or VAT number: complete them on the expenses or in the supplier registry.',
+      unpaidWithholdings: '{count} recipients with withholdings not yet paid with F24.',
+      title: 'Certificazione Unica and 770',
+      subtitle: 'Fees paid during the year to suppliers subject to withholding tax.',
+      exportAll: 'All CUs',
+      colRecipient: 'Recipient',
+      colGross: 'Gross',
+      colTaxable: 'Taxable',
+      colWithheld: 'Withheld',
+      colPaid: 'Paid',
+      colCu: 'CU',
+      missingFiscalCode: 'Tax code missing',
+      paymentsAndCodes: '{count} payments · codes {codes}',
+      downloadPdf: 'Download CU as PDF',
+      empty: 'No fees with withholding paid in {year}.'
+    },
+    quadroAc: {
+      noCondoFiscalCode: 'The condominium\'s tax code is not set in the settings.',
+      missingCodes: '{count} expenses without the supplier\'s tax code or VAT number: they cannot be reported.',
+      title: 'Quadro AC - Supplier report',
+      subtitle: 'Purchases of goods and services in the year by supplier, above {amount} per year.',
+      colSupplier: 'Supplier',
+      colTaxId: 'Tax code / VAT number',
+      colAddress: 'Tax domicile',
+      colPurchases: 'Purchases',
+      expensesCount: '{count} expenses',
+      missingAddress: 'Address missing in the supplier registry',
+      empty: 'No suppliers to report for {year}.',
+      toCompleteTitle: 'Expenses to complete',
+      toCompleteDesc: 'Enter the supplier\'s tax code or VAT number on the expense or link it to a supplier in the registry.',
+      editExpense: 'Edit expense',
+      belowThreshold: 'Below threshold, not reported: {list}.',
+      excluded: 'Excluded - {reason}: {count} expenses for {amount}.',
+      excludedUtility: 'Water, electricity or gas supply',
+      excludedWithholding: 'Fee with withholding tax, already reported in the 770'
+    },
+    bankTransactions: {
+      noStatements: 'The bank statement contains no accounts.',
+      ibanNotStated: 'not stated',
+      ibanMismatch: 'The statement IBAN ({ibans}) does not match the IBAN of account "{account}".',
+      noAccountIban: 'Account "{account}" has no IBAN: unable to verify that the statement belongs to it.',
+      otherAccountsIgnored: '{count} statements of other accounts ignored.',
+      statementCurrency: 'Statement {id} in {currency}.',
+      statementUnbalanced: 'Statement {id}: the transactions do not match the opening and closing balances (difference {amount}).',
+      importError: 'Error during import: {error}',
+      skippedRows: 'Rows without date or amount ignored: {rows}.',
+      emptyFile: 'The file is empty.',
+      savedMappingApplied: 'Applied the layout saved for this account.',
+      title: 'Bank transactions',
+      importedCount: '{count} transactions imported',
+      bankBalance: ' · bank balance at {date}: ',
+      importCamt: 'Import CAMT.053',
+      importCsv: 'Import CSV/Excel',
+      searchPlaceholder: 'Search by counterparty or remittance info...',
+      colDate: 'Date',
+      colCounterparty: 'Counterparty',
+      colRemittance: 'Remittance info',
+      colAmount: 'Amount',
+      colActions: 'Actions',
+      valueDate: 'value {date}',
+      deleteTitle: 'Delete transaction',
+      empty: 'No transactions. Import a bank statement.',
+      total: 'Transactions total',
+      importTitle: 'Import bank statement',
+      duplicatesNote: '{count} transactions already imported from a previous statement: excluded unless you choose otherwise.',
+      alreadyPresent: 'Already present',
+      editMapping: 'Edit layout',
+      closingBalance: 'Statement closing balance at {date}: ',
+      import: 'Import ({count})',
+      deleteModalTitle: 'Delete Transaction',
+      deleteMsg: 'The transaction will be removed. Re-importing the bank statement will propose it again.'
+    },
+    statementMapping: {
+      delimiterSemicolon: 'Semicolon (;)',
+      delimiterComma: 'Comma (,)',
+      delimiterTab: 'Tab',
+      delimiterPipe: 'Vertical bar (|)',
+      amountSigned: 'Signed amount',
+      amountSplit: 'Debit / Credit columns',
+      amountIndicator: 'Amount + sign column',
+      dateDmy: 'DD/MM/YYYY',
+      dateMdy: 'MM/DD/YYYY',
+      dateYmd: 'YYYY-MM-DD',
+      none: '- None -',
+      select: 'Select...',
+      title: 'Bank statement layout',
+      remembered: 'the layout will be remembered for future imports',
+      headerHint: 'Click the row containing the column names: the rows above are ignored.',
+      delimiter: 'Delimiter',
+      headerRow: 'Header row',
+      dateFormat: 'Date format',
+      decimalSeparator: 'Decimal separator',
+      decimalComma: 'Comma (1.234,56)',
+      decimalPoint: 'Point (1,234.56)',
+      bookingDate: 'Booking date *',
+      valueDate: 'Value date',
+      counterparty: 'Counterparty',
+      amount: 'Amount',
+      debitColumn: 'Debit column (outflows) *',
+      creditColumn: 'Credit column (inflows) *',
+      amountColumn: 'Amount column *',
+      signColumn: 'Sign column *',
+      debitMarker: 'Value marking a debit',
+      debitMarkerPlaceholder: 'e.g. D',
+      description: 'Description (the chosen columns are joined in selection order)',
+      missingColumns: 'Columns not found in the file: {columns}. Select them again.',
+      preview: 'Preview: {count} transactions',
+      skippedRows: ' · {count} rows without date or amount ignored',
+      next: 'Next'
+    },
+    bankTransfer: {
+      invalidAmount: 'The transfer amount must be greater than zero.',
+      missingAccounts: 'Select the account to debit and the account to credit.',
+      sameAccount: 'The debit and credit accounts must be different.',
+      formEdit: 'Edit Transfer',
+      formNew: 'New Transfer',
+      subtitle: 'Transfer between two of the condominium\'s accounts: it is neither an expense nor an income.',
+      from: 'From account',
+      to: 'To account',
+      select: 'Select...',
+      amount: 'Amount (€)',
+      date: 'Date',
+      description: 'Description (Optional)',
+      descriptionPlaceholder: 'E.g. Works fund allocation',
+      update: 'Update Transfer',
+      save: 'Save Transfer'
+    },
+    quotas: {
+      missingFirstDue: 'Enter the due date of the first installment.',
+      confirmNoApproval: 'The budget has no assembly approval date. Generate the installments anyway?',
+      confirmReplace: 'There are already {count} installments for fiscal year {year}. Replace them with the new plan?',
+      nothingGenerated: 'No installments generated: check the millesimi tables.',
+      noBudgets: 'No budget entered: create one in Reports > Budget to generate installments.',
+      planTitle: 'Generate Installment Plan',
+      planDesc: 'Each unit\'s annual quota is calculated by allocating the budget items with the millesimi tables.',
+      budget: 'Budget',
+      fiscalYear: 'Fiscal year {year}',
+      count: 'Number of installments',
+      firstDue: 'First due date',
+      interval: 'Frequency',
+      monthly: 'Monthly',
+      bimonthly: 'Every two months',
+      quarterly: 'Quarterly',
+      fourMonthly: 'Every four months',
+      semiannual: 'Semiannual',
+      annual: 'Annual',
+      unallocated: 'Items excluded because they have no millesimi table: {categories}',
+      generate: 'Generate Installments',
+      installmentsTitle: 'Installments Fiscal Year {year}',
+      installmentsSummary: '{count} installments, total {amount}',
+      colDue: 'Due',
+      colUnit: 'Unit',
+      colDescription: 'Description',
+      colAmount: 'Amount',
+      colActions: 'Actions',
+      confirmDelete: 'Delete this installment?',
+      deleteTitle: 'Delete Installment',
+      noInstallments: 'No installments generated for this fiscal year.',
+      ledgerTitle: 'Quota Status',
+      ledgerDesc: 'Each unit\'s payments settle the installments starting from the oldest due date.',
+      searchPlaceholder: 'Unit or owner...',
+      colUnitOwners: 'Unit / Owners',
+      colOwed: 'Due',
+      colPaid: 'Paid',
+      colRemaining: 'Remaining',
+      colOverdue: 'Of which overdue',
+      credit: 'credit {amount}',
+      paidAmount: 'paid {amount}',
+      statePaid: 'Paid',
+      statePartial: 'Partial',
+      stateOutstanding: 'Unpaid',
+      stateOverdue: 'Overdue',
+      noUnitInstallments: 'No installments issued for this unit.',
+      noUnits: 'No units found.',
+      total: 'Total',
+      statementTitle: 'Owner Statement',
+      statementDesc: 'Installments charged and payments received in the period, with running balance.',
+      statementExportPdf: 'Export PDF',
+      statementExportAll: 'All Owners',
+      statementConfirmExportAll: '{count} PDFs will be downloaded, one per owner. Continue?',
+      statementNoUnits: 'No units in the registry: add them to produce statements.',
+      statementOwner: 'Owner',
+      statementFrom: 'From',
+      statementTo: 'To',
+      statementInvalidPeriod: 'The period entered is not valid.',
+      statementUnit: 'Unit {code}',
+      statementNoOwner: 'No owner recorded',
+      statementNoOwnerGroup: 'No owner',
+      colDate: 'Date',
+      colDebit: 'Charges',
+      colCredit: 'Payments',
+      colBalance: 'Balance',
+      openingBalance: 'Opening balance',
+      closingBalance: 'Closing balance',
+      balanceDebit: '{amount} owed',
+      balanceCredit: '{amount} in credit',
+      interestToCharge: 'Late interest accrued and not yet charged ({rate}):',
+      expenseSharesTitle: 'Expenses for the period'
+    },
+    registry: {
+      tabUnits: 'Units ({count})',
+      tabPersons: 'People ({count})',
+      tabMillesimi: 'Millesimi ({count})',
+      newUnit: 'New Unit',
+      newPerson: 'New Person',
+      search: 'Search...',
+      actions: 'Actions',
+      notes: 'Notes',
+      select: 'Select...',
+      add: 'Add',
+      remove: 'Remove',
+      personNameRequired: 'The name is required.',
+      personInvalidFiscalCode: 'The tax code must have 16 characters (individual) or 11 digits (company).',
+      personFormEdit: 'Edit Person',
+      personFormNew: 'New Person',
+      personName: 'Full Name / Company Name',
+      personNamePlaceholder: 'E.g. Mario Rossi',
+      fiscalCode: 'Tax Code',
+      phone: 'Phone',
+      address: 'Residence / Address',
+      addressPlaceholder: 'Street, number, postcode, town (province)',
+      email: 'Email',
+      pec: 'PEC',
+      personUpdate: 'Update Person',
+      personSave: 'Save Person',
+      personsTitle: 'People',
+      personsSubtitle: 'Owners, holders of real rights and tenants.',
+      colName: 'Name',
+      colContacts: 'Contacts',
+      colUnits: 'Units',
+      roleOwner: '{code} (owner)',
+      roleTenant: '{code} (tenant)',
+      editPerson: 'Edit Person',
+      deletePerson: 'Delete Person',
+      noPersons: 'No people found.',
+      deletePersonMsg: 'Are you sure? The person will also be removed from the units where they appear as owner or tenant, and the SDD mandates they signed will be deleted.',
+      rightProprieta: 'Ownership',
+      rightNudaProprieta: 'Bare ownership',
+      rightUsufrutto: 'Usufruct',
+      unitCodeRequired: 'The unit identifier is required.',
+      unitMissingPerson: 'Select a person for every owner and tenant.',
+      unitInvalidShare: 'Ownership shares must be between 0 and 100.',
+      unitShareTotal: 'Ownership shares add up to {total}%, they must equal 100%.',
+      unitInvalidRendita: 'The cadastral income is not valid.',
+      unitFormEdit: 'Edit Property Unit',
+      unitFormNew: 'New Property Unit',
+      unitCode: 'Identifier',
+      unitCodePlaceholder: 'E.g. A3, Shop 1, Garage 4',
+      unitType: 'Type',
+      staircase: 'Staircase',
+      staircasePlaceholder: 'E.g. A',
+      floor: 'Floor',
+      floorPlaceholder: 'E.g. 2, G, B1',
+      cadastralData: 'Cadastral Data',
+      sezione: 'Section',
+      foglio: 'Sheet',
+      particella: 'Parcel',
+      subalterno: 'Sub-unit',
+      categoria: 'Category',
+      classe: 'Class',
+      rendita: 'Cadastral income (€)',
+      noPersonsWarning: 'No people in the registry. Add owners and tenants from the People section first.',
+      ownersTitle: 'Owners and Holders of Real Rights',
+      person: 'Person',
+      right: 'Right',
+      share: 'Share %',
+      noOwners: 'No owners specified.',
+      tenantsTitle: 'Tenants and Borrowers',
+      tenantFrom: 'From',
+      tenantTo: 'To',
+      noTenants: 'No tenants.',
+      unitUpdate: 'Update Unit',
+      unitSave: 'Save Unit',
+      unitsTitle: 'Property Units',
+      unitsSubtitle: 'Apartments, shops, garages and cellars of the condominium with their holders.',
+      colUnit: 'Unit',
+      colCadastral: 'Cadastral Data',
+      colOwners: 'Owners',
+      colTenants: 'Tenants',
+      staircaseShort: 'Staircase {value}',
+      floorShort: 'Floor {value}',
+      editUnit: 'Edit Unit',
+      deleteUnit: 'Delete Unit',
+      noUnits: 'No property units found.',
+      deleteUnitMsg: 'Are you sure? The unit will be removed from the registry. This cannot be undone.'
+    },
+    settings: {
+      invalidFiscalCode: 'The condominium\'s tax code is not valid.',
+      invalidCreditorId: 'The SEPA creditor identifier is not valid.',
+      invalidRates: 'Complete the rate table with valid dates and percentages.',
+      missingRates: 'Enter at least one rate from the condominium rules.',
+      title: 'Condominium Settings',
+      fiscalData: 'Tax details',
+      fiscalCode: 'Condominium tax code',
+      fiscalCodePlaceholder: 'E.g. 91234567890',
+      fiscalCodeHint: 'Shown as the taxpayer on F24 forms and on supplier certifications.',
+      creditorId: 'SEPA creditor identifier',
+      creditorIdPlaceholder: 'E.g. IT66ZZZA1B2C3D4E5F6G7H8',
+      creditorIdHint: 'Issued by the bank to collect quotas by SDD direct debit.',
+      fiscalYear: 'Financial year',
+      startMonth: 'Start month',
+      startDay: 'Start day',
+      currentFiscalYear: 'Current financial year:',
+      currentRange: '(from {start} to {end}).',
+      fiscalYearHint: 'Dashboard, reports, budgets and exports are calculated on the financial year.',
+      interest: 'Late-payment interest',
+      interestMode: 'Applied rate',
+      interestLegal: 'Legal rate',
+      interestCustom: 'Rate set by the condominium rules',
+      rateFrom: 'from {year}',
+      ratePlaceholder: '% per year',
+      removeRate: 'Remove',
+      addRate: 'Add rate',
+      ratesHint: 'Each rate applies from the date shown until the next change.',
+      save: 'Save Settings'
+    },
+    suppliers: {
+      nameRequired: 'The company name is required.',
+      invalidVat: 'The VAT number is not valid: it must have 11 digits with a correct check digit.',
+      invalidFiscalCode: 'The tax code is not valid.',
+      invalidIban: 'The IBAN is not valid: check the length and check digits.',
+      formEdit: 'Edit Supplier',
+      formNew: 'New Supplier',
+      name: 'Company Name',
+      namePlaceholder: 'E.g. Idraulica Bianchi S.r.l.',
+      vatNumber: 'VAT Number',
+      fiscalCode: 'Tax Code',
+      fiscalCodePlaceholder: 'If different from the VAT number',
+      iban: 'IBAN',
+      address: 'Registered office',
+      addressPlaceholder: 'Street, number, postcode, town (province)',
+      email: 'Email',
+      pec: 'PEC',
+      phone: 'Phone',
+      defaultCategory: 'Default category',
+      noCategory: 'None',
+      withholding: 'Withholding tax ({rate}%)',
+      noWithholding: 'Not subject to withholding',
+      defaultAccount: 'Default payment account',
+      noAccount: 'None',
+      notes: 'Notes',
+      update: 'Update Supplier',
+      save: 'Save Supplier',
+      title: 'Suppliers',
+      subtitle: 'Supplier registry with the total of recorded expenses.',
+      search: 'Search...',
+      new: 'New Supplier',
+      colTaxId: 'VAT / Tax code',
+      colContacts: 'Contacts',
+      colSpent: 'Spent',
+      colUnpaid: 'To pay',
+      colActions: 'Actions',
+      expenseCount: '{count} expenses',
+      lastExpense: 'last {date}',
+      edit: 'Edit Supplier',
+      delete: 'Delete Supplier',
+      noSuppliers: 'No suppliers found.',
+      deleteMsg: 'Are you sure? Linked expenses will stay recorded but without a supplier.'
     },
     common: {
       delete: 'Delete',
@@ -223,7 +1627,13 @@ export const translations = {
       newIncome: 'Nuevo Ingreso',
       logout: 'Cambiar Condominio',
       themeLight: 'Modo Claro',
-      themeDark: 'Modo Oscuro'
+      themeDark: 'Modo Oscuro',
+      registry: 'Registro',
+      settings: 'Ajustes de la comunidad',
+      quotas: 'Cuotas',
+      suppliers: 'Proveedores',
+      fiscal: 'Fiscal',
+      bankTransactions: 'Movimientos'
     },
     dashboard: {
       overview: 'Resumen del Ejercicio',
@@ -245,7 +1655,20 @@ export const translations = {
       paidPercentage: '{percent}% del total',
       overdueTitle: 'Atención: Gastos Vencidos',
       overdueSubtitle: 'Hay {count} gastos impagos con fecha vencida.',
-      daysOverdue: '{days} días de retraso'
+      daysOverdue: '{days} días de retraso',
+      restoreBackup: 'Restaurar Copia',
+      restoreDesc: 'Desde archivo JSON',
+      fiscalYear: 'Ejercicio',
+      cashTitle: 'Situación de caja {year}',
+      cashAccount: 'Cuenta',
+      cashOpening: 'Saldo de apertura',
+      cashInflows: 'Entradas',
+      cashOutflows: 'Salidas',
+      cashTransfers: 'Traspasos',
+      cashClosing: 'Saldo al {date}',
+      cashOpeningAt: 'al {date}',
+      cashNotOpen: 'Saldo inicial al {date}, posterior al cierre del ejercicio',
+      cashTotal: 'Total'
     },
     list: {
       historyExpenses: 'Historial de Gastos',
@@ -280,7 +1703,9 @@ export const translations = {
       colCurrBalance: 'Saldo Act.',
       noData: 'No se encontraron datos.',
       deleteAll: 'Eliminar Todo',
-      confirmDeleteAllMsg: '¿Estás seguro de que quieres eliminar TODOS los datos de esta lista? Esta acción es irreversible.'
+      confirmDeleteAllMsg: '¿Estás seguro de que quieres eliminar TODOS los datos de esta lista? Esta acción es irreversible.',
+      withholding: 'Ret.',
+      netToPay: 'neto'
     },
     reports: {
       title: 'Informes y Estadísticas',
@@ -292,7 +1717,688 @@ export const translations = {
       total: 'Total',
       empty: 'No se encontraron datos',
       month: 'Mes',
-      category: 'Categoría'
+      category: 'Categoría',
+      groupByRiparto: 'Reparto Anual',
+      groupByBudget: 'Presupuesto'
+    },
+    restore: {
+      title: 'Restaurar Copia',
+      condo: 'Condominio',
+      exportDate: 'Fecha de la copia',
+      version: 'Versión',
+      otherCondo: 'La copia pertenece a "{name}", no a "{current}". Los datos se importarán igualmente en el condominio actual.',
+      current: 'Actuales',
+      incoming: 'En la copia',
+      added: 'Nuevos',
+      conflicts: 'Conflictos (ID)',
+      merge: 'Combinar',
+      mergeDesc: 'Añade los registros que faltan y actualiza los que tienen el mismo ID con la versión de la copia.',
+      replace: 'Reemplazar',
+      replaceDesc: 'Elimina los datos actuales del condominio y los reemplaza con los de la copia.',
+      confirm: 'Restaurar',
+      error: 'No se puede leer la copia: {error}',
+      success: 'Restauración completada.',
+      units: 'Unidades',
+      persons: 'Personas',
+      millesimiTables: 'Tablas de coeficientes',
+      budgets: 'Presupuestos',
+      installments: 'Cuotas',
+      reminders: 'Recordatorios',
+      suppliers: 'Proveedores',
+      f24Payments: 'Modelos F24',
+      bankTransactions: 'Movimientos bancarios',
+      bankReconciliations: 'Conciliaciones bancarias',
+      sddMandates: 'Mandatos SDD',
+      bankTransfers: 'Transferencias entre cuentas',
+      migrationTitle: 'No se pudo actualizar los datos',
+      migrationMessage: 'Los datos guardados para "{name}" no se han modificado. Descarga una copia de los datos originales antes de contactar con el soporte.',
+      migrationDownload: 'Datos originales'
+    },
+    riparto: {
+      title: 'Reparto Anual {year}',
+      unit: 'Unidad',
+      owners: 'Propietarios',
+      share: 'Cuota a cargo',
+      paid: 'Pagado',
+      balance: 'Saldo',
+      credit: 'Crédito',
+      debit: 'Débito',
+      total: 'Total',
+      totalExpenses: 'Gastos del ejercicio',
+      allocated: 'Total repartido',
+      byTable: 'Gastos por tabla',
+      noTables: 'No hay tablas de coeficientes: configúrelas en Registro > Millesimi.',
+      noUnits: 'No hay unidades en el registro.',
+      unallocated: 'Gastos sin tabla de reparto (ni asignada ni predeterminada)',
+      unassignedIncomes: 'Cuotas cobradas no vinculadas a una unidad',
+      unbalanced: 'Tablas que no suman 1000 milésimas',
+      exportPdf: 'Exportar PDF',
+      exportExcel: 'Exportar Excel'
+    },
+    budget: {
+      title: 'Presupuesto {year}',
+      category: 'Categoría',
+      budgeted: 'Presupuestado',
+      actual: 'Real',
+      remaining: 'Restante',
+      consumed: 'Consumido',
+      total: 'Total',
+      threshold: 'Umbral de aviso (%)',
+      warning: '{count} categorías por encima del umbral del {percent}%',
+      statusOver: 'Excedido',
+      statusWarning: 'Cerca del límite',
+      notBudgeted: 'No presupuestada',
+      noBudget: 'No hay presupuesto para {year}.',
+      create: 'Crear presupuesto',
+      edit: 'Editar presupuesto',
+      save: 'Guardar presupuesto',
+      cancel: 'Cancelar',
+      approvalDate: 'Fecha de aprobación en junta',
+      notes: 'Notas',
+      copyPrevious: 'Copiar de {year}'
+    },
+    withholding: {
+      title: 'Vencimientos F24 de retenciones',
+      subtitle: 'Retenciones practicadas en pagos a proveedores y aún no ingresadas.',
+      dueDate: 'Vencimiento',
+      taxCode: 'Código tributo',
+      period: 'Pagos de',
+      expenses: '{count} gastos',
+      overdue: 'Vencida',
+      dueToday: 'Vence hoy',
+      dueIn: 'En {days} días',
+      prepareF24: 'Preparar F24'
+    },
+    millesimi: {
+      title: 'Tablas de Coeficientes',
+      subtitle: 'Cada tabla debe sumar {total} milésimas.',
+      import: 'Importar desde Excel',
+      export: 'Exportar Excel',
+      exportHint: 'Exporta las tablas (o una plantilla vacía para rellenar)',
+      newTable: 'Nueva Tabla',
+      noUnits: 'Añade primero las unidades en el registro.',
+      noTables: 'No hay tablas definidas.',
+      name: 'Nombre de la Tabla',
+      namePlaceholder: 'Ej. Propiedad general, Escalera A, Ascensor',
+      description: 'Descripción',
+      isDefault: 'Tabla predeterminada (usada para las categorías sin tabla asignada)',
+      unit: 'Unidad',
+      type: 'Tipo',
+      value: 'Milésimas',
+      total: 'Total',
+      save: 'Guardar Tabla',
+      byCategory: 'Reparto por Categoría',
+      byCategoryDesc: 'Tabla con la que se reparte cada categoría de gasto.',
+      defaultOption: 'Predeterminada ({name})',
+      noneOption: '— Ninguna —',
+      nameRequired: 'El nombre de la tabla es obligatorio.',
+      invalidValue: 'Valor no válido para la unidad {code}.',
+      mustBalance: 'La tabla debe sumar {total} milésimas (total actual: {current}).',
+      confirmDelete: '¿Eliminar la tabla "{name}"? Sus categorías volverán a la tabla predeterminada.',
+      imported: 'Se importaron {count} tablas.',
+      unknownUnits: 'Unidades no encontradas en el registro (ignoradas): {codes}.',
+      unbalanced: 'Atención, no suman {total}: {names}.',
+      importError: 'No se puede importar el archivo: {error}'
+    },
+    reconciliation: {
+      recordExpense: 'Gasto',
+      recordIncome: 'Ingreso',
+      recordF24: 'F24',
+      recordTransfer: 'Traspaso',
+      invoiceRef: 'Fact. {number}',
+      title: 'Conciliación bancaria',
+      subtitle: 'Empareja los movimientos del extracto con los gastos e ingresos registrados en la cuenta.',
+      asOf: 'Hasta el',
+      bookBalance: 'Saldo contable',
+      reconciledBalance: 'Saldo conciliado',
+      difference: 'Diferencia (registros por conciliar)',
+      unmatchedBank: 'Movimientos bancarios sin emparejar',
+      statementBalance: 'Saldo bancario al {date}: {amount}',
+      suggestions: 'Emparejamientos propuestos ({count})',
+      confirmAll: 'Confirmar todos',
+      score: 'Fiabilidad del emparejamiento',
+      confirm: 'Confirmar',
+      dismiss: 'Descartar',
+      toMatch: 'Por emparejar',
+      selectionDifference: 'Diferencia de la selección: {amount}',
+      matchSelected: 'Emparejar seleccionados',
+      bankTransactions: 'Movimientos bancarios ({count})',
+      allTransactionsMatched: 'Todos los movimientos importados están emparejados.',
+      records: 'Registros ({count})',
+      allRecordsMatched: 'Todos los registros de la cuenta están conciliados.',
+      confirmed: 'Emparejamientos confirmados ({count})',
+      undo: 'Deshacer emparejamiento'
+    },
+    arrears: {
+      levelFirst: 'Primer recordatorio',
+      levelFormal: 'Requerimiento formal de pago',
+      rateLegal: 'tipo legal',
+      rateCustom: 'tipo del reglamento',
+      totalOverdue: 'Total vencido',
+      unitsInArrears: '{count} unidades morosas',
+      bucketDays: '{bucket} días',
+      title: 'Morosidad',
+      subtitle: 'Cuotas vencidas e impagadas, agrupadas por antigüedad. Intereses de demora calculados al {rate}.',
+      colUnit: 'Unidad / Propietarios',
+      colOverdue: 'Vencido',
+      colDays: 'Días',
+      colInterest: 'Intereses',
+      colLastReminder: 'Último recordatorio',
+      colActions: 'Acciones',
+      alreadyCharged: 'ya cargados {amount}',
+      reminderOf: '{level} del {date}',
+      none: 'Ninguno',
+      chargeInterest: 'Cargar intereses de demora',
+      noArrears: 'No hay cuotas vencidas por cobrar.',
+      latePayersTitle: 'Intereses por Pagos Atrasados',
+      latePayersDesc: 'Unidades al corriente que pagaron cuotas después del vencimiento.',
+      registerTitle: 'Registro de Recordatorios',
+      colDate: 'Fecha',
+      colRecipient: 'Destinatario',
+      colType: 'Tipo',
+      colAmount: 'Importe',
+      colDeadline: 'Plazo',
+      unitCode: 'Unidad {code}',
+      noReminders: 'No se han enviado recordatorios.',
+      confirmInterest: '¿Cargar a la unidad {code} intereses de demora por {amount} ({rate})?',
+      noOwner: 'ningún propietario registrado',
+      confirmReminder: '{level} para la unidad {code} ({recipients}), importe {amount}, plazo {deadline}. ¿Generar y registrar la carta?',
+      docxError: 'Error al crear el archivo Word.',
+      confirmDeleteReminder: '¿Eliminar este recordatorio del registro?'
+    },
+    sdd: {
+      title: 'Cobro de cuotas SDD',
+      subtitle: 'Remesa pain.008 con las cuotas vencidas en la fecha de cobro, abonadas en {account}',
+      importReturns: 'Importar devoluciones',
+      collectionDate: 'Fecha de cobro',
+      generate: 'Generar remesa ({count})',
+      colUnit: 'Unidad',
+      colDebtor: 'Deudor',
+      colRemittance: 'Concepto',
+      colSequence: 'Secuencia',
+      colAmount: 'Importe',
+      lastReturn: 'Devuelto el {date}: {reason}',
+      noLines: 'No hay cuotas por cobrar en la fecha indicada.',
+      batchTotal: 'Total de la remesa ({count} adeudos)',
+      mandates: 'Mandatos',
+      newMandate: 'Nuevo mandato',
+      colReference: 'Referencia',
+      colHolder: 'Titular',
+      colSignature: 'Firma',
+      colStatus: 'Estado',
+      colActions: 'Acciones',
+      edit: 'Editar',
+      revoke: 'Revocar',
+      unrevoke: 'Anular revocación',
+      noMandates: 'No hay mandatos registrados.',
+      statusRevoked: 'Revocado el {date}',
+      statusExpired: 'Caducado',
+      statusFrom: 'Desde el {date}',
+      statusActive: 'Activo',
+      generatedTitle: 'Remesa generada',
+      generatedDesc: '{file}: {count} adeudos por {amount}. Tras subirla a la banca online, confirma para registrar los ingresos previstos el {date}.',
+      uploaded: 'Subida',
+      notYet: 'Todavía no',
+      returnsTitle: 'Devoluciones SDD',
+      returnsDesc: '{file}: los ingresos devueltos se eliminarán y las cuotas volverán a estar pendientes.',
+      returnLine: 'Adeudo del {date} · {reason}',
+      noMatchedReturns: 'Ninguna devolución corresponde a los adeudos registrados.',
+      unmatchedReturns: '{count} devoluciones no corresponden a adeudos registrados (ya anulados o de otras remesas): {ids}.',
+      applyReturns: 'Registrar {count} devoluciones',
+      generateError: 'No se puede generar la remesa: {error}',
+      noReturns: 'El archivo no contiene adeudos SDD rechazados o devueltos.',
+      importError: 'Error durante la importación: {error}',
+      mandateInUse: 'El mandato ya se ha usado para adeudos: revócalo en lugar de eliminarlo.',
+      confirmDeleteMandate: '¿Eliminar el mandato {reference}?',
+      formNew: 'Nuevo Mandato SDD',
+      formEdit: 'Editar Mandato SDD',
+      reference: 'Referencia del mandato',
+      referencePlaceholder: 'Ej. COND-A3-001',
+      scheme: 'Esquema',
+      schemeCore: 'CORE (consumidores)',
+      schemeB2b: 'B2B (empresas)',
+      unit: 'Unidad',
+      signer: 'Propietario firmante',
+      select: 'Seleccionar...',
+      debtorName: 'Titular de la cuenta',
+      iban: 'IBAN de cargo',
+      signatureDate: 'Fecha de firma',
+      revokedDate: 'Fecha de revocación (opcional)',
+      save: 'Guardar Mandato',
+      update: 'Actualizar Mandato',
+      invalidReference: 'La referencia del mandato es obligatoria: máximo 35 caracteres entre letras sin acentos, cifras y / - ? : ( ) . , \' + (sin espacios).',
+      duplicateReference: 'Ya existe un mandato con esta referencia.',
+      missingParties: 'Selecciona la unidad y el propietario que firmó el mandato.',
+      missingDebtor: 'El titular de la cuenta es obligatorio.',
+      invalidIban: 'El IBAN no es válido: comprueba la longitud y los dígitos de control.',
+      revokedBeforeSignature: 'La fecha de revocación no puede ser anterior a la fecha de firma.'
+    },
+    sepa: {
+      title: 'Transferencias SEPA',
+      subtitle: 'Remesa pain.001 para cargar en la banca online, con cargo en {account}',
+      executionDate: 'Fecha de ejecución',
+      generate: 'Generar remesa ({count})',
+      generateError: 'No se puede generar la remesa: {error}',
+      colDue: 'Vencimiento',
+      colCreditor: 'Beneficiario',
+      colRemittance: 'Concepto',
+      colAmount: 'Importe',
+      netOfWithholding: 'neto de retención',
+      noExpenses: 'No hay gastos por pagar.',
+      batchTotal: 'Total remesa ({count} transferencias)',
+      generatedTitle: 'Remesa generada',
+      generatedDesc: '{file}: {count} transferencias por {amount}. Después de cargarla en la banca online, confirma para marcar los gastos como pagados el {date}.',
+      uploaded: 'Cargada',
+      notYet: 'Todavía no'
+    },
+    f24: {
+      missingAccount: 'Selecciona la cuenta de cargo del F24.',
+      invalidManualLines: 'Completa las líneas adicionales con un código de tributo de 4 caracteres, año, mes opcional (1-12) e importe.',
+      nothingSelected: 'Selecciona al menos una retención o añade una línea de tributo.',
+      confirmNoFiscalCode: 'El código fiscal de la comunidad no está configurado: el banco no aceptará la exportación. ¿Continuar?',
+      noFiscalCode: 'Configura el código fiscal de la comunidad en los ajustes: es el contribuyente de cada modelo F24.',
+      register: 'Registrar F24',
+      registerDesc: 'Las retenciones seleccionadas quedarán ingresadas y el importe se cargará en la cuenta elegida.',
+      paymentDate: 'Fecha de ingreso',
+      debitAccount: 'Cuenta de cargo',
+      select: 'Seleccionar...',
+      withholdingsDue: 'Retenciones por ingresar',
+      noWithholdings: 'No hay retenciones pendientes de ingreso.',
+      deadlineGroup: 'Código {code} · pagos de {month}',
+      deadlineDue: 'Vencimiento {date} · {amount}',
+      paidOn: 'pagado el {date}',
+      otherTaxes: 'Otros tributos',
+      addLine: 'Añadir línea',
+      noOtherTaxes: 'No hay otros tributos en el modelo.',
+      taxCode: 'Código de tributo',
+      refMonth: 'Mes ref.',
+      refYear: 'Año ref.',
+      amountEur: 'Importe (€)',
+      removeLine: 'Eliminar línea',
+      notes: 'Notas',
+      previewTotal: 'Total F24: {amount}',
+      monthlyTitle: 'Resumen mensual',
+      monthlyDesc: 'Tributos ingresados en el mes, con los totales por código de tributo.',
+      bankCsv: 'CSV banco',
+      colAmount: 'Importe',
+      noPaymentsInMonth: 'Ningún F24 ingresado en {month}.',
+      codeTotal: 'Total código {code}',
+      monthTotal: 'Total del mes',
+      registeredTitle: 'Modelos F24 registrados',
+      colDate: 'Fecha',
+      colAccount: 'Cuenta',
+      colTaxes: 'Tributos',
+      colTotal: 'Total',
+      colActions: 'Acciones',
+      expensesCount: '{count} gastos',
+      downloadPdf: 'Descargar PDF',
+      exportCsv: 'Exportar CSV para el banco',
+      deleteTitle: 'Eliminar F24',
+      noPayments: 'Ningún F24 registrado.',
+      deleteMsg: '¿Estás seguro? Las retenciones vinculadas volverán a estar pendientes y el cargo se quitará del saldo de la cuenta.',
+      deletedAccount: 'Cuenta eliminada'
+    },
+    certifications: {
+      confirmExportAll: 'Se descargarán {count} PDF, uno por perceptor. ¿Continuar?',
+      noCondoFiscalCode: 'El código fiscal de la comunidad no está configurado en los ajustes.',
+      missingCodes: '{count} perceptores sin código fiscal o NIF-IVA: complétalos en los gastos o en el registro de proveedores.',
+      unpaidWithholdings: '{count} perceptores con retenciones aún no ingresadas con F24.',
+      title: 'Certificazione Unica y 770',
+      subtitle: 'Honorarios pagados en el año a proveedores con retención a cuenta.',
+      exportAll: 'Todas las CU',
+      colRecipient: 'Perceptor',
+      colGross: 'Bruto',
+      colTaxable: 'Base imponible',
+      colWithheld: 'Retenciones',
+      colPaid: 'Ingresadas',
+      colCu: 'CU',
+      missingFiscalCode: 'Falta el código fiscal',
+      paymentsAndCodes: '{count} pagos · códigos {codes}',
+      downloadPdf: 'Descargar CU en PDF',
+      empty: 'Ningún honorario con retención pagado en {year}.'
+    },
+    quadroAc: {
+      noCondoFiscalCode: 'El código fiscal de la comunidad no está configurado en los ajustes.',
+      missingCodes: '{count} gastos sin código fiscal o NIF-IVA del proveedor: no se pueden comunicar.',
+      title: 'Quadro AC - Comunicación de proveedores',
+      subtitle: 'Compras de bienes y servicios del año por proveedor, por encima de {amount} anuales.',
+      colSupplier: 'Proveedor',
+      colTaxId: 'Código fiscal / NIF-IVA',
+      colAddress: 'Domicilio fiscal',
+      colPurchases: 'Compras',
+      expensesCount: '{count} gastos',
+      missingAddress: 'Falta la dirección en el registro de proveedores',
+      empty: 'Ningún proveedor que comunicar para {year}.',
+      toCompleteTitle: 'Gastos por completar',
+      toCompleteDesc: 'Indica el código fiscal o el NIF-IVA del proveedor en el gasto o vincúlalo a un proveedor del registro.',
+      editExpense: 'Editar gasto',
+      belowThreshold: 'Por debajo del umbral, no comunicados: {list}.',
+      excluded: 'Excluidos - {reason}: {count} gastos por {amount}.',
+      excludedUtility: 'Suministro de agua, electricidad o gas',
+      excludedWithholding: 'Honorario con retención a cuenta, ya comunicado con el 770'
+    },
+    bankTransactions: {
+      noStatements: 'El extracto no contiene ninguna cuenta.',
+      ibanNotStated: 'no indicado',
+      ibanMismatch: 'El IBAN del extracto ({ibans}) no coincide con el de la cuenta "{account}".',
+      noAccountIban: 'La cuenta "{account}" no tiene IBAN: no se puede verificar que el extracto le pertenezca.',
+      otherAccountsIgnored: '{count} extractos de otras cuentas ignorados.',
+      statementCurrency: 'Extracto {id} en {currency}.',
+      statementUnbalanced: 'Extracto {id}: los movimientos no cuadran con los saldos inicial y final (diferencia {amount}).',
+      importError: 'Error durante la importación: {error}',
+      skippedRows: 'Filas sin fecha o importe ignoradas: {rows}.',
+      emptyFile: 'El archivo está vacío.',
+      savedMappingApplied: 'Se ha aplicado el formato guardado para esta cuenta.',
+      title: 'Movimientos bancarios',
+      importedCount: '{count} movimientos importados',
+      bankBalance: ' · saldo bancario al {date}: ',
+      importCamt: 'Importar CAMT.053',
+      importCsv: 'Importar CSV/Excel',
+      searchPlaceholder: 'Buscar por contraparte o concepto...',
+      colDate: 'Fecha',
+      colCounterparty: 'Contraparte',
+      colRemittance: 'Concepto',
+      colAmount: 'Importe',
+      colActions: 'Acciones',
+      valueDate: 'valor {date}',
+      deleteTitle: 'Eliminar movimiento',
+      empty: 'No hay movimientos. Importa un extracto del banco.',
+      total: 'Total movimientos',
+      importTitle: 'Importar extracto',
+      duplicatesNote: '{count} movimientos ya importados de un extracto anterior: excluidos salvo que elijas lo contrario.',
+      alreadyPresent: 'Ya presente',
+      editMapping: 'Editar formato',
+      closingBalance: 'Saldo final del extracto al {date}: ',
+      import: 'Importar ({count})',
+      deleteModalTitle: 'Eliminar Movimiento',
+      deleteMsg: 'El movimiento se eliminará. Al volver a importar el extracto se propondrá de nuevo.'
+    },
+    statementMapping: {
+      delimiterSemicolon: 'Punto y coma (;)',
+      delimiterComma: 'Coma (,)',
+      delimiterTab: 'Tabulación',
+      delimiterPipe: 'Barra vertical (|)',
+      amountSigned: 'Importe con signo',
+      amountSplit: 'Columnas Debe / Haber',
+      amountIndicator: 'Importe + columna de signo',
+      dateDmy: 'DD/MM/AAAA',
+      dateMdy: 'MM/DD/AAAA',
+      dateYmd: 'AAAA-MM-DD',
+      none: '- Ninguna -',
+      select: 'Seleccionar...',
+      title: 'Formato del extracto',
+      remembered: 'el formato se recordará para las próximas importaciones',
+      headerHint: 'Haz clic en la fila que contiene los nombres de las columnas: las de arriba se ignoran.',
+      delimiter: 'Separador',
+      headerRow: 'Fila de encabezado',
+      dateFormat: 'Formato de fecha',
+      decimalSeparator: 'Separador decimal',
+      decimalComma: 'Coma (1.234,56)',
+      decimalPoint: 'Punto (1,234.56)',
+      bookingDate: 'Fecha contable *',
+      valueDate: 'Fecha valor',
+      counterparty: 'Contraparte',
+      amount: 'Importe',
+      debitColumn: 'Columna Debe (salidas) *',
+      creditColumn: 'Columna Haber (entradas) *',
+      amountColumn: 'Columna importe *',
+      signColumn: 'Columna de signo *',
+      debitMarker: 'Valor que indica un cargo',
+      debitMarkerPlaceholder: 'ej. D',
+      description: 'Descripción (las columnas elegidas se unen en el orden de selección)',
+      missingColumns: 'Columnas no presentes en el archivo: {columns}. Selecciónalas de nuevo.',
+      preview: 'Vista previa: {count} movimientos',
+      skippedRows: ' · {count} filas sin fecha o importe ignoradas',
+      next: 'Siguiente'
+    },
+    bankTransfer: {
+      invalidAmount: 'El importe del traspaso debe ser mayor que cero.',
+      missingAccounts: 'Selecciona la cuenta de cargo y la de abono.',
+      sameAccount: 'La cuenta de cargo y la de abono deben ser distintas.',
+      formEdit: 'Editar Traspaso',
+      formNew: 'Nuevo Traspaso',
+      subtitle: 'Traspaso entre dos cuentas de la comunidad: no es ni un gasto ni un ingreso.',
+      from: 'Desde la cuenta',
+      to: 'A la cuenta',
+      select: 'Seleccionar...',
+      amount: 'Importe (€)',
+      date: 'Fecha',
+      description: 'Descripción (Opcional)',
+      descriptionPlaceholder: 'Ej. Dotación al fondo de obras',
+      update: 'Actualizar Traspaso',
+      save: 'Guardar Traspaso'
+    },
+    quotas: {
+      missingFirstDue: 'Indica el vencimiento de la primera cuota.',
+      confirmNoApproval: 'El presupuesto no tiene fecha de aprobación en junta. ¿Generar las cuotas de todos modos?',
+      confirmReplace: 'Ya existen {count} cuotas para el ejercicio {year}. ¿Sustituirlas por el nuevo plan?',
+      nothingGenerated: 'No se ha generado ninguna cuota: revisa las tablas de coeficientes.',
+      noBudgets: 'No hay presupuestos: crea uno en Informes > Presupuesto para generar las cuotas.',
+      planTitle: 'Generar Plan de Cuotas',
+      planDesc: 'La cuota anual de cada unidad se calcula repartiendo las partidas del presupuesto con las tablas de coeficientes.',
+      budget: 'Presupuesto',
+      fiscalYear: 'Ejercicio {year}',
+      count: 'Número de cuotas',
+      firstDue: 'Primer vencimiento',
+      interval: 'Periodicidad',
+      monthly: 'Mensual',
+      bimonthly: 'Bimestral',
+      quarterly: 'Trimestral',
+      fourMonthly: 'Cuatrimestral',
+      semiannual: 'Semestral',
+      annual: 'Anual',
+      unallocated: 'Partidas excluidas por no tener tabla de coeficientes: {categories}',
+      generate: 'Generar Cuotas',
+      installmentsTitle: 'Cuotas Ejercicio {year}',
+      installmentsSummary: '{count} cuotas, total {amount}',
+      colDue: 'Vencimiento',
+      colUnit: 'Unidad',
+      colDescription: 'Descripción',
+      colAmount: 'Importe',
+      colActions: 'Acciones',
+      confirmDelete: '¿Eliminar esta cuota?',
+      deleteTitle: 'Eliminar Cuota',
+      noInstallments: 'No se han generado cuotas para este ejercicio.',
+      ledgerTitle: 'Situación de Cuotas',
+      ledgerDesc: 'Los pagos de cada unidad saldan las cuotas a partir del vencimiento más antiguo.',
+      searchPlaceholder: 'Unidad o propietario...',
+      colUnitOwners: 'Unidad / Propietarios',
+      colOwed: 'Debido',
+      colPaid: 'Pagado',
+      colRemaining: 'Pendiente',
+      colOverdue: 'De ello vencido',
+      credit: 'crédito {amount}',
+      paidAmount: 'pagado {amount}',
+      statePaid: 'Pagada',
+      statePartial: 'Parcial',
+      stateOutstanding: 'Por pagar',
+      stateOverdue: 'Vencida',
+      noUnitInstallments: 'No hay cuotas emitidas para esta unidad.',
+      noUnits: 'No se han encontrado unidades.',
+      total: 'Total',
+      statementTitle: 'Extracto del Propietario',
+      statementDesc: 'Cuotas cargadas y pagos recibidos en el periodo, con saldo progresivo.',
+      statementExportPdf: 'Exportar PDF',
+      statementExportAll: 'Todos los Propietarios',
+      statementConfirmExportAll: 'Se descargarán {count} PDF, uno por propietario. ¿Continuar?',
+      statementNoUnits: 'No hay unidades en el registro: añádelas para generar los extractos.',
+      statementOwner: 'Propietario',
+      statementFrom: 'Desde',
+      statementTo: 'Hasta',
+      statementInvalidPeriod: 'El periodo indicado no es válido.',
+      statementUnit: 'Unidad {code}',
+      statementNoOwner: 'Ningún propietario registrado',
+      statementNoOwnerGroup: 'Sin propietario',
+      colDate: 'Fecha',
+      colDebit: 'Cargos',
+      colCredit: 'Pagos',
+      colBalance: 'Saldo',
+      openingBalance: 'Saldo inicial',
+      closingBalance: 'Saldo final',
+      balanceDebit: '{amount} a deber',
+      balanceCredit: '{amount} a favor',
+      interestToCharge: 'Intereses de demora devengados y aún no cargados ({rate}):',
+      expenseSharesTitle: 'Gastos del periodo'
+    },
+    registry: {
+      tabUnits: 'Unidades ({count})',
+      tabPersons: 'Personas ({count})',
+      tabMillesimi: 'Coeficientes ({count})',
+      newUnit: 'Nueva Unidad',
+      newPerson: 'Nueva Persona',
+      search: 'Buscar...',
+      actions: 'Acciones',
+      notes: 'Notas',
+      select: 'Seleccionar...',
+      add: 'Añadir',
+      remove: 'Quitar',
+      personNameRequired: 'El nombre es obligatorio.',
+      personInvalidFiscalCode: 'El código fiscal debe tener 16 caracteres (persona física) u 11 dígitos (sociedad).',
+      personFormEdit: 'Editar Persona',
+      personFormNew: 'Nueva Persona',
+      personName: 'Nombre y Apellidos / Razón Social',
+      personNamePlaceholder: 'Ej. Mario Rossi',
+      fiscalCode: 'Código Fiscal',
+      phone: 'Teléfono',
+      address: 'Residencia / Domicilio',
+      addressPlaceholder: 'Calle, número, código postal, municipio (provincia)',
+      email: 'Email',
+      pec: 'PEC',
+      personUpdate: 'Actualizar Persona',
+      personSave: 'Guardar Persona',
+      personsTitle: 'Personas',
+      personsSubtitle: 'Propietarios, titulares de derechos reales e inquilinos.',
+      colName: 'Nombre',
+      colContacts: 'Contactos',
+      colUnits: 'Unidades',
+      roleOwner: '{code} (prop.)',
+      roleTenant: '{code} (inq.)',
+      editPerson: 'Editar Persona',
+      deletePerson: 'Eliminar Persona',
+      noPersons: 'No se encontraron personas.',
+      deletePersonMsg: '¿Estás seguro? La persona también se quitará de las unidades en las que figura como propietario o inquilino y se eliminarán los mandatos SDD que haya firmado.',
+      rightProprieta: 'Propiedad',
+      rightNudaProprieta: 'Nuda propiedad',
+      rightUsufrutto: 'Usufructo',
+      unitCodeRequired: 'El identificador de la unidad es obligatorio.',
+      unitMissingPerson: 'Selecciona una persona para cada propietario e inquilino.',
+      unitInvalidShare: 'Las cuotas de titularidad deben estar entre 0 y 100.',
+      unitShareTotal: 'Las cuotas de propiedad suman {total}%, deben ser igual al 100%.',
+      unitInvalidRendita: 'La renta catastral no es válida.',
+      unitFormEdit: 'Editar Unidad Inmobiliaria',
+      unitFormNew: 'Nueva Unidad Inmobiliaria',
+      unitCode: 'Identificador',
+      unitCodePlaceholder: 'Ej. A3, Local 1, Garaje 4',
+      unitType: 'Tipología',
+      staircase: 'Escalera',
+      staircasePlaceholder: 'Ej. A',
+      floor: 'Planta',
+      floorPlaceholder: 'Ej. 2, B, S1',
+      cadastralData: 'Datos Catastrales',
+      sezione: 'Sección',
+      foglio: 'Hoja',
+      particella: 'Parcela',
+      subalterno: 'Subalterno',
+      categoria: 'Categoría',
+      classe: 'Clase',
+      rendita: 'Renta catastral (€)',
+      noPersonsWarning: 'No hay personas en el registro. Añade primero propietarios e inquilinos desde la sección Personas.',
+      ownersTitle: 'Propietarios y Titulares de Derechos Reales',
+      person: 'Persona',
+      right: 'Derecho',
+      share: 'Cuota %',
+      noOwners: 'Ningún propietario indicado.',
+      tenantsTitle: 'Inquilinos y Comodatarios',
+      tenantFrom: 'Desde',
+      tenantTo: 'Hasta',
+      noTenants: 'Ningún inquilino.',
+      unitUpdate: 'Actualizar Unidad',
+      unitSave: 'Guardar Unidad',
+      unitsTitle: 'Unidades Inmobiliarias',
+      unitsSubtitle: 'Viviendas, locales, garajes y trasteros de la comunidad con sus titulares.',
+      colUnit: 'Unidad',
+      colCadastral: 'Datos Catastrales',
+      colOwners: 'Propietarios',
+      colTenants: 'Inquilinos',
+      staircaseShort: 'Escalera {value}',
+      floorShort: 'Planta {value}',
+      editUnit: 'Editar Unidad',
+      deleteUnit: 'Eliminar Unidad',
+      noUnits: 'No se encontraron unidades inmobiliarias.',
+      deleteUnitMsg: '¿Estás seguro? La unidad se eliminará del registro. La operación es irreversible.'
+    },
+    settings: {
+      invalidFiscalCode: 'El código fiscal de la comunidad no es válido.',
+      invalidCreditorId: 'El identificador de acreedor SEPA no es válido.',
+      invalidRates: 'Completa la tabla de tipos con fechas y porcentajes válidos.',
+      missingRates: 'Introduce al menos un tipo del reglamento.',
+      title: 'Ajustes de la Comunidad',
+      fiscalData: 'Datos fiscales',
+      fiscalCode: 'Código fiscal de la comunidad',
+      fiscalCodePlaceholder: 'Ej. 91234567890',
+      fiscalCodeHint: 'Figura como contribuyente en los modelos F24 y en las certificaciones de los proveedores.',
+      creditorId: 'Identificador de acreedor SEPA',
+      creditorIdPlaceholder: 'Ej. IT66ZZZA1B2C3D4E5F6G7H8',
+      creditorIdHint: 'Lo emite el banco para cobrar las cuotas mediante adeudo directo SDD.',
+      fiscalYear: 'Ejercicio',
+      startMonth: 'Mes de inicio',
+      startDay: 'Día de inicio',
+      currentFiscalYear: 'Ejercicio actual:',
+      currentRange: '(del {start} al {end}).',
+      fiscalYearHint: 'El panel, los informes, los presupuestos y las exportaciones se calculan sobre el ejercicio.',
+      interest: 'Intereses de demora',
+      interestMode: 'Tipo aplicado',
+      interestLegal: 'Tipo legal',
+      interestCustom: 'Tipo previsto en el reglamento',
+      rateFrom: 'desde {year}',
+      ratePlaceholder: '% anual',
+      removeRate: 'Quitar',
+      addRate: 'Añadir tipo',
+      ratesHint: 'Cada tipo se aplica desde la fecha indicada hasta el siguiente cambio.',
+      save: 'Guardar Ajustes'
+    },
+    suppliers: {
+      nameRequired: 'La razón social es obligatoria.',
+      invalidVat: 'El número de IVA no es válido: debe tener 11 dígitos con el dígito de control correcto.',
+      invalidFiscalCode: 'El código fiscal no es válido.',
+      invalidIban: 'El IBAN no es válido: comprueba la longitud y los dígitos de control.',
+      formEdit: 'Editar Proveedor',
+      formNew: 'Nuevo Proveedor',
+      name: 'Razón Social',
+      namePlaceholder: 'Ej. Idraulica Bianchi S.r.l.',
+      vatNumber: 'Número de IVA',
+      fiscalCode: 'Código Fiscal',
+      fiscalCodePlaceholder: 'Si es distinto del número de IVA',
+      iban: 'IBAN',
+      address: 'Domicilio social',
+      addressPlaceholder: 'Calle, número, código postal, municipio (provincia)',
+      email: 'Email',
+      pec: 'PEC',
+      phone: 'Teléfono',
+      defaultCategory: 'Categoría predeterminada',
+      noCategory: 'Ninguna',
+      withholding: 'Retención a cuenta ({rate}%)',
+      noWithholding: 'No sujeto a retención',
+      defaultAccount: 'Cuenta de pago predeterminada',
+      noAccount: 'Ninguna',
+      notes: 'Notas',
+      update: 'Actualizar Proveedor',
+      save: 'Guardar Proveedor',
+      title: 'Proveedores',
+      subtitle: 'Registro de proveedores con el total de los gastos registrados.',
+      search: 'Buscar...',
+      new: 'Nuevo Proveedor',
+      colTaxId: 'IVA / C.F.',
+      colContacts: 'Contactos',
+      colSpent: 'Gastado',
+      colUnpaid: 'Por pagar',
+      colActions: 'Acciones',
+      expenseCount: '{count} gastos',
+      lastExpense: 'último {date}',
+      edit: 'Editar Proveedor',
+      delete: 'Eliminar Proveedor',
+      noSuppliers: 'No se encontraron proveedores.',
+      deleteMsg: '¿Estás seguro? Los gastos vinculados seguirán registrados pero sin proveedor.'
     },
     common: {
       delete: 'Eliminar',
@@ -323,7 +2429,13 @@ export const translations = {
       newIncome: 'Nouvelle Recette',
       logout: 'Changer Copro',
       themeLight: 'Mode Clair',
-      themeDark: 'Mode Sombre'
+      themeDark: 'Mode Sombre',
+      registry: 'Registre',
+      settings: 'Paramètres de la copropriété',
+      quotas: 'Appels de fonds',
+      suppliers: 'Fournisseurs',
+      fiscal: 'Fiscalité',
+      bankTransactions: 'Opérations'
     },
     dashboard: {
       overview: 'Aperçu de l\'Exercice',
@@ -345,7 +2457,20 @@ export const translations = {
       paidPercentage: '{percent}% du total',
       overdueTitle: 'Attention: Dépenses En Retard',
       overdueSubtitle: 'Il y a {count} dépenses impayées en retard.',
-      daysOverdue: '{days} j. de retard'
+      daysOverdue: '{days} j. de retard',
+      restoreBackup: 'Restaurer Sauvegarde',
+      restoreDesc: 'Depuis un fichier JSON',
+      fiscalYear: 'Exercice',
+      cashTitle: 'Situation de trésorerie {year}',
+      cashAccount: 'Compte',
+      cashOpening: 'Solde d\'ouverture',
+      cashInflows: 'Entrées',
+      cashOutflows: 'Sorties',
+      cashTransfers: 'Virements internes',
+      cashClosing: 'Solde au {date}',
+      cashOpeningAt: 'au {date}',
+      cashNotOpen: 'Solde initial au {date}, après la clôture de l\'exercice',
+      cashTotal: 'Total'
     },
     list: {
       historyExpenses: 'Historique Dépenses',
@@ -380,7 +2505,9 @@ export const translations = {
       colCurrBalance: 'Solde Act.',
       noData: 'Aucune donnée trouvée.',
       deleteAll: 'Tout Supprimer',
-      confirmDeleteAllMsg: 'Êtes-vous sûr de vouloir supprimer TOUTES les données de cette liste ? Cette action est irréversible.'
+      confirmDeleteAllMsg: 'Êtes-vous sûr de vouloir supprimer TOUTES les données de cette liste ? Cette action est irréversible.',
+      withholding: 'Ret.',
+      netToPay: 'net'
     },
     reports: {
       title: 'Rapports et Statistiques',
@@ -392,7 +2519,688 @@ export const translations = {
       total: 'Total',
       empty: 'Aucune donnée trouvée',
       month: 'Mois',
-      category: 'Catégorie'
+      category: 'Catégorie',
+      groupByRiparto: 'Répartition Annuelle',
+      groupByBudget: 'Budget'
+    },
+    restore: {
+      title: 'Restaurer la Sauvegarde',
+      condo: 'Copropriété',
+      exportDate: 'Date de sauvegarde',
+      version: 'Version',
+      otherCondo: 'La sauvegarde appartient à "{name}", pas à "{current}". Les données seront tout de même importées dans la copropriété actuelle.',
+      current: 'Actuels',
+      incoming: 'Dans la sauvegarde',
+      added: 'Nouveaux',
+      conflicts: 'Conflits (ID)',
+      merge: 'Fusionner',
+      mergeDesc: 'Ajoute les enregistrements manquants et met à jour ceux ayant le même ID avec la version de la sauvegarde.',
+      replace: 'Remplacer',
+      replaceDesc: 'Supprime les données actuelles de la copropriété et les remplace par celles de la sauvegarde.',
+      confirm: 'Restaurer',
+      error: 'Impossible de lire la sauvegarde : {error}',
+      success: 'Restauration terminée.',
+      units: 'Lots',
+      persons: 'Personnes',
+      millesimiTables: 'Tableaux de tantièmes',
+      budgets: 'Budgets',
+      installments: 'Échéances',
+      reminders: 'Relances',
+      suppliers: 'Fournisseurs',
+      f24Payments: 'Modèles F24',
+      bankTransactions: 'Opérations bancaires',
+      bankReconciliations: 'Rapprochements bancaires',
+      sddMandates: 'Mandats SDD',
+      bankTransfers: 'Virements internes',
+      migrationTitle: 'Échec de la mise à jour des données',
+      migrationMessage: 'Les données enregistrées pour « {name} » n\'ont pas été modifiées. Téléchargez une copie des données d\'origine avant de contacter l\'assistance.',
+      migrationDownload: 'Données d\'origine'
+    },
+    riparto: {
+      title: 'Répartition Annuelle {year}',
+      unit: 'Lot',
+      owners: 'Propriétaires',
+      share: 'Quote-part',
+      paid: 'Versé',
+      balance: 'Solde',
+      credit: 'Crédit',
+      debit: 'Débit',
+      total: 'Total',
+      totalExpenses: 'Dépenses de l\'exercice',
+      allocated: 'Total réparti',
+      byTable: 'Dépenses par tableau',
+      noTables: 'Aucun tableau de tantièmes : configurez-les dans Registre > Millesimi.',
+      noUnits: 'Aucun lot dans le registre.',
+      unallocated: 'Dépenses sans tableau de répartition (ni assigné ni par défaut)',
+      unassignedIncomes: 'Quotes-parts encaissées non liées à un lot',
+      unbalanced: 'Tableaux dont la somme n\'est pas 1000 tantièmes',
+      exportPdf: 'Exporter PDF',
+      exportExcel: 'Exporter Excel'
+    },
+    budget: {
+      title: 'Budget {year}',
+      category: 'Catégorie',
+      budgeted: 'Budgété',
+      actual: 'Réel',
+      remaining: 'Restant',
+      consumed: 'Consommé',
+      total: 'Total',
+      threshold: 'Seuil d\'alerte (%)',
+      warning: '{count} catégories au-delà du seuil de {percent}%',
+      statusOver: 'Dépassé',
+      statusWarning: 'Proche de la limite',
+      notBudgeted: 'Non budgétée',
+      noBudget: 'Aucun budget saisi pour {year}.',
+      create: 'Créer le budget',
+      edit: 'Modifier le budget',
+      save: 'Enregistrer le budget',
+      cancel: 'Annuler',
+      approvalDate: 'Date d\'approbation en assemblée',
+      notes: 'Notes',
+      copyPrevious: 'Copier depuis {year}'
+    },
+    withholding: {
+      title: 'Échéances F24 des retenues à la source',
+      subtitle: 'Retenues opérées sur les paiements aux fournisseurs et pas encore versées.',
+      dueDate: 'Échéance',
+      taxCode: 'Code d\'impôt',
+      period: 'Paiements de',
+      expenses: '{count} dépenses',
+      overdue: 'En retard',
+      dueToday: 'Échéance aujourd\'hui',
+      dueIn: 'Dans {days} jours',
+      prepareF24: 'Préparer F24'
+    },
+    millesimi: {
+      title: 'Tableaux de Tantièmes',
+      subtitle: 'Chaque tableau doit totaliser {total} millièmes.',
+      import: 'Importer depuis Excel',
+      export: 'Exporter Excel',
+      exportHint: 'Exporter les tableaux (ou un modèle vide à remplir)',
+      newTable: 'Nouveau Tableau',
+      noUnits: 'Ajoutez d\'abord les lots au registre.',
+      noTables: 'Aucun tableau défini.',
+      name: 'Nom du Tableau',
+      namePlaceholder: 'Ex. Charges générales, Escalier A, Ascenseur',
+      description: 'Description',
+      isDefault: 'Tableau par défaut (utilisé pour les catégories sans tableau attribué)',
+      unit: 'Lot',
+      type: 'Type',
+      value: 'Millièmes',
+      total: 'Total',
+      save: 'Enregistrer le Tableau',
+      byCategory: 'Répartition par Catégorie',
+      byCategoryDesc: 'Tableau utilisé pour répartir chaque catégorie de dépense.',
+      defaultOption: 'Par défaut ({name})',
+      noneOption: '— Aucun —',
+      nameRequired: 'Le nom du tableau est obligatoire.',
+      invalidValue: 'Valeur non valide pour le lot {code}.',
+      mustBalance: 'Le tableau doit totaliser {total} millièmes (total actuel : {current}).',
+      confirmDelete: 'Supprimer le tableau "{name}" ? Ses catégories reviendront au tableau par défaut.',
+      imported: '{count} tableaux importés.',
+      unknownUnits: 'Lots introuvables dans le registre (ignorés) : {codes}.',
+      unbalanced: 'Attention, ne totalisent pas {total} : {names}.',
+      importError: 'Impossible d\'importer le fichier : {error}'
+    },
+    reconciliation: {
+      recordExpense: 'Dépense',
+      recordIncome: 'Recette',
+      recordF24: 'F24',
+      recordTransfer: 'Virement interne',
+      invoiceRef: 'Fact. {number}',
+      title: 'Rapprochement bancaire',
+      subtitle: 'Rapprochez les opérations du relevé des dépenses et recettes enregistrées sur le compte.',
+      asOf: 'Jusqu\'au',
+      bookBalance: 'Solde comptable',
+      reconciledBalance: 'Solde rapproché',
+      difference: 'Écart (écritures à rapprocher)',
+      unmatchedBank: 'Opérations bancaires non rapprochées',
+      statementBalance: 'Solde bancaire au {date} : {amount}',
+      suggestions: 'Rapprochements proposés ({count})',
+      confirmAll: 'Tout confirmer',
+      score: 'Fiabilité du rapprochement',
+      confirm: 'Confirmer',
+      dismiss: 'Écarter',
+      toMatch: 'À rapprocher',
+      selectionDifference: 'Écart de la sélection : {amount}',
+      matchSelected: 'Rapprocher la sélection',
+      bankTransactions: 'Opérations bancaires ({count})',
+      allTransactionsMatched: 'Toutes les opérations importées sont rapprochées.',
+      records: 'Écritures ({count})',
+      allRecordsMatched: 'Toutes les écritures du compte sont rapprochées.',
+      confirmed: 'Rapprochements confirmés ({count})',
+      undo: 'Annuler le rapprochement'
+    },
+    arrears: {
+      levelFirst: 'Premier rappel',
+      levelFormal: 'Mise en demeure',
+      rateLegal: 'taux légal',
+      rateCustom: 'taux du règlement',
+      totalOverdue: 'Total échu',
+      unitsInArrears: '{count} lots en retard',
+      bucketDays: '{bucket} jours',
+      title: 'Impayés',
+      subtitle: 'Échéances échues et non réglées, par ancienneté. Intérêts de retard calculés au {rate}.',
+      colUnit: 'Lot / Propriétaires',
+      colOverdue: 'Échu',
+      colDays: 'Jours',
+      colInterest: 'Intérêts',
+      colLastReminder: 'Dernier rappel',
+      colActions: 'Actions',
+      alreadyCharged: 'déjà facturés {amount}',
+      reminderOf: '{level} du {date}',
+      none: 'Aucun',
+      chargeInterest: 'Facturer les intérêts de retard',
+      noArrears: 'Aucune échéance échue à encaisser.',
+      latePayersTitle: 'Intérêts sur Paiements Tardifs',
+      latePayersDesc: 'Lots à jour ayant réglé des échéances après la date prévue.',
+      registerTitle: 'Registre des Rappels',
+      colDate: 'Date',
+      colRecipient: 'Destinataire',
+      colType: 'Type',
+      colAmount: 'Montant',
+      colDeadline: 'Délai',
+      unitCode: 'Lot {code}',
+      noReminders: 'Aucun rappel envoyé.',
+      confirmInterest: 'Facturer au lot {code} des intérêts de retard de {amount} ({rate}) ?',
+      noOwner: 'aucun propriétaire enregistré',
+      confirmReminder: '{level} pour le lot {code} ({recipients}), montant {amount}, délai {deadline}. Générer et enregistrer la lettre ?',
+      docxError: 'Erreur lors de la création du fichier Word.',
+      confirmDeleteReminder: 'Supprimer ce rappel du registre ?'
+    },
+    sdd: {
+      title: 'Prélèvement des quotes-parts SDD',
+      subtitle: 'Remise pain.008 avec les échéances dues à la date de prélèvement, créditées sur {account}',
+      importReturns: 'Importer les impayés',
+      collectionDate: 'Date de prélèvement',
+      generate: 'Générer la remise ({count})',
+      colUnit: 'Lot',
+      colDebtor: 'Débiteur',
+      colRemittance: 'Libellé',
+      colSequence: 'Séquence',
+      colAmount: 'Montant',
+      lastReturn: 'Impayé du {date} : {reason}',
+      noLines: 'Aucune échéance à prélever à la date indiquée.',
+      batchTotal: 'Total de la remise ({count} prélèvements)',
+      mandates: 'Mandats',
+      newMandate: 'Nouveau mandat',
+      colReference: 'Référence',
+      colHolder: 'Titulaire',
+      colSignature: 'Signature',
+      colStatus: 'État',
+      colActions: 'Actions',
+      edit: 'Modifier',
+      revoke: 'Révoquer',
+      unrevoke: 'Annuler la révocation',
+      noMandates: 'Aucun mandat enregistré.',
+      statusRevoked: 'Révoqué le {date}',
+      statusExpired: 'Expiré',
+      statusFrom: 'À partir du {date}',
+      statusActive: 'Actif',
+      generatedTitle: 'Remise générée',
+      generatedDesc: '{file} : {count} prélèvements pour {amount}. Après l\'envoi sur la banque en ligne, confirmez pour enregistrer les recettes attendues au {date}.',
+      uploaded: 'Envoyée',
+      notYet: 'Pas encore',
+      returnsTitle: 'Impayés SDD',
+      returnsDesc: '{file} : les recettes rejetées seront supprimées et les échéances redeviendront dues.',
+      returnLine: 'Prélèvement du {date} · {reason}',
+      noMatchedReturns: 'Aucun impayé ne correspond aux prélèvements enregistrés.',
+      unmatchedReturns: '{count} impayés ne correspondent à aucun prélèvement enregistré (déjà annulés ou d\'autres remises) : {ids}.',
+      applyReturns: 'Enregistrer {count} impayés',
+      generateError: 'Impossible de générer la remise : {error}',
+      noReturns: 'Le fichier ne contient aucun prélèvement SDD rejeté ou retourné.',
+      importError: 'Erreur lors de l\'importation : {error}',
+      mandateInUse: 'Le mandat a déjà servi à des prélèvements : révoquez-le au lieu de le supprimer.',
+      confirmDeleteMandate: 'Supprimer le mandat {reference} ?',
+      formNew: 'Nouveau Mandat SDD',
+      formEdit: 'Modifier le Mandat SDD',
+      reference: 'Référence du mandat',
+      referencePlaceholder: 'Ex. COND-A3-001',
+      scheme: 'Schéma',
+      schemeCore: 'CORE (particuliers)',
+      schemeB2b: 'B2B (entreprises)',
+      unit: 'Lot',
+      signer: 'Copropriétaire signataire',
+      select: 'Sélectionner...',
+      debtorName: 'Titulaire du compte',
+      iban: 'IBAN à débiter',
+      signatureDate: 'Date de signature',
+      revokedDate: 'Date de révocation (facultatif)',
+      save: 'Enregistrer le Mandat',
+      update: 'Mettre à jour le Mandat',
+      invalidReference: 'La référence du mandat est obligatoire : 35 caractères maximum parmi lettres sans accents, chiffres et / - ? : ( ) . , \' + (sans espaces).',
+      duplicateReference: 'Un mandat avec cette référence existe déjà.',
+      missingParties: 'Sélectionnez le lot et le copropriétaire qui a signé le mandat.',
+      missingDebtor: 'Le titulaire du compte est obligatoire.',
+      invalidIban: 'L\'IBAN n\'est pas valide : vérifiez la longueur et la clé de contrôle.',
+      revokedBeforeSignature: 'La date de révocation ne peut pas précéder la date de signature.'
+    },
+    sepa: {
+      title: 'Virements SEPA',
+      subtitle: 'Remise pain.001 à charger dans la banque en ligne, débitée sur {account}',
+      executionDate: 'Date d\'exécution',
+      generate: 'Générer la remise ({count})',
+      generateError: 'Impossible de générer la remise : {error}',
+      colDue: 'Échéance',
+      colCreditor: 'Bénéficiaire',
+      colRemittance: 'Motif',
+      colAmount: 'Montant',
+      netOfWithholding: 'net de retenue',
+      noExpenses: 'Aucune dépense à payer.',
+      batchTotal: 'Total de la remise ({count} virements)',
+      generatedTitle: 'Remise générée',
+      generatedDesc: '{file} : {count} virements pour {amount}. Après l\'avoir chargée dans la banque en ligne, confirmez pour marquer les dépenses comme payées le {date}.',
+      uploaded: 'Chargée',
+      notYet: 'Pas encore'
+    },
+    f24: {
+      missingAccount: 'Sélectionnez le compte débité pour le F24.',
+      invalidManualLines: 'Complétez les lignes supplémentaires avec un code d\'impôt de 4 caractères, l\'année, le mois éventuel (1-12) et le montant.',
+      nothingSelected: 'Sélectionnez au moins une retenue ou ajoutez une ligne d\'impôt.',
+      confirmNoFiscalCode: 'Le code fiscal de la copropriété n\'est pas défini : la banque n\'acceptera pas l\'export. Continuer ?',
+      noFiscalCode: 'Définissez le code fiscal de la copropriété dans les paramètres : c\'est le contribuable de chaque formulaire F24.',
+      register: 'Enregistrer le F24',
+      registerDesc: 'Les retenues sélectionnées seront marquées comme versées et le montant sera débité sur le compte choisi.',
+      paymentDate: 'Date de versement',
+      debitAccount: 'Compte débité',
+      select: 'Sélectionner...',
+      withholdingsDue: 'Retenues à verser',
+      noWithholdings: 'Aucune retenue en attente de versement.',
+      deadlineGroup: 'Code {code} · paiements de {month}',
+      deadlineDue: 'Échéance {date} · {amount}',
+      paidOn: 'payée le {date}',
+      otherTaxes: 'Autres impôts',
+      addLine: 'Ajouter une ligne',
+      noOtherTaxes: 'Aucun autre impôt dans le formulaire.',
+      taxCode: 'Code d\'impôt',
+      refMonth: 'Mois réf.',
+      refYear: 'Année réf.',
+      amountEur: 'Montant (€)',
+      removeLine: 'Supprimer la ligne',
+      notes: 'Notes',
+      previewTotal: 'Total F24 : {amount}',
+      monthlyTitle: 'Récapitulatif mensuel',
+      monthlyDesc: 'Impôts versés dans le mois, avec les totaux par code d\'impôt.',
+      bankCsv: 'CSV banque',
+      colAmount: 'Montant',
+      noPaymentsInMonth: 'Aucun F24 versé en {month}.',
+      codeTotal: 'Total code {code}',
+      monthTotal: 'Total du mois',
+      registeredTitle: 'Formulaires F24 enregistrés',
+      colDate: 'Date',
+      colAccount: 'Compte',
+      colTaxes: 'Impôts',
+      colTotal: 'Total',
+      colActions: 'Actions',
+      expensesCount: '{count} dépenses',
+      downloadPdf: 'Télécharger le PDF',
+      exportCsv: 'Exporter le CSV pour la banque',
+      deleteTitle: 'Supprimer le F24',
+      noPayments: 'Aucun F24 enregistré.',
+      deleteMsg: 'Êtes-vous sûr ? Les retenues liées seront de nouveau à verser et le débit sera retiré du solde du compte.',
+      deletedAccount: 'Compte supprimé'
+    },
+    certifications: {
+      confirmExportAll: '{count} PDF seront téléchargés, un par bénéficiaire. Continuer ?',
+      noCondoFiscalCode: 'Le code fiscal de la copropriété n\'est pas défini dans les paramètres.',
+      missingCodes: '{count} bénéficiaires sans code fiscal ni numéro de TVA : complétez-les sur les dépenses ou dans le registre des fournisseurs.',
+      unpaidWithholdings: '{count} bénéficiaires avec des retenues pas encore versées par F24.',
+      title: 'Certificazione Unica et 770',
+      subtitle: 'Honoraires payés dans l\'année aux fournisseurs soumis à la retenue à la source.',
+      exportAll: 'Toutes les CU',
+      colRecipient: 'Bénéficiaire',
+      colGross: 'Brut',
+      colTaxable: 'Imposable',
+      colWithheld: 'Retenues',
+      colPaid: 'Versées',
+      colCu: 'CU',
+      missingFiscalCode: 'Code fiscal manquant',
+      paymentsAndCodes: '{count} paiements · codes {codes}',
+      downloadPdf: 'Télécharger la CU en PDF',
+      empty: 'Aucun honoraire avec retenue payé en {year}.'
+    },
+    quadroAc: {
+      noCondoFiscalCode: 'Le code fiscal de la copropriété n\'est pas défini dans les paramètres.',
+      missingCodes: '{count} dépenses sans code fiscal ni numéro de TVA du fournisseur : elles ne peuvent pas être déclarées.',
+      title: 'Quadro AC - Déclaration des fournisseurs',
+      subtitle: 'Achats de biens et services de l\'année par fournisseur, au-delà de {amount} par an.',
+      colSupplier: 'Fournisseur',
+      colTaxId: 'Code fiscal / N° TVA',
+      colAddress: 'Domicile fiscal',
+      colPurchases: 'Achats',
+      expensesCount: '{count} dépenses',
+      missingAddress: 'Adresse manquante dans le registre des fournisseurs',
+      empty: 'Aucun fournisseur à déclarer pour {year}.',
+      toCompleteTitle: 'Dépenses à compléter',
+      toCompleteDesc: 'Indiquez le code fiscal ou le numéro de TVA du fournisseur sur la dépense ou reliez-la à un fournisseur du registre.',
+      editExpense: 'Modifier la dépense',
+      belowThreshold: 'Sous le seuil, non déclarés : {list}.',
+      excluded: 'Exclus - {reason} : {count} dépenses pour {amount}.',
+      excludedUtility: 'Fourniture d\'eau, d\'électricité ou de gaz',
+      excludedWithholding: 'Honoraires avec retenue à la source, déjà déclarés dans le 770'
+    },
+    bankTransactions: {
+      noStatements: 'Le relevé ne contient aucun compte.',
+      ibanNotStated: 'non indiqué',
+      ibanMismatch: 'L\'IBAN du relevé ({ibans}) ne correspond pas à celui du compte « {account} ».',
+      noAccountIban: 'Le compte « {account} » n\'a pas d\'IBAN : impossible de vérifier que le relevé lui appartient.',
+      otherAccountsIgnored: '{count} relevés d\'autres comptes ignorés.',
+      statementCurrency: 'Relevé {id} en {currency}.',
+      statementUnbalanced: 'Relevé {id} : les mouvements ne concordent pas avec les soldes initial et final (écart {amount}).',
+      importError: 'Erreur lors de l\'importation : {error}',
+      skippedRows: 'Lignes sans date ni montant ignorées : {rows}.',
+      emptyFile: 'Le fichier est vide.',
+      savedMappingApplied: 'Format enregistré pour ce compte appliqué.',
+      title: 'Mouvements bancaires',
+      importedCount: '{count} mouvements importés',
+      bankBalance: ' · solde bancaire au {date} : ',
+      importCamt: 'Importer CAMT.053',
+      importCsv: 'Importer CSV/Excel',
+      searchPlaceholder: 'Rechercher par contrepartie ou motif...',
+      colDate: 'Date',
+      colCounterparty: 'Contrepartie',
+      colRemittance: 'Motif',
+      colAmount: 'Montant',
+      colActions: 'Actions',
+      valueDate: 'valeur {date}',
+      deleteTitle: 'Supprimer le mouvement',
+      empty: 'Aucun mouvement. Importez un relevé bancaire.',
+      total: 'Total des mouvements',
+      importTitle: 'Importer un relevé',
+      duplicatesNote: '{count} mouvements déjà importés d\'un relevé précédent : exclus sauf choix contraire.',
+      alreadyPresent: 'Déjà présent',
+      editMapping: 'Modifier le format',
+      closingBalance: 'Solde final du relevé au {date} : ',
+      import: 'Importer ({count})',
+      deleteModalTitle: 'Supprimer le Mouvement',
+      deleteMsg: 'Le mouvement sera supprimé. Il sera proposé de nouveau en réimportant le relevé.'
+    },
+    statementMapping: {
+      delimiterSemicolon: 'Point-virgule (;)',
+      delimiterComma: 'Virgule (,)',
+      delimiterTab: 'Tabulation',
+      delimiterPipe: 'Barre verticale (|)',
+      amountSigned: 'Montant signé',
+      amountSplit: 'Colonnes Débit / Crédit',
+      amountIndicator: 'Montant + colonne de signe',
+      dateDmy: 'JJ/MM/AAAA',
+      dateMdy: 'MM/JJ/AAAA',
+      dateYmd: 'AAAA-MM-JJ',
+      none: '- Aucune -',
+      select: 'Sélectionner...',
+      title: 'Format du relevé',
+      remembered: 'le format sera mémorisé pour les prochaines importations',
+      headerHint: 'Cliquez sur la ligne contenant les noms des colonnes : celles du dessus sont ignorées.',
+      delimiter: 'Séparateur',
+      headerRow: 'Ligne d\'en-tête',
+      dateFormat: 'Format de date',
+      decimalSeparator: 'Séparateur décimal',
+      decimalComma: 'Virgule (1.234,56)',
+      decimalPoint: 'Point (1,234.56)',
+      bookingDate: 'Date comptable *',
+      valueDate: 'Date de valeur',
+      counterparty: 'Contrepartie',
+      amount: 'Montant',
+      debitColumn: 'Colonne Débit (sorties) *',
+      creditColumn: 'Colonne Crédit (entrées) *',
+      amountColumn: 'Colonne montant *',
+      signColumn: 'Colonne de signe *',
+      debitMarker: 'Valeur indiquant un débit',
+      debitMarkerPlaceholder: 'ex. D',
+      description: 'Description (les colonnes choisies sont jointes dans l\'ordre de sélection)',
+      missingColumns: 'Colonnes absentes du fichier : {columns}. Sélectionnez-les de nouveau.',
+      preview: 'Aperçu : {count} mouvements',
+      skippedRows: ' · {count} lignes sans date ni montant ignorées',
+      next: 'Suivant'
+    },
+    bankTransfer: {
+      invalidAmount: 'Le montant du virement interne doit être supérieur à zéro.',
+      missingAccounts: 'Sélectionnez le compte à débiter et le compte à créditer.',
+      sameAccount: 'Les comptes débité et crédité doivent être différents.',
+      formEdit: 'Modifier le Virement Interne',
+      formNew: 'Nouveau Virement Interne',
+      subtitle: 'Virement entre deux comptes de la copropriété : ce n\'est ni une dépense ni une recette.',
+      from: 'Du compte',
+      to: 'Vers le compte',
+      select: 'Sélectionner...',
+      amount: 'Montant (€)',
+      date: 'Date',
+      description: 'Description (Facultatif)',
+      descriptionPlaceholder: 'Ex. Dotation au fonds travaux',
+      update: 'Mettre à jour le Virement',
+      save: 'Enregistrer le Virement'
+    },
+    quotas: {
+      missingFirstDue: 'Indiquez l\'échéance de la première échéance.',
+      confirmNoApproval: 'Le budget n\'a pas de date d\'approbation en assemblée. Générer quand même les échéances ?',
+      confirmReplace: 'Il existe déjà {count} échéances pour l\'exercice {year}. Les remplacer par le nouveau plan ?',
+      nothingGenerated: 'Aucune échéance générée : vérifiez les tables de millièmes.',
+      noBudgets: 'Aucun budget saisi : créez-en un dans Rapports > Budget pour générer les échéances.',
+      planTitle: 'Générer le Plan d\'Échéances',
+      planDesc: 'La quote-part annuelle de chaque lot est calculée en répartissant les postes du budget selon les tables de millièmes.',
+      budget: 'Budget',
+      fiscalYear: 'Exercice {year}',
+      count: 'Nombre d\'échéances',
+      firstDue: 'Première échéance',
+      interval: 'Périodicité',
+      monthly: 'Mensuelle',
+      bimonthly: 'Bimestrielle',
+      quarterly: 'Trimestrielle',
+      fourMonthly: 'Quadrimestrielle',
+      semiannual: 'Semestrielle',
+      annual: 'Annuelle',
+      unallocated: 'Postes exclus faute de table de millièmes : {categories}',
+      generate: 'Générer les Échéances',
+      installmentsTitle: 'Échéances Exercice {year}',
+      installmentsSummary: '{count} échéances, total {amount}',
+      colDue: 'Échéance',
+      colUnit: 'Lot',
+      colDescription: 'Description',
+      colAmount: 'Montant',
+      colActions: 'Actions',
+      confirmDelete: 'Supprimer cette échéance ?',
+      deleteTitle: 'Supprimer l\'Échéance',
+      noInstallments: 'Aucune échéance générée pour cet exercice.',
+      ledgerTitle: 'Situation des Quotes-parts',
+      ledgerDesc: 'Les versements de chaque lot soldent les échéances à partir de la plus ancienne.',
+      searchPlaceholder: 'Lot ou propriétaire...',
+      colUnitOwners: 'Lot / Propriétaires',
+      colOwed: 'Dû',
+      colPaid: 'Versé',
+      colRemaining: 'Restant',
+      colOverdue: 'Dont échu',
+      credit: 'crédit {amount}',
+      paidAmount: 'versé {amount}',
+      statePaid: 'Payée',
+      statePartial: 'Partielle',
+      stateOutstanding: 'À payer',
+      stateOverdue: 'Échue',
+      noUnitInstallments: 'Aucune échéance émise pour ce lot.',
+      noUnits: 'Aucun lot trouvé.',
+      total: 'Total',
+      statementTitle: 'Relevé du Copropriétaire',
+      statementDesc: 'Appels de fonds et versements reçus sur la période, avec solde progressif.',
+      statementExportPdf: 'Exporter PDF',
+      statementExportAll: 'Tous les Copropriétaires',
+      statementConfirmExportAll: '{count} PDF vont être téléchargés, un par propriétaire. Continuer ?',
+      statementNoUnits: 'Aucun lot dans le registre : ajoutez-les pour produire les relevés.',
+      statementOwner: 'Copropriétaire',
+      statementFrom: 'Du',
+      statementTo: 'Au',
+      statementInvalidPeriod: 'La période indiquée n\'est pas valide.',
+      statementUnit: 'Lot {code}',
+      statementNoOwner: 'Aucun propriétaire enregistré',
+      statementNoOwnerGroup: 'Sans propriétaire',
+      colDate: 'Date',
+      colDebit: 'Débits',
+      colCredit: 'Versements',
+      colBalance: 'Solde',
+      openingBalance: 'Solde initial',
+      closingBalance: 'Solde final',
+      balanceDebit: '{amount} dû',
+      balanceCredit: '{amount} en crédit',
+      interestToCharge: 'Intérêts de retard courus et non encore imputés ({rate}) :',
+      expenseSharesTitle: 'Charges de la période'
+    },
+    registry: {
+      tabUnits: 'Lots ({count})',
+      tabPersons: 'Personnes ({count})',
+      tabMillesimi: 'Tantièmes ({count})',
+      newUnit: 'Nouveau Lot',
+      newPerson: 'Nouvelle Personne',
+      search: 'Rechercher...',
+      actions: 'Actions',
+      notes: 'Notes',
+      select: 'Sélectionner...',
+      add: 'Ajouter',
+      remove: 'Retirer',
+      personNameRequired: 'Le nom est obligatoire.',
+      personInvalidFiscalCode: 'Le code fiscal doit comporter 16 caractères (personne physique) ou 11 chiffres (société).',
+      personFormEdit: 'Modifier la Personne',
+      personFormNew: 'Nouvelle Personne',
+      personName: 'Nom et Prénom / Raison Sociale',
+      personNamePlaceholder: 'Ex. Mario Rossi',
+      fiscalCode: 'Code Fiscal',
+      phone: 'Téléphone',
+      address: 'Résidence / Domicile',
+      addressPlaceholder: 'Rue, numéro, code postal, commune (province)',
+      email: 'Email',
+      pec: 'PEC',
+      personUpdate: 'Mettre à jour la Personne',
+      personSave: 'Enregistrer la Personne',
+      personsTitle: 'Personnes',
+      personsSubtitle: 'Propriétaires, titulaires de droits réels et locataires.',
+      colName: 'Nom',
+      colContacts: 'Contacts',
+      colUnits: 'Lots',
+      roleOwner: '{code} (prop.)',
+      roleTenant: '{code} (loc.)',
+      editPerson: 'Modifier la Personne',
+      deletePerson: 'Supprimer la Personne',
+      noPersons: 'Aucune personne trouvée.',
+      deletePersonMsg: 'Êtes-vous sûr ? La personne sera également retirée des lots où elle figure comme propriétaire ou locataire et les mandats SDD qu\'elle a signés seront supprimés.',
+      rightProprieta: 'Pleine propriété',
+      rightNudaProprieta: 'Nue-propriété',
+      rightUsufrutto: 'Usufruit',
+      unitCodeRequired: 'L\'identifiant du lot est obligatoire.',
+      unitMissingPerson: 'Sélectionnez une personne pour chaque propriétaire et locataire.',
+      unitInvalidShare: 'Les quotes-parts doivent être comprises entre 0 et 100.',
+      unitShareTotal: 'Les quotes-parts de propriété totalisent {total}%, elles doivent être égales à 100%.',
+      unitInvalidRendita: 'Le revenu cadastral n\'est pas valide.',
+      unitFormEdit: 'Modifier le Lot',
+      unitFormNew: 'Nouveau Lot',
+      unitCode: 'Identifiant',
+      unitCodePlaceholder: 'Ex. A3, Boutique 1, Box 4',
+      unitType: 'Type',
+      staircase: 'Escalier',
+      staircasePlaceholder: 'Ex. A',
+      floor: 'Étage',
+      floorPlaceholder: 'Ex. 2, RDC, S1',
+      cadastralData: 'Données Cadastrales',
+      sezione: 'Section',
+      foglio: 'Feuille',
+      particella: 'Parcelle',
+      subalterno: 'Sous-lot',
+      categoria: 'Catégorie',
+      classe: 'Classe',
+      rendita: 'Revenu cadastral (€)',
+      noPersonsWarning: 'Aucune personne dans le registre. Ajoutez d\'abord propriétaires et locataires depuis la section Personnes.',
+      ownersTitle: 'Propriétaires et Titulaires de Droits Réels',
+      person: 'Personne',
+      right: 'Droit',
+      share: 'Quote-part %',
+      noOwners: 'Aucun propriétaire indiqué.',
+      tenantsTitle: 'Locataires et Emprunteurs',
+      tenantFrom: 'Du',
+      tenantTo: 'Au',
+      noTenants: 'Aucun locataire.',
+      unitUpdate: 'Mettre à jour le Lot',
+      unitSave: 'Enregistrer le Lot',
+      unitsTitle: 'Lots',
+      unitsSubtitle: 'Appartements, commerces, box et caves de la copropriété avec leurs titulaires.',
+      colUnit: 'Lot',
+      colCadastral: 'Données Cadastrales',
+      colOwners: 'Propriétaires',
+      colTenants: 'Locataires',
+      staircaseShort: 'Escalier {value}',
+      floorShort: 'Étage {value}',
+      editUnit: 'Modifier le Lot',
+      deleteUnit: 'Supprimer le Lot',
+      noUnits: 'Aucun lot trouvé.',
+      deleteUnitMsg: 'Êtes-vous sûr ? Le lot sera retiré du registre. L\'opération est irréversible.'
+    },
+    settings: {
+      invalidFiscalCode: 'Le code fiscal de la copropriété n\'est pas valide.',
+      invalidCreditorId: 'L\'identifiant créancier SEPA n\'est pas valide.',
+      invalidRates: 'Complétez le tableau des taux avec des dates et des pourcentages valides.',
+      missingRates: 'Saisissez au moins un taux du règlement.',
+      title: 'Paramètres de la Copropriété',
+      fiscalData: 'Données fiscales',
+      fiscalCode: 'Code fiscal de la copropriété',
+      fiscalCodePlaceholder: 'Ex. 91234567890',
+      fiscalCodeHint: 'Indiqué comme contribuable sur les formulaires F24 et sur les certifications des fournisseurs.',
+      creditorId: 'Identifiant créancier SEPA',
+      creditorIdPlaceholder: 'Ex. IT66ZZZA1B2C3D4E5F6G7H8',
+      creditorIdHint: 'Délivré par la banque pour encaisser les quotes-parts par prélèvement SDD.',
+      fiscalYear: 'Exercice',
+      startMonth: 'Mois de début',
+      startDay: 'Jour de début',
+      currentFiscalYear: 'Exercice en cours :',
+      currentRange: '(du {start} au {end}).',
+      fiscalYearHint: 'Le tableau de bord, les rapports, les budgets et les exports sont calculés sur l\'exercice.',
+      interest: 'Intérêts de retard',
+      interestMode: 'Taux appliqué',
+      interestLegal: 'Taux légal',
+      interestCustom: 'Taux prévu par le règlement',
+      rateFrom: 'depuis {year}',
+      ratePlaceholder: '% annuel',
+      removeRate: 'Retirer',
+      addRate: 'Ajouter un taux',
+      ratesHint: 'Chaque taux s\'applique à partir de la date indiquée jusqu\'à la modification suivante.',
+      save: 'Enregistrer les Paramètres'
+    },
+    suppliers: {
+      nameRequired: 'La raison sociale est obligatoire.',
+      invalidVat: 'Le numéro de TVA n\'est pas valide : il doit comporter 11 chiffres avec une clé de contrôle correcte.',
+      invalidFiscalCode: 'Le code fiscal n\'est pas valide.',
+      invalidIban: 'L\'IBAN n\'est pas valide : vérifiez la longueur et la clé de contrôle.',
+      formEdit: 'Modifier le Fournisseur',
+      formNew: 'Nouveau Fournisseur',
+      name: 'Raison Sociale',
+      namePlaceholder: 'Ex. Idraulica Bianchi S.r.l.',
+      vatNumber: 'Numéro de TVA',
+      fiscalCode: 'Code Fiscal',
+      fiscalCodePlaceholder: 'S\'il diffère du numéro de TVA',
+      iban: 'IBAN',
+      address: 'Siège',
+      addressPlaceholder: 'Rue, numéro, code postal, commune (province)',
+      email: 'Email',
+      pec: 'PEC',
+      phone: 'Téléphone',
+      defaultCategory: 'Catégorie par défaut',
+      noCategory: 'Aucune',
+      withholding: 'Retenue à la source ({rate}%)',
+      noWithholding: 'Non soumis à retenue',
+      defaultAccount: 'Compte de paiement par défaut',
+      noAccount: 'Aucun',
+      notes: 'Notes',
+      update: 'Mettre à jour le Fournisseur',
+      save: 'Enregistrer le Fournisseur',
+      title: 'Fournisseurs',
+      subtitle: 'Registre des fournisseurs avec le total des dépenses enregistrées.',
+      search: 'Rechercher...',
+      new: 'Nouveau Fournisseur',
+      colTaxId: 'TVA / C.F.',
+      colContacts: 'Contacts',
+      colSpent: 'Dépensé',
+      colUnpaid: 'À payer',
+      colActions: 'Actions',
+      expenseCount: '{count} dépenses',
+      lastExpense: 'dernière {date}',
+      edit: 'Modifier le Fournisseur',
+      delete: 'Supprimer le Fournisseur',
+      noSuppliers: 'Aucun fournisseur trouvé.',
+      deleteMsg: 'Êtes-vous sûr ? Les dépenses liées resteront enregistrées mais sans fournisseur.'
     },
     common: {
       delete: 'Supprimer',
@@ -423,7 +3231,13 @@ export const translations = {
       newIncome: 'Neue Einnahme',
       logout: 'Wechseln',
       themeLight: 'Heller Modus',
-      themeDark: 'Dunkler Modus'
+      themeDark: 'Dunkler Modus',
+      registry: 'Register',
+      settings: 'Einstellungen der Gemeinschaft',
+      quotas: 'Hausgeld',
+      suppliers: 'Lieferanten',
+      fiscal: 'Steuern',
+      bankTransactions: 'Umsätze'
     },
     dashboard: {
       overview: 'Übersicht',
@@ -445,7 +3259,20 @@ export const translations = {
       paidPercentage: '{percent}% der Gesamtmenge',
       overdueTitle: 'Achtung: Überfällige Ausgaben',
       overdueSubtitle: 'Es gibt {count} unbezahlte Ausgaben, deren Datum überschritten ist.',
-      daysOverdue: '{days} Tage überfällig'
+      daysOverdue: '{days} Tage überfällig',
+      restoreBackup: 'Backup wiederherstellen',
+      restoreDesc: 'Aus JSON-Datei',
+      fiscalYear: 'Wirtschaftsjahr',
+      cashTitle: 'Kassenstand {year}',
+      cashAccount: 'Konto',
+      cashOpening: 'Eröffnungssaldo',
+      cashInflows: 'Eingänge',
+      cashOutflows: 'Ausgänge',
+      cashTransfers: 'Umbuchungen',
+      cashClosing: 'Saldo am {date}',
+      cashOpeningAt: 'am {date}',
+      cashNotOpen: 'Anfangssaldo am {date}, nach Ende des Geschäftsjahres',
+      cashTotal: 'Gesamt'
     },
     list: {
       historyExpenses: 'Ausgabenverlauf',
@@ -480,7 +3307,9 @@ export const translations = {
       colCurrBalance: 'Akt. Saldo',
       noData: 'Keine Daten gefunden.',
       deleteAll: 'Alle Löschen',
-      confirmDeleteAllMsg: 'Sind Sie sicher, dass Sie ALLE Daten in dieser Liste löschen möchten? Diese Aktion ist irreversibel.'
+      confirmDeleteAllMsg: 'Sind Sie sicher, dass Sie ALLE Daten in dieser Liste löschen möchten? Diese Aktion ist irreversibel.',
+      withholding: 'QSt.',
+      netToPay: 'netto'
     },
     reports: {
       title: 'Berichte und Statistiken',
@@ -492,7 +3321,688 @@ export const translations = {
       total: 'Gesamt',
       empty: 'Keine Daten gefunden',
       month: 'Monat',
-      category: 'Kategorie'
+      category: 'Kategorie',
+      groupByRiparto: 'Jahresabrechnung',
+      groupByBudget: 'Wirtschaftsplan'
+    },
+    restore: {
+      title: 'Backup wiederherstellen',
+      condo: 'Eigentümergemeinschaft',
+      exportDate: 'Backup-Datum',
+      version: 'Version',
+      otherCondo: 'Das Backup gehört zu "{name}", nicht zu "{current}". Die Daten werden trotzdem in die aktuelle Gemeinschaft importiert.',
+      current: 'Aktuell',
+      incoming: 'Im Backup',
+      added: 'Neu',
+      conflicts: 'Konflikte (ID)',
+      merge: 'Zusammenführen',
+      mergeDesc: 'Fügt fehlende Einträge hinzu und aktualisiert Einträge mit gleicher ID mit der Backup-Version.',
+      replace: 'Ersetzen',
+      replaceDesc: 'Löscht die aktuellen Daten und ersetzt sie durch das Backup.',
+      confirm: 'Wiederherstellen',
+      error: 'Backup kann nicht gelesen werden: {error}',
+      success: 'Wiederherstellung abgeschlossen.',
+      units: 'Einheiten',
+      persons: 'Personen',
+      millesimiTables: 'Miteigentumstabellen',
+      budgets: 'Wirtschaftspläne',
+      installments: 'Raten',
+      reminders: 'Mahnungen',
+      suppliers: 'Lieferanten',
+      f24Payments: 'F24-Zahlungen',
+      bankTransactions: 'Bankumsätze',
+      bankReconciliations: 'Bankabstimmungen',
+      sddMandates: 'SDD-Mandate',
+      bankTransfers: 'Umbuchungen',
+      migrationTitle: 'Datenaktualisierung fehlgeschlagen',
+      migrationMessage: 'Die für „{name}“ gespeicherten Daten wurden nicht geändert. Laden Sie eine Kopie der Originaldaten herunter, bevor Sie den Support kontaktieren.',
+      migrationDownload: 'Originaldaten'
+    },
+    riparto: {
+      title: 'Jahresabrechnung {year}',
+      unit: 'Einheit',
+      owners: 'Eigentümer',
+      share: 'Anteil',
+      paid: 'Gezahlt',
+      balance: 'Saldo',
+      credit: 'Guthaben',
+      debit: 'Nachzahlung',
+      total: 'Gesamt',
+      totalExpenses: 'Ausgaben des Jahres',
+      allocated: 'Verteilt gesamt',
+      byTable: 'Ausgaben nach Tabelle',
+      noTables: 'Keine Miteigentumstabellen definiert: unter Register > Millesimi anlegen.',
+      noUnits: 'Keine Einheiten im Register.',
+      unallocated: 'Ausgaben ohne Verteilungstabelle (weder zugewiesen noch Standard)',
+      unassignedIncomes: 'Eingezogene Beiträge ohne zugeordnete Einheit',
+      unbalanced: 'Tabellen, deren Summe nicht 1000 ergibt',
+      exportPdf: 'PDF exportieren',
+      exportExcel: 'Excel exportieren'
+    },
+    budget: {
+      title: 'Wirtschaftsplan {year}',
+      category: 'Kategorie',
+      budgeted: 'Geplant',
+      actual: 'Ist',
+      remaining: 'Verbleibend',
+      consumed: 'Verbraucht',
+      total: 'Gesamt',
+      threshold: 'Warnschwelle (%)',
+      warning: '{count} Kategorien über der Schwelle von {percent}%',
+      statusOver: 'Überschritten',
+      statusWarning: 'Nahe am Limit',
+      notBudgeted: 'Nicht geplant',
+      noBudget: 'Kein Wirtschaftsplan für {year}.',
+      create: 'Wirtschaftsplan anlegen',
+      edit: 'Wirtschaftsplan bearbeiten',
+      save: 'Wirtschaftsplan speichern',
+      cancel: 'Abbrechen',
+      approvalDate: 'Datum des Versammlungsbeschlusses',
+      notes: 'Notizen',
+      copyPrevious: 'Von {year} kopieren'
+    },
+    withholding: {
+      title: 'F24-Fristen für Quellensteuer',
+      subtitle: 'Bei Lieferantenzahlungen einbehaltene und noch nicht abgeführte Steuer.',
+      dueDate: 'Fälligkeit',
+      taxCode: 'Steuerkennziffer',
+      period: 'Zahlungen im',
+      expenses: '{count} Ausgaben',
+      overdue: 'Überfällig',
+      dueToday: 'Heute fällig',
+      dueIn: 'In {days} Tagen',
+      prepareF24: 'F24 vorbereiten'
+    },
+    millesimi: {
+      title: 'Tausendstel-Tabellen',
+      subtitle: 'Jede Tabelle muss {total} Tausendstel ergeben.',
+      import: 'Aus Excel importieren',
+      export: 'Excel exportieren',
+      exportHint: 'Tabellen exportieren (oder eine leere Vorlage zum Ausfüllen)',
+      newTable: 'Neue Tabelle',
+      noUnits: 'Erfassen Sie zuerst die Einheiten im Verzeichnis.',
+      noTables: 'Keine Tabellen definiert.',
+      name: 'Tabellenname',
+      namePlaceholder: 'z. B. Allgemeines Eigentum, Treppenhaus A, Aufzug',
+      description: 'Beschreibung',
+      isDefault: 'Standardtabelle (für Kategorien ohne zugewiesene Tabelle)',
+      unit: 'Einheit',
+      type: 'Typ',
+      value: 'Tausendstel',
+      total: 'Summe',
+      save: 'Tabelle speichern',
+      byCategory: 'Verteilung nach Kategorie',
+      byCategoryDesc: 'Tabelle, nach der jede Ausgabenkategorie verteilt wird.',
+      defaultOption: 'Standard ({name})',
+      noneOption: '— Keine —',
+      nameRequired: 'Der Tabellenname ist erforderlich.',
+      invalidValue: 'Ungültiger Wert für Einheit {code}.',
+      mustBalance: 'Die Tabelle muss {total} Tausendstel ergeben (aktuelle Summe: {current}).',
+      confirmDelete: 'Tabelle "{name}" löschen? Ihre Kategorien gehen an die Standardtabelle zurück.',
+      imported: '{count} Tabellen importiert.',
+      unknownUnits: 'Nicht im Verzeichnis gefundene Einheiten (übersprungen): {codes}.',
+      unbalanced: 'Achtung, ergeben nicht {total}: {names}.',
+      importError: 'Datei kann nicht importiert werden: {error}'
+    },
+    reconciliation: {
+      recordExpense: 'Ausgabe',
+      recordIncome: 'Einnahme',
+      recordF24: 'F24',
+      recordTransfer: 'Umbuchung',
+      invoiceRef: 'Rg. {number}',
+      title: 'Bankabstimmung',
+      subtitle: 'Ordnen Sie die Kontoauszugsbuchungen den auf dem Konto erfassten Ausgaben und Einnahmen zu.',
+      asOf: 'Bis zum',
+      bookBalance: 'Buchsaldo',
+      reconciledBalance: 'Abgestimmter Saldo',
+      difference: 'Differenz (abzustimmende Buchungen)',
+      unmatchedBank: 'Nicht zugeordnete Bankumsätze',
+      statementBalance: 'Banksaldo am {date}: {amount}',
+      suggestions: 'Vorgeschlagene Zuordnungen ({count})',
+      confirmAll: 'Alle bestätigen',
+      score: 'Zuverlässigkeit der Zuordnung',
+      confirm: 'Bestätigen',
+      dismiss: 'Verwerfen',
+      toMatch: 'Zuzuordnen',
+      selectionDifference: 'Differenz der Auswahl: {amount}',
+      matchSelected: 'Auswahl zuordnen',
+      bankTransactions: 'Bankumsätze ({count})',
+      allTransactionsMatched: 'Alle importierten Umsätze sind zugeordnet.',
+      records: 'Buchungen ({count})',
+      allRecordsMatched: 'Alle Buchungen des Kontos sind abgestimmt.',
+      confirmed: 'Bestätigte Zuordnungen ({count})',
+      undo: 'Zuordnung aufheben'
+    },
+    arrears: {
+      levelFirst: 'Erste Mahnung',
+      levelFormal: 'Förmliche Inverzugsetzung',
+      rateLegal: 'gesetzlichen Zinssatz',
+      rateCustom: 'Zinssatz der Gemeinschaftsordnung',
+      totalOverdue: 'Überfällig gesamt',
+      unitsInArrears: '{count} säumige Einheiten',
+      bucketDays: '{bucket} Tage',
+      title: 'Zahlungsrückstände',
+      subtitle: 'Fällige, nicht beglichene Raten nach Alter. Verzugszinsen berechnet zum {rate}.',
+      colUnit: 'Einheit / Eigentümer',
+      colOverdue: 'Überfällig',
+      colDays: 'Tage',
+      colInterest: 'Zinsen',
+      colLastReminder: 'Letzte Mahnung',
+      colActions: 'Aktionen',
+      alreadyCharged: 'bereits belastet {amount}',
+      reminderOf: '{level} vom {date}',
+      none: 'Keine',
+      chargeInterest: 'Verzugszinsen belasten',
+      noArrears: 'Keine überfälligen Raten offen.',
+      latePayersTitle: 'Zinsen auf verspätete Zahlungen',
+      latePayersDesc: 'Einheiten ohne Rückstand, die Raten nach Fälligkeit gezahlt haben.',
+      registerTitle: 'Mahnregister',
+      colDate: 'Datum',
+      colRecipient: 'Empfänger',
+      colType: 'Art',
+      colAmount: 'Betrag',
+      colDeadline: 'Frist',
+      unitCode: 'Einheit {code}',
+      noReminders: 'Keine Mahnungen versandt.',
+      confirmInterest: 'Einheit {code} Verzugszinsen von {amount} ({rate}) belasten?',
+      noOwner: 'kein Eigentümer erfasst',
+      confirmReminder: '{level} für Einheit {code} ({recipients}), Betrag {amount}, Frist {deadline}. Schreiben erstellen und erfassen?',
+      docxError: 'Fehler beim Erstellen der Word-Datei.',
+      confirmDeleteReminder: 'Diese Mahnung aus dem Register löschen?'
+    },
+    sdd: {
+      title: 'SEPA-Lastschrift der Hausgeldraten',
+      subtitle: 'pain.008-Sammler mit den zum Einzugsdatum fälligen Raten, gutgeschrieben auf {account}',
+      importReturns: 'Rücklastschriften importieren',
+      collectionDate: 'Einzugsdatum',
+      generate: 'Sammler erstellen ({count})',
+      colUnit: 'Einheit',
+      colDebtor: 'Zahlungspflichtiger',
+      colRemittance: 'Verwendungszweck',
+      colSequence: 'Sequenz',
+      colAmount: 'Betrag',
+      lastReturn: 'Rücklastschrift vom {date}: {reason}',
+      noLines: 'Keine Raten zum angegebenen Datum einzuziehen.',
+      batchTotal: 'Summe des Sammlers ({count} Lastschriften)',
+      mandates: 'Mandate',
+      newMandate: 'Neues Mandat',
+      colReference: 'Mandatsreferenz',
+      colHolder: 'Kontoinhaber',
+      colSignature: 'Unterschrift',
+      colStatus: 'Status',
+      colActions: 'Aktionen',
+      edit: 'Bearbeiten',
+      revoke: 'Widerrufen',
+      unrevoke: 'Widerruf aufheben',
+      noMandates: 'Keine Mandate erfasst.',
+      statusRevoked: 'Widerrufen am {date}',
+      statusExpired: 'Abgelaufen',
+      statusFrom: 'Ab {date}',
+      statusActive: 'Aktiv',
+      generatedTitle: 'Sammler erstellt',
+      generatedDesc: '{file}: {count} Lastschriften über {amount}. Nach dem Hochladen ins Online-Banking bestätigen, um die erwarteten Einnahmen zum {date} zu erfassen.',
+      uploaded: 'Hochgeladen',
+      notYet: 'Noch nicht',
+      returnsTitle: 'SDD-Rücklastschriften',
+      returnsDesc: '{file}: Die zurückgegebenen Einnahmen werden gelöscht und die Raten sind wieder offen.',
+      returnLine: 'Lastschrift vom {date} · {reason}',
+      noMatchedReturns: 'Keine Rücklastschrift passt zu den erfassten Lastschriften.',
+      unmatchedReturns: '{count} Rücklastschriften passen zu keiner erfassten Lastschrift (bereits storniert oder aus anderen Sammlern): {ids}.',
+      applyReturns: '{count} Rücklastschriften erfassen',
+      generateError: 'Sammler kann nicht erstellt werden: {error}',
+      noReturns: 'Die Datei enthält keine abgelehnten oder zurückgegebenen SDD-Lastschriften.',
+      importError: 'Fehler beim Import: {error}',
+      mandateInUse: 'Das Mandat wurde bereits für Lastschriften verwendet: Widerrufen Sie es, statt es zu löschen.',
+      confirmDeleteMandate: 'Mandat {reference} löschen?',
+      formNew: 'Neues SDD-Mandat',
+      formEdit: 'SDD-Mandat bearbeiten',
+      reference: 'Mandatsreferenz',
+      referencePlaceholder: 'z. B. COND-A3-001',
+      scheme: 'Verfahren',
+      schemeCore: 'CORE (Verbraucher)',
+      schemeB2b: 'B2B (Unternehmen)',
+      unit: 'Einheit',
+      signer: 'Unterzeichnender Eigentümer',
+      select: 'Auswählen...',
+      debtorName: 'Kontoinhaber',
+      iban: 'Zu belastende IBAN',
+      signatureDate: 'Unterschriftsdatum',
+      revokedDate: 'Widerrufsdatum (optional)',
+      save: 'Mandat speichern',
+      update: 'Mandat aktualisieren',
+      invalidReference: 'Die Mandatsreferenz ist erforderlich: höchstens 35 Zeichen aus Buchstaben ohne Akzente, Ziffern und / - ? : ( ) . , \' + (ohne Leerzeichen).',
+      duplicateReference: 'Ein Mandat mit dieser Referenz existiert bereits.',
+      missingParties: 'Wählen Sie die Einheit und den Eigentümer, der das Mandat unterschrieben hat.',
+      missingDebtor: 'Der Kontoinhaber ist erforderlich.',
+      invalidIban: 'Die IBAN ist ungültig: Prüfen Sie Länge und Prüfziffern.',
+      revokedBeforeSignature: 'Das Widerrufsdatum darf nicht vor dem Unterschriftsdatum liegen.'
+    },
+    sepa: {
+      title: 'SEPA-Überweisungen',
+      subtitle: 'pain.001-Sammelauftrag zum Hochladen ins Online-Banking, belastet auf {account}',
+      executionDate: 'Ausführungsdatum',
+      generate: 'Sammelauftrag erstellen ({count})',
+      generateError: 'Sammelauftrag kann nicht erstellt werden: {error}',
+      colDue: 'Fälligkeit',
+      colCreditor: 'Empfänger',
+      colRemittance: 'Verwendungszweck',
+      colAmount: 'Betrag',
+      netOfWithholding: 'abzüglich Einbehalt',
+      noExpenses: 'Keine offenen Ausgaben.',
+      batchTotal: 'Summe Sammelauftrag ({count} Überweisungen)',
+      generatedTitle: 'Sammelauftrag erstellt',
+      generatedDesc: '{file}: {count} Überweisungen über {amount}. Nach dem Hochladen ins Online-Banking bestätigen, um die Ausgaben als am {date} bezahlt zu markieren.',
+      uploaded: 'Hochgeladen',
+      notYet: 'Noch nicht'
+    },
+    f24: {
+      missingAccount: 'Wählen Sie das Belastungskonto des F24.',
+      invalidManualLines: 'Ergänzen Sie die zusätzlichen Zeilen mit 4-stelligem Steuercode, Jahr, optionalem Monat (1-12) und Betrag.',
+      nothingSelected: 'Wählen Sie mindestens einen Einbehalt oder fügen Sie eine Steuerzeile hinzu.',
+      confirmNoFiscalCode: 'Die Steuernummer der Eigentümergemeinschaft ist nicht gesetzt: Die Bank wird den Export nicht annehmen. Fortfahren?',
+      noFiscalCode: 'Legen Sie die Steuernummer der Eigentümergemeinschaft in den Einstellungen fest: Sie ist Steuerpflichtige jedes F24-Formulars.',
+      register: 'F24 erfassen',
+      registerDesc: 'Die ausgewählten Einbehalte gelten als abgeführt und der Betrag wird dem gewählten Konto belastet.',
+      paymentDate: 'Zahlungsdatum',
+      debitAccount: 'Belastungskonto',
+      select: 'Auswählen...',
+      withholdingsDue: 'Abzuführende Einbehalte',
+      noWithholdings: 'Keine Einbehalte offen.',
+      deadlineGroup: 'Code {code} · Zahlungen im {month}',
+      deadlineDue: 'Fällig {date} · {amount}',
+      paidOn: 'bezahlt am {date}',
+      otherTaxes: 'Weitere Steuern',
+      addLine: 'Zeile hinzufügen',
+      noOtherTaxes: 'Keine weiteren Steuern im Formular.',
+      taxCode: 'Steuercode',
+      refMonth: 'Bez.-Monat',
+      refYear: 'Bez.-Jahr',
+      amountEur: 'Betrag (€)',
+      removeLine: 'Zeile entfernen',
+      notes: 'Notizen',
+      previewTotal: 'F24 gesamt: {amount}',
+      monthlyTitle: 'Monatsübersicht',
+      monthlyDesc: 'Im Monat abgeführte Steuern mit Summen je Steuercode.',
+      bankCsv: 'Bank-CSV',
+      colAmount: 'Betrag',
+      noPaymentsInMonth: 'Kein F24 im {month} abgeführt.',
+      codeTotal: 'Summe Code {code}',
+      monthTotal: 'Monatssumme',
+      registeredTitle: 'Erfasste F24-Formulare',
+      colDate: 'Datum',
+      colAccount: 'Konto',
+      colTaxes: 'Steuern',
+      colTotal: 'Gesamt',
+      colActions: 'Aktionen',
+      expensesCount: '{count} Ausgaben',
+      downloadPdf: 'PDF herunterladen',
+      exportCsv: 'CSV für die Bank exportieren',
+      deleteTitle: 'F24 löschen',
+      noPayments: 'Kein F24 erfasst.',
+      deleteMsg: 'Sind Sie sicher? Die verknüpften Einbehalte werden wieder offen und die Belastung wird vom Kontosaldo entfernt.',
+      deletedAccount: 'Gelöschtes Konto'
+    },
+    certifications: {
+      confirmExportAll: 'Es werden {count} PDFs heruntergeladen, eines pro Empfänger. Fortfahren?',
+      noCondoFiscalCode: 'Die Steuernummer der Eigentümergemeinschaft ist in den Einstellungen nicht gesetzt.',
+      missingCodes: '{count} Empfänger ohne Steuernummer oder USt-IdNr.: bei den Ausgaben oder im Lieferantenverzeichnis ergänzen.',
+      unpaidWithholdings: '{count} Empfänger mit noch nicht per F24 abgeführten Einbehalten.',
+      title: 'Certificazione Unica und 770',
+      subtitle: 'Im Jahr an Lieferanten mit Quellensteuerabzug gezahlte Vergütungen.',
+      exportAll: 'Alle CU',
+      colRecipient: 'Empfänger',
+      colGross: 'Brutto',
+      colTaxable: 'Steuerpflichtig',
+      colWithheld: 'Einbehalte',
+      colPaid: 'Abgeführt',
+      colCu: 'CU',
+      missingFiscalCode: 'Steuernummer fehlt',
+      paymentsAndCodes: '{count} Zahlungen · Codes {codes}',
+      downloadPdf: 'CU als PDF herunterladen',
+      empty: 'Keine Vergütungen mit Einbehalt im Jahr {year} gezahlt.'
+    },
+    quadroAc: {
+      noCondoFiscalCode: 'Die Steuernummer der Eigentümergemeinschaft ist in den Einstellungen nicht gesetzt.',
+      missingCodes: '{count} Ausgaben ohne Steuernummer oder USt-IdNr. des Lieferanten: Sie können nicht gemeldet werden.',
+      title: 'Quadro AC - Lieferantenmeldung',
+      subtitle: 'Käufe von Waren und Dienstleistungen im Jahr je Lieferant, über {amount} jährlich.',
+      colSupplier: 'Lieferant',
+      colTaxId: 'Steuernummer / USt-IdNr.',
+      colAddress: 'Steuerlicher Wohnsitz',
+      colPurchases: 'Käufe',
+      expensesCount: '{count} Ausgaben',
+      missingAddress: 'Adresse fehlt im Lieferantenverzeichnis',
+      empty: 'Keine zu meldenden Lieferanten für {year}.',
+      toCompleteTitle: 'Zu ergänzende Ausgaben',
+      toCompleteDesc: 'Geben Sie die Steuernummer oder USt-IdNr. des Lieferanten bei der Ausgabe an oder verknüpfen Sie sie mit einem Lieferanten im Verzeichnis.',
+      editExpense: 'Ausgabe bearbeiten',
+      belowThreshold: 'Unter dem Schwellenwert, nicht gemeldet: {list}.',
+      excluded: 'Ausgeschlossen - {reason}: {count} Ausgaben über {amount}.',
+      excludedUtility: 'Wasser-, Strom- oder Gasversorgung',
+      excludedWithholding: 'Vergütung mit Quellensteuerabzug, bereits im 770 gemeldet'
+    },
+    bankTransactions: {
+      noStatements: 'Der Kontoauszug enthält kein Konto.',
+      ibanNotStated: 'nicht angegeben',
+      ibanMismatch: 'Die IBAN des Kontoauszugs ({ibans}) stimmt nicht mit der des Kontos "{account}" überein.',
+      noAccountIban: 'Das Konto "{account}" hat keine IBAN: Es kann nicht geprüft werden, ob der Auszug dazu gehört.',
+      otherAccountsIgnored: '{count} Auszüge anderer Konten ignoriert.',
+      statementCurrency: 'Auszug {id} in {currency}.',
+      statementUnbalanced: 'Auszug {id}: Die Umsätze stimmen nicht mit Anfangs- und Endsaldo überein (Differenz {amount}).',
+      importError: 'Fehler beim Import: {error}',
+      skippedRows: 'Zeilen ohne Datum oder Betrag ignoriert: {rows}.',
+      emptyFile: 'Die Datei ist leer.',
+      savedMappingApplied: 'Das für dieses Konto gespeicherte Format wurde angewendet.',
+      title: 'Bankumsätze',
+      importedCount: '{count} Umsätze importiert',
+      bankBalance: ' · Banksaldo am {date}: ',
+      importCamt: 'CAMT.053 importieren',
+      importCsv: 'CSV/Excel importieren',
+      searchPlaceholder: 'Nach Gegenpartei oder Verwendungszweck suchen...',
+      colDate: 'Datum',
+      colCounterparty: 'Gegenpartei',
+      colRemittance: 'Verwendungszweck',
+      colAmount: 'Betrag',
+      colActions: 'Aktionen',
+      valueDate: 'Valuta {date}',
+      deleteTitle: 'Umsatz löschen',
+      empty: 'Keine Umsätze. Importieren Sie einen Kontoauszug.',
+      total: 'Summe Umsätze',
+      importTitle: 'Kontoauszug importieren',
+      duplicatesNote: '{count} Umsätze bereits aus einem früheren Auszug importiert: ausgeschlossen, sofern nicht anders gewählt.',
+      alreadyPresent: 'Bereits vorhanden',
+      editMapping: 'Format bearbeiten',
+      closingBalance: 'Endsaldo des Auszugs am {date}: ',
+      import: 'Importieren ({count})',
+      deleteModalTitle: 'Umsatz Löschen',
+      deleteMsg: 'Der Umsatz wird entfernt. Beim erneuten Import des Kontoauszugs wird er wieder vorgeschlagen.'
+    },
+    statementMapping: {
+      delimiterSemicolon: 'Semikolon (;)',
+      delimiterComma: 'Komma (,)',
+      delimiterTab: 'Tabulator',
+      delimiterPipe: 'Senkrechter Strich (|)',
+      amountSigned: 'Betrag mit Vorzeichen',
+      amountSplit: 'Spalten Soll / Haben',
+      amountIndicator: 'Betrag + Vorzeichenspalte',
+      dateDmy: 'TT/MM/JJJJ',
+      dateMdy: 'MM/TT/JJJJ',
+      dateYmd: 'JJJJ-MM-TT',
+      none: '- Keine -',
+      select: 'Auswählen...',
+      title: 'Format des Kontoauszugs',
+      remembered: 'das Format wird für künftige Importe gespeichert',
+      headerHint: 'Klicken Sie auf die Zeile mit den Spaltennamen: die Zeilen darüber werden ignoriert.',
+      delimiter: 'Trennzeichen',
+      headerRow: 'Kopfzeile',
+      dateFormat: 'Datumsformat',
+      decimalSeparator: 'Dezimaltrennzeichen',
+      decimalComma: 'Komma (1.234,56)',
+      decimalPoint: 'Punkt (1,234.56)',
+      bookingDate: 'Buchungsdatum *',
+      valueDate: 'Valutadatum',
+      counterparty: 'Gegenpartei',
+      amount: 'Betrag',
+      debitColumn: 'Spalte Soll (Ausgänge) *',
+      creditColumn: 'Spalte Haben (Eingänge) *',
+      amountColumn: 'Betragsspalte *',
+      signColumn: 'Vorzeichenspalte *',
+      debitMarker: 'Wert für eine Belastung',
+      debitMarkerPlaceholder: 'z. B. D',
+      description: 'Beschreibung (die gewählten Spalten werden in Auswahlreihenfolge verbunden)',
+      missingColumns: 'Spalten nicht in der Datei: {columns}. Bitte erneut auswählen.',
+      preview: 'Vorschau: {count} Umsätze',
+      skippedRows: ' · {count} Zeilen ohne Datum oder Betrag ignoriert',
+      next: 'Weiter'
+    },
+    bankTransfer: {
+      invalidAmount: 'Der Betrag der Umbuchung muss größer als null sein.',
+      missingAccounts: 'Wählen Sie das Belastungs- und das Gutschriftkonto.',
+      sameAccount: 'Belastungs- und Gutschriftkonto müssen verschieden sein.',
+      formEdit: 'Umbuchung Bearbeiten',
+      formNew: 'Neue Umbuchung',
+      subtitle: 'Übertrag zwischen zwei Konten der Eigentümergemeinschaft: weder Ausgabe noch Einnahme.',
+      from: 'Vom Konto',
+      to: 'Auf Konto',
+      select: 'Auswählen...',
+      amount: 'Betrag (€)',
+      date: 'Datum',
+      description: 'Beschreibung (Optional)',
+      descriptionPlaceholder: 'z. B. Zuführung zur Instandhaltungsrücklage',
+      update: 'Umbuchung Aktualisieren',
+      save: 'Umbuchung Speichern'
+    },
+    quotas: {
+      missingFirstDue: 'Geben Sie die Fälligkeit der ersten Rate an.',
+      confirmNoApproval: 'Der Wirtschaftsplan hat kein Beschlussdatum der Versammlung. Raten trotzdem erstellen?',
+      confirmReplace: 'Für das Geschäftsjahr {year} gibt es bereits {count} Raten. Durch den neuen Plan ersetzen?',
+      nothingGenerated: 'Keine Raten erstellt: Prüfen Sie die Tausendstel-Tabellen.',
+      noBudgets: 'Kein Wirtschaftsplan vorhanden: Erstellen Sie einen unter Berichte > Wirtschaftsplan, um Raten zu erzeugen.',
+      planTitle: 'Ratenplan Erstellen',
+      planDesc: 'Der Jahresanteil jeder Einheit wird berechnet, indem die Posten des Wirtschaftsplans nach den Tausendstel-Tabellen verteilt werden.',
+      budget: 'Wirtschaftsplan',
+      fiscalYear: 'Geschäftsjahr {year}',
+      count: 'Anzahl Raten',
+      firstDue: 'Erste Fälligkeit',
+      interval: 'Rhythmus',
+      monthly: 'Monatlich',
+      bimonthly: 'Zweimonatlich',
+      quarterly: 'Vierteljährlich',
+      fourMonthly: 'Viermonatlich',
+      semiannual: 'Halbjährlich',
+      annual: 'Jährlich',
+      unallocated: 'Posten ohne Tausendstel-Tabelle ausgeschlossen: {categories}',
+      generate: 'Raten Erstellen',
+      installmentsTitle: 'Raten Geschäftsjahr {year}',
+      installmentsSummary: '{count} Raten, gesamt {amount}',
+      colDue: 'Fälligkeit',
+      colUnit: 'Einheit',
+      colDescription: 'Beschreibung',
+      colAmount: 'Betrag',
+      colActions: 'Aktionen',
+      confirmDelete: 'Diese Rate löschen?',
+      deleteTitle: 'Rate Löschen',
+      noInstallments: 'Für dieses Geschäftsjahr wurden keine Raten erstellt.',
+      ledgerTitle: 'Stand der Beiträge',
+      ledgerDesc: 'Die Zahlungen jeder Einheit begleichen die Raten ab der ältesten Fälligkeit.',
+      searchPlaceholder: 'Einheit oder Eigentümer...',
+      colUnitOwners: 'Einheit / Eigentümer',
+      colOwed: 'Soll',
+      colPaid: 'Gezahlt',
+      colRemaining: 'Offen',
+      colOverdue: 'Davon überfällig',
+      credit: 'Guthaben {amount}',
+      paidAmount: 'gezahlt {amount}',
+      statePaid: 'Bezahlt',
+      statePartial: 'Teilweise',
+      stateOutstanding: 'Offen',
+      stateOverdue: 'Überfällig',
+      noUnitInstallments: 'Für diese Einheit wurden keine Raten ausgestellt.',
+      noUnits: 'Keine Einheiten gefunden.',
+      total: 'Gesamt',
+      statementTitle: 'Kontoauszug Eigentümer',
+      statementDesc: 'Belastete Raten und erhaltene Zahlungen im Zeitraum, mit laufendem Saldo.',
+      statementExportPdf: 'PDF exportieren',
+      statementExportAll: 'Alle Eigentümer',
+      statementConfirmExportAll: 'Es werden {count} PDFs heruntergeladen, eines pro Eigentümer. Fortfahren?',
+      statementNoUnits: 'Keine Einheiten im Register: Fügen Sie sie hinzu, um Kontoauszüge zu erstellen.',
+      statementOwner: 'Eigentümer',
+      statementFrom: 'Von',
+      statementTo: 'Bis',
+      statementInvalidPeriod: 'Der angegebene Zeitraum ist ungültig.',
+      statementUnit: 'Einheit {code}',
+      statementNoOwner: 'Kein Eigentümer erfasst',
+      statementNoOwnerGroup: 'Ohne Eigentümer',
+      colDate: 'Datum',
+      colDebit: 'Belastungen',
+      colCredit: 'Zahlungen',
+      colBalance: 'Saldo',
+      openingBalance: 'Anfangssaldo',
+      closingBalance: 'Endsaldo',
+      balanceDebit: '{amount} Soll',
+      balanceCredit: '{amount} Guthaben',
+      interestToCharge: 'Aufgelaufene, noch nicht belastete Verzugszinsen ({rate}):',
+      expenseSharesTitle: 'Ausgaben des Zeitraums'
+    },
+    registry: {
+      tabUnits: 'Einheiten ({count})',
+      tabPersons: 'Personen ({count})',
+      tabMillesimi: 'Tausendstel ({count})',
+      newUnit: 'Neue Einheit',
+      newPerson: 'Neue Person',
+      search: 'Suchen...',
+      actions: 'Aktionen',
+      notes: 'Notizen',
+      select: 'Auswählen...',
+      add: 'Hinzufügen',
+      remove: 'Entfernen',
+      personNameRequired: 'Der Name ist erforderlich.',
+      personInvalidFiscalCode: 'Die Steuernummer muss 16 Zeichen (natürliche Person) oder 11 Ziffern (Gesellschaft) haben.',
+      personFormEdit: 'Person bearbeiten',
+      personFormNew: 'Neue Person',
+      personName: 'Vor- und Nachname / Firmenname',
+      personNamePlaceholder: 'Z.B. Mario Rossi',
+      fiscalCode: 'Steuernummer',
+      phone: 'Telefon',
+      address: 'Wohnsitz / Anschrift',
+      addressPlaceholder: 'Straße, Hausnummer, PLZ, Gemeinde (Provinz)',
+      email: 'E-Mail',
+      pec: 'PEC',
+      personUpdate: 'Person aktualisieren',
+      personSave: 'Person speichern',
+      personsTitle: 'Personen',
+      personsSubtitle: 'Eigentümer, Inhaber dinglicher Rechte und Mieter.',
+      colName: 'Name',
+      colContacts: 'Kontakte',
+      colUnits: 'Einheiten',
+      roleOwner: '{code} (Eig.)',
+      roleTenant: '{code} (Miet.)',
+      editPerson: 'Person bearbeiten',
+      deletePerson: 'Person löschen',
+      noPersons: 'Keine Personen gefunden.',
+      deletePersonMsg: 'Sind Sie sicher? Die Person wird auch aus den Einheiten entfernt, in denen sie als Eigentümer oder Mieter erscheint, und die von ihr unterzeichneten SDD-Mandate werden gelöscht.',
+      rightProprieta: 'Eigentum',
+      rightNudaProprieta: 'Bloßes Eigentum',
+      rightUsufrutto: 'Nießbrauch',
+      unitCodeRequired: 'Die Kennung der Einheit ist erforderlich.',
+      unitMissingPerson: 'Wählen Sie für jeden Eigentümer und Mieter eine Person aus.',
+      unitInvalidShare: 'Die Anteile müssen zwischen 0 und 100 liegen.',
+      unitShareTotal: 'Die Eigentumsanteile ergeben {total}%, sie müssen 100% betragen.',
+      unitInvalidRendita: 'Der Katasterertrag ist ungültig.',
+      unitFormEdit: 'Immobilieneinheit bearbeiten',
+      unitFormNew: 'Neue Immobilieneinheit',
+      unitCode: 'Kennung',
+      unitCodePlaceholder: 'Z.B. A3, Laden 1, Garage 4',
+      unitType: 'Typ',
+      staircase: 'Treppenhaus',
+      staircasePlaceholder: 'Z.B. A',
+      floor: 'Stockwerk',
+      floorPlaceholder: 'Z.B. 2, EG, U1',
+      cadastralData: 'Katasterdaten',
+      sezione: 'Sektion',
+      foglio: 'Blatt',
+      particella: 'Parzelle',
+      subalterno: 'Untereinheit',
+      categoria: 'Kategorie',
+      classe: 'Klasse',
+      rendita: 'Katasterertrag (€)',
+      noPersonsWarning: 'Keine Personen im Register. Fügen Sie zuerst Eigentümer und Mieter im Bereich Personen hinzu.',
+      ownersTitle: 'Eigentümer und Inhaber dinglicher Rechte',
+      person: 'Person',
+      right: 'Recht',
+      share: 'Anteil %',
+      noOwners: 'Kein Eigentümer angegeben.',
+      tenantsTitle: 'Mieter und Entleiher',
+      tenantFrom: 'Von',
+      tenantTo: 'Bis',
+      noTenants: 'Keine Mieter.',
+      unitUpdate: 'Einheit aktualisieren',
+      unitSave: 'Einheit speichern',
+      unitsTitle: 'Immobilieneinheiten',
+      unitsSubtitle: 'Wohnungen, Läden, Garagen und Keller des Gebäudes mit ihren Inhabern.',
+      colUnit: 'Einheit',
+      colCadastral: 'Katasterdaten',
+      colOwners: 'Eigentümer',
+      colTenants: 'Mieter',
+      staircaseShort: 'Treppenhaus {value}',
+      floorShort: 'Stockwerk {value}',
+      editUnit: 'Einheit bearbeiten',
+      deleteUnit: 'Einheit löschen',
+      noUnits: 'Keine Immobilieneinheiten gefunden.',
+      deleteUnitMsg: 'Sind Sie sicher? Die Einheit wird aus dem Register entfernt. Der Vorgang kann nicht rückgängig gemacht werden.'
+    },
+    settings: {
+      invalidFiscalCode: 'Die Steuernummer der Gemeinschaft ist ungültig.',
+      invalidCreditorId: 'Die SEPA-Gläubiger-ID ist ungültig.',
+      invalidRates: 'Vervollständigen Sie die Zinstabelle mit gültigen Daten und Prozentsätzen.',
+      missingRates: 'Geben Sie mindestens einen Zinssatz laut Gemeinschaftsordnung ein.',
+      title: 'Einstellungen der Gemeinschaft',
+      fiscalData: 'Steuerdaten',
+      fiscalCode: 'Steuernummer der Gemeinschaft',
+      fiscalCodePlaceholder: 'Z.B. 91234567890',
+      fiscalCodeHint: 'Wird als Steuerpflichtiger auf den F24-Formularen und den Lieferantenbescheinigungen angegeben.',
+      creditorId: 'SEPA-Gläubiger-ID',
+      creditorIdPlaceholder: 'Z.B. IT66ZZZA1B2C3D4E5F6G7H8',
+      creditorIdHint: 'Wird von der Bank vergeben, um Beiträge per SDD-Lastschrift einzuziehen.',
+      fiscalYear: 'Geschäftsjahr',
+      startMonth: 'Anfangsmonat',
+      startDay: 'Anfangstag',
+      currentFiscalYear: 'Aktuelles Geschäftsjahr:',
+      currentRange: '(vom {start} bis {end}).',
+      fiscalYearHint: 'Dashboard, Berichte, Haushaltspläne und Exporte werden auf das Geschäftsjahr berechnet.',
+      interest: 'Verzugszinsen',
+      interestMode: 'Angewandter Zinssatz',
+      interestLegal: 'Gesetzlicher Zinssatz',
+      interestCustom: 'Zinssatz laut Gemeinschaftsordnung',
+      rateFrom: 'ab {year}',
+      ratePlaceholder: '% jährlich',
+      removeRate: 'Entfernen',
+      addRate: 'Zinssatz hinzufügen',
+      ratesHint: 'Jeder Zinssatz gilt ab dem angegebenen Datum bis zur nächsten Änderung.',
+      save: 'Einstellungen speichern'
+    },
+    suppliers: {
+      nameRequired: 'Der Firmenname ist erforderlich.',
+      invalidVat: 'Die USt-IdNr. ist ungültig: Sie muss 11 Ziffern mit korrekter Prüfziffer haben.',
+      invalidFiscalCode: 'Die Steuernummer ist ungültig.',
+      invalidIban: 'Die IBAN ist ungültig: Prüfen Sie Länge und Prüfziffern.',
+      formEdit: 'Lieferant bearbeiten',
+      formNew: 'Neuer Lieferant',
+      name: 'Firmenname',
+      namePlaceholder: 'Z.B. Idraulica Bianchi S.r.l.',
+      vatNumber: 'USt-IdNr.',
+      fiscalCode: 'Steuernummer',
+      fiscalCodePlaceholder: 'Falls abweichend von der USt-IdNr.',
+      iban: 'IBAN',
+      address: 'Sitz',
+      addressPlaceholder: 'Straße, Hausnummer, PLZ, Gemeinde (Provinz)',
+      email: 'E-Mail',
+      pec: 'PEC',
+      phone: 'Telefon',
+      defaultCategory: 'Standardkategorie',
+      noCategory: 'Keine',
+      withholding: 'Quellensteuer ({rate}%)',
+      noWithholding: 'Keiner Quellensteuer unterworfen',
+      defaultAccount: 'Standard-Zahlungskonto',
+      noAccount: 'Keines',
+      notes: 'Notizen',
+      update: 'Lieferant aktualisieren',
+      save: 'Lieferant speichern',
+      title: 'Lieferanten',
+      subtitle: 'Lieferantenregister mit der Summe der erfassten Ausgaben.',
+      search: 'Suchen...',
+      new: 'Neuer Lieferant',
+      colTaxId: 'USt-IdNr. / St.-Nr.',
+      colContacts: 'Kontakte',
+      colSpent: 'Ausgegeben',
+      colUnpaid: 'Offen',
+      colActions: 'Aktionen',
+      expenseCount: '{count} Ausgaben',
+      lastExpense: 'letzte {date}',
+      edit: 'Lieferant bearbeiten',
+      delete: 'Lieferant löschen',
+      noSuppliers: 'Keine Lieferanten gefunden.',
+      deleteMsg: 'Sind Sie sicher? Verknüpfte Ausgaben bleiben erfasst, aber ohne Lieferant.'
     },
     common: {
       delete: 'Löschen',
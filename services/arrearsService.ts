@@ -0,0 +1,74 @@
+import { Income, Installment, ReminderLetter, ReminderLevel, Unit } from "../types";
+import { daysBetween, round2 } from "../utils";
+import { computeUnitReceivable } from "./quotaService";
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export const getAgingBucket = (daysOverdue: number): AgingBucket => {
+  if (daysOverdue <= 30) return '0-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+};
+
+export interface ArrearsRow {
+  unitId: string;
+  overdue: number;
+  daysOverdue: number; // Giorni dalla scadenza della rata insoluta più vecchia
+  oldestDueDate: string;
+  buckets: Record<AgingBucket, number>;
+  lastReminder?: ReminderLetter;
+  suggestedLevel: ReminderLevel;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+/**
+ * Morosità per unità: il residuo di ogni rata scaduta viene collocato nella fascia
+ * di anzianità corrispondente ai giorni trascorsi dalla sua scadenza.
+ * Dopo un primo sollecito senza esito viene proposta la diffida.
+ */
+export const computeArrears = (
+  units: Unit[],
+  installments: Installment[],
+  incomes: Income[],
+  reminders: ReminderLetter[],
+  today: string = new Date().toISOString().slice(0, 10)
+): ArrearsRow[] =>
+  [...units]
+    .sort((a, b) => a.code.localeCompare(b.code, 'it', { numeric: true }))
+    .map(unit => {
+      const receivable = computeUnitReceivable(unit.id, installments, incomes, today);
+      const overdueItems = receivable.installments.filter(s => s.overdue);
+      if (overdueItems.length === 0) return null;
+
+      const buckets = emptyBuckets();
+      overdueItems.forEach(s => {
+        const bucket = getAgingBucket(daysBetween(s.installment.dueDate, today));
+        buckets[bucket] = round2(buckets[bucket] + s.remaining);
+      });
+
+      const lastReminder = reminders
+        .filter(r => r.unitId === unit.id)
+        .sort((a, b) => b.date.localeCompare(a.date))[0];
+      const oldestDueDate = overdueItems[0].installment.dueDate;
+
+      return {
+        unitId: unit.id,
+        overdue: receivable.overdue,
+        daysOverdue: daysBetween(oldestDueDate, today),
+        oldestDueDate,
+        buckets,
+        lastReminder,
+        suggestedLevel: lastReminder ? 'formal' : 'first',
+      } as ArrearsRow;
+    })
+    .filter((row): row is ArrearsRow => row !== null)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+export const sumBuckets = (rows: ArrearsRow[]): Record<AgingBucket, number> => {
+  const totals = emptyBuckets();
+  rows.forEach(r => AGING_BUCKETS.forEach(b => { totals[b] = round2(totals[b] + r.buckets[b]); }));
+  return totals;
+};
@@ -0,0 +1,321 @@
+import { CondoData, CondoSettings } from "../types";
+import { CURRENT_SCHEMA_VERSION, migrateCondoData } from "./migrations";
+import { normalizeSettings } from "./settingsService";
+
+// 1.1: aggiunto schemaVersion, i backup 1.0 sono considerati allo schema 0
+export const BACKUP_VERSION = '1.1';
+const SUPPORTED_VERSIONS = ['1.0', '1.1'];
+
+export interface BackupFile extends CondoData {
+  condoName: string;
+  exportDate?: string;
+  version: string;
+  schemaVersion: number;
+  settings?: CondoSettings; // Assente nei backup precedenti alle impostazioni per condominio
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface CollectionPreview {
+  current: number;
+  incoming: number;
+  added: number;     // Record presenti solo nel backup
+  conflicts: number; // Record con lo stesso id in entrambi
+}
+
+export interface RestorePreview {
+  collections: Record<keyof CondoData, CollectionPreview>;
+  sameCondo: boolean;
+}
+
+// Sezioni obbligatorie fin dal primo formato di backup
+const REQUIRED_COLLECTIONS: (keyof CondoData)[] = ['expenses', 'incomes', 'bankAccounts'];
+// Sezioni aggiunte successivamente: se assenti il backup non contiene dati di quel tipo
+const OPTIONAL_COLLECTIONS: (keyof CondoData)[] = ['units', 'persons', 'millesimiTables', 'budgets', 'installments', 'reminders', 'suppliers', 'f24Payments', 'bankTransactions', 'bankReconciliations', 'sddMandates', 'bankTransfers'];
+const COLLECTIONS = [...REQUIRED_COLLECTIONS, ...OPTIONAL_COLLECTIONS];
+
+const isIsoDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown) => typeof value === 'string';
+
+const validateExpense = (e: any, index: number) => {
+  const where = `Spesa #${index + 1}`;
+  if (!e || typeof e !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(e.id) || !e.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(e.description)) throw new Error(`${where}: descrizione mancante.`);
+  if (!isFiniteNumber(e.amount)) throw new Error(`${where}: importo non valido.`);
+  if (!isIsoDate(e.date)) throw new Error(`${where}: data non valida.`);
+  if (!isString(e.category)) throw new Error(`${where}: categoria mancante.`);
+  if (e.status !== undefined && e.status !== 'paid' && e.status !== 'unpaid') throw new Error(`${where}: stato non valido.`);
+  if (e.attachments !== undefined && !Array.isArray(e.attachments)) throw new Error(`${where}: allegati non validi.`);
+  if (e.paidDate !== undefined && !isIsoDate(e.paidDate)) throw new Error(`${where}: data di pagamento non valida.`);
+  if (e.supplierFiscalCode !== undefined && !isString(e.supplierFiscalCode)) throw new Error(`${where}: codice fiscale del fornitore non valido.`);
+  if (e.invoiceNumber !== undefined && !isString(e.invoiceNumber)) throw new Error(`${where}: numero fattura non valido.`);
+  if (e.dueDate !== undefined && !isIsoDate(e.dueDate)) throw new Error(`${where}: data di scadenza non valida.`);
+  if (e.signatures !== undefined && (!Array.isArray(e.signatures) || e.signatures.some((sig: any) => !sig || !isString(sig.subject)))) {
+    throw new Error(`${where}: firme digitali non valide.`);
+  }
+  if (e.withholding !== undefined) {
+    const w = e.withholding;
+    if (!w || typeof w !== 'object' || !isFiniteNumber(w.taxableAmount) || !isFiniteNumber(w.rate) || !isFiniteNumber(w.amount)) {
+      throw new Error(`${where}: ritenuta d'acconto non valida.`);
+    }
+    if (w.taxCode !== '1019' && w.taxCode !== '1020') throw new Error(`${where}: codice tributo della ritenuta non valido.`);
+  }
+};
+
+const validateIncome = (i: any, index: number) => {
+  const where = `Incasso #${index + 1}`;
+  if (!i || typeof i !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(i.id) || !i.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(i.description)) throw new Error(`${where}: descrizione mancante.`);
+  if (!isFiniteNumber(i.amount)) throw new Error(`${where}: importo non valido.`);
+  if (!isIsoDate(i.date)) throw new Error(`${where}: data non valida.`);
+  if (!isString(i.category)) throw new Error(`${where}: categoria mancante.`);
+  if (i.sddMandateId !== undefined && !isString(i.sddMandateId)) throw new Error(`${where}: mandato SDD non valido.`);
+  if (i.sddEndToEndId !== undefined && !isString(i.sddEndToEndId)) throw new Error(`${where}: identificativo dell'addebito SDD non valido.`);
+};
+
+const validateBankAccount = (a: any, index: number) => {
+  const where = `Conto #${index + 1}`;
+  if (!a || typeof a !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(a.id) || !a.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(a.name)) throw new Error(`${where}: nome mancante.`);
+  if (!isFiniteNumber(a.initialBalance)) throw new Error(`${where}: saldo iniziale non valido.`);
+  if (a.initialBalanceDate !== undefined && !isIsoDate(a.initialBalanceDate)) throw new Error(`${where}: data del saldo iniziale non valida.`);
+  if (a.iban !== undefined && !isString(a.iban)) throw new Error(`${where}: IBAN non valido.`);
+  if (a.statementBalance !== undefined && !isFiniteNumber(a.statementBalance)) throw new Error(`${where}: saldo da estratto conto non valido.`);
+  if (a.statementDate !== undefined && !isIsoDate(a.statementDate)) throw new Error(`${where}: data del saldo da estratto conto non valida.`);
+  if (a.statementMapping !== undefined) {
+    const m = a.statementMapping;
+    if (!m || typeof m !== 'object' || !isString(m.dateColumn) || !Array.isArray(m.descriptionColumns) || !isFiniteNumber(m.headerRow)) {
+      throw new Error(`${where}: tracciato dell'estratto conto non valido.`);
+    }
+  }
+};
+
+const validateUnit = (u: any, index: number) => {
+  const where = `Unità #${index + 1}`;
+  if (!u || typeof u !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(u.id) || !u.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(u.code)) throw new Error(`${where}: identificativo mancante.`);
+  if (!u.cadastral || typeof u.cadastral !== 'object') throw new Error(`${where}: dati catastali mancanti.`);
+  if (!Array.isArray(u.owners) || !Array.isArray(u.tenants)) throw new Error(`${where}: proprietari o inquilini non validi.`);
+};
+
+const validatePerson = (p: any, index: number) => {
+  const where = `Persona #${index + 1}`;
+  if (!p || typeof p !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(p.id) || !p.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(p.name)) throw new Error(`${where}: nome mancante.`);
+};
+
+const validateMillesimiTable = (m: any, index: number) => {
+  const where = `Tabella millesimale #${index + 1}`;
+  if (!m || typeof m !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(m.id) || !m.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(m.name)) throw new Error(`${where}: nome mancante.`);
+  if (!m.values || typeof m.values !== 'object' || Object.values(m.values).some(v => !isFiniteNumber(v))) {
+    throw new Error(`${where}: valori non validi.`);
+  }
+  if (!Array.isArray(m.categories)) throw new Error(`${where}: categorie non valide.`);
+};
+
+const validateBudget = (b: any, index: number) => {
+  const where = `Preventivo #${index + 1}`;
+  if (!b || typeof b !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(b.id) || !b.id) throw new Error(`${where}: id mancante.`);
+  if (!Number.isInteger(b.year)) throw new Error(`${where}: esercizio non valido.`);
+  if (!b.items || typeof b.items !== 'object' || Object.values(b.items).some(v => !isFiniteNumber(v))) {
+    throw new Error(`${where}: voci non valide.`);
+  }
+  if (!isFiniteNumber(b.warningThreshold)) throw new Error(`${where}: soglia non valida.`);
+};
+
+const validateInstallment = (r: any, index: number) => {
+  const where = `Rata #${index + 1}`;
+  if (!r || typeof r !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(r.id) || !r.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(r.unitId) || !r.unitId) throw new Error(`${where}: unità mancante.`);
+  if (!Number.isInteger(r.fiscalYear)) throw new Error(`${where}: esercizio non valido.`);
+  if (!isIsoDate(r.dueDate)) throw new Error(`${where}: scadenza non valida.`);
+  if (!isFiniteNumber(r.amount)) throw new Error(`${where}: importo non valido.`);
+  if (r.kind !== undefined && r.kind !== 'quota' && r.kind !== 'interest') throw new Error(`${where}: tipo non valido.`);
+};
+
+const validateReminder = (r: any, index: number) => {
+  const where = `Sollecito #${index + 1}`;
+  if (!r || typeof r !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(r.id) || !r.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(r.unitId) || !r.unitId) throw new Error(`${where}: unità mancante.`);
+  if (r.level !== 'first' && r.level !== 'formal') throw new Error(`${where}: livello non valido.`);
+  if (!isIsoDate(r.date) || !isIsoDate(r.deadline)) throw new Error(`${where}: data non valida.`);
+  if (!isFiniteNumber(r.amount)) throw new Error(`${where}: importo non valido.`);
+};
+
+const validateSupplier = (s: any, index: number) => {
+  const where = `Fornitore #${index + 1}`;
+  if (!s || typeof s !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(s.id) || !s.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(s.name) || !s.name) throw new Error(`${where}: ragione sociale mancante.`);
+};
+
+const validateF24Payment = (f: any, index: number) => {
+  const where = `F24 #${index + 1}`;
+  if (!f || typeof f !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(f.id) || !f.id) throw new Error(`${where}: id mancante.`);
+  if (!isIsoDate(f.date)) throw new Error(`${where}: data di versamento non valida.`);
+  if (!isString(f.bankAccountId)) throw new Error(`${where}: conto di addebito mancante.`);
+  if (!Array.isArray(f.lines) || f.lines.some((l: any) => !l || !isString(l.taxCode) || !isFiniteNumber(l.amount))) {
+    throw new Error(`${where}: righe tributo non valide.`);
+  }
+  if (!Array.isArray(f.expenseIds)) throw new Error(`${where}: spese collegate non valide.`);
+};
+
+const validateBankTransaction = (b: any, index: number) => {
+  const where = `Movimento bancario #${index + 1}`;
+  if (!b || typeof b !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(b.id) || !b.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(b.bankAccountId) || !b.bankAccountId) throw new Error(`${where}: conto mancante.`);
+  if (!isIsoDate(b.bookingDate)) throw new Error(`${where}: data contabile non valida.`);
+  if (b.valueDate !== undefined && !isIsoDate(b.valueDate)) throw new Error(`${where}: data valuta non valida.`);
+  if (!isFiniteNumber(b.amount)) throw new Error(`${where}: importo non valido.`);
+};
+
+const validateBankReconciliation = (r: any, index: number) => {
+  const where = `Riconciliazione #${index + 1}`;
+  if (!r || typeof r !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(r.id) || !r.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(r.bankAccountId) || !r.bankAccountId) throw new Error(`${where}: conto mancante.`);
+  if (!Array.isArray(r.transactionIds) || !r.transactionIds.every(isString)) throw new Error(`${where}: movimenti bancari non validi.`);
+  if (!Array.isArray(r.records) || !r.records.every((rec: any) => rec && ['expense', 'income', 'f24', 'transfer'].includes(rec.type) && isString(rec.id))) {
+    throw new Error(`${where}: registrazioni abbinate non valide.`);
+  }
+};
+
+const validateSddMandate = (m: any, index: number) => {
+  const where = `Mandato SDD #${index + 1}`;
+  if (!m || typeof m !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(m.id) || !m.id) throw new Error(`${where}: id mancante.`);
+  if (!isString(m.reference) || !m.reference) throw new Error(`${where}: identificativo del mandato mancante.`);
+  if (!isString(m.unitId) || !isString(m.personId)) throw new Error(`${where}: unità o condòmino mancante.`);
+  if (!isString(m.iban)) throw new Error(`${where}: IBAN mancante.`);
+  if (!isIsoDate(m.signatureDate)) throw new Error(`${where}: data di sottoscrizione non valida.`);
+  if (m.scheme !== 'CORE' && m.scheme !== 'B2B') throw new Error(`${where}: schema non valido.`);
+  if (m.revokedDate !== undefined && !isIsoDate(m.revokedDate)) throw new Error(`${where}: data di revoca non valida.`);
+};
+
+const validateBankTransfer = (t: any, index: number) => {
+  const where = `Giroconto #${index + 1}`;
+  if (!t || typeof t !== 'object') throw new Error(`${where}: record non valido.`);
+  if (!isString(t.id) || !t.id) throw new Error(`${where}: id mancante.`);
+  if (!isIsoDate(t.date)) throw new Error(`${where}: data non valida.`);
+  if (!isFiniteNumber(t.amount) || t.amount <= 0) throw new Error(`${where}: importo non valido.`);
+  if (!isString(t.fromAccountId) || !isString(t.toAccountId) || !t.fromAccountId || !t.toAccountId) throw new Error(`${where}: conti mancanti.`);
+  if (t.fromAccountId === t.toAccountId) throw new Error(`${where}: i due conti coincidono.`);
+  if (t.description !== undefined && !isString(t.description)) throw new Error(`${where}: descrizione non valida.`);
+};
+
+/**
+ * Legge e valida un file di backup prodotto da Dashboard.handleExportBackup.
+ * I dati vengono migrati allo schema corrente con la stessa pipeline usata al caricamento.
+ * Lancia un errore con un messaggio leggibile se forma o versione non sono riconosciute.
+ */
+export const parseBackup = (text: string): BackupFile => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Il file non è un JSON valido.");
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error("Il file non contiene un backup.");
+  }
+  if (!isString(raw.version)) {
+    throw new Error("Versione del backup mancante.");
+  }
+  if (!SUPPORTED_VERSIONS.includes(raw.version)) {
+    throw new Error(`Versione del backup non supportata (${raw.version}).`);
+  }
+  if (!isString(raw.condoName)) {
+    throw new Error("Nome del condominio mancante nel backup.");
+  }
+  REQUIRED_COLLECTIONS.forEach(key => {
+    if (!Array.isArray(raw[key])) throw new Error(`Sezione "${key}" mancante o non valida.`);
+  });
+  OPTIONAL_COLLECTIONS.forEach(key => {
+    if (raw[key] !== undefined && !Array.isArray(raw[key])) throw new Error(`Sezione "${key}" non valida.`);
+  });
+
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  // Porta i dati del backup allo schema corrente prima di validarli
+  const { data } = migrateCondoData(
+    Object.fromEntries(COLLECTIONS.map(key => [key, raw[key]])),
+    schemaVersion
+  );
+
+  data.expenses.forEach(validateExpense);
+  data.incomes.forEach(validateIncome);
+  data.bankAccounts.forEach(validateBankAccount);
+  data.units.forEach(validateUnit);
+  data.persons.forEach(validatePerson);
+  data.millesimiTables.forEach(validateMillesimiTable);
+  data.budgets.forEach(validateBudget);
+  data.installments.forEach(validateInstallment);
+  data.reminders.forEach(validateReminder);
+  data.suppliers.forEach(validateSupplier);
+  data.f24Payments.forEach(validateF24Payment);
+  data.bankTransactions.forEach(validateBankTransaction);
+  data.bankReconciliations.forEach(validateBankReconciliation);
+  data.sddMandates.forEach(validateSddMandate);
+  data.bankTransfers.forEach(validateBankTransfer);
+
+  return {
+    condoName: raw.condoName,
+    exportDate: isString(raw.exportDate) ? raw.exportDate : undefined,
+    version: raw.version,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    settings: raw.settings !== undefined ? normalizeSettings(raw.settings) : undefined,
+    ...data,
+  };
+};
+
+export const createBackup = (condoName: string, data: CondoData, settings: CondoSettings): BackupFile => ({
+  condoName,
+  exportDate: new Date().toISOString(),
+  ...data,
+  settings,
+  version: BACKUP_VERSION,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+});
+
+const previewCollection = (current: { id: string }[], incoming: { id: string }[]): CollectionPreview => {
+  const currentIds = new Set(current.map(item => item.id));
+  const conflicts = incoming.filter(item => currentIds.has(item.id)).length;
+  return {
+    current: current.length,
+    incoming: incoming.length,
+    added: incoming.length - conflicts,
+    conflicts,
+  };
+};
+
+export const previewRestore = (current: CondoData, backup: BackupFile, condoName: string): RestorePreview => ({
+  collections: Object.fromEntries(
+    COLLECTIONS.map(key => [key, previewCollection(current[key], backup[key])])
+  ) as Record<keyof CondoData, CollectionPreview>,
+  sameCondo: backup.condoName === condoName,
+});
+
+// In modalità "merge" i record con lo stesso id vengono sostituiti dalla versione del backup
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const incomingIds = new Set(incoming.map(item => item.id));
+  return [...current.filter(item => !incomingIds.has(item.id)), ...incoming];
+};
+
+export const applyRestore = (current: CondoData, backup: BackupFile, mode: RestoreMode): CondoData => {
+  return Object.fromEntries(
+    COLLECTIONS.map(key => [key, mode === 'replace' ? backup[key] : mergeById<{ id: string }>(current[key], backup[key])])
+  ) as unknown as CondoData;
+};
@@ -0,0 +1,91 @@
+import { BankAccount, BankTransfer, Expense, F24Payment, Income } from "../types";
+import { round2 } from "../utils";
+import { getF24Total } from "./f24Service";
+import { getNetToPay } from "./withholdingService";
+
+export interface BalanceSources {
+  expenses: Expense[];
+  incomes: Income[];
+  f24Payments: F24Payment[];
+  bankTransfers: BankTransfer[];
+}
+
+// Entrata o uscita del conto con la sua data: positiva per gli accrediti
+interface AccountMovement {
+  date: string;
+  amount: number;
+  transfer?: boolean; // Giroconto tra conti del condominio
+}
+
+// Situazione di cassa di un conto in un periodo
+export interface AccountPeriodBalance {
+  openingDate: string; // Inizio del periodo, o data del saldo iniziale se successiva
+  opening: number;
+  inflows: number;
+  outflows: number; // Positivo
+  transfers: number; // Saldo dei giroconti, tenuto fuori da entrate e uscite
+  closing: number;
+}
+
+/**
+ * Movimenti del conto: incassi, spese pagate e modelli F24 addebitati, giroconti.
+ * Per le spese con ritenuta d'acconto al fornitore esce solo il netto, mentre la
+ * ritenuta esce dal conto con l'F24 che la versa. Le spese valgono alla data di
+ * pagamento; quelle ancora da pagare non hanno mosso il conto. I movimenti
+ * precedenti la data del saldo iniziale vi sono già compresi.
+ */
+const getAccountMovements = (account: BankAccount, sources: BalanceSources): AccountMovement[] => {
+  const movements: AccountMovement[] = [
+    ...sources.expenses
+      .filter(e => e.bankAccountId === account.id && e.status === 'paid')
+      .map(e => ({ date: e.paidDate || e.date, amount: -getNetToPay(e) })),
+    ...sources.incomes
+      .filter(i => i.bankAccountId === account.id)
+      .map(i => ({ date: i.date, amount: i.amount })),
+    ...sources.f24Payments
+      .filter(p => p.bankAccountId === account.id)
+      .map(p => ({ date: p.date, amount: -getF24Total(p) })),
+    ...sources.bankTransfers
+      .filter(t => t.fromAccountId === account.id || t.toAccountId === account.id)
+      .map(t => ({ date: t.date, amount: t.toAccountId === account.id ? t.amount : -t.amount, transfer: true })),
+  ];
+  return account.initialBalanceDate ? movements.filter(m => m.date >= account.initialBalanceDate!) : movements;
+};
+
+const sumMovements = (movements: AccountMovement[]) => movements.reduce((sum, m) => sum + m.amount, 0);
+
+/** Il saldo di un conto è noto solo dalla data del saldo iniziale in poi. */
+export const isBalanceKnownAt = (account: BankAccount, date: string) =>
+  !account.initialBalanceDate || date >= account.initialBalanceDate;
+
+/**
+ * Saldo contabile di un conto alla fine della giornata `asOf`, o con tutti i movimenti
+ * registrati se la data manca. I giroconti spostano liquidità da un conto all'altro e
+ * sul totale dei conti si annullano.
+ */
+export const computeAccountBalance = (account: BankAccount, sources: BalanceSources, asOf?: string) => {
+  const movements = getAccountMovements(account, sources).filter(m => !asOf || m.date <= asOf);
+  return round2(account.initialBalance + sumMovements(movements));
+};
+
+/**
+ * Saldi di apertura e chiusura di un conto in un periodo (estremi inclusi), per la
+ * situazione di cassa del rendiconto. Se il saldo iniziale è datato dopo l'inizio del
+ * periodo, l'apertura è quel saldo. Assente se il conto parte dopo la fine del periodo.
+ */
+export const computeAccountPeriodBalance = (
+  account: BankAccount,
+  sources: BalanceSources,
+  start: string,
+  end: string,
+): AccountPeriodBalance | undefined => {
+  const openingDate = account.initialBalanceDate && account.initialBalanceDate > start ? account.initialBalanceDate : start;
+  if (openingDate > end) return undefined;
+  const movements = getAccountMovements(account, sources);
+  const opening = round2(account.initialBalance + sumMovements(movements.filter(m => m.date < openingDate)));
+  const inPeriod = movements.filter(m => m.date >= openingDate && m.date <= end);
+  const inflows = round2(sumMovements(inPeriod.filter(m => !m.transfer && m.amount > 0)));
+  const outflows = round2(inPeriod.filter(m => !m.transfer && m.amount < 0).reduce((sum, m) => sum - m.amount, 0));
+  const transfers = round2(sumMovements(inPeriod.filter(m => m.transfer)));
+  return { openingDate, opening, inflows, outflows, transfers, closing: round2(opening + inflows - outflows + transfers) };
+};
@@ -0,0 +1,46 @@
+import { BankAccount, BankTransaction } from "../types";
+import { generateId } from "../utils";
+import { normalizeCode } from "./validationService";
+
+// Movimento letto da un estratto conto, prima dell'assegnazione a un conto
+export type ParsedBankTransaction = Omit<BankTransaction, 'id' | 'bankAccountId' | 'importedAt'>;
+
+export const isSameIban = (a?: string, b?: string) => !!a && !!b && normalizeCode(a) === normalizeCode(b);
+
+/**
+ * Chiave con cui riconoscere lo stesso movimento in estratti conto sovrapposti:
+ * il riferimento della banca se presente, altrimenti data contabile, importo e causale.
+ */
+export const getTransactionKey = (t: ParsedBankTransaction) => {
+  if (t.reference) return `ref:${t.reference}`;
+  const remittance = (t.remittanceInfo || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${t.bookingDate}|${t.amount.toFixed(2)}|${remittance}`;
+};
+
+/**
+ * Indica quali movimenti in arrivo sono già registrati sul conto. Le chiavi sono
+ * contate: due commissioni identiche nello stesso giorno restano due movimenti,
+ * e solo quelle già presenti in numero uguale sono considerate doppie.
+ */
+export const findDuplicateTransactions = (existing: BankTransaction[], incoming: ParsedBankTransaction[]): boolean[] => {
+  const available = new Map<string, number>();
+  existing.forEach(t => {
+    const key = getTransactionKey(t);
+    available.set(key, (available.get(key) || 0) + 1);
+  });
+  return incoming.map(t => {
+    const key = getTransactionKey(t);
+    const count = available.get(key) || 0;
+    if (count === 0) return false;
+    available.set(key, count - 1);
+    return true;
+  });
+};
+
+export const createBankTransactions = (account: BankAccount, parsed: ParsedBankTransaction[]): BankTransaction[] => {
+  const importedAt = new Date().toISOString();
+  return parsed.map(t => ({ ...t, id: generateId(), bankAccountId: account.id, importedAt }));
+};
+
+export const sortTransactions = (transactions: BankTransaction[]) =>
+  [...transactions].sort((a, b) => b.bookingDate.localeCompare(a.bookingDate) || b.importedAt.localeCompare(a.importedAt));
@@ -0,0 +1,71 @@
+import { Budget, Expense, ExpenseCategory } from "../types";
+
+export const DEFAULT_WARNING_THRESHOLD = 90;
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+export interface BudgetVarianceRow {
+  category: string;
+  budgeted: number;
+  actual: number;
+  remaining: number;
+  percent: number | null; // null se la categoria non era preventivata
+  status: BudgetStatus;
+}
+
+export interface BudgetVariance {
+  rows: BudgetVarianceRow[];
+  budgeted: number;
+  actual: number;
+  remaining: number;
+  percent: number | null;
+  status: BudgetStatus;
+}
+
+const getStatus = (budgeted: number, actual: number, threshold: number): BudgetStatus => {
+  if (actual > budgeted) return 'over';
+  if (budgeted > 0 && (actual / budgeted) * 100 >= threshold) return 'warning';
+  return 'ok';
+};
+
+export const getBudgetForYear = (budgets: Budget[], year: number) => budgets.find(b => b.year === year);
+
+/**
+ * Confronto preventivo/consuntivo per categoria. Le spese passate devono essere
+ * già filtrate sull'esercizio del preventivo. Le categorie spese ma non preventivate
+ * compaiono con preventivo 0 e risultano sempre sforate.
+ */
+export const computeBudgetVariance = (budget: Budget, expenses: Expense[]): BudgetVariance => {
+  const actualByCategory = new Map<string, number>();
+  expenses.forEach(e => actualByCategory.set(e.category, (actualByCategory.get(e.category) || 0) + e.amount));
+
+  // Ordine delle categorie come nell'enum, poi eventuali categorie libere
+  const categories = [
+    ...Object.values(ExpenseCategory) as string[],
+    ...Array.from(actualByCategory.keys()).filter(c => !(Object.values(ExpenseCategory) as string[]).includes(c)),
+  ].filter(c => (budget.items[c] || 0) > 0 || actualByCategory.has(c));
+
+  const rows = categories.map(category => {
+    const budgeted = budget.items[category] || 0;
+    const actual = actualByCategory.get(category) || 0;
+    return {
+      category,
+      budgeted,
+      actual,
+      remaining: budgeted - actual,
+      percent: budgeted > 0 ? (actual / budgeted) * 100 : null,
+      status: getStatus(budgeted, actual, budget.warningThreshold),
+    };
+  });
+
+  const budgeted = rows.reduce((sum, r) => sum + r.budgeted, 0);
+  const actual = rows.reduce((sum, r) => sum + r.actual, 0);
+  return {
+    rows,
+    budgeted,
+    actual,
+    remaining: budgeted - actual,
+    percent: budgeted > 0 ? (actual / budgeted) * 100 : null,
+    status: getStatus(budgeted, actual, budget.warningThreshold),
+  };
+};
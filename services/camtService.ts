@@ -0,0 +1,121 @@
+import { round2 } from "../utils";
+import { ParsedBankTransaction } from "./bankTransactionService";
+import { normalizeCode } from "./validationService";
+import { amount, find, findAll, parseXml, text } from "./xmlService";
+
+export interface StatementBalance {
+  amount: number;
+  date: string;
+}
+
+export interface CamtStatement {
+  id: string;
+  iban?: string;
+  currency: string;
+  fromDate?: string;
+  toDate?: string;
+  openingBalance?: StatementBalance; // Saldo contabile iniziale (OPBD o PRCD)
+  closingBalance?: StatementBalance; // Saldo contabile finale (CLBD)
+  transactions: ParsedBankTransaction[];
+}
+
+const readDate = (parent: Element | undefined, name: string) => text(parent, name)?.slice(0, 10);
+
+const signed = (value: number, indicator?: string) => indicator === 'DBIT' ? -value : value;
+
+const readBalance = (bal: Element): StatementBalance & { type: string } => ({
+  type: text(bal, 'Tp', 'Cd') || text(bal, 'Tp', 'Prtry') || '',
+  amount: signed(amount(bal, 'Amt') || 0, text(bal, 'CdtDbtInd')),
+  date: readDate(bal, 'Dt') || '',
+});
+
+// Nel camt.053.001.08 nome e conto della controparte sono annidati in Pty/Acct
+const readParty = (details: Element, role: 'Dbtr' | 'Cdtr') => {
+  const parties = find(details, 'RltdPties');
+  return {
+    name: text(find(parties, role), 'Nm'),
+    iban: text(find(parties, `${role}Acct`), 'IBAN'),
+  };
+};
+
+const readRemittance = (details: Element | undefined) => {
+  if (!details) return undefined;
+  const unstructured = findAll(details, 'Ustrd').map(el => el.textContent?.trim()).filter(Boolean);
+  const structured = text(details, 'RmtInf', 'CdtrRefInf', 'Ref');
+  const parts = [...unstructured, ...(structured ? [structured] : [])];
+  return parts.length > 0 ? parts.join(' ') : undefined;
+};
+
+const parseEntry = (entry: Element, statementId: string): ParsedBankTransaction[] => {
+  const indicator = text(entry, 'CdtDbtInd');
+  const entryAmount = signed(amount(entry, 'Amt') || 0, indicator);
+  // BookgDt e ValDt contengono Dt o DtTm: interessa solo la data
+  const bookingDate = text(entry, 'BookgDt')?.slice(0, 10);
+  const valueDate = text(entry, 'ValDt')?.slice(0, 10);
+  const entryRef = text(entry, 'AcctSvcrRef') || text(entry, 'NtryRef');
+  const entryInfo = text(entry, 'AddtlNtryInf');
+  if (!bookingDate) throw new Error("Movimento senza data contabile nell'estratto conto.");
+
+  const details = findAll(entry, 'TxDtls');
+  // Un movimento cumulativo (es. distinta di bonifici) si scompone nelle singole operazioni solo se ne riporta gli importi
+  const splittable = details.length > 1 && details.every(d => amount(d, 'AmtDtls', 'Amt') !== undefined || amount(d, 'Amt') !== undefined);
+  const items = splittable ? details : [details[0]];
+
+  return items.map((detail, i) => {
+    const counterparty = readParty(detail || entry, indicator === 'DBIT' ? 'Cdtr' : 'Dbtr');
+    const detailAmount = splittable ? (amount(detail, 'AmtDtls', 'Amt') ?? amount(detail, 'Amt')!) : undefined;
+    const detailRef = [text(detail, 'Refs', 'AcctSvcrRef'), text(detail, 'Refs', 'EndToEndId')].find(r => r && r !== 'NOTPROVIDED');
+    const reference = detailRef || (entryRef && splittable ? `${entryRef}/${i + 1}` : entryRef);
+    const remittance = readRemittance(detail) || text(detail, 'AddtlTxInf') || entryInfo;
+    return {
+      bookingDate,
+      valueDate,
+      amount: detailAmount !== undefined ? signed(detailAmount, indicator) : entryAmount,
+      counterparty: counterparty.name,
+      counterpartyIban: counterparty.iban ? normalizeCode(counterparty.iban) : undefined,
+      remittanceInfo: remittance,
+      reference,
+      statementId,
+    };
+  });
+};
+
+/**
+ * Legge un estratto conto ISO 20022 camt.053 (versioni 001.02 - 001.08).
+ * Restituisce un estratto per ogni Stmt, con i soli movimenti contabilizzati:
+ * quelli in attesa o informativi non hanno ancora effetto sul saldo.
+ */
+export const parseCamt053 = (xml: string): CamtStatement[] => {
+  const root = parseXml(xml);
+  if (!find(root, 'BkToCstmrStmt')) throw new Error("Il file non è un estratto conto camt.053.");
+  return findAll(root, 'Stmt').map(stmt => {
+    const id = text(stmt, 'Id') || '';
+    const balances = findAll(stmt, 'Bal').map(readBalance);
+    const opening = balances.find(b => b.type === 'OPBD') || balances.find(b => b.type === 'PRCD');
+    const closing = balances.find(b => b.type === 'CLBD');
+    const transactions = findAll(stmt, 'Ntry')
+      .filter(entry => {
+        const status = text(entry, 'Sts', 'Cd') || text(entry, 'Sts');
+        return !status || status === 'BOOK';
+      })
+      .flatMap(entry => parseEntry(entry, id));
+    const iban = text(stmt, 'Acct', 'IBAN');
+    return {
+      id,
+      iban: iban ? normalizeCode(iban) : undefined,
+      currency: find(stmt, 'Acct', 'Ccy')?.textContent?.trim() || find(stmt, 'Amt')?.getAttribute('Ccy') || 'EUR',
+      fromDate: readDate(find(stmt, 'FrToDt'), 'FrDtTm') || readDate(find(stmt, 'FrToDt'), 'FrDt'),
+      toDate: readDate(find(stmt, 'FrToDt'), 'ToDtTm') || readDate(find(stmt, 'FrToDt'), 'ToDt'),
+      openingBalance: opening ? { amount: opening.amount, date: opening.date } : undefined,
+      closingBalance: closing ? { amount: closing.amount, date: closing.date } : undefined,
+      transactions,
+    };
+  });
+};
+
+/** Differenza tra il saldo finale dichiarato e quello ricostruito dai movimenti (0 se l'estratto quadra). */
+export const getStatementDifference = (statement: CamtStatement) => {
+  if (!statement.openingBalance || !statement.closingBalance) return 0;
+  const movements = statement.transactions.reduce((sum, t) => sum + t.amount, 0);
+  return round2(statement.closingBalance.amount - statement.openingBalance.amount - movements);
+};
@@ -0,0 +1,164 @@
+import { Expense, F24Payment, Supplier, WithholdingTaxCode } from "../types";
+import { round2 } from "../utils";
+import { getSupplierTaxId } from "./supplierService";
+import { getWithholdingPaymentDate } from "./withholdingService";
+import { normalizeCode } from "./validationService";
+
+export interface CertifiedPayment {
+  expenseId: string;
+  date: string; // Data di pagamento al fornitore
+  description: string;
+  gross: number;
+  taxable: number;
+  withheld: number;
+  taxCode: WithholdingTaxCode;
+  f24Date?: string; // Data dell'F24 che ha versato la ritenuta
+}
+
+export interface CertifiedF24 {
+  id: string;
+  date: string;
+  amount: number; // Quota del modello riferita al percipiente
+}
+
+export interface ContractorCertification {
+  key: string;
+  fiscalCode?: string; // Assente se la spesa non riporta né codice fiscale né P.IVA
+  name: string;
+  address?: string;
+  supplierId?: string;
+  payments: CertifiedPayment[];
+  taxCodes: WithholdingTaxCode[];
+  totalGross: number;
+  totalTaxable: number;
+  totalWithheld: number;
+  totalPaid: number; // Ritenute versate con F24
+  f24Payments: CertifiedF24[];
+}
+
+/**
+ * Dati di Certificazione Unica e 770 per l'anno indicato: per ogni percipiente,
+ * identificato dal codice fiscale o dalla P.IVA registrati sulla spesa, somma i
+ * compensi pagati nell'anno (principio di cassa), l'imponibile, le ritenute operate
+ * e quelle versate, con gli F24 che le hanno versate.
+ */
+export const computeCertifications = (
+  expenses: Expense[], suppliers: Supplier[], f24Payments: F24Payment[], year: number,
+): ContractorCertification[] => {
+  const byKey = new Map<string, ContractorCertification>();
+
+  expenses
+    .filter(e => e.withholding && e.status === 'paid' && getWithholdingPaymentDate(e).startsWith(`${year}-`))
+    .forEach(e => {
+      const supplier = suppliers.find(s => s.id === e.supplierId);
+      const rawCode = e.supplierFiscalCode || (supplier ? getSupplierTaxId(supplier) : undefined);
+      const fiscalCode = rawCode ? normalizeCode(rawCode) : undefined;
+      const key = fiscalCode || `missing:${e.supplierId || e.id}`;
+      const cert = byKey.get(key) || {
+        key,
+        fiscalCode,
+        name: supplier?.name || e.description,
+        address: supplier?.address,
+        supplierId: supplier?.id,
+        payments: [],
+        taxCodes: [],
+        totalGross: 0,
+        totalTaxable: 0,
+        totalWithheld: 0,
+        totalPaid: 0,
+        f24Payments: [],
+      };
+      const withholding = e.withholding!;
+      const f24 = f24Payments.find(p => p.expenseIds.includes(e.id));
+      cert.payments.push({
+        expenseId: e.id,
+        date: getWithholdingPaymentDate(e),
+        description: e.description,
+        gross: e.amount,
+        taxable: withholding.taxableAmount,
+        withheld: withholding.amount,
+        taxCode: withholding.taxCode,
+        f24Date: f24?.date || withholding.paidDate,
+      });
+      if (!cert.taxCodes.includes(withholding.taxCode)) cert.taxCodes.push(withholding.taxCode);
+      cert.totalGross = round2(cert.totalGross + e.amount);
+      cert.totalTaxable = round2(cert.totalTaxable + withholding.taxableAmount);
+      cert.totalWithheld = round2(cert.totalWithheld + withholding.amount);
+      if (withholding.paidDate) cert.totalPaid = round2(cert.totalPaid + withholding.amount);
+      if (f24) {
+        const share = cert.f24Payments.find(p => p.id === f24.id);
+        if (share) share.amount = round2(share.amount + withholding.amount);
+        else cert.f24Payments.push({ id: f24.id, date: f24.date, amount: withholding.amount });
+      }
+      byKey.set(key, cert);
+    });
+
+  return [...byKey.values()]
+    .map(c => ({
+      ...c,
+      payments: c.payments.sort((a, b) => a.date.localeCompare(b.date)),
+      f24Payments: c.f24Payments.sort((a, b) => a.date.localeCompare(b.date)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'it'));
+};
+
+const escapeCSV = (str: string) => `"${String(str || '').replace(/"/g, '""')}"`;
+const formatAmount = (value: number) => value.toFixed(2).replace('.', ',');
+
+/** Una riga per percipiente, con i totali da riportare in CU e 770. */
+export const createCertificationsCsv = (certifications: ContractorCertification[], year: number, condoFiscalCode: string) => {
+  const headers = [
+    'Anno', 'Codice Fiscale Sostituto', 'Codice Fiscale Percipiente', 'Denominazione Percipiente', 'Codici Tributo',
+    'Ammontare Lordo Corrisposto', 'Imponibile', 'Ritenute Operate', 'Ritenute Versate', 'Numero F24',
+  ];
+  const rows = certifications.map(c => [
+    year,
+    condoFiscalCode,
+    c.fiscalCode || '',
+    escapeCSV(c.name),
+    c.taxCodes.join(' '),
+    formatAmount(c.totalGross),
+    formatAmount(c.totalTaxable),
+    formatAmount(c.totalWithheld),
+    formatAmount(c.totalPaid),
+    c.f24Payments.length,
+  ].join(';'));
+  return [headers.join(';'), ...rows].join('\n');
+};
+
+const escapeXml = (str: string) =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/** Stessi dati in XML, con il dettaglio dei versamenti F24 per ciascun percipiente. */
+export const createCertificationsXml = (
+  certifications: ContractorCertification[], year: number, condoName: string, condoFiscalCode: string,
+) => {
+  const percipienti = certifications.map(c => [
+    '    <Percipiente>',
+    `      <CodiceFiscale>${escapeXml(c.fiscalCode || '')}</CodiceFiscale>`,
+    `      <Denominazione>${escapeXml(c.name)}</Denominazione>`,
+    ...(c.address ? [`      <Indirizzo>${escapeXml(c.address)}</Indirizzo>`] : []),
+    `      <CodiciTributo>${c.taxCodes.join(' ')}</CodiciTributo>`,
+    `      <AmmontareLordo>${c.totalGross.toFixed(2)}</AmmontareLordo>`,
+    `      <Imponibile>${c.totalTaxable.toFixed(2)}</Imponibile>`,
+    `      <RitenuteOperate>${c.totalWithheld.toFixed(2)}</RitenuteOperate>`,
+    `      <RitenuteVersate>${c.totalPaid.toFixed(2)}</RitenuteVersate>`,
+    '      <Versamenti>',
+    ...c.f24Payments.map(p => `        <F24 data="${p.date}" importo="${p.amount.toFixed(2)}"/>`),
+    '      </Versamenti>',
+    '    </Percipiente>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<Certificazioni anno="${year}">`,
+    '  <Sostituto>',
+    `    <CodiceFiscale>${escapeXml(condoFiscalCode)}</CodiceFiscale>`,
+    `    <Denominazione>${escapeXml(condoName)}</Denominazione>`,
+    '  </Sostituto>',
+    '  <Percipienti>',
+    ...percipienti,
+    '  </Percipienti>',
+    '</Certificazioni>',
+  ].join('\n');
+};
@@ -0,0 +1,108 @@
+import { BankAccount, Expense, F24Line, F24Payment } from "../types";
+import { round2 } from "../utils";
+import { getWithholdingPaymentDate, WITHHOLDING_TAX_CODES } from "./withholdingService";
+
+// Le ritenute e gli altri tributi erariali del condominio vanno nella sezione Erario
+export const F24_SECTION = 'ER';
+
+/** Campo "rateazione/regione/prov./mese rif." per le ritenute: 00MM. */
+export const formatReferenceMonth = (month?: number) => (month ? `00${String(month).padStart(2, '0')}` : '');
+
+export const getTaxCodeLabel = (taxCode: string) =>
+  taxCode in WITHHOLDING_TAX_CODES ? WITHHOLDING_TAX_CODES[taxCode as keyof typeof WITHHOLDING_TAX_CODES] : '';
+
+export const getF24Total = (payment: F24Payment) => round2(payment.lines.reduce((sum, l) => sum + l.amount, 0));
+
+/**
+ * Righe F24 per le ritenute delle spese indicate: una riga per codice tributo e
+ * mese di pagamento del fornitore, che è il periodo di riferimento della ritenuta.
+ */
+export const buildWithholdingLines = (expenses: Expense[]): F24Line[] => {
+  const lines = new Map<string, F24Line>();
+  expenses.forEach(e => {
+    if (!e.withholding) return;
+    const [year, month] = getWithholdingPaymentDate(e).split('-').map(Number);
+    const key = `${e.withholding.taxCode}|${year}|${month}`;
+    const line = lines.get(key) || { taxCode: e.withholding.taxCode, referenceMonth: month, referenceYear: year, amount: 0 };
+    line.amount = round2(line.amount + e.withholding.amount);
+    lines.set(key, line);
+  });
+  return sortLines([...lines.values()]);
+};
+
+const sortLines = (lines: F24Line[]) =>
+  lines.sort((a, b) =>
+    a.taxCode.localeCompare(b.taxCode) || a.referenceYear - b.referenceYear || (a.referenceMonth || 0) - (b.referenceMonth || 0));
+
+/** Somma le righe con lo stesso codice tributo e periodo di riferimento. */
+export const mergeF24Lines = (lines: F24Line[]): F24Line[] => {
+  const merged = new Map<string, F24Line>();
+  lines.forEach(l => {
+    const key = `${l.taxCode}|${l.referenceYear}|${l.referenceMonth || ''}`;
+    const current = merged.get(key) || { ...l, amount: 0 };
+    current.amount = round2(current.amount + l.amount);
+    merged.set(key, current);
+  });
+  return sortLines([...merged.values()]);
+};
+
+export interface F24TaxCodeTotal {
+  taxCode: string;
+  total: number;
+}
+
+export const summarizeByTaxCode = (lines: F24Line[]): F24TaxCodeTotal[] => {
+  const totals = new Map<string, number>();
+  lines.forEach(l => totals.set(l.taxCode, round2((totals.get(l.taxCode) || 0) + l.amount)));
+  return [...totals.keys()].sort().map(taxCode => ({ taxCode, total: totals.get(taxCode)! }));
+};
+
+export interface F24MonthlySummary {
+  month: string; // YYYY-MM dei versamenti
+  payments: F24Payment[];
+  lines: F24Line[];
+  totals: F24TaxCodeTotal[];
+  total: number;
+}
+
+/** Riepilogo dei modelli F24 versati nel mese indicato. */
+export const computeMonthlySummary = (payments: F24Payment[], month: string): F24MonthlySummary => {
+  const monthly = payments.filter(p => p.date.startsWith(month)).sort((a, b) => a.date.localeCompare(b.date));
+  const lines = mergeF24Lines(monthly.flatMap(p => p.lines));
+  return {
+    month,
+    payments: monthly,
+    lines,
+    totals: summarizeByTaxCode(lines),
+    total: round2(lines.reduce((sum, l) => sum + l.amount, 0)),
+  };
+};
+
+const escapeCSV = (str: string) => `"${String(str || '').replace(/"/g, '""')}"`;
+
+/**
+ * Esportazione strutturata per il caricamento in home banking: una riga per ogni
+ * tributo, con contribuente, data di versamento e IBAN di addebito.
+ */
+export const createF24Csv = (payments: F24Payment[], condoName: string, fiscalCode: string, bankAccounts: BankAccount[]) => {
+  const headers = [
+    'Codice Fiscale Contribuente', 'Denominazione', 'Data Versamento', 'IBAN Addebito',
+    'Sezione', 'Codice Tributo', 'Rateazione/Mese Rif.', 'Anno Riferimento', 'Importo a Debito', 'ID F24',
+  ];
+  const rows = payments.flatMap(p => {
+    const iban = bankAccounts.find(a => a.id === p.bankAccountId)?.iban || '';
+    return p.lines.map(l => [
+      fiscalCode,
+      escapeCSV(condoName),
+      p.date,
+      iban.replace(/\s/g, ''),
+      F24_SECTION,
+      l.taxCode,
+      formatReferenceMonth(l.referenceMonth),
+      l.referenceYear,
+      l.amount.toFixed(2).replace('.', ','),
+      p.id,
+    ].join(';'));
+  });
+  return [headers.join(';'), ...rows].join('\n');
+};
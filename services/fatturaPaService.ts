@@ -0,0 +1,259 @@
+import { Attachment, ExpenseWithholding, WithholdingTaxCode } from "../types";
+import { generateId, round2 } from "../utils";
+import { normalizeCode } from "./validationService";
+import { createWithholding, WITHHOLDING_RATE } from "./withholdingService";
+import { amount, find, findAll, parseXml, text } from "./xmlService";
+
+export interface FatturaPASupplier {
+  name: string;
+  vatNumber?: string; // IdCodice di IdFiscaleIVA, senza prefisso del paese
+  countryCode?: string;
+  fiscalCode?: string;
+  address?: string; // "Via, numero civico, CAP Comune (Provincia)"
+}
+
+export interface FatturaPALine {
+  number: number;
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  total: number;
+  vatRate: number;
+}
+
+export interface FatturaPAVatSummary {
+  vatRate: number;
+  taxableAmount: number;
+  vatAmount: number;
+  nature?: string; // Natura dell'operazione per le righe senza IVA (N1...N7)
+}
+
+export interface FatturaPAWithholding {
+  type: string; // RT01 persone fisiche, RT02 persone giuridiche, ...
+  rate: number;
+  amount: number;
+  paymentReason?: string; // CausalePagamento del modello 770
+}
+
+export interface FatturaPAPayment {
+  method?: string; // ModalitaPagamento (MP05 bonifico, ...)
+  dueDate?: string;
+  amount: number;
+  iban?: string;
+}
+
+export interface FatturaPAAttachment {
+  name: string;
+  format?: string;
+  description?: string;
+  data: string; // Contenuto in base64
+}
+
+export interface FatturaPAInvoice {
+  supplier: FatturaPASupplier;
+  documentType: string; // TD01 fattura, TD04 nota di credito, ...
+  number: string;
+  date: string;
+  currency: string;
+  total: number; // Importo totale del documento, IVA inclusa e al lordo della ritenuta
+  taxableAmount: number;
+  vatAmount: number;
+  lines: FatturaPALine[];
+  vatSummary: FatturaPAVatSummary[];
+  withholdings: FatturaPAWithholding[];
+  paymentTerms?: string; // CondizioniPagamento (TP01 a rate, TP02 completo, TP03 anticipo)
+  payments: FatturaPAPayment[];
+  attachments: FatturaPAAttachment[];
+}
+
+export const DOCUMENT_TYPES: Record<string, string> = {
+  TD01: 'Fattura',
+  TD02: 'Acconto/anticipo su fattura',
+  TD04: 'Nota di credito',
+  TD05: 'Nota di debito',
+  TD06: 'Parcella',
+};
+
+export const PAYMENT_TERMS: Record<string, string> = {
+  TP01: 'Pagamento a rate',
+  TP02: 'Pagamento completo',
+  TP03: 'Anticipo',
+};
+
+// Tipo di ritenuta FatturaPA -> codice tributo F24 della ritenuta 4% del condominio
+const WITHHOLDING_TAX_CODES: Record<string, WithholdingTaxCode> = {
+  RT01: '1019',
+  RT02: '1020',
+};
+
+const parseSupplier = (header: Element): FatturaPASupplier => {
+  const cedente = find(header, 'CedentePrestatore');
+  if (!cedente) throw new Error("Cedente/prestatore mancante nella fattura.");
+  const anagrafici = find(cedente, 'DatiAnagrafici');
+  const name = text(anagrafici, 'Anagrafica', 'Denominazione')
+    || [text(anagrafici, 'Anagrafica', 'Cognome'), text(anagrafici, 'Anagrafica', 'Nome')].filter(Boolean).join(' ');
+  const sede = find(cedente, 'Sede');
+  const street = [text(sede, 'Indirizzo'), text(sede, 'NumeroCivico')].filter(Boolean).join(' ');
+  const city = [text(sede, 'CAP'), text(sede, 'Comune')].filter(Boolean).join(' ');
+  const province = text(sede, 'Provincia');
+  const address = [street, city + (province ? ` (${province})` : '')].filter(Boolean).join(', ');
+  const vatNumber = text(anagrafici, 'IdFiscaleIVA', 'IdCodice');
+  const fiscalCode = text(anagrafici, 'CodiceFiscale');
+  return {
+    name: name || 'Fornitore senza denominazione',
+    vatNumber: vatNumber ? normalizeCode(vatNumber) : undefined,
+    countryCode: text(anagrafici, 'IdFiscaleIVA', 'IdPaese'),
+    fiscalCode: fiscalCode ? normalizeCode(fiscalCode) : undefined,
+    address: address || undefined,
+  };
+};
+
+const parseBody = (body: Element, supplier: FatturaPASupplier): FatturaPAInvoice => {
+  const documento = find(body, 'DatiGenerali', 'DatiGeneraliDocumento');
+  const date = text(documento, 'Data');
+  const number = text(documento, 'Numero');
+  if (!documento || !date || !number) throw new Error("Dati generali del documento mancanti (numero o data).");
+
+  const lines = findAll(body, 'DettaglioLinee').map((line, i) => ({
+    number: Number(text(line, 'NumeroLinea')) || i + 1,
+    description: text(line, 'Descrizione') || '',
+    quantity: amount(line, 'Quantita'),
+    unitPrice: amount(line, 'PrezzoUnitario'),
+    total: amount(line, 'PrezzoTotale') || 0,
+    vatRate: amount(line, 'AliquotaIVA') || 0,
+  }));
+
+  const vatSummary = findAll(body, 'DatiRiepilogo').map(riepilogo => ({
+    vatRate: amount(riepilogo, 'AliquotaIVA') || 0,
+    taxableAmount: amount(riepilogo, 'ImponibileImporto') || 0,
+    vatAmount: amount(riepilogo, 'Imposta') || 0,
+    nature: text(riepilogo, 'Natura'),
+  }));
+  const taxableAmount = round2(vatSummary.reduce((sum, r) => sum + r.taxableAmount, 0));
+  const vatAmount = round2(vatSummary.reduce((sum, r) => sum + r.vatAmount, 0));
+
+  const withholdings = findAll(documento, 'DatiRitenuta').map(ritenuta => ({
+    type: text(ritenuta, 'TipoRitenuta') || '',
+    rate: amount(ritenuta, 'AliquotaRitenuta') || 0,
+    amount: amount(ritenuta, 'ImportoRitenuta') || 0,
+    paymentReason: text(ritenuta, 'CausalePagamento'),
+  }));
+
+  const datiPagamento = find(body, 'DatiPagamento');
+  const payments = findAll(body, 'DettaglioPagamento').map(dettaglio => ({
+    method: text(dettaglio, 'ModalitaPagamento'),
+    dueDate: text(dettaglio, 'DataScadenzaPagamento'),
+    amount: amount(dettaglio, 'ImportoPagamento') || 0,
+    iban: text(dettaglio, 'IBAN') ? normalizeCode(text(dettaglio, 'IBAN')!) : undefined,
+  }));
+
+  const attachments = findAll(body, 'Allegati')
+    .map(allegato => ({
+      name: text(allegato, 'NomeAttachment') || 'allegato',
+      format: text(allegato, 'FormatoAttachment'),
+      description: text(allegato, 'DescrizioneAttachment'),
+      data: (text(allegato, 'Attachment') || '').replace(/\s/g, ''),
+    }))
+    .filter(a => a.data);
+
+  return {
+    supplier,
+    documentType: text(documento, 'TipoDocumento') || 'TD01',
+    number,
+    date,
+    currency: text(documento, 'Divisa') || 'EUR',
+    total: amount(documento, 'ImportoTotaleDocumento') ?? round2(taxableAmount + vatAmount),
+    taxableAmount,
+    vatAmount,
+    lines,
+    vatSummary,
+    withholdings,
+    paymentTerms: text(datiPagamento, 'CondizioniPagamento'),
+    payments,
+    attachments,
+  };
+};
+
+export const isFatturaPA = (xml: string) => /<([\w-]+:)?FatturaElettronica[\s>]/.test(xml);
+
+/**
+ * Legge un file FatturaPA (tracciato SdI 1.2) e restituisce un documento per
+ * ciascun FatturaElettronicaBody: un lotto di fatture contiene più corpi con lo
+ * stesso cedente.
+ */
+export const parseFatturaPA = (xml: string): FatturaPAInvoice[] => {
+  const root = parseXml(xml);
+  const header = find(root, 'FatturaElettronicaHeader');
+  if (!header) throw new Error("Il file non è una fattura elettronica FatturaPA.");
+  const supplier = parseSupplier(header);
+  const bodies = findAll(root, 'FatturaElettronicaBody');
+  if (bodies.length === 0) throw new Error("La fattura non contiene alcun documento.");
+  return bodies.map(body => parseBody(body, supplier));
+};
+
+/** Le note di credito riducono la spesa: l'importo è registrato in negativo. */
+export const getInvoiceAmount = (invoice: FatturaPAInvoice) =>
+  invoice.documentType === 'TD04' ? -invoice.total : invoice.total;
+
+/** Prima scadenza indicata nei dati di pagamento. */
+export const getInvoiceDueDate = (invoice: FatturaPAInvoice) =>
+  invoice.payments.map(p => p.dueDate).filter((d): d is string => !!d).sort()[0];
+
+/** Codice fiscale del cedente o, se manca, la partita IVA italiana. */
+export const getInvoiceSupplierTaxId = (invoice: FatturaPAInvoice) => {
+  const { fiscalCode, vatNumber, countryCode } = invoice.supplier;
+  return fiscalCode || (!countryCode || countryCode === 'IT' ? vatNumber : undefined);
+};
+
+export const getInvoiceIban = (invoice: FatturaPAInvoice) => invoice.payments.find(p => p.iban)?.iban;
+
+export const describeInvoice = (invoice: FatturaPAInvoice) => {
+  const type = invoice.documentType === 'TD04' ? 'Nota di credito' : 'Fattura';
+  const first = invoice.lines[0]?.description;
+  const detail = first ? ` - ${first}${invoice.lines.length > 1 ? ` e altre ${invoice.lines.length - 1} voci` : ''}` : '';
+  return `${type} ${invoice.number} ${invoice.supplier.name}${detail}`;
+};
+
+/**
+ * Ritenuta da registrare sulla spesa. Il condominio opera solo la ritenuta del 4%:
+ * le altre (es. 20% sui compensi professionali) sono segnalate da getInvoiceWarnings.
+ */
+export const getInvoiceWithholding = (invoice: FatturaPAInvoice): ExpenseWithholding | undefined => {
+  const ritenuta = invoice.withholdings.find(w => w.rate === WITHHOLDING_RATE && WITHHOLDING_TAX_CODES[w.type]);
+  if (!ritenuta) return undefined;
+  const withholding = createWithholding(round2(ritenuta.amount * 100 / ritenuta.rate), WITHHOLDING_TAX_CODES[ritenuta.type]);
+  // L'importo dichiarato in fattura prevale sul ricalcolo, che può differire per arrotondamento
+  return { ...withholding, amount: ritenuta.amount };
+};
+
+export const getInvoiceWarnings = (invoice: FatturaPAInvoice): string[] => {
+  const warnings: string[] = [];
+  if (invoice.currency !== 'EUR') warnings.push(`Importi espressi in ${invoice.currency}.`);
+  if (invoice.documentType === 'TD04') warnings.push("Nota di credito: l'importo è registrato in negativo.");
+  invoice.withholdings
+    .filter(w => !(w.rate === WITHHOLDING_RATE && WITHHOLDING_TAX_CODES[w.type]))
+    .forEach(w => warnings.push(`Ritenuta ${w.type} al ${w.rate}% non gestita: registrala manualmente.`));
+  const linesTotal = round2(invoice.lines.reduce((sum, l) => sum + l.total, 0));
+  if (invoice.lines.length > 0 && Math.abs(linesTotal - invoice.taxableAmount) > 0.01) {
+    warnings.push("Il totale delle righe non coincide con l'imponibile del riepilogo IVA.");
+  }
+  return warnings;
+};
+
+const ATTACHMENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  xml: 'application/xml',
+  txt: 'text/plain',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  zip: 'application/zip',
+};
+
+/** Allegati della fattura come allegati della spesa, in data URL. */
+export const getInvoiceAttachments = (invoice: FatturaPAInvoice): Attachment[] =>
+  invoice.attachments.map(a => {
+    const extension = (a.format || a.name.split('.').pop() || '').toLowerCase();
+    const type = ATTACHMENT_TYPES[extension] || 'application/octet-stream';
+    return { id: generateId(), name: a.name, type, url: `data:${type};base64,${a.data}` };
+  });
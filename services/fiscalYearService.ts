@@ -0,0 +1,55 @@
+import { CondoSettings } from "../types";
+
+// Un esercizio è identificato dall'anno solare in cui inizia
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const isCalendarFiscalYear = (settings: CondoSettings) => settings.fiscalYearStart === '01-01';
+
+/** Esercizio a cui appartiene una data ISO (YYYY-MM-DD). */
+export const getFiscalYear = (date: string, settings: CondoSettings): number => {
+  const year = parseInt(date.slice(0, 4), 10);
+  return date.slice(5, 10) >= settings.fiscalYearStart ? year : year - 1;
+};
+
+export const getCurrentFiscalYear = (settings: CondoSettings): number =>
+  getFiscalYear(toIsoDate(new Date()), settings);
+
+/** Primo e ultimo giorno (inclusi) dell'esercizio. */
+export const getFiscalYearRange = (fiscalYear: number, settings: CondoSettings): { start: string; end: string } => {
+  const [month, day] = settings.fiscalYearStart.split('-').map(Number);
+  const nextStart = new Date(Date.UTC(fiscalYear + 1, month - 1, day));
+  nextStart.setUTCDate(nextStart.getUTCDate() - 1);
+  return {
+    start: `${fiscalYear}-${settings.fiscalYearStart}`,
+    end: toIsoDate(nextStart),
+  };
+};
+
+/** Etichetta dell'esercizio: "2025" per l'anno solare, "2025/2026" altrimenti. */
+export const formatFiscalYear = (fiscalYear: number, settings: CondoSettings): string =>
+  isCalendarFiscalYear(settings) ? String(fiscalYear) : `${fiscalYear}/${fiscalYear + 1}`;
+
+export const isInFiscalYear = (date: string, fiscalYear: number, settings: CondoSettings) =>
+  getFiscalYear(date, settings) === fiscalYear;
+
+/**
+ * Mesi solari toccati dall'esercizio, in ordine cronologico (month 0-11).
+ * Sono 12, o 13 se l'esercizio non inizia il primo del mese.
+ */
+export const getFiscalYearMonths = (fiscalYear: number, settings: CondoSettings): { year: number; month: number }[] => {
+  const { start, end } = getFiscalYearRange(fiscalYear, settings);
+  const months: { year: number; month: number }[] = [];
+  let year = parseInt(start.slice(0, 4), 10);
+  let month = parseInt(start.slice(5, 7), 10) - 1;
+  const endKey = end.slice(0, 7);
+  while (`${year}-${String(month + 1).padStart(2, '0')}` <= endKey) {
+    months.push({ year, month });
+    month += 1;
+    if (month === 12) {
+      month = 0;
+      year += 1;
+    }
+  }
+  return months;
+};
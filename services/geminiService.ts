@@ -25,6 +25,9 @@ export interface ParsedExpenseData {
   amount: number;
   category: ExpenseCategory;
   date: string;
+  supplierName?: string; // Ragione sociale dell'emittente, se presente nel documento
+  supplierVatNumber?: string;
+  supplierId?: string; // Fornitore in anagrafe associato dopo l'analisi
 }
 
 export interface ParsedIncomeData {
@@ -47,7 +50,7 @@ export interface FileInput {
   mimeType: string;
 }
 
-export const parseExpenseWithGemini = async (input: string, files?: FileInput[]): Promise<ExpenseAnalysisResult> => {
+export const parseExpenseWithGemini = async (input: string, files?: FileInput[], supplierNames: string[] = []): Promise<ExpenseAnalysisResult> => {
   const currentDate = new Date().toISOString().split('T')[0];
   
   const systemPrompt = `
@@ -72,6 +75,8 @@ export const parseExpenseWithGemini = async (input: string, files?: FileInput[])
     - **Data**: Usa la data del documento o di scadenza. Se assente, usa ${currentDate}.
     - **Descrizione**: Sii preciso (es. "Bolletta Enel Luce Scale", "Riparazione Tubo"). 
     - **Categoria**: Scegli tra: 'Manutenzione', 'Utenze', 'Pulizia', 'Pulizia Scale', 'Amministrazione', 'Compenso Amministratore', 'Assicurazione', 'Spese Bancarie', 'Bollettino Postale', 'Lettura Acqua', 'Varie'.
+    - **Fornitore**: Ragione sociale di chi emette il documento (es. "Enel Energia S.p.A.") e la sua Partita IVA, solo se leggibili. Non indicare mai il condominio stesso.
+    ${supplierNames.length > 0 ? `- **Fornitori noti**: Se l'emittente corrisponde a uno di questi, usa esattamente lo stesso nome: ${supplierNames.join('; ')}.` : ''}
 
     Output atteso: Un oggetto JSON contenente un array 'expenses'.
   `;
@@ -129,6 +134,14 @@ export const parseExpenseWithGemini = async (input: string, files?: FileInput[])
                   date: { 
                     type: Type.STRING,
                     description: "Data (YYYY-MM-DD)." 
+                  },
+                  supplierName: {
+                    type: Type.STRING,
+                    description: "Ragione sociale del fornitore."
+                  },
+                  supplierVatNumber: {
+                    type: Type.STRING,
+                    description: "Partita IVA del fornitore."
                   }
                 },
                 required: ["description", "amount", "category", "date"]
@@ -0,0 +1,148 @@
+import { CondoSettings, Income, Installment, InterestRate } from "../types";
+import { daysBetween, generateId, round2 } from "../utils";
+import { getFiscalYear } from "./fiscalYearService";
+import { getQuotaIncomes } from "./quotaService";
+
+// Saggio degli interessi legali (art. 1284 c.c.), aggiornato ogni anno con decreto del MEF
+export const LEGAL_INTEREST_RATES: InterestRate[] = [
+  { from: '2010-01-01', rate: 1 },
+  { from: '2011-01-01', rate: 1.5 },
+  { from: '2012-01-01', rate: 2.5 },
+  { from: '2014-01-01', rate: 1 },
+  { from: '2015-01-01', rate: 0.5 },
+  { from: '2016-01-01', rate: 0.2 },
+  { from: '2017-01-01', rate: 0.1 },
+  { from: '2018-01-01', rate: 0.3 },
+  { from: '2019-01-01', rate: 0.8 },
+  { from: '2020-01-01', rate: 0.05 },
+  { from: '2021-01-01', rate: 0.01 },
+  { from: '2022-01-01', rate: 1.25 },
+  { from: '2023-01-01', rate: 5 },
+  { from: '2024-01-01', rate: 2.5 },
+  { from: '2025-01-01', rate: 2 },
+  { from: '2026-01-01', rate: 1.6 },
+];
+
+export const getInterestRates = (settings: CondoSettings): InterestRate[] =>
+  settings.interestMode === 'custom' ? settings.customInterestRates : LEGAL_INTEREST_RATES;
+
+export const getInterestModeLabel = (settings: CondoSettings) =>
+  settings.interestMode === 'custom' ? 'tasso del regolamento' : 'tasso legale';
+
+export const isInterestCharge = (installment: Installment) => installment.kind === 'interest';
+
+export interface InterestPeriod {
+  from: string;
+  to: string;
+  capital: number;
+  rate: number;
+  days: number;
+  interest: number;
+}
+
+/**
+ * Interesse semplice su un capitale tra due date (giorni effettivi / 365),
+ * suddividendo il periodo a ogni variazione di tasso. Prima del primo tasso
+ * della tabella non maturano interessi.
+ */
+export const computeInterestPeriods = (capital: number, from: string, to: string, rates: InterestRate[]): InterestPeriod[] => {
+  if (capital <= 0 || to <= from) return [];
+  const sorted = [...rates].sort((a, b) => a.from.localeCompare(b.from));
+  const periods: InterestPeriod[] = [];
+
+  sorted.forEach((r, i) => {
+    const next = sorted[i + 1]?.from;
+    const start = r.from > from ? r.from : from;
+    const end = next && next < to ? next : to;
+    const days = daysBetween(start, end);
+    if (days <= 0) return;
+    periods.push({ from: start, to: end, capital, rate: r.rate, days, interest: capital * r.rate / 100 * days / 365 });
+  });
+
+  return periods;
+};
+
+export interface InstallmentInterest {
+  installment: Installment;
+  periods: InterestPeriod[];
+  interest: number;
+}
+
+export interface UnitInterest {
+  unitId: string;
+  through: string;
+  accrued: number;  // Interessi maturati fino alla data di calcolo
+  charged: number;  // Interessi già addebitati come rata
+  toCharge: number; // Interessi maturati e non ancora addebitati
+  items: InstallmentInterest[];
+}
+
+/**
+ * Interessi di mora di un'unità: i versamenti sono imputati alle rate in ordine di
+ * scadenza, come nel partitario, e ogni rata produce interessi sul residuo dalla
+ * scadenza fino al giorno del pagamento (o fino alla data di calcolo se ancora insoluta).
+ * Le rate di interessi già addebitate non producono a loro volta interessi.
+ */
+export const computeUnitInterest = (
+  unitId: string,
+  installments: Installment[],
+  incomes: Income[],
+  rates: InterestRate[],
+  through: string = new Date().toISOString().slice(0, 10)
+): UnitInterest => {
+  const unitInstallments = installments
+    .filter(r => r.unitId === unitId)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const payments = getQuotaIncomes(incomes, unitId)
+    .filter(i => i.date <= through)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Pagamenti imputati a ciascuna rata, con la relativa data
+  const remaining = unitInstallments.map(r => r.amount);
+  const allocations: { date: string; amount: number }[][] = unitInstallments.map(() => []);
+  payments.forEach(p => {
+    let pool = p.amount;
+    for (let i = 0; i < unitInstallments.length && pool > 0.001; i++) {
+      if (remaining[i] <= 0.001) continue;
+      const applied = Math.min(pool, remaining[i]);
+      remaining[i] -= applied;
+      pool -= applied;
+      allocations[i].push({ date: p.date, amount: applied });
+    }
+  });
+
+  const items: InstallmentInterest[] = unitInstallments
+    .map((installment, i) => {
+      if (isInterestCharge(installment) || installment.dueDate >= through) return null;
+      let capital = installment.amount;
+      let cursor = installment.dueDate;
+      const periods: InterestPeriod[] = [];
+      allocations[i].forEach(a => {
+        if (a.date > cursor) {
+          periods.push(...computeInterestPeriods(capital, cursor, a.date, rates));
+          cursor = a.date;
+        }
+        capital -= a.amount;
+      });
+      if (capital > 0.001) periods.push(...computeInterestPeriods(capital, cursor, through, rates));
+      const interest = round2(periods.reduce((sum, p) => sum + p.interest, 0));
+      return interest > 0 ? { installment, periods, interest } : null;
+    })
+    .filter((item): item is InstallmentInterest => item !== null);
+
+  const accrued = round2(items.reduce((sum, item) => sum + item.interest, 0));
+  const charged = round2(unitInstallments.filter(r => isInterestCharge(r) && r.dueDate <= through).reduce((sum, r) => sum + r.amount, 0));
+
+  return { unitId, through, accrued, charged, toCharge: Math.max(0, round2(accrued - charged)), items };
+};
+
+/** Rata di addebito degli interessi maturati e non ancora addebitati, con scadenza alla data di calcolo. */
+export const createInterestCharge = (unitInterest: UnitInterest, settings: CondoSettings): Installment => ({
+  id: generateId(),
+  unitId: unitInterest.unitId,
+  fiscalYear: getFiscalYear(unitInterest.through, settings),
+  dueDate: unitInterest.through,
+  amount: unitInterest.toCharge,
+  description: `Interessi di mora al ${new Date(unitInterest.through).toLocaleDateString('it-IT')} (${getInterestModeLabel(settings)})`,
+  kind: 'interest',
+});
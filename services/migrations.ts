@@ -0,0 +1,144 @@
+import { CondoData, ExpenseCategory, IncomeCategory } from "../types";
+import { generateId } from "../utils";
+
+/**
+ * Versione corrente dello schema dei dati salvati per condominio.
+ * Ogni modifica al modello in types.ts che richiede di aggiornare record già salvati
+ * deve incrementare questo numero e aggiungere una voce a MIGRATIONS.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+// Dati così come letti dallo storage, prima di qualsiasi normalizzazione
+export type RawCondoData = { [K in keyof CondoData]?: unknown };
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: RawCondoData) => RawCondoData;
+}
+
+export interface MigrationResult {
+  data: CondoData;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+const toArray = (value: unknown, label: string): any[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error(`La sezione "${label}" non è una lista.`);
+  return value;
+};
+
+const toAmount = (value: unknown, where: string): number => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/\s/g, '').replace(',', '.'));
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  throw new Error(`${where}: importo non valido.`);
+};
+
+const toIsoDate = (value: unknown, where: string): string => {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  throw new Error(`${where}: data non valida.`);
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Normalizza spese, incassi e conti salvati prima di status e bankAccountId',
+    migrate: (data) => ({
+      ...data,
+      expenses: toArray(data.expenses, 'expenses').map((e, index) => {
+        const where = `Spesa #${index + 1}`;
+        if (!e || typeof e !== 'object') throw new Error(`${where}: record non valido.`);
+        return {
+          ...e,
+          id: typeof e.id === 'string' && e.id ? e.id : generateId(),
+          description: String(e.description ?? ''),
+          amount: toAmount(e.amount, where),
+          date: toIsoDate(e.date, where),
+          category: typeof e.category === 'string' && e.category ? e.category : ExpenseCategory.VARIE,
+          // Prima dell'introduzione di status le spese venivano registrate solo a pagamento avvenuto
+          status: e.status === 'unpaid' ? 'unpaid' : 'paid',
+          bankAccountId: e.bankAccountId || undefined,
+          attachments: Array.isArray(e.attachments) ? e.attachments : [],
+        };
+      }),
+      incomes: toArray(data.incomes, 'incomes').map((i, index) => {
+        const where = `Incasso #${index + 1}`;
+        if (!i || typeof i !== 'object') throw new Error(`${where}: record non valido.`);
+        return {
+          ...i,
+          id: typeof i.id === 'string' && i.id ? i.id : generateId(),
+          description: String(i.description ?? ''),
+          amount: toAmount(i.amount, where),
+          date: toIsoDate(i.date, where),
+          category: typeof i.category === 'string' && i.category ? i.category : IncomeCategory.ALTRO,
+          bankAccountId: i.bankAccountId || undefined,
+        };
+      }),
+      bankAccounts: toArray(data.bankAccounts, 'bankAccounts').map((a, index) => {
+        const where = `Conto #${index + 1}`;
+        if (!a || typeof a !== 'object') throw new Error(`${where}: record non valido.`);
+        return {
+          ...a,
+          id: typeof a.id === 'string' && a.id ? a.id : generateId(),
+          name: String(a.name ?? ''),
+          initialBalance: a.initialBalance === undefined || a.initialBalance === '' ? 0 : toAmount(a.initialBalance, where),
+          iban: typeof a.iban === 'string' ? a.iban : '',
+        };
+      }),
+    }),
+  },
+];
+
+/**
+ * Applica in ordine le migrazioni successive a fromVersion.
+ * Lavora su una copia: in caso di errore i dati originali non vengono toccati
+ * e viene lanciato un errore che indica la migrazione fallita.
+ */
+export const migrateCondoData = (raw: RawCondoData, fromVersion: number): MigrationResult => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`I dati sono stati salvati da una versione più recente dell'app (schema ${fromVersion}).`);
+  }
+
+  let data: RawCondoData = structuredClone(raw);
+  const applied: string[] = [];
+
+  [...MIGRATIONS]
+    .sort((a, b) => a.version - b.version)
+    .filter(m => m.version > fromVersion)
+    .forEach(m => {
+      try {
+        data = m.migrate(data);
+        applied.push(`v${m.version}: ${m.description}`);
+      } catch (e) {
+        throw new Error(`Migrazione dati alla versione ${m.version} non riuscita: ${(e as Error).message}`);
+      }
+    });
+
+  return {
+    data: {
+      expenses: toArray(data.expenses, 'expenses'),
+      incomes: toArray(data.incomes, 'incomes'),
+      bankAccounts: toArray(data.bankAccounts, 'bankAccounts'),
+      units: toArray(data.units, 'units'),
+      persons: toArray(data.persons, 'persons'),
+      millesimiTables: toArray(data.millesimiTables, 'millesimiTables'),
+      budgets: toArray(data.budgets, 'budgets'),
+      installments: toArray(data.installments, 'installments'),
+      reminders: toArray(data.reminders, 'reminders'),
+      suppliers: toArray(data.suppliers, 'suppliers'),
+      f24Payments: toArray(data.f24Payments, 'f24Payments'),
+      bankTransactions: toArray(data.bankTransactions, 'bankTransactions'),
+      bankReconciliations: toArray(data.bankReconciliations, 'bankReconciliations'),
+      sddMandates: toArray(data.sddMandates, 'sddMandates'),
+      bankTransfers: toArray(data.bankTransfers, 'bankTransfers'),
+    },
+    fromVersion,
+    toVersion: CURRENT_SCHEMA_VERSION,
+    applied,
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { utils, write } from 'xlsx';
+import { Unit, UnitType } from '../types';
+import { parseMillesimiSheet } from './millesimiService';
+
+const unit = (id: string, code: string): Unit => ({
+  id, code, type: UnitType.APPARTAMENTO, cadastral: { foglio: '', particella: '', subalterno: '' }, owners: [], tenants: [],
+});
+
+// Foglio con i valori scritti come testo, come arrivano da un CSV
+const sheetBuffer = (rows: unknown[][]): ArrayBuffer => {
+  const wb = utils.book_new();
+  utils.book_append_sheet(wb, utils.aoa_to_sheet(rows), 'Millesimi');
+  return write(wb, { type: 'array', bookType: 'xlsx' });
+};
+
+describe('parseMillesimiSheet', () => {
+  const units = [unit('u1', 'A1'), unit('u2', 'A2'), unit('u3', 'A3')];
+
+  it('legge il punto come separatore decimale se manca la virgola', () => {
+    const { tables } = parseMillesimiSheet(sheetBuffer([['Unità', 'Generale'], ['A1', '83.333']]), units);
+    expect(tables[0].values.u1).toBe(83.333);
+  });
+
+  it('legge la virgola come separatore decimale', () => {
+    const { tables } = parseMillesimiSheet(sheetBuffer([['Unità', 'Generale'], ['A2', '83,333']]), units);
+    expect(tables[0].values.u2).toBe(83.333);
+  });
+
+  it('con la virgola decimale il punto separa le migliaia', () => {
+    const { tables } = parseMillesimiSheet(sheetBuffer([['Unità', 'Generale'], ['A3', '1.000,000']]), units);
+    expect(tables[0].values.u3).toBe(1000);
+  });
+});
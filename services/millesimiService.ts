@@ -0,0 +1,113 @@
+import { read, utils, writeFile } from 'xlsx';
+import { ExpenseCategory, MillesimiTable, Unit } from "../types";
+
+export const MILLESIMI_TOTAL = 1000;
+// Tolleranza per gli arrotondamenti delle tabelle con decimali
+const TOTAL_TOLERANCE = 0.001;
+
+export const getTableTotal = (table: MillesimiTable): number =>
+  Object.values(table.values).reduce((sum, v) => sum + v, 0);
+
+export const isTableBalanced = (table: MillesimiTable): boolean =>
+  Math.abs(getTableTotal(table) - MILLESIMI_TOTAL) < TOTAL_TOLERANCE;
+
+/**
+ * Restituisce la tabella con cui ripartire una categoria di spesa:
+ * quella a cui la categoria è assegnata, altrimenti la tabella predefinita.
+ */
+export const getTableForCategory = (tables: MillesimiTable[], category: ExpenseCategory | string): MillesimiTable | undefined =>
+  tables.find(t => t.categories.includes(category as ExpenseCategory)) || tables.find(t => t.isDefault);
+
+/**
+ * Assegna una categoria a una tabella (o a nessuna se tableId è vuoto),
+ * togliendola dalle altre: ogni categoria ha al più una tabella.
+ */
+export const assignCategory = (tables: MillesimiTable[], category: ExpenseCategory, tableId: string | null): MillesimiTable[] =>
+  tables.map(t => {
+    const categories = t.categories.filter(c => c !== category);
+    return { ...t, categories: t.id === tableId ? [...categories, category] : categories };
+  });
+
+export interface ImportedMillesimi {
+  name: string;
+  values: Record<string, number>;
+}
+
+export interface MillesimiImportResult {
+  tables: ImportedMillesimi[];
+  unknownCodes: string[]; // Codici unità del foglio non presenti in anagrafe
+}
+
+const parseNumber = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const text = value.trim();
+    // "1.000,000" (formato italiano) oppure "83.333": i millesimi non arrivano a 1000,
+    // quindi il punto separa le migliaia solo se i decimali sono indicati con la virgola
+    const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+    const parsed = parseFloat(normalized);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+/**
+ * Legge le tabelle millesimali dal primo foglio di un file xlsx/xls/csv.
+ * Formato atteso: prima colonna con il codice dell'unità (come in anagrafe),
+ * una colonna per ogni tabella con il nome della tabella nell'intestazione.
+ */
+export const parseMillesimiSheet = (buffer: ArrayBuffer, units: Unit[]): MillesimiImportResult => {
+  const workbook = read(buffer, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("Il file non contiene fogli.");
+
+  const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false });
+  if (rows.length < 2) throw new Error("Il foglio deve contenere un'intestazione e almeno una riga.");
+
+  const header = rows[0].map(h => String(h ?? '').trim());
+  const tableColumns = header
+    .map((name, index) => ({ name, index }))
+    .filter(c => c.index > 0 && c.name);
+  if (tableColumns.length === 0) throw new Error("Nessuna colonna tabella trovata nell'intestazione.");
+
+  const unitsByCode = new Map(units.map(u => [u.code.trim().toLowerCase(), u]));
+  const tables: ImportedMillesimi[] = tableColumns.map(c => ({ name: c.name, values: {} }));
+  const unknownCodes: string[] = [];
+
+  rows.slice(1).forEach((row, rowIndex) => {
+    const code = String(row[0] ?? '').trim();
+    if (!code) return;
+    const unit = unitsByCode.get(code.toLowerCase());
+    if (!unit) {
+      unknownCodes.push(code);
+      return;
+    }
+    tableColumns.forEach((c, tableIndex) => {
+      const raw = row[c.index];
+      if (raw === undefined || raw === null || raw === '') return;
+      const value = parseNumber(raw);
+      if (value === null || value < 0) {
+        throw new Error(`Riga ${rowIndex + 2}, colonna "${c.name}": valore non valido.`);
+      }
+      tables[tableIndex].values[unit.id] = value;
+    });
+  });
+
+  return { tables, unknownCodes };
+};
+
+/**
+ * Esporta le tabelle nel formato accettato da parseMillesimiSheet,
+ * utile anche come modello da compilare.
+ */
+export const exportMillesimiSheet = (tables: MillesimiTable[], units: Unit[], condoName: string) => {
+  const header = ['Unità', ...tables.map(t => t.name)];
+  const rows = [...units]
+    .sort((a, b) => a.code.localeCompare(b.code, 'it', { numeric: true }))
+    .map(u => [u.code, ...tables.map(t => t.values[u.id] ?? '')]);
+
+  const ws = utils.aoa_to_sheet([header, ...rows]);
+  const wb = utils.book_new();
+  utils.book_append_sheet(wb, ws, 'Millesimi');
+  writeFile(wb, `Millesimi_${condoName.replace(/\s+/g, '_')}.xlsx`);
+};
@@ -0,0 +1,377 @@
+import { DigitalSignature } from "../types";
+
+/*
+ * Lettura delle buste CAdES (.p7m) con cui arrivano le fatture firmate digitalmente.
+ * Il file è un ContentInfo PKCS#7 SignedData codificato in DER (o BER a lunghezza
+ * indefinita) oppure lo stesso in base64: si estrae il documento firmato e, per
+ * ogni firmatario, soggetto del certificato, data di firma ed esito della verifica.
+ */
+
+interface Asn1Node {
+  tagClass: number; // 0 universale, 1 application, 2 context-specific, 3 private
+  tag: number;
+  constructed: boolean;
+  start: number;
+  end: number; // Fine del nodo nel buffer, contenuto ed eventuale end-of-contents inclusi
+  contentStart: number;
+  contentEnd: number;
+  children: Asn1Node[];
+  bytes: Uint8Array; // Buffer di origine
+}
+
+const OID = {
+  signedData: '1.2.840.113549.1.7.2',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  ecPublicKey: '1.2.840.10045.2.1',
+  subjectKeyIdentifier: '2.5.29.14',
+};
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  '1.3.14.3.2.26': 'SHA-1',
+  '2.16.840.1.101.3.4.2.1': 'SHA-256',
+  '2.16.840.1.101.3.4.2.2': 'SHA-384',
+  '2.16.840.1.101.3.4.2.3': 'SHA-512',
+};
+
+// Algoritmi di firma che indicano anche l'hash (sha256WithRSAEncryption, ecdsa-with-SHA256, ...)
+const SIGNATURE_HASHES: Record<string, string> = {
+  '1.2.840.113549.1.1.5': 'SHA-1',
+  '1.2.840.113549.1.1.11': 'SHA-256',
+  '1.2.840.113549.1.1.12': 'SHA-384',
+  '1.2.840.113549.1.1.13': 'SHA-512',
+  '1.2.840.10045.4.1': 'SHA-1',
+  '1.2.840.10045.4.3.2': 'SHA-256',
+  '1.2.840.10045.4.3.3': 'SHA-384',
+  '1.2.840.10045.4.3.4': 'SHA-512',
+};
+
+const NAMED_CURVES: Record<string, string> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+};
+
+// Attributi del soggetto riportati nel riepilogo del firmatario, nell'ordine di visualizzazione
+const NAME_ATTRIBUTES: [string, string][] = [
+  ['2.5.4.3', 'CN'],
+  ['2.5.4.5', 'SERIALNUMBER'],
+  ['2.5.4.10', 'O'],
+  ['2.5.4.6', 'C'],
+];
+
+const parseNode = (bytes: Uint8Array, offset: number): Asn1Node => {
+  const start = offset;
+  if (offset >= bytes.length) throw new Error("Busta firmata troncata.");
+  const first = bytes[offset++];
+  const tagClass = first >> 6;
+  const constructed = (first & 0x20) !== 0;
+  let tag = first & 0x1f;
+  if (tag === 0x1f) {
+    tag = 0;
+    let b;
+    do {
+      b = bytes[offset++];
+      tag = (tag << 7) | (b & 0x7f);
+    } while (b & 0x80);
+  }
+
+  let length = bytes[offset++];
+  const indefinite = length === 0x80;
+  if (length > 0x80) {
+    const count = length & 0x7f;
+    if (count > 4) throw new Error("Lunghezza ASN.1 non supportata.");
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[offset++];
+  }
+  const contentStart = offset;
+  const children: Asn1Node[] = [];
+
+  if (indefinite) {
+    if (!constructed) throw new Error("Codifica BER non valida.");
+    // I figli proseguono fino alla coppia di zeri end-of-contents
+    while (!(bytes[offset] === 0 && bytes[offset + 1] === 0)) {
+      const child = parseNode(bytes, offset);
+      children.push(child);
+      offset = child.end;
+    }
+    return { tagClass, tag, constructed, start, end: offset + 2, contentStart, contentEnd: offset, children, bytes };
+  }
+
+  const contentEnd = contentStart + length;
+  if (contentEnd > bytes.length) throw new Error("Busta firmata troncata.");
+  if (constructed) {
+    while (offset < contentEnd) {
+      const child = parseNode(bytes, offset);
+      children.push(child);
+      offset = child.end;
+    }
+  }
+  return { tagClass, tag, constructed, start, end: contentEnd, contentStart, contentEnd, children, bytes };
+};
+
+const content = (node: Asn1Node) => node.bytes.subarray(node.contentStart, node.contentEnd);
+const encoded = (node: Asn1Node) => node.bytes.subarray(node.start, node.end);
+
+const isContext = (node: Asn1Node, tag: number) => node.tagClass === 2 && node.tag === tag;
+
+// OCTET STRING primitivo o, in BER, spezzato in più segmenti
+const octets = (node: Asn1Node): Uint8Array => {
+  if (!node.constructed) return content(node);
+  const parts = node.children.map(octets);
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { result.set(p, offset); offset += p.length; });
+  return result;
+};
+
+const readOid = (node: Asn1Node): string => {
+  const data = content(node);
+  const parts: number[] = [];
+  let value = 0;
+  data.forEach(b => {
+    value = value * 128 + (b & 0x7f);
+    if (!(b & 0x80)) {
+      if (parts.length === 0) {
+        parts.push(value < 80 ? Math.floor(value / 40) : 2, value < 80 ? value % 40 : value - 80);
+      } else {
+        parts.push(value);
+      }
+      value = 0;
+    }
+  });
+  return parts.join('.');
+};
+
+const readString = (node: Asn1Node): string => {
+  const data = content(node);
+  if (node.tag === 30) {
+    // BMPString, UTF-16 big endian
+    let result = '';
+    for (let i = 0; i + 1 < data.length; i += 2) result += String.fromCharCode((data[i] << 8) | data[i + 1]);
+    return result;
+  }
+  return new TextDecoder(node.tag === 12 ? 'utf-8' : 'latin1').decode(data);
+};
+
+const readTime = (node: Asn1Node): string | undefined => {
+  const value = readString(node);
+  // UTCTime AAMMGGhhmmssZ, GeneralizedTime AAAAMMGGhhmmssZ
+  const match = node.tag === 23
+    ? value.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/)
+    : value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/);
+  if (!match) return undefined;
+  const year = node.tag === 23 ? (Number(match[1]) < 50 ? 2000 : 1900) + Number(match[1]) : Number(match[1]);
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] || 0))).toISOString();
+};
+
+const readName = (name: Asn1Node): string => {
+  const values = new Map<string, string>();
+  name.children.forEach(rdn => rdn.children.forEach(attribute => {
+    const [type, value] = attribute.children;
+    if (type && value) values.set(readOid(type), readString(value));
+  }));
+  const parts = NAME_ATTRIBUTES
+    .filter(([oid]) => values.has(oid))
+    .map(([oid, label]) => `${label}=${values.get(oid)}`);
+  return parts.join(', ') || 'Soggetto non indicato';
+};
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+interface Certificate {
+  issuer: Uint8Array;
+  serial: Uint8Array;
+  subject: string;
+  publicKeyInfo: Uint8Array;
+  publicKeyAlgorithm: string;
+  namedCurve?: string;
+  subjectKeyId?: Uint8Array; // Estensione SubjectKeyIdentifier, se presente
+}
+
+// Valore dell'estensione SubjectKeyIdentifier: OCTET STRING dentro l'extnValue
+const readSubjectKeyId = (tbs: Asn1Node): Uint8Array | undefined => {
+  const extensions = tbs.children.find(n => isContext(n, 3))?.children[0]?.children || [];
+  const extension = extensions.find(e => e.children[0]?.tag === 6 && readOid(e.children[0]) === OID.subjectKeyIdentifier);
+  const value = extension?.children[extension.children.length - 1];
+  return value ? octets(parseNode(octets(value), 0)) : undefined;
+};
+
+const parseCertificate = (cert: Asn1Node): Certificate => {
+  const tbs = cert.children[0];
+  const fields = isContext(tbs.children[0], 0) ? tbs.children.slice(1) : tbs.children;
+  const [serial, , issuer, , subject, spki] = fields;
+  const algorithm = spki.children[0];
+  return {
+    issuer: encoded(issuer),
+    serial: content(serial),
+    subject: readName(subject),
+    publicKeyInfo: encoded(spki),
+    publicKeyAlgorithm: readOid(algorithm.children[0]),
+    namedCurve: algorithm.children[1]?.tag === 6 ? NAMED_CURVES[readOid(algorithm.children[1])] : undefined,
+    subjectKeyId: readSubjectKeyId(tbs),
+  };
+};
+
+// Le firme ECDSA in CMS sono SEQUENCE { r, s }: WebCrypto vuole r e s concatenati a lunghezza fissa
+const ecdsaRawSignature = (signature: Uint8Array, curve: string): Uint8Array => {
+  const size = curve === 'P-521' ? 66 : curve === 'P-384' ? 48 : 32;
+  const [r, s] = parseNode(signature, 0).children.map(content);
+  const raw = new Uint8Array(size * 2);
+  [r, s].forEach((value, i) => {
+    const trimmed = value.subarray(Math.max(0, value.length - size));
+    raw.set(trimmed, (i + 1) * size - trimmed.length);
+  });
+  return raw;
+};
+
+const toBuffer = (bytes: Uint8Array): ArrayBuffer => bytes.slice().buffer as ArrayBuffer;
+
+const verifySignature = async (
+  certificate: Certificate, hash: string, signedBytes: Uint8Array, signature: Uint8Array,
+): Promise<boolean | undefined> => {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return undefined;
+  if (certificate.publicKeyAlgorithm === OID.rsaEncryption) {
+    const algorithm = { name: 'RSASSA-PKCS1-v1_5', hash };
+    const key = await subtle.importKey('spki', toBuffer(certificate.publicKeyInfo), algorithm, false, ['verify']);
+    return subtle.verify(algorithm, key, toBuffer(signature), toBuffer(signedBytes));
+  }
+  if (certificate.publicKeyAlgorithm === OID.ecPublicKey && certificate.namedCurve) {
+    const key = await subtle.importKey('spki', toBuffer(certificate.publicKeyInfo), { name: 'ECDSA', namedCurve: certificate.namedCurve }, false, ['verify']);
+    return subtle.verify({ name: 'ECDSA', hash }, key, toBuffer(ecdsaRawSignature(signature, certificate.namedCurve)), toBuffer(signedBytes));
+  }
+  return undefined;
+};
+
+/**
+ * Verifica la firma rispetto al certificato incluso nella busta: integrità del
+ * documento (message digest) e firma degli attributi firmati. La catena di
+ * certificazione e lo stato di revoca non sono controllati.
+ */
+const checkSigner = async (signerInfo: Asn1Node, certificates: Certificate[], document: Uint8Array): Promise<DigitalSignature> => {
+  const [, sid, digestAlgorithm, ...rest] = signerInfo.children;
+  const signedAttrs = rest.find(n => isContext(n, 0));
+  const signatureNode = rest.find(n => n.tagClass === 0 && n.tag === 4);
+  const signatureAlgorithm = rest.find(n => n.tagClass === 0 && n.tag === 16);
+
+  // IssuerAndSerialNumber oppure [0] SubjectKeyIdentifier
+  const signer = isContext(sid, 0)
+    ? certificates.find(c => c.subjectKeyId && sameBytes(c.subjectKeyId, octets(sid)))
+    : certificates.find(c => sameBytes(c.issuer, encoded(sid.children[0])) && sameBytes(c.serial, content(sid.children[1])));
+
+  let signingTime: string | undefined;
+  let messageDigest: Uint8Array | undefined;
+  signedAttrs?.children.forEach(attribute => {
+    const type = readOid(attribute.children[0]);
+    const value = attribute.children[1]?.children[0];
+    if (!value) return;
+    if (type === OID.signingTime) signingTime = readTime(value);
+    if (type === OID.messageDigest) messageDigest = content(value);
+  });
+
+  const result: DigitalSignature = {
+    subject: signer ? signer.subject : 'Certificato del firmatario non incluso',
+    signingTime,
+    verification: 'unverified',
+  };
+
+  const hash = DIGEST_ALGORITHMS[readOid(digestAlgorithm.children[0])]
+    || (signatureAlgorithm ? SIGNATURE_HASHES[readOid(signatureAlgorithm.children[0])] : undefined);
+  if (!signer || !signatureNode || !hash || !globalThis.crypto?.subtle) return result;
+
+  try {
+    let signedBytes = document;
+    if (signedAttrs) {
+      const digest = new Uint8Array(await globalThis.crypto.subtle.digest(hash, toBuffer(document)));
+      if (!messageDigest || !sameBytes(digest, messageDigest)) return { ...result, verification: 'invalid' };
+      // Gli attributi firmati sono codificati come SET (0x31), non con il tag implicito [0]
+      signedBytes = encoded(signedAttrs).slice();
+      signedBytes[0] = 0x31;
+    }
+    const valid = await verifySignature(signer, hash, signedBytes, content(signatureNode));
+    if (valid === undefined) return result;
+    return { ...result, verification: valid ? 'valid' : 'invalid' };
+  } catch (error) {
+    console.error("Verifica della firma non riuscita:", error);
+    return result;
+  }
+};
+
+const decodeBase64 = (text: string): Uint8Array => {
+  const clean = text.replace(/-----(BEGIN|END)[^-]*-----/g, '').replace(/\s/g, '');
+  if (!/^[A-Za-z0-9+/]+=*$/.test(clean)) throw new Error("Il file non è una busta firmata .p7m.");
+  let binary: string;
+  try {
+    binary = atob(clean);
+  } catch {
+    throw new Error("Il file non è una busta firmata .p7m.");
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const toDer = (data: Uint8Array): Uint8Array =>
+  data[0] === 0x30 ? data : decodeBase64(new TextDecoder('latin1').decode(data));
+
+export interface SignedEnvelope {
+  content: Uint8Array; // Documento firmato
+  signatures: DigitalSignature[];
+}
+
+/**
+ * Estrae il documento da una busta .p7m (DER o base64). Le buste annidate,
+ * come i file .p7m.p7m firmati da più soggetti in sequenza, vengono aperte tutte
+ * e le firme sono riportate dalla più esterna.
+ */
+export const unwrapP7m = async (data: ArrayBuffer | Uint8Array): Promise<SignedEnvelope> => {
+  let bytes = toDer(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const signatures: DigitalSignature[] = [];
+
+  for (let depth = 0; depth < 5; depth++) {
+    const contentInfo = parseNode(bytes, 0);
+    const [contentType, wrapper] = contentInfo.children;
+    if (!contentType || contentType.tag !== 6 || readOid(contentType) !== OID.signedData || !wrapper) {
+      if (depth === 0) throw new Error("Il file non è una busta firmata .p7m.");
+      break;
+    }
+    const signedData = wrapper.children[0];
+    const [, , encapContentInfo, ...rest] = signedData.children;
+    const eContent = encapContentInfo.children.find(n => isContext(n, 0))?.children[0];
+    if (!eContent) throw new Error("La busta firmata non contiene il documento (firma distaccata).");
+    const document = octets(eContent);
+
+    const certificates = (rest.find(n => isContext(n, 0))?.children || [])
+      .filter(n => n.tag === 16)
+      .map(parseCertificate);
+    const signerInfos = rest.find(n => n.tagClass === 0 && n.tag === 17)?.children || [];
+    for (const signerInfo of signerInfos) {
+      signatures.push(await checkSigner(signerInfo, certificates, document));
+    }
+
+    bytes = document;
+    // Prosegue solo se il contenuto è a sua volta una busta firmata
+    if (bytes[0] !== 0x30) break;
+    try {
+      const inner = parseNode(bytes, 0).children[0];
+      if (!inner || inner.tag !== 6 || readOid(inner) !== OID.signedData) break;
+    } catch {
+      break;
+    }
+  }
+
+  return { content: bytes, signatures };
+};
+
+/** Testo XML del documento estratto, rispettando la codifica dichiarata nel prologo. */
+export const decodeXmlBytes = (bytes: Uint8Array): string => {
+  const prolog = new TextDecoder('latin1').decode(bytes.subarray(0, 200));
+  const encoding = prolog.match(/encoding=["']([\w-]+)["']/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, '');
+  }
+};
@@ -0,0 +1,157 @@
+import { Expense, ExpenseCategory, Supplier } from "../types";
+import { round2 } from "../utils";
+import { getSupplierTaxId } from "./supplierService";
+import { decodeCodiceFiscale, isValidPartitaIva, normalizeCode } from "./validationService";
+
+// Sotto questa soglia annua per fornitore gli acquisti non vanno comunicati
+export const QUADRO_AC_THRESHOLD = 258.23;
+
+export type AcExclusionReason = 'utility' | 'withholding';
+
+export interface AcSupplierRow {
+  key: string;
+  fiscalCode?: string;
+  vatNumber?: string;
+  name: string;
+  address?: string;
+  supplierId?: string;
+  total: number;
+  expenseIds: string[];
+}
+
+export interface AcExcludedExpense {
+  expense: Expense;
+  reason: AcExclusionReason;
+}
+
+export interface QuadroAcReport {
+  year: number;
+  rows: AcSupplierRow[]; // Fornitori da comunicare (oltre soglia, con codice fiscale)
+  belowThreshold: AcSupplierRow[];
+  missingCode: Expense[]; // Spese da comunicare senza codice fiscale né P.IVA
+  excluded: AcExcludedExpense[];
+}
+
+export const getAcExclusion = (expense: Expense): AcExclusionReason | null => {
+  if (expense.withholding) return 'withholding';
+  if (expense.category === ExpenseCategory.UTENZE) return 'utility';
+  return null;
+};
+
+/**
+ * Acquisti di beni e servizi dell'anno solare (data del documento) aggregati per
+ * fornitore, identificato dal codice fiscale o dalla P.IVA registrati sulla spesa o,
+ * in mancanza, in anagrafe fornitori.
+ */
+export const computeQuadroAc = (expenses: Expense[], suppliers: Supplier[], year: number): QuadroAcReport => {
+  const groups = new Map<string, AcSupplierRow>();
+  const missingCode: Expense[] = [];
+  const excluded: AcExcludedExpense[] = [];
+
+  expenses
+    .filter(e => e.date.startsWith(`${year}-`))
+    .forEach(e => {
+      const reason = getAcExclusion(e);
+      if (reason) {
+        excluded.push({ expense: e, reason });
+        return;
+      }
+      const supplier = suppliers.find(s => s.id === e.supplierId);
+      const rawCode = e.supplierFiscalCode || (supplier ? getSupplierTaxId(supplier) : undefined);
+      if (!rawCode) {
+        missingCode.push(e);
+        return;
+      }
+      const code = normalizeCode(rawCode);
+      const row = groups.get(code) || {
+        key: code,
+        fiscalCode: code,
+        vatNumber: isValidPartitaIva(code) ? code : supplier?.vatNumber,
+        name: supplier?.name || e.description,
+        address: supplier?.address,
+        supplierId: supplier?.id,
+        total: 0,
+        expenseIds: [],
+      };
+      row.total = round2(row.total + e.amount);
+      row.expenseIds.push(e.id);
+      groups.set(code, row);
+    });
+
+  const all = [...groups.values()].sort((a, b) => a.name.localeCompare(b.name, 'it'));
+  return {
+    year,
+    rows: all.filter(r => r.total > QUADRO_AC_THRESHOLD),
+    belowThreshold: all.filter(r => r.total <= QUADRO_AC_THRESHOLD),
+    missingCode: missingCode.sort((a, b) => a.date.localeCompare(b.date)),
+    excluded,
+  };
+};
+
+interface AcAddress {
+  street: string;
+  city: string;
+  province: string;
+}
+
+/** Scompone un indirizzo nel formato "Via, numero civico, CAP, Comune (Provincia)". */
+export const splitAddress = (address?: string): AcAddress => {
+  if (!address) return { street: '', city: '', province: '' };
+  const match = address.match(/^(.*?),?\s*(?:\d{5})?\s*([^,()\d]+?)\s*\(([A-Za-z]{2})\)\s*$/);
+  if (!match) return { street: address.trim(), city: '', province: '' };
+  return { street: match[1].replace(/,\s*$/, '').trim(), city: match[2].trim(), province: match[3].toUpperCase() };
+};
+
+// Campi del rigo fornitore del quadro AC, nell'ordine del modello
+export const QUADRO_AC_FIELDS = [
+  '1 Codice fiscale',
+  '2 Partita IVA',
+  '3 Cognome o denominazione',
+  '4 Nome',
+  '5 Sesso',
+  '6 Data di nascita',
+  '7 Comune (o Stato estero) di nascita',
+  '8 Provincia di nascita',
+  '9 Comune del domicilio fiscale',
+  '10 Provincia del domicilio fiscale',
+  '11 Via e numero civico',
+  '12 Importo complessivo degli acquisti',
+];
+
+/**
+ * Valori del rigo per un fornitore. Per le persone fisiche sesso e data di nascita
+ * sono ricavati dal codice fiscale; il nome è separato dal cognome sul primo spazio
+ * ("Rossi Mario"), il comune di nascita riporta il codice catastale.
+ */
+export const toQuadroAcFields = (row: AcSupplierRow): (string | number)[] => {
+  const person = row.fiscalCode ? decodeCodiceFiscale(row.fiscalCode) : null;
+  const address = splitAddress(row.address);
+  const [lastName, ...firstNames] = row.name.trim().split(/\s+/);
+  return [
+    row.fiscalCode || '',
+    row.vatNumber || '',
+    person ? lastName : row.name,
+    person ? firstNames.join(' ') : '',
+    person?.sex || '',
+    person ? person.birthDate.split('-').reverse().join('/') : '',
+    person?.birthPlaceCode || '',
+    '',
+    address.city,
+    address.province,
+    address.street,
+    row.total,
+  ];
+};
+
+const escapeCSV = (str: string) => `"${String(str || '').replace(/"/g, '""')}"`;
+
+export const createQuadroAcCsv = (report: QuadroAcReport, condoName: string, condoFiscalCode: string) => {
+  const headers = ['Anno', 'Codice Fiscale Condominio', 'Denominazione Condominio', ...QUADRO_AC_FIELDS];
+  const rows = report.rows.map(row => [
+    report.year,
+    condoFiscalCode,
+    escapeCSV(condoName),
+    ...toQuadroAcFields(row).map(v => typeof v === 'number' ? v.toFixed(2).replace('.', ',') : escapeCSV(v)),
+  ].join(';'));
+  return [headers.join(';'), ...rows].join('\n');
+};
@@ -0,0 +1,151 @@
+import { Budget, Income, IncomeCategory, Installment, MillesimiTable, Unit } from "../types";
+import { generateId, round2 } from "../utils";
+import { getTableForCategory } from "./millesimiService";
+import { splitByMillesimi } from "./ripartoService";
+
+/** Somma mesi a una data ISO, riportando il giorno all'ultimo del mese se necessario (31/01 + 1 = 28/02). */
+export const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+};
+
+export interface BudgetSplit {
+  byUnit: Record<string, number>; // unitId -> quota annua
+  unallocatedCategories: string[]; // Voci senza tabella millesimale applicabile
+}
+
+/** Ripartisce ogni voce del preventivo tra le unità secondo la tabella della sua categoria. */
+export const splitBudgetByUnit = (budget: Budget, tables: MillesimiTable[]): BudgetSplit => {
+  const byUnit: Record<string, number> = {};
+  const unallocatedCategories: string[] = [];
+
+  Object.keys(budget.items).forEach(category => {
+    const table = getTableForCategory(tables, category);
+    if (!table) {
+      unallocatedCategories.push(category);
+      return;
+    }
+    const shares = splitByMillesimi(budget.items[category], table.values);
+    Object.keys(shares).forEach(unitId => {
+      byUnit[unitId] = round2((byUnit[unitId] || 0) + shares[unitId]);
+    });
+  });
+
+  return { byUnit, unallocatedCategories };
+};
+
+export interface InstallmentPlanOptions {
+  budget: Budget;
+  units: Unit[];
+  tables: MillesimiTable[];
+  count: number;          // Numero di rate
+  firstDueDate: string;   // Scadenza della prima rata
+  intervalMonths: number; // Mesi tra una rata e la successiva
+  periodLabel: string;    // Etichetta dell'esercizio per la descrizione
+}
+
+/**
+ * Genera il piano rate di un esercizio dal preventivo: la quota annua di ogni unità
+ * è divisa in rate uguali, gli eventuali centesimi residui vanno sulla prima rata.
+ */
+export const generateInstallmentPlan = (options: InstallmentPlanOptions): Installment[] => {
+  const { budget, units, tables, count, firstDueDate, intervalMonths, periodLabel } = options;
+  if (!Number.isInteger(count) || count < 1) throw new Error("Il numero di rate non è valido.");
+
+  const { byUnit } = splitBudgetByUnit(budget, tables);
+  const installments: Installment[] = [];
+
+  units.forEach(unit => {
+    const annualCents = Math.round((byUnit[unit.id] || 0) * 100);
+    if (annualCents <= 0) return;
+    const baseCents = Math.floor(annualCents / count);
+    const firstCents = annualCents - baseCents * (count - 1);
+
+    for (let i = 0; i < count; i++) {
+      installments.push({
+        id: generateId(),
+        unitId: unit.id,
+        fiscalYear: budget.year,
+        dueDate: addMonths(firstDueDate, i * intervalMonths),
+        amount: (i === 0 ? firstCents : baseCents) / 100,
+        description: `Rata ${i + 1}/${count} preventivo ${periodLabel}`,
+        budgetId: budget.id,
+      });
+    }
+  });
+
+  return installments;
+};
+
+export type InstallmentState = 'paid' | 'partial' | 'outstanding';
+
+export interface InstallmentStatus {
+  installment: Installment;
+  paid: number;
+  remaining: number;
+  state: InstallmentState;
+  overdue: boolean; // Scaduta e non interamente pagata
+}
+
+export interface UnitReceivable {
+  unitId: string;
+  due: number;       // Totale rate
+  paid: number;      // Versamenti imputati all'unità
+  remaining: number; // Rate ancora da incassare
+  overdue: number;   // Parte del residuo già scaduta
+  credit: number;    // Versamenti eccedenti le rate emesse
+  installments: InstallmentStatus[];
+}
+
+/** Versamenti considerati nel partitario: incassi di quote imputati a un'unità. */
+export const getQuotaIncomes = (incomes: Income[], unitId: string) =>
+  incomes.filter(i => i.category === IncomeCategory.QUOTE && i.unitId === unitId);
+
+/**
+ * Partitario di un'unità: i versamenti vengono imputati alle rate in ordine di scadenza,
+ * saldando sempre prima la rata più vecchia.
+ */
+export const computeUnitReceivable = (
+  unitId: string,
+  installments: Installment[],
+  incomes: Income[],
+  today: string = new Date().toISOString().slice(0, 10)
+): UnitReceivable => {
+  const unitInstallments = installments
+    .filter(r => r.unitId === unitId)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+  const paid = round2(getQuotaIncomes(incomes, unitId).reduce((sum, i) => sum + i.amount, 0));
+
+  let pool = paid;
+  const statuses: InstallmentStatus[] = unitInstallments.map(installment => {
+    const applied = round2(Math.min(pool, installment.amount));
+    pool = round2(pool - applied);
+    const remaining = round2(installment.amount - applied);
+    return {
+      installment,
+      paid: applied,
+      remaining,
+      state: remaining <= 0 ? 'paid' : (applied > 0 ? 'partial' : 'outstanding'),
+      overdue: remaining > 0 && installment.dueDate < today,
+    };
+  });
+
+  const due = round2(unitInstallments.reduce((sum, r) => sum + r.amount, 0));
+  return {
+    unitId,
+    due,
+    paid,
+    remaining: round2(statuses.reduce((sum, s) => sum + s.remaining, 0)),
+    overdue: round2(statuses.filter(s => s.overdue).reduce((sum, s) => sum + s.remaining, 0)),
+    credit: pool,
+    installments: statuses,
+  };
+};
+
+export const computeReceivables = (units: Unit[], installments: Installment[], incomes: Income[]): UnitReceivable[] =>
+  [...units]
+    .sort((a, b) => a.code.localeCompare(b.code, 'it', { numeric: true }))
+    .map(u => computeUnitReceivable(u.id, installments, incomes));
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { BankAccount, Expense } from '../types';
+import { computeAccountBalance } from './bankBalanceService';
+import { computeReconciliationSummary, getBookEntries } from './reconciliationService';
+
+const account: BankAccount = { id: 'acc', name: 'Conto corrente', initialBalance: 1000, iban: '' };
+
+const expense = (id: string, amount: number, status: Expense['status']): Expense => ({
+  id, description: 'Manutenzione', amount, date: '2026-03-01', category: 'Varie', bankAccountId: account.id, status,
+});
+
+describe('computeReconciliationSummary', () => {
+  it('calcola il saldo contabile come il saldo del conto, senza le spese da pagare', () => {
+    const sources = {
+      expenses: [expense('paid', 200, 'paid'), expense('open', 300, 'unpaid')],
+      incomes: [{ id: 'inc', description: 'Quote', amount: 500, date: '2026-03-02', category: 'Quote', bankAccountId: account.id }],
+      f24Payments: [],
+      bankTransfers: [],
+    };
+    const entries = getBookEntries(account, { ...sources, suppliers: [], bankAccounts: [account] });
+    const summary = computeReconciliationSummary(account, entries, [], []);
+
+    expect(entries).toHaveLength(3); // La spesa da pagare resta tra quelle abbinabili
+    expect(summary.bookBalance).toBe(1300);
+    expect(summary.bookBalance).toBe(computeAccountBalance(account, sources));
+  });
+});
@@ -0,0 +1,271 @@
+import { BankAccount, BankReconciliation, BankTransaction, ReconciledRecord, Supplier } from "../types";
+import { daysBetween, round2 } from "../utils";
+import { BalanceSources } from "./bankBalanceService";
+import { getF24Total } from "./f24Service";
+import { getNetToPay } from "./withholdingService";
+import { normalizeCode } from "./validationService";
+
+// Registrazione contabile vista dal lato del conto: importo con segno come i movimenti della banca
+export interface BookEntry {
+  ref: ReconciledRecord;
+  date: string; // Data della registrazione (pagamento se noto)
+  matchDate: string; // Data attesa dell'addebito o accredito, usata per gli abbinamenti
+  amount: number; // Positivo per gli incassi, negativo per spese e F24
+  description: string;
+  counterparty?: string;
+  iban?: string;
+  reference?: string; // Numero fattura
+  unpaid?: boolean; // Spesa ancora da pagare: abbinabile, ma non ha mosso il conto
+}
+
+export interface MatchSuggestion {
+  transactionIds: string[];
+  records: ReconciledRecord[];
+  score: number; // Da 0 a 1
+}
+
+export interface ReconciliationSummary {
+  bookBalance: number; // Saldo contabile con le registrazioni che hanno mosso il conto
+  reconciledBalance: number; // Saldo con le sole registrazioni riscontrate in banca
+  difference: number; // Registrazioni non ancora riscontrate
+  unmatchedBank: number; // Movimenti della banca senza registrazione
+}
+
+// Oltre questa distanza tra registrazione e movimento l'abbinamento non viene proposto
+const MAX_DAYS = 45;
+// Numero massimo di registrazioni (o movimenti) in un abbinamento cumulativo proposto
+const MAX_GROUP_SIZE = 4;
+const MAX_GROUP_CANDIDATES = 12;
+// Un gruppo che torna per somma è meno probante di una coppia di pari importo
+const GROUP_WEIGHT = 0.8;
+
+const STOP_WORDS = new Set([
+  'bonifico', 'pagamento', 'fattura', 'fatt', 'sepa', 'sct', 'sdd', 'disposizione', 'favore', 'del', 'della', 'per', 'con',
+  'srl', 'spa', 'snc', 'sas', 'ord', 'ben', 'rif', 'cro', 'trn', 'addebito', 'accredito',
+]);
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export const recordKey = (ref: ReconciledRecord) => `${ref.type}:${ref.id}`;
+
+const tokenize = (text: string) => new Set(
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length >= 3 && !STOP_WORDS.has(w))
+);
+
+/** Somiglianza tra due testi: quota delle parole del testo più corto presenti nell'altro. */
+export const textSimilarity = (a: string, b: string) => {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const common = [...wordsA].filter(w => wordsB.has(w)).length;
+  return common / Math.min(wordsA.size, wordsB.size);
+};
+
+/** Spese, incassi, F24 e giroconti registrati sul conto, con l'importo che ci si aspetta di vedere in banca. */
+export const getBookEntries = (
+  account: BankAccount,
+  sources: BalanceSources & { suppliers: Supplier[]; bankAccounts: BankAccount[] },
+): BookEntry[] => {
+  const suppliersById = new Map(sources.suppliers.map(s => [s.id, s]));
+  const accountsById = new Map(sources.bankAccounts.map(a => [a.id, a]));
+  const expenses = sources.expenses
+    .filter(e => e.bankAccountId === account.id)
+    .map((e): BookEntry => {
+      const supplier = e.supplierId ? suppliersById.get(e.supplierId) : undefined;
+      return {
+        ref: { type: 'expense', id: e.id },
+        date: e.paidDate || e.date,
+        matchDate: e.paidDate || e.dueDate || e.date,
+        amount: -getNetToPay(e),
+        description: e.description,
+        counterparty: supplier?.name,
+        iban: supplier?.iban,
+        reference: e.invoiceNumber,
+        unpaid: e.status !== 'paid',
+      };
+    });
+  const incomes = sources.incomes
+    .filter(i => i.bankAccountId === account.id)
+    .map((i): BookEntry => ({
+      ref: { type: 'income', id: i.id },
+      date: i.date,
+      matchDate: i.date,
+      amount: i.amount,
+      description: i.description,
+    }));
+  const f24 = sources.f24Payments
+    .filter(p => p.bankAccountId === account.id)
+    .map((p): BookEntry => ({
+      ref: { type: 'f24', id: p.id },
+      date: p.date,
+      matchDate: p.date,
+      amount: -getF24Total(p),
+      description: 'Modello F24',
+    }));
+  const transfers = sources.bankTransfers
+    .filter(t => t.fromAccountId === account.id || t.toAccountId === account.id)
+    .map((t): BookEntry => {
+      const outgoing = t.fromAccountId === account.id;
+      const other = accountsById.get(outgoing ? t.toAccountId : t.fromAccountId);
+      return {
+        ref: { type: 'transfer', id: t.id },
+        date: t.date,
+        matchDate: t.date,
+        amount: outgoing ? -t.amount : t.amount,
+        description: t.description || `Giroconto ${outgoing ? 'verso' : 'da'} ${other?.name || 'altro conto'}`,
+        counterparty: other?.name,
+        iban: other?.iban,
+      };
+    });
+  // Le registrazioni precedenti il saldo iniziale sono già comprese in esso
+  return [...expenses, ...incomes, ...f24, ...transfers]
+    .filter(e => !account.initialBalanceDate || e.date >= account.initialBalanceDate)
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/** Movimenti e registrazioni già abbinati sul conto. */
+export const getReconciledKeys = (reconciliations: BankReconciliation[], accountId: string) => {
+  const transactions = new Set<string>();
+  const records = new Set<string>();
+  reconciliations
+    .filter(r => r.bankAccountId === accountId)
+    .forEach(r => {
+      r.transactionIds.forEach(id => transactions.add(id));
+      r.records.forEach(ref => records.add(recordKey(ref)));
+    });
+  return { transactions, records };
+};
+
+const transactionText = (t: BankTransaction) => [t.counterparty, t.remittanceInfo].filter(Boolean).join(' ');
+
+const entryText = (e: BookEntry) => [e.description, e.counterparty].filter(Boolean).join(' ');
+
+const pairScore = (t: BankTransaction, e: BookEntry) => {
+  const days = Math.abs(daysBetween(e.matchDate, t.bookingDate));
+  let score = 0.4 * (1 - days / MAX_DAYS) + 0.4 * textSimilarity(transactionText(t), entryText(e));
+  if (e.iban && t.counterpartyIban && normalizeCode(e.iban) === t.counterpartyIban) score += 0.3;
+  if (e.reference && normalizeCode(t.remittanceInfo || '').includes(normalizeCode(e.reference))) score += 0.3;
+  return Math.min(1, score);
+};
+
+/**
+ * Gruppi di 2-4 candidati (stesso segno, i più vicini per data) la cui somma
+ * coincide al centesimo con l'importo cercato.
+ */
+const findGroups = <T,>(candidates: T[], target: number, cents: (item: T) => number): T[][] => {
+  const items = candidates.slice(0, MAX_GROUP_CANDIDATES);
+  const goal = Math.abs(target);
+  const groups: T[][] = [];
+  const search = (start: number, chosen: T[], sum: number) => {
+    if (sum === goal && chosen.length >= 2) {
+      groups.push(chosen);
+      return;
+    }
+    if (chosen.length === MAX_GROUP_SIZE || sum >= goal) return;
+    for (let i = start; i < items.length; i++) {
+      search(i + 1, [...chosen, items[i]], sum + Math.abs(cents(items[i])));
+    }
+  };
+  search(0, [], 0);
+  return groups;
+};
+
+const averageScore = (pairs: [BankTransaction, BookEntry][]) =>
+  pairs.reduce((sum, [t, e]) => sum + pairScore(t, e), 0) / pairs.length;
+
+// Tra i gruppi possibili vale quello con il punteggio medio più alto
+const bestGroup = <T,>(groups: T[][], score: (group: T[]) => number) =>
+  groups.reduce<{ group: T[]; score: number } | null>((best, group) => {
+    const value = score(group);
+    return !best || value > best.score ? { group, score: value } : best;
+  }, null);
+
+/**
+ * Propone gli abbinamenti tra movimenti e registrazioni non ancora riconciliati.
+ * Prima le coppie di pari importo, in ordine di punteggio (vicinanza delle date,
+ * somiglianza delle descrizioni, IBAN del fornitore, numero di fattura in causale);
+ * poi, per quanto resta, un movimento contro più registrazioni (bonifico cumulativo)
+ * e più movimenti contro una registrazione (pagamento a rate).
+ */
+export const suggestMatches = (transactions: BankTransaction[], entries: BookEntry[]): MatchSuggestion[] => {
+  const suggestions: MatchSuggestion[] = [];
+  const usedTransactions = new Set<string>();
+  const usedEntries = new Set<string>();
+  const withinWindow = (t: BankTransaction, e: BookEntry) => Math.abs(daysBetween(e.matchDate, t.bookingDate)) <= MAX_DAYS;
+
+  const pairs = transactions.flatMap(t => entries
+    .filter(e => toCents(e.amount) === toCents(t.amount) && withinWindow(t, e))
+    .map(e => ({ t, e, score: pairScore(t, e) })));
+  pairs.sort((a, b) => b.score - a.score);
+  pairs.forEach(({ t, e, score }) => {
+    const key = recordKey(e.ref);
+    if (usedTransactions.has(t.id) || usedEntries.has(key)) return;
+    usedTransactions.add(t.id);
+    usedEntries.add(key);
+    suggestions.push({ transactionIds: [t.id], records: [e.ref], score });
+  });
+
+  const sameSign = (a: number, b: number) => (a < 0) === (b < 0);
+
+  transactions.filter(t => !usedTransactions.has(t.id)).forEach(t => {
+    const candidates = entries
+      .filter(e => !usedEntries.has(recordKey(e.ref)) && sameSign(e.amount, t.amount) && Math.abs(e.amount) < Math.abs(t.amount) && withinWindow(t, e))
+      .sort((a, b) => Math.abs(daysBetween(a.matchDate, t.bookingDate)) - Math.abs(daysBetween(b.matchDate, t.bookingDate)));
+    const best = bestGroup(findGroups(candidates, toCents(t.amount), e => toCents(e.amount)), group => averageScore(group.map(e => [t, e])));
+    if (!best) return;
+    usedTransactions.add(t.id);
+    best.group.forEach(e => usedEntries.add(recordKey(e.ref)));
+    suggestions.push({ transactionIds: [t.id], records: best.group.map(e => e.ref), score: best.score * GROUP_WEIGHT });
+  });
+
+  entries.filter(e => !usedEntries.has(recordKey(e.ref))).forEach(e => {
+    const candidates = transactions
+      .filter(t => !usedTransactions.has(t.id) && sameSign(e.amount, t.amount) && Math.abs(t.amount) < Math.abs(e.amount) && withinWindow(t, e))
+      .sort((a, b) => Math.abs(daysBetween(e.matchDate, a.bookingDate)) - Math.abs(daysBetween(e.matchDate, b.bookingDate)));
+    const best = bestGroup(findGroups(candidates, toCents(e.amount), t => toCents(t.amount)), group => averageScore(group.map(t => [t, e])));
+    if (!best) return;
+    usedEntries.add(recordKey(e.ref));
+    best.group.forEach(t => usedTransactions.add(t.id));
+    suggestions.push({ transactionIds: best.group.map(t => t.id), records: [e.ref], score: best.score * GROUP_WEIGHT });
+  });
+
+  return suggestions.sort((a, b) => b.score - a.score);
+};
+
+/** Un abbinamento manuale è ammesso solo se i due lati hanno lo stesso totale. */
+export const isBalancedMatch = (transactions: BankTransaction[], entries: BookEntry[]) =>
+  transactions.length > 0 && entries.length > 0 &&
+  toCents(transactions.reduce((sum, t) => sum + t.amount, 0)) === toCents(entries.reduce((sum, e) => sum + e.amount, 0));
+
+/**
+ * Confronto tra saldo contabile e saldo riconciliato alla data indicata (tutte le date se vuota):
+ * la differenza è data dalle registrazioni che la banca non ha ancora eseguito.
+ */
+export const computeReconciliationSummary = (
+  account: BankAccount,
+  entries: BookEntry[],
+  transactions: BankTransaction[],
+  reconciliations: BankReconciliation[],
+  asOf?: string,
+): ReconciliationSummary => {
+  const reconciled = getReconciledKeys(reconciliations, account.id);
+  const inPeriod = (date: string) => !asOf || date <= asOf;
+  // Come nel saldo dei conti, le spese da pagare restano fuori finché non sono pagate
+  const bookEntries = entries.filter(e => !e.unpaid && inPeriod(e.date));
+  const booked = bookEntries.reduce((sum, e) => sum + e.amount, 0);
+  const matched = bookEntries.filter(e => reconciled.records.has(recordKey(e.ref))).reduce((sum, e) => sum + e.amount, 0);
+  const unmatchedBank = transactions
+    .filter(t => t.bankAccountId === account.id && inPeriod(t.bookingDate) && !reconciled.transactions.has(t.id))
+    .reduce((sum, t) => sum + t.amount, 0);
+  return {
+    bookBalance: round2(account.initialBalance + booked),
+    reconciledBalance: round2(account.initialBalance + matched),
+    difference: round2(booked - matched),
+    unmatchedBank: round2(unmatchedBank),
+  };
+};
@@ -0,0 +1,111 @@
+import { AlignmentType, BorderStyle, Document, Paragraph, Table, TableCell, TableRow, TextRun, WidthType } from 'docx';
+import { Person, ReminderLetter, ReminderLevel, Unit } from "../types";
+import { InstallmentStatus } from "./quotaService";
+
+export const REMINDER_LEVEL_LABELS: Record<ReminderLevel, string> = {
+  first: 'Primo sollecito',
+  formal: 'Diffida e messa in mora',
+};
+
+// Giorni concessi per il pagamento, a partire dalla data della lettera
+export const REMINDER_DEADLINE_DAYS: Record<ReminderLevel, number> = {
+  first: 15,
+  formal: 10,
+};
+
+export interface ReminderLetterData {
+  condoName: string;
+  level: ReminderLevel;
+  unit: Unit;
+  recipient?: Person;
+  items: InstallmentStatus[]; // Rate scadute e non saldate
+  amount: number;
+  date: string;
+  deadline: string;
+  previousReminder?: ReminderLetter;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('it-IT', { style: 'currency', currency: 'EUR' }).format(val);
+const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+const border = { style: BorderStyle.SINGLE, size: 1, color: "000000" };
+
+const bodyText = (data: ReminderLetterData): string[] => {
+  const amount = formatCurrency(data.amount);
+  const deadline = formatDate(data.deadline);
+  if (data.level === 'first') {
+    return [
+      `dalle verifiche contabili risulta che, alla data odierna, non sono state saldate le rate condominiali relative all'unità ${data.unit.code} riportate di seguito, per un importo complessivo di ${amount}.`,
+      `La invitiamo a provvedere al pagamento entro il ${deadline}.`,
+      "Qualora avesse già provveduto, La preghiamo di considerare nulla la presente e di trasmetterci copia della ricevuta di pagamento.",
+    ];
+  }
+  const previous = data.previousReminder ? ` nonostante il sollecito inviato in data ${formatDate(data.previousReminder.date)},` : '';
+  return [
+    `con la presente Le contestiamo che,${previous} risultano tuttora insolute le rate condominiali relative all'unità ${data.unit.code} riportate di seguito, per un importo complessivo di ${amount}.`,
+    `La diffidiamo pertanto a versare l'intero importo entro e non oltre il ${deadline}. La presente vale quale costituzione in mora ai sensi dell'art. 1219 c.c.`,
+    "In mancanza, l'amministratore procederà al recupero del credito ai sensi dell'art. 63 disp. att. c.c., richiedendo decreto ingiuntivo immediatamente esecutivo, con addebito di interessi e spese legali.",
+    "Le ricordiamo inoltre che, in caso di mora protratta per un semestre, l'amministratore può sospendere la fruizione dei servizi comuni suscettibili di godimento separato.",
+  ];
+};
+
+/** Lettera di sollecito in formato Word, con l'elenco delle rate insolute. */
+export const createReminderDocument = (data: ReminderLetterData): Document => {
+  const headerCell = (text: string) => new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold: true })] })] });
+
+  const rows = [
+    new TableRow({
+      children: [headerCell("Scadenza"), headerCell("Descrizione"), headerCell("Importo rata"), headerCell("Residuo")],
+      tableHeader: true,
+    }),
+    ...data.items.map(s => new TableRow({
+      children: [
+        new TableCell({ children: [new Paragraph(formatDate(s.installment.dueDate))] }),
+        new TableCell({ children: [new Paragraph(s.installment.description)] }),
+        new TableCell({ children: [new Paragraph({ text: formatCurrency(s.installment.amount), alignment: AlignmentType.RIGHT })] }),
+        new TableCell({ children: [new Paragraph({ text: formatCurrency(s.remaining), alignment: AlignmentType.RIGHT })] }),
+      ],
+    })),
+    new TableRow({
+      children: [
+        headerCell("Totale"),
+        new TableCell({ children: [new Paragraph("")] }),
+        new TableCell({ children: [new Paragraph("")] }),
+        new TableCell({ children: [new Paragraph({ children: [new TextRun({ text: formatCurrency(data.amount), bold: true })], alignment: AlignmentType.RIGHT })] }),
+      ],
+    }),
+  ];
+
+  const recipient = data.recipient;
+  const addressLines = recipient?.address ? recipient.address.split(/\r?\n|,\s*/).filter(Boolean) : [];
+
+  return new Document({
+    sections: [{
+      properties: {},
+      children: [
+        new Paragraph({ children: [new TextRun({ text: data.condoName, bold: true, size: 28 })] }),
+        new Paragraph({ text: "Amministrazione condominiale" }),
+        new Paragraph({ text: "" }),
+        new Paragraph({ text: `Spett.le ${recipient ? recipient.name : `Proprietario unità ${data.unit.code}`}`, alignment: AlignmentType.RIGHT }),
+        ...addressLines.map(line => new Paragraph({ text: line, alignment: AlignmentType.RIGHT })),
+        ...(recipient?.pec ? [new Paragraph({ text: `PEC: ${recipient.pec}`, alignment: AlignmentType.RIGHT })] : []),
+        new Paragraph({ text: "" }),
+        new Paragraph({ text: `Data: ${formatDate(data.date)}` }),
+        new Paragraph({ text: "" }),
+        new Paragraph({ children: [new TextRun({ text: `Oggetto: ${REMINDER_LEVEL_LABELS[data.level]} - quote condominiali unità ${data.unit.code}`, bold: true })] }),
+        new Paragraph({ text: "" }),
+        new Paragraph({ text: "Gentile Condomino," }),
+        ...bodyText(data).flatMap(text => [new Paragraph({ text }), new Paragraph({ text: "" })]),
+        new Table({
+          rows,
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          borders: { top: border, bottom: border, left: border, right: border, insideHorizontal: border, insideVertical: border },
+        }),
+        new Paragraph({ text: "" }),
+        new Paragraph({ text: "Distinti saluti." }),
+        new Paragraph({ text: "" }),
+        new Paragraph({ text: "L'Amministratore", alignment: AlignmentType.RIGHT }),
+      ],
+    }],
+  });
+};
@@ -0,0 +1,131 @@
+import { Expense, Income, IncomeCategory, MillesimiTable, Person, Unit } from "../types";
+import { round2 } from "../utils";
+import { MILLESIMI_TOTAL, getTableForCategory } from "./millesimiService";
+
+/**
+ * Divide un importo in base ai millesimi lavorando in centesimi:
+ * i centesimi residui dell'arrotondamento vanno alle unità con il resto maggiore,
+ * così la somma delle quote coincide sempre con l'importo.
+ */
+export const splitByMillesimi = (amount: number, values: Record<string, number>): Record<string, number> => {
+  const cents = Math.round(amount * 100);
+  const entries = Object.keys(values)
+    .filter(unitId => values[unitId] > 0)
+    .map(unitId => {
+      const exact = cents * values[unitId] / MILLESIMI_TOTAL;
+      return { unitId, floor: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+
+  let residual = cents - entries.reduce((sum, e) => sum + e.floor, 0);
+  [...entries]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(e => {
+      if (residual > 0) {
+        e.floor += 1;
+        residual -= 1;
+      }
+    });
+
+  return Object.fromEntries(entries.map(e => [e.unitId, e.floor / 100]));
+};
+
+export interface RipartoTableSummary {
+  tableId: string;
+  name: string;
+  amount: number; // Spese ripartite con questa tabella
+}
+
+export interface RipartoRow {
+  unitId: string;
+  code: string;
+  owners: string;
+  byTable: Record<string, number>; // tableId -> quota dell'unità
+  share: number;  // Totale a carico dell'unità
+  paid: number;   // Quote versate (incassi collegati all'unità)
+  balance: number; // paid - share: positivo = credito, negativo = debito
+}
+
+export interface RipartoResult {
+  tables: RipartoTableSummary[];
+  rows: RipartoRow[];
+  totalExpenses: number;
+  totalAllocated: number;
+  totalPaid: number;
+  unallocated: Expense[];      // Spese senza tabella applicabile
+  unassignedIncomes: Income[]; // Quote incassate non collegate a un'unità
+}
+
+export const getOwnerNames = (unit: Unit, persons: Person[]) =>
+  unit.owners
+    .map(o => persons.find(p => p.id === o.personId)?.name)
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * Riparto consuntivo: ogni spesa del periodo viene divisa tra le unità secondo
+ * la tabella millesimale della sua categoria; le quote versate sono gli incassi
+ * della categoria quote collegati all'unità nello stesso periodo.
+ */
+export const computeRiparto = (
+  expenses: Expense[],
+  incomes: Income[],
+  units: Unit[],
+  persons: Person[],
+  tables: MillesimiTable[]
+): RipartoResult => {
+  const tableAmounts = new Map<string, number>();
+  const unallocated: Expense[] = [];
+
+  expenses.forEach(e => {
+    const table = getTableForCategory(tables, e.category);
+    if (!table) {
+      unallocated.push(e);
+      return;
+    }
+    tableAmounts.set(table.id, (tableAmounts.get(table.id) || 0) + e.amount);
+  });
+
+  // Il riparto avviene sul totale per tabella, non spesa per spesa, per limitare gli arrotondamenti
+  const sharesByTable = new Map<string, Record<string, number>>();
+  tableAmounts.forEach((amount, tableId) => {
+    const table = tables.find(t => t.id === tableId)!;
+    sharesByTable.set(tableId, splitByMillesimi(amount, table.values));
+  });
+
+  const quoteIncomes = incomes.filter(i => i.category === IncomeCategory.QUOTE);
+  const unitIds = new Set(units.map(u => u.id));
+
+  const rows: RipartoRow[] = [...units]
+    .sort((a, b) => a.code.localeCompare(b.code, 'it', { numeric: true }))
+    .map(unit => {
+      const byTable: Record<string, number> = {};
+      sharesByTable.forEach((shares, tableId) => {
+        byTable[tableId] = shares[unit.id] || 0;
+      });
+      const share = round2(Object.keys(byTable).reduce((sum, id) => sum + byTable[id], 0));
+      const paid = round2(quoteIncomes.filter(i => i.unitId === unit.id).reduce((sum, i) => sum + i.amount, 0));
+      return {
+        unitId: unit.id,
+        code: unit.code,
+        owners: getOwnerNames(unit, persons),
+        byTable,
+        share,
+        paid,
+        balance: round2(paid - share),
+      };
+    });
+
+  const summaries: RipartoTableSummary[] = tables
+    .filter(t => tableAmounts.has(t.id))
+    .map(t => ({ tableId: t.id, name: t.name, amount: round2(tableAmounts.get(t.id)!) }));
+
+  return {
+    tables: summaries,
+    rows,
+    totalExpenses: round2(expenses.reduce((sum, e) => sum + e.amount, 0)),
+    totalAllocated: round2(rows.reduce((sum, r) => sum + r.share, 0)),
+    totalPaid: round2(rows.reduce((sum, r) => sum + r.paid, 0)),
+    unallocated,
+    unassignedIncomes: quoteIncomes.filter(i => !i.unitId || !unitIds.has(i.unitId)),
+  };
+};
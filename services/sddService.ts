@@ -0,0 +1,329 @@
+import { BankAccount, Income, IncomeCategory, Installment, SddMandate, Unit } from "../types";
+import { generateId } from "../utils";
+import { addMonths, computeUnitReceivable } from "./quotaService";
+import {
+  createMessageId, escapeXml, formatSepaAmount, MAX_ID_LENGTH, MAX_NAME_LENGTH, MAX_REMITTANCE_LENGTH, toSepaId, toSepaText,
+} from "./sepaService";
+import { isValidCreditorId, isValidIban, normalizeCode } from "./validationService";
+import { amount, find, findAll, parseXml, text } from "./xmlService";
+
+export type SddSequenceType = 'FRST' | 'RCUR';
+
+// Un mandato non utilizzato per 36 mesi scade (regole EPC)
+const MANDATE_EXPIRY_MONTHS = 36;
+
+// Caratteri ammessi nell'identificativo del mandato: set SEPA senza spazi
+const MANDATE_REFERENCE = /^[A-Za-z0-9/\-?:().,'+]{1,35}$/;
+
+/** Codici motivo più frequenti degli insoluti e dei rifiuti SDD. */
+export const SDD_RETURN_REASONS: Record<string, string> = {
+  AC01: 'IBAN errato',
+  AC04: 'Conto estinto',
+  AC06: 'Conto bloccato',
+  AG01: 'Addebito non consentito sul conto',
+  AM04: 'Fondi insufficienti',
+  AM05: 'Addebito duplicato',
+  FF01: 'Formato non valido',
+  MD01: 'Mandato inesistente o revocato',
+  MD02: 'Dati del mandato mancanti o errati',
+  MD06: 'Rimborso richiesto dal debitore',
+  MD07: 'Debitore deceduto',
+  MS02: 'Rifiutato dal debitore',
+  MS03: 'Motivo non specificato',
+  SL01: 'Servizio della banca del debitore',
+};
+
+export const describeReturnReason = (code: string) => SDD_RETURN_REASONS[code] ? `${code} - ${SDD_RETURN_REASONS[code]}` : code || 'Motivo non indicato';
+
+export const isValidMandateReference = (value: string) => MANDATE_REFERENCE.test(value);
+
+/** Addebiti già eseguiti con il mandato: gli incassi insoluti vengono eliminati e non contano. */
+const getMandateIncomes = (mandate: SddMandate, incomes: Income[]) => incomes.filter(i => i.sddMandateId === mandate.id);
+
+/** Primo addebito (FRST) finché il mandato non ha un incasso andato a buon fine, poi ricorrente (RCUR). */
+export const getSequenceType = (mandate: SddMandate, incomes: Income[]): SddSequenceType =>
+  getMandateIncomes(mandate, incomes).length > 0 ? 'RCUR' : 'FRST';
+
+export const isMandateExpired = (mandate: SddMandate, incomes: Income[], date: string) => {
+  const lastUse = getMandateIncomes(mandate, incomes).reduce((latest, i) => i.date > latest ? i.date : latest, mandate.signatureDate);
+  return addMonths(lastUse, MANDATE_EXPIRY_MONTHS) < date;
+};
+
+export const isMandateActive = (mandate: SddMandate, date: string) =>
+  mandate.signatureDate <= date && (!mandate.revokedDate || mandate.revokedDate > date);
+
+// Addebito proposto per un mandato, con l'esito dei controlli
+export interface SddCollectionLine {
+  mandate: SddMandate;
+  unit: Unit;
+  amount: number;
+  installmentIds: string[];
+  sequence: SddSequenceType;
+  endToEndId: string;
+  remittance: string;
+  errors: string[];
+}
+
+/**
+ * Addebiti da disporre alla data di incasso: per ogni unità con un mandato attivo,
+ * il residuo delle rate scadute entro quella data. Se un'unità ha più mandati
+ * attivi vale il più recente.
+ */
+export const computeSddCollection = (
+  mandates: SddMandate[],
+  units: Unit[],
+  installments: Installment[],
+  incomes: Income[],
+  collectionDate: string,
+): SddCollectionLine[] => {
+  const latestByUnit = new Map<string, SddMandate>();
+  mandates
+    .filter(m => isMandateActive(m, collectionDate))
+    .forEach(m => {
+      const current = latestByUnit.get(m.unitId);
+      if (!current || m.signatureDate > current.signatureDate) latestByUnit.set(m.unitId, m);
+    });
+
+  return [...latestByUnit.values()].flatMap(mandate => {
+    const unit = units.find(u => u.id === mandate.unitId);
+    if (!unit) return [];
+    const receivable = computeUnitReceivable(unit.id, installments, incomes, collectionDate);
+    const due = receivable.installments.filter(s => s.remaining > 0 && s.installment.dueDate <= collectionDate);
+    const total = Math.round(due.reduce((sum, s) => sum + s.remaining, 0) * 100) / 100;
+    if (total <= 0) return [];
+
+    const errors: string[] = [];
+    if (!isValidIban(mandate.iban)) errors.push("IBAN del mandato non valido.");
+    if (isMandateExpired(mandate, incomes, collectionDate)) errors.push(`Mandato scaduto: non utilizzato da oltre ${MANDATE_EXPIRY_MONTHS} mesi.`);
+    if (!toSepaText(mandate.debtorName, MAX_NAME_LENGTH)) errors.push("Intestatario del conto mancante.");
+
+    const descriptions = due.map(s => s.installment.description).join(', ');
+    return [{
+      mandate,
+      unit,
+      amount: total,
+      installmentIds: due.map(s => s.installment.id),
+      sequence: getSequenceType(mandate, incomes),
+      endToEndId: toSepaId(generateId().replace(/-/g, '')),
+      remittance: toSepaText(`Quote condominiali ${unit.code}: ${descriptions}`, MAX_REMITTANCE_LENGTH),
+      errors,
+    }];
+  }).sort((a, b) => a.unit.code.localeCompare(b.unit.code, 'it', { numeric: true }));
+};
+
+export interface SddCreditor {
+  name: string;
+  iban: string;
+  creditorId: string;
+}
+
+export const checkCreditor = (creditor: SddCreditor): string[] => {
+  const errors: string[] = [];
+  if (!creditor.creditorId) errors.push("Inserisci l'identificativo creditore SEPA nelle impostazioni del condominio.");
+  else if (!isValidCreditorId(creditor.creditorId)) errors.push("L'identificativo creditore SEPA non è valido.");
+  if (!creditor.iban) errors.push("Il conto di accredito non ha un IBAN.");
+  else if (!isValidIban(creditor.iban)) errors.push("L'IBAN del conto di accredito non è valido.");
+  if (!toSepaText(creditor.name, MAX_NAME_LENGTH)) errors.push("Nome del creditore mancante.");
+  return errors;
+};
+
+const sum = (lines: SddCollectionLine[]) => formatSepaAmount(lines.reduce((total, l) => total + Math.round(l.amount * 100), 0) / 100);
+
+/**
+ * Distinta di addebiti diretti SEPA nel formato ISO 20022 pain.008.001.02.
+ * Un blocco di pagamento per ogni combinazione di schema (CORE/B2B) e tipo
+ * sequenza (FRST/RCUR), come richiesto dallo standard.
+ */
+export const createPain008 = (
+  creditor: SddCreditor,
+  collectionDate: string,
+  lines: SddCollectionLine[],
+  messageId = createMessageId('SDD'),
+  createdAt = new Date(),
+) => {
+  const creditorErrors = checkCreditor(creditor);
+  if (creditorErrors.length > 0) throw new Error(creditorErrors.join(' '));
+  if (lines.length === 0) throw new Error("Nessun addebito da inserire nella distinta.");
+  const invalid = lines.find(l => l.errors.length > 0);
+  if (invalid) throw new Error(`${invalid.unit.code}: ${invalid.errors.join(' ')}`);
+
+  const creditorName = toSepaText(creditor.name, MAX_NAME_LENGTH);
+  const groups = new Map<string, SddCollectionLine[]>();
+  lines.forEach(l => {
+    const key = `${l.mandate.scheme}-${l.sequence}`;
+    groups.set(key, [...(groups.get(key) || []), l]);
+  });
+
+  const paymentInfos = [...groups.entries()].map(([key, group], index) => [
+    '    <PmtInf>',
+    `      <PmtInfId>${toSepaId(`${messageId}-${index + 1}`)}</PmtInfId>`,
+    '      <PmtMtd>DD</PmtMtd>',
+    '      <BtchBookg>true</BtchBookg>',
+    `      <NbOfTxs>${group.length}</NbOfTxs>`,
+    `      <CtrlSum>${sum(group)}</CtrlSum>`,
+    '      <PmtTpInf>',
+    '        <SvcLvl>',
+    '          <Cd>SEPA</Cd>',
+    '        </SvcLvl>',
+    '        <LclInstrm>',
+    `          <Cd>${key.split('-')[0]}</Cd>`,
+    '        </LclInstrm>',
+    `        <SeqTp>${key.split('-')[1]}</SeqTp>`,
+    '      </PmtTpInf>',
+    `      <ReqdColltnDt>${collectionDate}</ReqdColltnDt>`,
+    '      <Cdtr>',
+    `        <Nm>${escapeXml(creditorName)}</Nm>`,
+    '      </Cdtr>',
+    '      <CdtrAcct>',
+    '        <Id>',
+    `          <IBAN>${normalizeCode(creditor.iban)}</IBAN>`,
+    '        </Id>',
+    '      </CdtrAcct>',
+    '      <CdtrAgt>',
+    '        <FinInstnId>',
+    '          <Othr>',
+    '            <Id>NOTPROVIDED</Id>',
+    '          </Othr>',
+    '        </FinInstnId>',
+    '      </CdtrAgt>',
+    '      <ChrgBr>SLEV</ChrgBr>',
+    '      <CdtrSchmeId>',
+    '        <Id>',
+    '          <PrvtId>',
+    '            <Othr>',
+    `              <Id>${normalizeCode(creditor.creditorId)}</Id>`,
+    '              <SchmeNm>',
+    '                <Prtry>SEPA</Prtry>',
+    '              </SchmeNm>',
+    '            </Othr>',
+    '          </PrvtId>',
+    '        </Id>',
+    '      </CdtrSchmeId>',
+    ...group.map(l => [
+      '      <DrctDbtTxInf>',
+      '        <PmtId>',
+      `          <EndToEndId>${l.endToEndId}</EndToEndId>`,
+      '        </PmtId>',
+      `        <InstdAmt Ccy="EUR">${formatSepaAmount(l.amount)}</InstdAmt>`,
+      '        <DrctDbtTx>',
+      '          <MndtRltdInf>',
+      `            <MndtId>${escapeXml(l.mandate.reference.slice(0, MAX_ID_LENGTH))}</MndtId>`,
+      `            <DtOfSgntr>${l.mandate.signatureDate}</DtOfSgntr>`,
+      '          </MndtRltdInf>',
+      '        </DrctDbtTx>',
+      '        <DbtrAgt>',
+      '          <FinInstnId>',
+      '            <Othr>',
+      '              <Id>NOTPROVIDED</Id>',
+      '            </Othr>',
+      '          </FinInstnId>',
+      '        </DbtrAgt>',
+      '        <Dbtr>',
+      `          <Nm>${escapeXml(toSepaText(l.mandate.debtorName, MAX_NAME_LENGTH))}</Nm>`,
+      '        </Dbtr>',
+      '        <DbtrAcct>',
+      '          <Id>',
+      `            <IBAN>${normalizeCode(l.mandate.iban)}</IBAN>`,
+      '          </Id>',
+      '        </DbtrAcct>',
+      '        <RmtInf>',
+      `          <Ustrd>${escapeXml(l.remittance)}</Ustrd>`,
+      '        </RmtInf>',
+      '      </DrctDbtTxInf>',
+    ].join('\n')),
+    '    </PmtInf>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.008.001.02" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <CstmrDrctDbtInitn>',
+    '    <GrpHdr>',
+    `      <MsgId>${messageId}</MsgId>`,
+    `      <CreDtTm>${createdAt.toISOString().slice(0, 19)}</CreDtTm>`,
+    `      <NbOfTxs>${lines.length}</NbOfTxs>`,
+    `      <CtrlSum>${sum(lines)}</CtrlSum>`,
+    '      <InitgPty>',
+    `        <Nm>${escapeXml(creditorName)}</Nm>`,
+    '      </InitgPty>',
+    '    </GrpHdr>',
+    ...paymentInfos,
+    '  </CstmrDrctDbtInitn>',
+    '</Document>',
+  ].join('\n');
+};
+
+/** Incassi attesi dalla distinta, registrati sul conto di accredito alla data di addebito. */
+export const createSddIncomes = (lines: SddCollectionLine[], account: BankAccount, collectionDate: string): Income[] =>
+  lines.map(l => ({
+    id: generateId(),
+    description: `Addebito SDD quote ${l.unit.code} (${l.mandate.debtorName})`,
+    amount: l.amount,
+    date: collectionDate,
+    category: IncomeCategory.QUOTE,
+    bankAccountId: account.id,
+    unitId: l.unit.id,
+    sddMandateId: l.mandate.id,
+    sddEndToEndId: l.endToEndId,
+  }));
+
+// Addebito respinto o stornato dalla banca del debitore (R-transaction)
+export interface SddReturn {
+  endToEndId: string;
+  amount?: number;
+  date?: string;
+  reason: string;
+}
+
+/**
+ * Legge gli insoluti da un esito pain.002 (addebiti rifiutati prima del regolamento)
+ * o da un estratto camt.053/camt.054 (storni e rimborsi con RtrInf).
+ */
+export const parseSddReturns = (xml: string): SddReturn[] => {
+  const root = parseXml(xml);
+  if (find(root, 'CstmrPmtStsRpt')) {
+    const date = text(root, 'GrpHdr', 'CreDtTm')?.slice(0, 10);
+    return findAll(root, 'TxInfAndSts')
+      .filter(tx => text(tx, 'TxSts') === 'RJCT' || !text(tx, 'TxSts'))
+      .map(tx => ({
+        endToEndId: text(tx, 'OrgnlEndToEndId') || '',
+        amount: amount(tx, 'OrgnlTxRef', 'Amt', 'InstdAmt'),
+        date,
+        reason: text(tx, 'StsRsnInf', 'Rsn', 'Cd') || '',
+      }))
+      .filter(r => r.endToEndId);
+  }
+  if (find(root, 'BkToCstmrStmt') || find(root, 'BkToCstmrDbtCdtNtfctn')) {
+    return findAll(root, 'Ntry').flatMap(entry => {
+      const date = text(entry, 'BookgDt')?.slice(0, 10);
+      return findAll(entry, 'TxDtls')
+        .filter(tx => find(tx, 'RtrInf'))
+        .map(tx => ({
+          endToEndId: text(tx, 'Refs', 'EndToEndId') || '',
+          amount: amount(tx, 'AmtDtls', 'Amt') ?? amount(tx, 'Amt') ?? amount(entry, 'Amt'),
+          date,
+          reason: text(tx, 'RtrInf', 'Rsn', 'Cd') || '',
+        }))
+        .filter(r => r.endToEndId && r.endToEndId !== 'NOTPROVIDED');
+    });
+  }
+  throw new Error("Il file non è un esito pain.002 né un estratto camt.053/camt.054.");
+};
+
+export interface MatchedSddReturn {
+  income: Income;
+  sddReturn: SddReturn;
+}
+
+/** Abbina gli insoluti agli incassi SDD tramite l'identificativo end-to-end dell'addebito. */
+export const matchSddReturns = (returns: SddReturn[], incomes: Income[]) => {
+  const byEndToEnd = new Map(incomes.filter(i => i.sddEndToEndId).map(i => [i.sddEndToEndId!, i]));
+  const matched: MatchedSddReturn[] = [];
+  const unmatched: SddReturn[] = [];
+  returns.forEach(r => {
+    const income = byEndToEnd.get(r.endToEndId);
+    if (income && !matched.some(m => m.income.id === income.id)) matched.push({ income, sddReturn: r });
+    else if (!income) unmatched.push(r);
+  });
+  return { matched, unmatched };
+};
@@ -0,0 +1,218 @@
+import { Expense, Supplier } from "../types";
+import { getNetToPay } from "./withholdingService";
+import { isValidIban, normalizeCode } from "./validationService";
+
+// Set di caratteri ammesso negli schemi SEPA (EPC): lettere latine senza accenti, cifre e / - ? : ( ) . , ' + spazio
+const SEPA_TEXT = /^[A-Za-z0-9/\-?:().,'+ ]*$/;
+
+const SEPA_SUBSTITUTIONS: Record<string, string> = {
+  '&': '+', 'ß': 'ss', 'Æ': 'AE', 'æ': 'ae', 'Ø': 'O', 'ø': 'o', '€': 'EUR', '’': "'", '‘': "'", '`': "'",
+  '"': "'", '“': "'", '”': "'", '°': '.', '–': '-', '—': '-', '_': '-', '\\': '/', '#': 'n.', ';': ',',
+};
+
+export const MAX_NAME_LENGTH = 70;
+export const MAX_REMITTANCE_LENGTH = 140;
+export const MAX_ID_LENGTH = 35;
+
+export const isSepaText = (value: string) => SEPA_TEXT.test(value);
+
+/**
+ * Adatta un testo al set di caratteri SEPA: toglie gli accenti, sostituisce i
+ * simboli più comuni e sostituisce con uno spazio tutto ciò che resta fuori set.
+ */
+export const toSepaText = (value: string, maxLength: number) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/./g, ch => SEPA_SUBSTITUTIONS[ch] ?? (isSepaText(ch) ? ch : ' '))
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+
+/** Identificativo SEPA (MsgId, EndToEndId, ...): solo lettere, cifre e trattini, al massimo 35 caratteri. */
+export const toSepaId = (value: string) => value.replace(/[^A-Za-z0-9-]/g, '').slice(0, MAX_ID_LENGTH);
+
+export const createMessageId = (prefix: string, now = new Date()) =>
+  toSepaId(`${prefix}-${now.toISOString().replace(/\D/g, '').slice(0, 14)}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`);
+
+export const escapeXml = (str: string) =>
+  str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const formatSepaAmount = (value: number) => value.toFixed(2);
+
+export interface SepaParty {
+  name: string;
+  iban: string;
+  fiscalCode?: string; // Codice fiscale del condominio, come identificativo dell'ordinante
+}
+
+// Bonifico proposto per una spesa, con l'esito dei controlli
+export interface CreditTransferCheck {
+  expense: Expense;
+  creditorName: string;
+  creditorIban: string;
+  amount: number;
+  remittance: string;
+  errors: string[];
+  warnings: string[];
+}
+
+const formatDate = (date: string) => date.split('-').reverse().join('/');
+
+/** Causale: numero e data della fattura se noti, altrimenti la descrizione della spesa. */
+const buildRemittance = (expense: Expense) => {
+  const invoice = expense.invoiceNumber ? `Fatt. ${expense.invoiceNumber} del ${formatDate(expense.date)}` : '';
+  return [invoice, expense.description].filter(Boolean).join(' - ');
+};
+
+/**
+ * Verifica che una spesa possa essere pagata con bonifico SEPA: beneficiario in
+ * anagrafe con IBAN valido e importo netto positivo. I testi fuori set di
+ * caratteri vengono adattati e segnalati come avvisi.
+ */
+export const checkCreditTransfer = (expense: Expense, supplier?: Supplier): CreditTransferCheck => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const amount = getNetToPay(expense);
+  if (expense.status === 'paid') errors.push('Spesa già pagata.');
+  if (amount <= 0) errors.push("Importo da pagare non positivo (nota di credito o ritenuta pari all'importo).");
+  if (!supplier) errors.push('Spesa senza fornitore in anagrafe.');
+  else if (!supplier.iban) errors.push(`Il fornitore "${supplier.name}" non ha un IBAN.`);
+  else if (!isValidIban(supplier.iban)) errors.push(`L'IBAN del fornitore "${supplier.name}" non è valido (cifre di controllo errate).`);
+
+  const rawName = supplier?.name || '';
+  const creditorName = toSepaText(rawName, MAX_NAME_LENGTH);
+  if (supplier && !creditorName) errors.push('Nome del beneficiario vuoto dopo l\'adattamento ai caratteri SEPA.');
+  else if (creditorName !== rawName.trim()) warnings.push(`Beneficiario trasmesso come "${creditorName}".`);
+
+  const rawRemittance = buildRemittance(expense);
+  const remittance = toSepaText(rawRemittance, MAX_REMITTANCE_LENGTH);
+  if (remittance !== rawRemittance.trim()) warnings.push(`Causale trasmessa come "${remittance}".`);
+
+  return {
+    expense,
+    creditorName,
+    creditorIban: supplier?.iban ? normalizeCode(supplier.iban) : '',
+    amount,
+    remittance,
+    errors,
+    warnings,
+  };
+};
+
+export const checkDebtor = (debtor: SepaParty): string[] => {
+  const errors: string[] = [];
+  if (!debtor.iban) errors.push("Il conto di addebito non ha un IBAN.");
+  else if (!isValidIban(debtor.iban)) errors.push("L'IBAN del conto di addebito non è valido.");
+  if (!toSepaText(debtor.name, MAX_NAME_LENGTH)) errors.push("Nome dell'ordinante mancante.");
+  return errors;
+};
+
+export const debtorIdXml = (fiscalCode: string | undefined, indent: string) => fiscalCode
+  ? [
+    `${indent}<Id>`,
+    `${indent}  <OrgId>`,
+    `${indent}    <Othr>`,
+    `${indent}      <Id>${escapeXml(toSepaId(normalizeCode(fiscalCode)))}</Id>`,
+    `${indent}      <Issr>ADE</Issr>`,
+    `${indent}    </Othr>`,
+    `${indent}  </OrgId>`,
+    `${indent}</Id>`,
+  ]
+  : [];
+
+/**
+ * Distinta di bonifici SEPA Credit Transfer nel formato ISO 20022 pain.001.001.03,
+ * con un unico blocco di pagamento alla data di esecuzione richiesta.
+ * I BIC non sono indicati: per i bonifici in area SEPA basta l'IBAN.
+ */
+export const createPain001 = (
+  debtor: SepaParty,
+  executionDate: string,
+  transfers: CreditTransferCheck[],
+  messageId = createMessageId('SCT'),
+  createdAt = new Date(),
+) => {
+  const debtorErrors = checkDebtor(debtor);
+  if (debtorErrors.length > 0) throw new Error(debtorErrors.join(' '));
+  if (transfers.length === 0) throw new Error("Nessun bonifico da inserire nella distinta.");
+  const invalid = transfers.find(t => t.errors.length > 0);
+  if (invalid) throw new Error(`${invalid.expense.description}: ${invalid.errors.join(' ')}`);
+
+  const total = transfers.reduce((sum, t) => sum + Math.round(t.amount * 100), 0) / 100;
+  const debtorName = toSepaText(debtor.name, MAX_NAME_LENGTH);
+
+  const texts = [debtorName, ...transfers.flatMap(t => [t.creditorName, t.remittance])];
+  if (!texts.every(isSepaText)) throw new Error("La distinta contiene caratteri non ammessi dallo standard SEPA.");
+
+  const transactions = transfers.map(t => [
+    '      <CdtTrfTxInf>',
+    '        <PmtId>',
+    `          <EndToEndId>${toSepaId(t.expense.id.replace(/-/g, '')) || 'NOTPROVIDED'}</EndToEndId>`,
+    '        </PmtId>',
+    '        <Amt>',
+    `          <InstdAmt Ccy="EUR">${formatSepaAmount(t.amount)}</InstdAmt>`,
+    '        </Amt>',
+    '        <Cdtr>',
+    `          <Nm>${escapeXml(t.creditorName)}</Nm>`,
+    '        </Cdtr>',
+    '        <CdtrAcct>',
+    '          <Id>',
+    `            <IBAN>${t.creditorIban}</IBAN>`,
+    '          </Id>',
+    '        </CdtrAcct>',
+    '        <RmtInf>',
+    `          <Ustrd>${escapeXml(t.remittance)}</Ustrd>`,
+    '        </RmtInf>',
+    '      </CdtTrfTxInf>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '  <CstmrCdtTrfInitn>',
+    '    <GrpHdr>',
+    `      <MsgId>${messageId}</MsgId>`,
+    `      <CreDtTm>${createdAt.toISOString().slice(0, 19)}</CreDtTm>`,
+    `      <NbOfTxs>${transfers.length}</NbOfTxs>`,
+    `      <CtrlSum>${formatSepaAmount(total)}</CtrlSum>`,
+    '      <InitgPty>',
+    `        <Nm>${escapeXml(debtorName)}</Nm>`,
+    ...debtorIdXml(debtor.fiscalCode, '        '),
+    '      </InitgPty>',
+    '    </GrpHdr>',
+    '    <PmtInf>',
+    `      <PmtInfId>${toSepaId(`${messageId}-1`)}</PmtInfId>`,
+    '      <PmtMtd>TRF</PmtMtd>',
+    '      <BtchBookg>true</BtchBookg>',
+    `      <NbOfTxs>${transfers.length}</NbOfTxs>`,
+    `      <CtrlSum>${formatSepaAmount(total)}</CtrlSum>`,
+    '      <PmtTpInf>',
+    '        <SvcLvl>',
+    '          <Cd>SEPA</Cd>',
+    '        </SvcLvl>',
+    '      </PmtTpInf>',
+    `      <ReqdExctnDt>${executionDate}</ReqdExctnDt>`,
+    '      <Dbtr>',
+    `        <Nm>${escapeXml(debtorName)}</Nm>`,
+    '      </Dbtr>',
+    '      <DbtrAcct>',
+    '        <Id>',
+    `          <IBAN>${normalizeCode(debtor.iban)}</IBAN>`,
+    '        </Id>',
+    '      </DbtrAcct>',
+    '      <DbtrAgt>',
+    '        <FinInstnId>',
+    '          <Othr>',
+    '            <Id>NOTPROVIDED</Id>',
+    '          </Othr>',
+    '        </FinInstnId>',
+    '      </DbtrAgt>',
+    '      <ChrgBr>SLEV</ChrgBr>',
+    transactions.join('\n'),
+    '    </PmtInf>',
+    '  </CstmrCdtTrfInitn>',
+    '</Document>',
+  ].join('\n');
+};
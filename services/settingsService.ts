@@ -0,0 +1,37 @@
+import { CondoSettings, InterestRate } from "../types";
+
+export const DEFAULT_SETTINGS: CondoSettings = {
+  fiscalYearStart: '01-01',
+  interestMode: 'legal',
+  customInterestRates: [],
+};
+
+const isValidMonthDay = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{2}-\d{2}$/.test(value)) return false;
+  const [month, day] = value.split('-').map(Number);
+  // Anno non bisestile: il 29 febbraio non è un inizio di esercizio valido
+  return month >= 1 && month <= 12 && day >= 1 && day <= new Date(Date.UTC(2001, month, 0)).getUTCDate();
+};
+
+const isValidInterestRate = (value: any): value is InterestRate =>
+  !!value && typeof value === 'object'
+  && typeof value.from === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.from)
+  && typeof value.rate === 'number' && Number.isFinite(value.rate) && value.rate >= 0;
+
+/**
+ * Completa le impostazioni lette dallo storage o da un backup con i valori predefiniti,
+ * scartando i campi non validi.
+ */
+export const normalizeSettings = (raw: unknown): CondoSettings => {
+  const value = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  return {
+    ...DEFAULT_SETTINGS,
+    fiscalCode: typeof value.fiscalCode === 'string' && value.fiscalCode ? value.fiscalCode : undefined,
+    sddCreditorId: typeof value.sddCreditorId === 'string' && value.sddCreditorId ? value.sddCreditorId : undefined,
+    fiscalYearStart: isValidMonthDay(value.fiscalYearStart) ? value.fiscalYearStart : DEFAULT_SETTINGS.fiscalYearStart,
+    interestMode: value.interestMode === 'custom' ? 'custom' : 'legal',
+    customInterestRates: Array.isArray(value.customInterestRates)
+      ? value.customInterestRates.filter(isValidInterestRate).sort((a, b) => a.from.localeCompare(b.from))
+      : [],
+  };
+};
@@ -0,0 +1,299 @@
+import { read, utils } from 'xlsx';
+import { BankStatementMapping, StatementDateFormat } from "../types";
+import { ParsedBankTransaction } from "./bankTransactionService";
+
+// Cella letta dal file: testo per i CSV, numero o testo (date già in YYYY-MM-DD) per i fogli Excel
+export type StatementCell = string | number;
+
+export interface StatementFile {
+  fileName: string;
+  text?: string; // Contenuto dei CSV, da rileggere se cambia il separatore
+  rows: StatementCell[][];
+}
+
+export interface StatementParseResult {
+  transactions: ParsedBankTransaction[];
+  skippedRows: number[]; // Righe (numerate da 1) senza data o importo validi, es. totali e note finali
+}
+
+export const CSV_DELIMITERS = [';', ',', '\t', '|'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isBlank = (cell: StatementCell | undefined) => cell === undefined || String(cell).trim() === '';
+
+// Gli export di molte banche sono ancora in Windows-1252: se il testo non è UTF-8 valido si ripiega su quella codifica
+const decodeText = (buffer: ArrayBuffer) => {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder('windows-1252').decode(buffer);
+  }
+  return text.replace(/^\uFEFF/, '');
+};
+
+/** Separatore più frequente e costante nelle prime righe non vuote. */
+export const detectDelimiter = (text: string) => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 20);
+  let best = ';';
+  let bestScore = 0;
+  CSV_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(l => parseCsvLine(l, delimiter).length - 1);
+    // Conta le righe che hanno tante colonne quante la riga più larga: le righe di intestazione della banca ne hanno meno
+    const max = Math.max(0, ...counts);
+    const score = max > 0 ? counts.filter(c => c === max).length * max : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const parseCsvLine = (line: string, delimiter: string) => parseCsv(line, delimiter)[0] || [];
+
+/** Lettura CSV con campi tra virgolette, virgolette raddoppiate e a capo dentro i campi. */
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows;
+};
+
+const toCell = (value: unknown): StatementCell => {
+  if (value instanceof Date) return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  if (typeof value === 'number') return value;
+  return String(value ?? '').trim();
+};
+
+/**
+ * Legge il file scaricato dall'home banking: CSV (qualsiasi separatore) oppure
+ * il primo foglio di un file xlsx/xls. Le righe vuote sono mantenute perché la
+ * numerazione mostrata corrisponda a quella del file.
+ */
+export const readStatementFile = async (file: File, delimiter?: string): Promise<StatementFile> => {
+  const buffer = await file.arrayBuffer();
+  if (/\.xlsx?$/i.test(file.name)) {
+    const workbook = read(buffer, { type: 'array', cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error("Il file non contiene fogli.");
+    const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: true, raw: true, defval: '' });
+    return { fileName: file.name, rows: rows.map(r => r.map(toCell)) };
+  }
+  const text = decodeText(buffer);
+  return { fileName: file.name, text, rows: parseCsv(text, delimiter || detectDelimiter(text)) };
+};
+
+/** Nomi delle colonne dalla riga di intestazione, resi univoci e mai vuoti. */
+export const getColumnNames = (rows: StatementCell[][], headerRow: number) => {
+  const header = rows[headerRow] || [];
+  const width = Math.max(header.length, ...rows.slice(headerRow + 1, headerRow + 50).map(r => r.length));
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, i) => {
+    const name = String(header[i] ?? '').trim() || `Colonna ${i + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+};
+
+/** Riga di intestazione probabile: la prima, tra le iniziali, con il maggior numero di celle compilate. */
+export const guessHeaderRow = (rows: StatementCell[][]) => {
+  const counts = rows.slice(0, 30).map(r => r.filter(c => !isBlank(c)).length);
+  const max = Math.max(0, ...counts);
+  return Math.max(0, counts.findIndex(c => c === max));
+};
+
+export const parseStatementDate = (cell: StatementCell | undefined, format: StatementDateFormat): string | null => {
+  if (cell === undefined) return null;
+  const value = String(cell).trim();
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : value.match(/^(\d{1,4})[/.\-](\d{1,2})[/.\-](\d{2,4})/)?.slice(1);
+  if (!parts) return null;
+  const [a, b, c] = parts.map(Number);
+  let [year, month, day] = iso || format === 'YMD' ? [a, b, c] : format === 'MDY' ? [c, a, b] : [c, b, a];
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Converte un importo nel formato della banca: separatore decimale indicato,
+ * separatori delle migliaia, simbolo di valuta, segno finale ("12,50-") o parentesi.
+ */
+export const parseStatementAmount = (cell: StatementCell | undefined, decimalSeparator: ',' | '.'): number | null => {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  if (cell === undefined) return null;
+  let value = cell.replace(/[€\s\u00A0]|EUR/gi, '');
+  if (!value) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith('-')) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+  const thousands = decimalSeparator === ',' ? /[.']/g : /[,']/g;
+  value = value.replace(thousands, '');
+  if (decimalSeparator === ',') value = value.replace(',', '.');
+  if (!/^[+-]?\d+(\.\d+)?$/.test(value)) return null;
+  const parsed = parseFloat(value);
+  return negative ? -Math.abs(parsed) : parsed;
+};
+
+/** Formato delle date più coerente con i valori di esempio. */
+export const guessDateFormat = (values: StatementCell[]): StatementDateFormat => {
+  const parts = values
+    .map(v => String(v).trim().match(/^(\d{1,4})[/.\-](\d{1,2})[/.\-](\d{2,4})/))
+    .filter((m): m is RegExpMatchArray => !!m);
+  if (parts.some(m => m[1].length === 4)) return 'YMD';
+  if (parts.some(m => Number(m[2]) > 12)) return 'MDY';
+  return 'DMY';
+};
+
+/** Separatore decimale: la virgola se gli importi di esempio terminano con ",dd". */
+export const guessDecimalSeparator = (values: StatementCell[]): ',' | '.' => {
+  const texts = values.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
+  if (texts.some(v => /,\d{1,2}-?\)?$/.test(v.trim()))) return ',';
+  if (texts.some(v => /\.\d{1,2}-?\)?$/.test(v.trim()))) return '.';
+  return ',';
+};
+
+const findColumn = (columns: string[], patterns: RegExp[]) => {
+  for (const pattern of patterns) {
+    const found = columns.find(c => pattern.test(c));
+    if (found) return found;
+  }
+  return undefined;
+};
+
+/** Mappatura proposta dai nomi delle colonne più diffusi negli export delle banche italiane. */
+export const guessMapping = (file: StatementFile): BankStatementMapping => {
+  const headerRow = guessHeaderRow(file.rows);
+  const columns = getColumnNames(file.rows, headerRow);
+  const sample = file.rows.slice(headerRow + 1, headerRow + 30);
+  const valuesOf = (column?: string) => column ? sample.map(r => r[columns.indexOf(column)]).filter(v => v !== undefined) : [];
+
+  const dateColumn = findColumn(columns, [/^data( contabile| operazione| registrazione)?$/i, /contabil|booking/i, /^data|date/i]) || columns[0];
+  const valueDateColumn = findColumn(columns.filter(c => c !== dateColumn), [/valuta|value/i]);
+  const amountColumn = findColumn(columns, [/^importo/i, /amount|betrag|importe|montant/i]);
+  const debitColumn = findColumn(columns, [/dare|addebit|uscit|debit/i]);
+  const creditColumn = findColumn(columns, [/avere|accredit|entrat|credit/i]);
+  const descriptionColumn = findColumn(columns, [/descrizione|causale|dettagl|description|beschreibung|concepto|libell/i]);
+  const counterpartyColumn = findColumn(columns, [/beneficiario|ordinante|controparte|counterpart|payee/i]);
+  const split = !amountColumn && !!debitColumn && !!creditColumn;
+
+  return {
+    delimiter: file.text !== undefined ? detectDelimiter(file.text) : undefined,
+    headerRow,
+    dateColumn,
+    valueDateColumn,
+    dateFormat: guessDateFormat(valuesOf(dateColumn)),
+    decimalSeparator: guessDecimalSeparator([...valuesOf(amountColumn), ...valuesOf(debitColumn), ...valuesOf(creditColumn)]),
+    amountMode: split ? 'split' : 'signed',
+    amountColumn: split ? undefined : amountColumn || columns[1],
+    debitColumn: split ? debitColumn : undefined,
+    creditColumn: split ? creditColumn : undefined,
+    descriptionColumns: descriptionColumn ? [descriptionColumn] : [],
+    counterpartyColumn,
+  };
+};
+
+/** Colonne indicate nella mappatura che non esistono nel file (es. la banca ha cambiato il tracciato). */
+export const getMissingColumns = (file: StatementFile, mapping: BankStatementMapping) => {
+  const columns = getColumnNames(file.rows, mapping.headerRow);
+  const used = [
+    mapping.dateColumn, mapping.valueDateColumn, mapping.amountColumn, mapping.debitColumn,
+    mapping.creditColumn, mapping.signColumn, mapping.counterpartyColumn, ...mapping.descriptionColumns,
+  ].filter((c): c is string => !!c);
+  return used.filter(c => !columns.includes(c));
+};
+
+const readAmount = (cell: (column?: string) => StatementCell | undefined, mapping: BankStatementMapping): number | null => {
+  switch (mapping.amountMode) {
+    case 'split': {
+      // Dare e avere in colonne distinte: alcune banche riportano il dare già negativo
+      const debit = parseStatementAmount(cell(mapping.debitColumn), mapping.decimalSeparator);
+      const credit = parseStatementAmount(cell(mapping.creditColumn), mapping.decimalSeparator);
+      if (debit === null && credit === null) return null;
+      return Math.abs(credit || 0) - Math.abs(debit || 0);
+    }
+    case 'indicator': {
+      const value = parseStatementAmount(cell(mapping.amountColumn), mapping.decimalSeparator);
+      if (value === null) return null;
+      const sign = String(cell(mapping.signColumn) ?? '').trim().toLowerCase();
+      const marker = (mapping.debitMarker || '').trim().toLowerCase();
+      return marker && sign === marker ? -Math.abs(value) : Math.abs(value);
+    }
+    default:
+      return parseStatementAmount(cell(mapping.amountColumn), mapping.decimalSeparator);
+  }
+};
+
+/** Applica la mappatura alle righe sotto l'intestazione. */
+export const parseStatementRows = (file: StatementFile, mapping: BankStatementMapping): StatementParseResult => {
+  const columns = getColumnNames(file.rows, mapping.headerRow);
+  const transactions: ParsedBankTransaction[] = [];
+  const skippedRows: number[] = [];
+
+  file.rows.forEach((row, index) => {
+    if (index <= mapping.headerRow || row.every(isBlank)) return;
+    const cell = (column?: string) => column && columns.includes(column) ? row[columns.indexOf(column)] : undefined;
+    const bookingDate = parseStatementDate(cell(mapping.dateColumn), mapping.dateFormat);
+    const amount = readAmount(cell, mapping);
+    if (!bookingDate || amount === null || amount === 0) {
+      skippedRows.push(index + 1);
+      return;
+    }
+    const description = mapping.descriptionColumns
+      .map(c => String(cell(c) ?? '').trim())
+      .filter(Boolean)
+      .join(' ');
+    const counterparty = String(cell(mapping.counterpartyColumn) ?? '').trim();
+    transactions.push({
+      bookingDate,
+      valueDate: parseStatementDate(cell(mapping.valueDateColumn), mapping.dateFormat) || undefined,
+      amount: Math.round(amount * 100) / 100,
+      counterparty: counterparty || undefined,
+      remittanceInfo: description || undefined,
+    });
+  });
+
+  return { transactions, skippedRows };
+};
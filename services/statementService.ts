@@ -0,0 +1,140 @@
+import { Expense, Income, Installment, InterestRate, MillesimiTable, Person, Unit } from "../types";
+import { round2 } from "../utils";
+import { computeUnitInterest } from "./interestService";
+import { getTableForCategory } from "./millesimiService";
+import { getQuotaIncomes } from "./quotaService";
+import { getOwnerNames, splitByMillesimi } from "./ripartoService";
+
+export interface StatementEntry {
+  date: string;
+  description: string;
+  debit: number;   // Rate addebitate
+  credit: number;  // Versamenti ricevuti
+  balance: number; // Saldo progressivo: positivo = debito del condomino
+}
+
+export interface StatementExpenseShare {
+  category: string;
+  tableName: string;
+  amount: number; // Quota dell'unità sulle spese del periodo
+}
+
+export interface UnitStatement {
+  unitId: string;
+  code: string;
+  owners: string;
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  expenseShares: StatementExpenseShare[];
+  totalExpenseShare: number;
+  interestAccrued: number;  // Interessi di mora maturati alla fine del periodo
+  interestToCharge: number; // Di cui non ancora addebitati come rata
+}
+
+export interface StatementSources {
+  installments: Installment[];
+  incomes: Income[];
+  expenses: Expense[];
+  persons: Person[];
+  tables: MillesimiTable[];
+  interestRates: InterestRate[];
+}
+
+/**
+ * Estratto conto di un'unità per il periodo [from, to]. Il saldo progressivo è
+ * costruito su rate e versamenti; le spese ripartite sono riportate a parte come
+ * quota di competenza, perché sono già coperte dalle rate del preventivo.
+ */
+export const computeUnitStatement = (unit: Unit, sources: StatementSources, from: string, to: string): UnitStatement => {
+  const unitInstallments = sources.installments.filter(r => r.unitId === unit.id);
+  const payments = getQuotaIncomes(sources.incomes, unit.id);
+
+  const openingBalance = round2(
+    unitInstallments.filter(r => r.dueDate < from).reduce((sum, r) => sum + r.amount, 0)
+    - payments.filter(i => i.date < from).reduce((sum, i) => sum + i.amount, 0)
+  );
+
+  const movements = [
+    ...unitInstallments
+      .filter(r => r.dueDate >= from && r.dueDate <= to)
+      .map(r => ({ date: r.dueDate, description: r.description, debit: r.amount, credit: 0 })),
+    ...payments
+      .filter(i => i.date >= from && i.date <= to)
+      .map(i => ({ date: i.date, description: i.description, debit: 0, credit: i.amount })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+  let balance = openingBalance;
+  const entries: StatementEntry[] = movements.map(m => {
+    balance = round2(balance + m.debit - m.credit);
+    return { ...m, balance };
+  });
+
+  const expenseTotals = new Map<string, number>();
+  sources.expenses
+    .filter(e => e.date >= from && e.date <= to)
+    .forEach(e => expenseTotals.set(e.category, (expenseTotals.get(e.category) || 0) + e.amount));
+
+  const expenseShares: StatementExpenseShare[] = [];
+  expenseTotals.forEach((amount, category) => {
+    const table = getTableForCategory(sources.tables, category);
+    if (!table) return;
+    const share = splitByMillesimi(amount, table.values)[unit.id] || 0;
+    if (share > 0) expenseShares.push({ category, tableName: table.name, amount: share });
+  });
+  expenseShares.sort((a, b) => a.category.localeCompare(b.category));
+
+  const interest = computeUnitInterest(unit.id, sources.installments, sources.incomes, sources.interestRates, to);
+
+  const totalDebit = round2(entries.reduce((sum, e) => sum + e.debit, 0));
+  const totalCredit = round2(entries.reduce((sum, e) => sum + e.credit, 0));
+
+  return {
+    unitId: unit.id,
+    code: unit.code,
+    owners: getOwnerNames(unit, sources.persons),
+    from,
+    to,
+    openingBalance,
+    entries,
+    totalDebit,
+    totalCredit,
+    closingBalance: round2(openingBalance + totalDebit - totalCredit),
+    expenseShares,
+    totalExpenseShare: round2(expenseShares.reduce((sum, s) => sum + s.amount, 0)),
+    interestAccrued: interest.accrued,
+    interestToCharge: interest.toCharge,
+  };
+};
+
+export interface OwnerStatementGroup {
+  person?: Person; // Assente per le unità senza proprietari registrati
+  units: Unit[];
+}
+
+/**
+ * Raggruppa le unità per proprietario, per produrre un estratto conto per persona:
+ * chi possiede più unità riceve un unico documento, le unità senza proprietari
+ * vengono raggruppate singolarmente.
+ */
+export const groupUnitsByOwner = (units: Unit[], persons: Person[]): OwnerStatementGroup[] => {
+  const sortedUnits = [...units].sort((a, b) => a.code.localeCompare(b.code, 'it', { numeric: true }));
+  const groups: OwnerStatementGroup[] = [];
+
+  [...persons]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(person => {
+      const owned = sortedUnits.filter(u => u.owners.some(o => o.personId === person.id));
+      if (owned.length > 0) groups.push({ person, units: owned });
+    });
+
+  sortedUnits
+    .filter(u => !u.owners.some(o => persons.some(p => p.id === o.personId)))
+    .forEach(u => groups.push({ units: [u] }));
+
+  return groups;
+};
@@ -0,0 +1,69 @@
+import { Expense, Supplier } from "../types";
+import { normalizeCode } from "./validationService";
+
+// Forme societarie ignorate nel confronto dei nomi ("ENEL SPA" = "Enel S.p.A." = "Enel")
+const LEGAL_FORMS = ['spa', 'srl', 'srls', 'sas', 'snc', 'sapa', 'scarl', 'scrl', 'soc coop', 'coop', 'societa cooperativa', 'ditta'];
+
+export const normalizeSupplierName = (name: string) => {
+  let normalized = name
+    .toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  LEGAL_FORMS.forEach(form => {
+    normalized = normalized.replace(new RegExp(`(^| )${form}( |$)`, 'g'), ' ').trim();
+  });
+  return normalized.replace(/\s+/g, ' ');
+};
+
+/** Identificativo fiscale del fornitore: codice fiscale se presente, altrimenti partita IVA. */
+export const getSupplierTaxId = (supplier: Supplier) => supplier.fiscalCode || supplier.vatNumber;
+
+export interface SupplierHint {
+  name?: string;
+  vatNumber?: string;
+}
+
+/**
+ * Cerca in anagrafe il fornitore indicato da un documento: prima per partita IVA
+ * o codice fiscale, poi per ragione sociale normalizzata; accetta anche il caso in
+ * cui un nome contenga interamente l'altro ("Enel" / "Enel Energia").
+ */
+export const findSupplierMatch = (suppliers: Supplier[], hint: SupplierHint): Supplier | undefined => {
+  const vat = hint.vatNumber ? normalizeCode(hint.vatNumber).replace(/^IT/, '') : '';
+  if (vat) {
+    const byCode = suppliers.find(s => s.vatNumber === vat || s.fiscalCode === vat);
+    if (byCode) return byCode;
+  }
+  const name = hint.name ? normalizeSupplierName(hint.name) : '';
+  if (!name) return undefined;
+  const exact = suppliers.find(s => normalizeSupplierName(s.name) === name);
+  if (exact) return exact;
+  return suppliers.find(s => {
+    const other = normalizeSupplierName(s.name);
+    return other.length >= 3 && (` ${name} `.includes(` ${other} `) || ` ${other} `.includes(` ${name} `));
+  });
+};
+
+export interface SupplierSpend {
+  supplierId: string;
+  total: number;
+  unpaid: number;
+  count: number;
+  lastDate?: string;
+}
+
+export const computeSupplierSpend = (suppliers: Supplier[], expenses: Expense[]): Record<string, SupplierSpend> => {
+  const result: Record<string, SupplierSpend> = {};
+  suppliers.forEach(s => { result[s.id] = { supplierId: s.id, total: 0, unpaid: 0, count: 0 }; });
+  expenses.forEach(e => {
+    const spend = e.supplierId ? result[e.supplierId] : undefined;
+    if (!spend) return;
+    spend.total = Math.round((spend.total + e.amount) * 100) / 100;
+    if (e.status === 'unpaid') spend.unpaid = Math.round((spend.unpaid + e.amount) * 100) / 100;
+    spend.count += 1;
+    if (!spend.lastDate || e.date > spend.lastDate) spend.lastDate = e.date;
+  });
+  return result;
+};
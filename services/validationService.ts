@@ -0,0 +1,116 @@
+// Controlli formali sui codici fiscali e bancari italiani
+
+export const normalizeCode = (value: string) => value.replace(/\s/g, '').toUpperCase();
+
+/** Partita IVA: 11 cifre, l'ultima è il carattere di controllo (algoritmo di Luhn). */
+export const isValidPartitaIva = (value: string): boolean => {
+  const code = normalizeCode(value);
+  if (!/^\d{11}$/.test(code)) return false;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    let digit = Number(code[i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(code[10]);
+};
+
+// Valori dei caratteri in posizione dispari (1a, 3a, ...) per il calcolo del carattere di controllo
+const CF_ODD: Record<string, number> = {
+  '0': 1, '1': 0, '2': 5, '3': 7, '4': 9, '5': 13, '6': 15, '7': 17, '8': 19, '9': 21,
+  A: 1, B: 0, C: 5, D: 7, E: 9, F: 13, G: 15, H: 17, I: 19, J: 21, K: 2, L: 4, M: 18,
+  N: 20, O: 11, P: 3, Q: 6, R: 8, S: 12, T: 14, U: 16, V: 10, W: 22, X: 25, Y: 24, Z: 23,
+};
+
+const cfEvenValue = (char: string) => (/\d/.test(char) ? Number(char) : char.charCodeAt(0) - 65);
+
+/**
+ * Codice fiscale di persona fisica (16 caratteri, con le sostituzioni per omocodia)
+ * oppure numerico di 11 cifre per società ed enti, verificato come una partita IVA.
+ */
+export const isValidCodiceFiscale = (value: string): boolean => {
+  const code = normalizeCode(value);
+  if (/^\d{11}$/.test(code)) return isValidPartitaIva(code);
+  if (!/^[A-Z]{6}[0-9LMNPQRSTUV]{2}[ABCDEHLMPRST][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]$/.test(code)) return false;
+  let sum = 0;
+  for (let i = 0; i < 15; i++) {
+    sum += i % 2 === 0 ? CF_ODD[code[i]] : cfEvenValue(code[i]);
+  }
+  return String.fromCharCode(65 + (sum % 26)) === code[15];
+};
+
+/** IBAN: struttura internazionale e cifre di controllo (mod 97); per l'Italia anche la lunghezza di 27 caratteri. */
+export const isValidIban = (value: string): boolean => {
+  const iban = normalizeCode(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  if (iban.startsWith('IT') && iban.length !== 27) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const d of digits) {
+      remainder = (remainder * 10 + Number(d)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+/**
+ * Identificativo creditore SEPA (es. IT66ZZZA1B2C3D4E5F6G7H8): le cifre di controllo
+ * si calcolano come per l'IBAN sull'identificativo nazionale, escluso il codice attività.
+ */
+export const isValidCreditorId = (value: string): boolean => {
+  const id = normalizeCode(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{3}[A-Z0-9]{1,28}$/.test(id)) return false;
+  const rearranged = id.slice(7) + id.slice(0, 2) + '00';
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const d of digits) {
+      remainder = (remainder * 10 + Number(d)) % 97;
+    }
+  }
+  return String(98 - remainder).padStart(2, '0') === id.slice(2, 4);
+};
+
+/** IBAN in gruppi di quattro caratteri, come stampato sui documenti bancari. */
+export const formatIban = (value: string) => normalizeCode(value).replace(/(.{4})/g, '$1 ').trim();
+
+// Lettere che sostituiscono le cifre nei codici fiscali omocodici (L=0 ... V=9)
+const OMOCODIA = 'LMNPQRSTUV';
+const CF_MONTHS = 'ABCDEHLMPRST';
+
+export interface FiscalCodeData {
+  sex: 'M' | 'F';
+  birthDate: string; // YYYY-MM-DD
+  birthPlaceCode: string; // Codice catastale del comune o dello Stato estero di nascita
+}
+
+/**
+ * Sesso, data e luogo di nascita ricavati da un codice fiscale di persona fisica.
+ * Il secolo non è nel codice: si assume il più recente che non porti a una data futura.
+ */
+export const decodeCodiceFiscale = (value: string, today = new Date()): FiscalCodeData | null => {
+  const code = normalizeCode(value);
+  if (code.length !== 16 || !isValidCodiceFiscale(code)) return null;
+  const chars = code.split('');
+  [6, 7, 9, 10, 12, 13, 14].forEach(i => {
+    const index = OMOCODIA.indexOf(chars[i]);
+    if (index >= 0) chars[i] = String(index);
+  });
+  const yy = Number(chars[6] + chars[7]);
+  const month = CF_MONTHS.indexOf(chars[8]) + 1;
+  const dayCode = Number(chars[9] + chars[10]);
+  const currentYY = today.getFullYear() % 100;
+  const century = Math.floor(today.getFullYear() / 100) * 100;
+  const year = yy > currentYY ? century - 100 + yy : century + yy;
+  const day = dayCode > 40 ? dayCode - 40 : dayCode;
+  return {
+    sex: dayCode > 40 ? 'F' : 'M',
+    birthDate: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    birthPlaceCode: chars.slice(11, 15).join(''),
+  };
+};
@@ -0,0 +1,81 @@
+import { Expense, ExpenseWithholding, Supplier, WithholdingTaxCode } from "../types";
+import { round2 } from "../utils";
+
+// Aliquota della ritenuta sui corrispettivi per appalti di opere e servizi (art. 25-ter DPR 600/73)
+export const WITHHOLDING_RATE = 4;
+
+export const WITHHOLDING_TAX_CODES: Record<WithholdingTaxCode, string> = {
+  '1019': "Ritenute 4% condominio - percipienti soggetti IRPEF",
+  '1020': "Ritenute 4% condominio - percipienti soggetti IRES",
+};
+
+export const createWithholding = (taxableAmount: number, taxCode: WithholdingTaxCode, rate = WITHHOLDING_RATE): ExpenseWithholding => ({
+  taxableAmount: round2(taxableAmount),
+  rate,
+  amount: round2(taxableAmount * rate / 100),
+  taxCode,
+});
+
+/** Importo da bonificare al fornitore: il lordo della fattura meno la ritenuta trattenuta. */
+export const getNetToPay = (expense: Expense) => round2(expense.amount - (expense.withholding?.amount || 0));
+
+/**
+ * Codice tributo proposto per un fornitore: 1019 per le persone fisiche (codice
+ * fiscale alfanumerico di 16 caratteri), 1020 per società ed enti.
+ */
+export const suggestTaxCode = (supplier?: Supplier): WithholdingTaxCode => {
+  if (supplier?.withholdingTaxCode) return supplier.withholdingTaxCode;
+  return supplier?.fiscalCode && supplier.fiscalCode.length === 16 ? '1019' : '1020';
+};
+
+const toIso = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/**
+ * Scadenza del versamento F24: il 16 del mese successivo al pagamento del fornitore,
+ * spostata al primo giorno lavorativo se cade di sabato o domenica. Le scadenze
+ * di agosto slittano al 20 (proroga estiva dei versamenti).
+ */
+export const getWithholdingDueDate = (paymentDate: string): string => {
+  const [year, month] = paymentDate.split('-').map(Number);
+  // month è 1-based: new Date(year, month, ...) è già il mese successivo
+  const due = new Date(year, month, 16);
+  if (due.getMonth() === 7) due.setDate(20);
+  while (due.getDay() === 0 || due.getDay() === 6) due.setDate(due.getDate() + 1);
+  return toIso(due);
+};
+
+/** Data da cui decorre l'obbligo di versamento: il pagamento del fornitore. */
+export const getWithholdingPaymentDate = (expense: Expense) => expense.paidDate || expense.date;
+
+export const isWithholdingPending = (expense: Expense) =>
+  !!expense.withholding && expense.status === 'paid' && !expense.withholding.paidDate;
+
+export interface WithholdingDeadline {
+  dueDate: string;
+  taxCode: WithholdingTaxCode;
+  period: string; // Mese di riferimento del pagamento (YYYY-MM)
+  expenses: Expense[];
+  total: number;
+  overdue: boolean;
+}
+
+/**
+ * Ritenute operate e non ancora versate, raggruppate per scadenza e codice tributo
+ * come andranno riportate nel modello F24. Le spese non ancora pagate al fornitore
+ * non generano scadenze: la ritenuta si opera al momento del pagamento.
+ */
+export const computeWithholdingDeadlines = (expenses: Expense[], today: string): WithholdingDeadline[] => {
+  const groups = new Map<string, WithholdingDeadline>();
+  expenses.filter(isWithholdingPending).forEach(e => {
+    const paymentDate = getWithholdingPaymentDate(e);
+    const dueDate = getWithholdingDueDate(paymentDate);
+    const taxCode = e.withholding!.taxCode;
+    const key = `${dueDate}|${taxCode}`;
+    const group = groups.get(key) || { dueDate, taxCode, period: paymentDate.slice(0, 7), expenses: [], total: 0, overdue: dueDate < today };
+    group.expenses.push(e);
+    group.total = round2(group.total + e.withholding!.amount);
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.taxCode.localeCompare(b.taxCode));
+};
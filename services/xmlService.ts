@@ -0,0 +1,38 @@
+// I tracciati XML di fatture e banche arrivano con prefissi di namespace diversi
+// (p:, ns2:, nessuno): gli elementi si cercano sempre per nome locale.
+
+export const parseXml = (xml: string): Element => {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const root = doc.documentElement;
+  if (!root || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("Il file XML non è leggibile.");
+  }
+  return root;
+};
+
+export const localName = (el: Element) => el.localName || el.nodeName.split(':').pop() || '';
+
+/** Discendenti con il nome locale indicato, in ordine di documento. */
+export const findAll = (parent: Element, name: string): Element[] =>
+  Array.from(parent.getElementsByTagName('*')).filter(el => localName(el) === name);
+
+/** Primo elemento lungo il percorso, cercando ogni passo tra i discendenti del precedente. */
+export const find = (parent: Element | undefined, ...path: string[]): Element | undefined => {
+  let current = parent;
+  for (const name of path) {
+    current = current ? findAll(current, name)[0] : undefined;
+  }
+  return current;
+};
+
+export const text = (parent: Element | undefined, ...path: string[]): string | undefined => {
+  const value = find(parent, ...path)?.textContent?.trim();
+  return value || undefined;
+};
+
+export const amount = (parent: Element | undefined, ...path: string[]): number | undefined => {
+  const value = text(parent, ...path);
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
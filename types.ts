@@ -4,7 +4,75 @@ export interface BankAccount {
   id: string;
   name: string;
   initialBalance: number;
+  initialBalanceDate?: string; // Data a cui si riferisce il saldo iniziale (YYYY-MM-DD): i movimenti precedenti vi sono già compresi
   iban: string;
+  statementBalance?: number; // Saldo contabile di chiusura dell'ultimo estratto conto importato
+  statementDate?: string; // Data di quel saldo (YYYY-MM-DD)
+  statementMapping?: BankStatementMapping; // Tracciato degli estratti CSV/Excel di questo conto, riusato alle importazioni successive
+}
+
+// Giroconto tra due conti del condominio: sposta liquidità senza essere né spesa né incasso
+export interface BankTransfer {
+  id: string;
+  date: string; // Data dell'operazione (YYYY-MM-DD)
+  amount: number; // Sempre positivo
+  fromAccountId: string; // Conto di addebito
+  toAccountId: string; // Conto di accredito
+  description?: string;
+}
+
+export type StatementDateFormat = 'DMY' | 'MDY' | 'YMD';
+
+// Corrispondenza tra le colonne di un estratto conto CSV/Excel e i campi del movimento
+export interface BankStatementMapping {
+  delimiter?: string; // Solo per i CSV
+  headerRow: number; // Indice (da 0) della riga di intestazione
+  dateColumn: string;
+  valueDateColumn?: string;
+  dateFormat: StatementDateFormat;
+  decimalSeparator: ',' | '.';
+  // signed: un importo con segno; split: colonne dare e avere; indicator: importo più colonna segno
+  amountMode: 'signed' | 'split' | 'indicator';
+  amountColumn?: string;
+  debitColumn?: string;
+  creditColumn?: string;
+  signColumn?: string;
+  debitMarker?: string; // Valore della colonna segno che indica un addebito (es. "D", "Dare", "-")
+  descriptionColumns: string[];
+  counterpartyColumn?: string;
+}
+
+// Movimento registrato dalla banca, importato da estratto conto
+export interface BankTransaction {
+  id: string;
+  bankAccountId: string;
+  bookingDate: string; // Data contabile (YYYY-MM-DD)
+  valueDate?: string; // Data valuta
+  amount: number; // Positivo per gli accrediti, negativo per gli addebiti
+  counterparty?: string; // Ordinante degli accrediti o beneficiario degli addebiti
+  counterpartyIban?: string;
+  remittanceInfo?: string; // Causale
+  reference?: string; // Riferimento univoco della banca (AcctSvcrRef) o end-to-end
+  statementId?: string; // Identificativo dell'estratto conto di provenienza
+  importedAt: string; // Data e ora dell'importazione (ISO 8601)
+}
+
+export type ReconciledRecordType = 'expense' | 'income' | 'f24' | 'transfer';
+
+// Registrazione contabile abbinata ai movimenti della banca
+export interface ReconciledRecord {
+  type: ReconciledRecordType;
+  id: string;
+}
+
+// Abbinamento confermato tra movimenti dell'estratto conto e registrazioni: uno-a-uno,
+// uno-a-molti (un bonifico cumulativo per più fatture) o molti-a-uno; gli importi coincidono
+export interface BankReconciliation {
+  id: string;
+  bankAccountId: string;
+  transactionIds: string[];
+  records: ReconciledRecord[];
+  confirmedAt: string; // Data e ora della conferma (ISO 8601)
 }
 
 export interface Expense {
@@ -17,6 +85,30 @@ export interface Expense {
   // FIX: Added bankAccountId to allow associating expenses with a bank account
   bankAccountId?: string;
   status: 'paid' | 'unpaid';
+  paidDate?: string; // Data del pagamento al fornitore (YYYY-MM-DD)
+  supplierId?: string; // Fornitore in anagrafe
+  supplierFiscalCode?: string; // Codice fiscale o partita IVA del fornitore alla data della spesa
+  withholding?: ExpenseWithholding; // Ritenuta d'acconto operata dal condominio
+  invoiceNumber?: string; // Numero della fattura del fornitore
+  dueDate?: string; // Scadenza del pagamento indicata in fattura (YYYY-MM-DD)
+  signatures?: DigitalSignature[]; // Firme digitali del file .p7m da cui è stata importata
+}
+
+export interface DigitalSignature {
+  subject: string; // Soggetto del certificato del firmatario (CN, numero di serie, organizzazione)
+  signingTime?: string; // Data e ora della firma (ISO 8601), se dichiarata
+  verification: 'valid' | 'invalid' | 'unverified'; // Esito rispetto al certificato incluso nella busta
+}
+
+// Codici tributo F24 per le ritenute 4% del condominio: 1019 percipienti IRPEF, 1020 percipienti IRES
+export type WithholdingTaxCode = '1019' | '1020';
+
+export interface ExpenseWithholding {
+  taxableAmount: number; // Imponibile su cui si calcola la ritenuta
+  rate: number; // Aliquota in percentuale (4)
+  amount: number; // Ritenuta trattenuta al fornitore
+  taxCode: WithholdingTaxCode;
+  paidDate?: string; // Data di versamento con F24
 }
 
 export interface Income {
@@ -27,6 +119,25 @@ export interface Income {
   category: string;
   // FIX: Added bankAccountId to allow associating incomes with a bank account
   bankAccountId?: string;
+  unitId?: string; // Unità a cui imputare il versamento (quote condominiali)
+  sddMandateId?: string; // Mandato SDD con cui è stato addebitato il versamento
+  sddEndToEndId?: string; // Identificativo dell'addebito nella distinta pain.008, per riconoscere gli insoluti
+}
+
+export type SddScheme = 'CORE' | 'B2B';
+
+// Mandato di addebito diretto SEPA sottoscritto da un condòmino per le quote di un'unità
+export interface SddMandate {
+  id: string;
+  reference: string; // Identificativo univoco del mandato (UMR), max 35 caratteri
+  unitId: string;
+  personId: string;
+  debtorName: string; // Intestatario del conto addebitato
+  iban: string;
+  signatureDate: string; // Data di sottoscrizione (YYYY-MM-DD)
+  scheme: SddScheme; // CORE per i consumatori, B2B per le imprese
+  revokedDate?: string; // Data di revoca: il mandato non è più utilizzabile
+  lastReturn?: { date: string; reason: string }; // Ultimo addebito insoluto, con il codice motivo
 }
 
 export interface Attachment {
@@ -55,4 +166,181 @@ export enum IncomeCategory {
   PULIZIA_GIARDINO = 'Spese Pulizia Giardino',
   QUOTA_AQP = 'Quota AQP',
   ALTRO = 'Altro',
-}
\ No newline at end of file
+}
+
+export enum UnitType {
+  APPARTAMENTO = 'Appartamento',
+  NEGOZIO = 'Negozio',
+  UFFICIO = 'Ufficio',
+  BOX = 'Box/Garage',
+  CANTINA = 'Cantina',
+  ALTRO = 'Altro',
+}
+
+// Dati catastali dell'unità immobiliare (art. 1130 c.c., registro di anagrafe condominiale)
+export interface CadastralData {
+  sezione?: string;
+  foglio: string;
+  particella: string;
+  subalterno: string;
+  categoria?: string; // es. A/2, C/6
+  classe?: string;
+  rendita?: number;
+}
+
+export type OwnershipRight = 'proprieta' | 'nuda_proprieta' | 'usufrutto';
+
+export interface UnitOwner {
+  personId: string;
+  right: OwnershipRight;
+  share: number; // Quota di possesso in percentuale (es. 50)
+}
+
+export interface UnitTenant {
+  personId: string;
+  startDate?: string; // ISO string YYYY-MM-DD
+  endDate?: string;
+}
+
+export interface Unit {
+  id: string;
+  code: string; // Identificativo interno (es. "A3", "Box 2")
+  type: UnitType;
+  staircase?: string;
+  floor?: string;
+  cadastral: CadastralData;
+  owners: UnitOwner[];
+  tenants: UnitTenant[];
+  notes?: string;
+}
+
+export interface Person {
+  id: string;
+  name: string; // Nome e cognome o ragione sociale
+  fiscalCode?: string;
+  address?: string; // Residenza o domicilio
+  email?: string;
+  pec?: string;
+  phone?: string;
+  notes?: string;
+}
+
+// Tabella millesimale (es. proprietà generale, scale, ascensore, acqua)
+export interface MillesimiTable {
+  id: string;
+  name: string;
+  description?: string;
+  values: Record<string, number>; // unitId -> millesimi, il totale deve essere 1000
+  categories: ExpenseCategory[]; // Categorie di spesa ripartite con questa tabella
+  isDefault?: boolean; // Usata per le categorie non assegnate ad alcuna tabella
+}
+
+// Preventivo approvato dall'assemblea per un esercizio
+export interface Budget {
+  id: string;
+  year: number; // Anno di inizio dell'esercizio
+  items: Record<string, number>; // ExpenseCategory -> importo preventivato
+  warningThreshold: number; // Percentuale di consumo oltre la quale segnalare la categoria
+  approvalDate?: string; // Data della delibera assembleare
+  notes?: string;
+}
+
+// Rata del piano di riparto: quanto un'unità deve versare entro una scadenza
+export interface Installment {
+  id: string;
+  unitId: string;
+  fiscalYear: number; // Anno di inizio dell'esercizio
+  dueDate: string; // ISO string YYYY-MM-DD
+  amount: number;
+  description: string;
+  budgetId?: string; // Preventivo da cui è stata generata
+  kind?: InstallmentKind; // Assente per le rate ordinarie
+}
+
+export type InstallmentKind = 'quota' | 'interest'; // Rata ordinaria o addebito di interessi di mora
+
+// Fornitore del condominio
+export interface Supplier {
+  id: string;
+  name: string; // Ragione sociale
+  vatNumber?: string; // Partita IVA
+  fiscalCode?: string;
+  iban?: string;
+  address?: string;
+  email?: string;
+  pec?: string;
+  phone?: string;
+  defaultCategory?: ExpenseCategory; // Proposta alla registrazione di una nuova spesa
+  defaultBankAccountId?: string;
+  withholdingTaxCode?: WithholdingTaxCode; // Presente se il fornitore è soggetto a ritenuta d'acconto
+  notes?: string;
+}
+
+export type ReminderLevel = 'first' | 'formal'; // Primo sollecito, diffida e messa in mora
+
+// Lettera di sollecito inviata a un condomino moroso
+export interface ReminderLetter {
+  id: string;
+  unitId: string;
+  personId?: string; // Destinatario; assente se l'unità non ha proprietari registrati
+  level: ReminderLevel;
+  date: string; // ISO string YYYY-MM-DD
+  amount: number; // Importo scaduto richiesto
+  deadline: string; // Termine di pagamento indicato nella lettera
+  notes?: string;
+}
+
+// Riga della sezione Erario di un modello F24
+export interface F24Line {
+  taxCode: string; // Codice tributo, es. 1019 / 1020
+  referenceMonth?: number; // Mese di riferimento (1-12), per le ritenute
+  referenceYear: number;
+  amount: number; // Importo a debito versato
+}
+
+// Modello F24 versato dal condominio
+export interface F24Payment {
+  id: string;
+  date: string; // Data di versamento (YYYY-MM-DD)
+  bankAccountId: string; // Conto di addebito
+  lines: F24Line[];
+  expenseIds: string[]; // Spese di cui il modello versa le ritenute
+  notes?: string;
+}
+
+// Tasso di interesse annuo (%) in vigore a partire da una data
+export interface InterestRate {
+  from: string; // ISO string YYYY-MM-DD
+  rate: number;
+}
+
+// Interessi di mora: tasso legale o tasso fissato dal regolamento di condominio
+export type InterestMode = 'legal' | 'custom';
+
+// Impostazioni del singolo condominio (salvate a parte rispetto alle collezioni di CondoData)
+export interface CondoSettings {
+  fiscalCode?: string; // Codice fiscale del condominio, riportato su F24 e dichiarazioni
+  sddCreditorId?: string; // Identificativo creditore SEPA (CI) per gli addebiti diretti
+  fiscalYearStart: string; // Inizio dell'esercizio nel formato MM-DD, es. "10-01"
+  interestMode: InterestMode;
+  customInterestRates: InterestRate[]; // Usati solo con interestMode 'custom'
+}
+
+// Insieme dei dati persistiti per un singolo condominio (usato da backup e ripristino)
+export interface CondoData {
+  expenses: Expense[];
+  incomes: Income[];
+  bankAccounts: BankAccount[];
+  units: Unit[];
+  persons: Person[];
+  millesimiTables: MillesimiTable[];
+  budgets: Budget[];
+  installments: Installment[];
+  reminders: ReminderLetter[];
+  suppliers: Supplier[];
+  f24Payments: F24Payment[];
+  bankTransactions: BankTransaction[];
+  bankReconciliations: BankReconciliation[];
+  sddMandates: SddMandate[];
+  bankTransfers: BankTransfer[];
+}
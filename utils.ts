@@ -7,3 +7,22 @@ export const generateId = (): string => {
   // Fallback for older browsers or non-secure contexts (http)
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
+
+// Round an amount to the cent
+export const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Calendar days between two ISO dates (negative when `to` precedes `from`)
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+
+// Save a generated file through a temporary link, releasing the object URL afterwards
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};